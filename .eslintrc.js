@@ -18,6 +18,8 @@ module.exports = {
     '@typescript-eslint/explicit-function-return-type': 'off', // Allow inferred returns
     '@typescript-eslint/no-explicit-any': 'off', // Allow any in tests
     'no-unused-vars': 'off', // Turn off base rule as it can report incorrect errors
+    'no-dupe-class-members': 'off', // Base rule reports TypeScript method overloads as duplicates
+    '@typescript-eslint/no-dupe-class-members': 'error',
   },
   env: {
     node: true,
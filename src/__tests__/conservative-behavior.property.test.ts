@@ -246,7 +246,8 @@ describe('Conservative Behavior Property Tests', () => {
                 executionTime: 100,
                 auditLog: [],
                 version: '1.0.0'
-              }
+              },
+              { subjects: messageGenerator.generateSubjectLines(strategy, hypothesis, prospectData) }
             );
             
             if (confidence === ConfidenceLevel.LOW) {
@@ -17,7 +17,9 @@ import {
   SignalType,
   CompanySize,
   ConfidenceLevel,
-  FollowUpTiming
+  FollowUpTiming,
+  OutreachChannel,
+  BatchResult
 } from '../index';
 
 describe('Integration Tests - End-to-End Workflow', () => {
@@ -88,6 +90,15 @@ describe('Integration Tests - End-to-End Workflow', () => {
         expect(output.alternativeMessages).toHaveLength(2);
         expect(output.alternativeMessages[0]).not.toBe(output.alternativeMessages[1]);
         expect(output.alternativeMessages[0]).not.toBe(output.recommendedMessage);
+
+        // Verify subject lines, one per message variant
+        const subjects = [output.recommendedSubject || '', ...(output.alternativeSubjects || [])];
+        expect(output.alternativeSubjects).toHaveLength(2);
+        expect(new Set(subjects).size).toBe(3);
+        subjects.forEach(subject => {
+          expect(subject.length).toBeGreaterThan(0);
+          expect(subject.length).toBeLessThanOrEqual(60);
+        });
         
         // Verify reasoning summary (allow up to 3 sentences due to uncertainty acknowledgment)
         expect(output.reasoningSummary).toBeTruthy();
@@ -483,6 +494,33 @@ describe('Integration Tests - End-to-End Workflow', () => {
       expect(config.processingTimeout).toBe(45000);
     });
 
+    test('should apply custom buzzwords and lexicon changes without recreating the agent', async () => {
+      const prospect = AgentUtils.createProspectData(
+        'Sarah Chen',
+        'sarah.chen@techstartup.com',
+        'VP of Engineering',
+        'TechStartup Inc',
+        'Software Development',
+        CompanySize.STARTUP
+      );
+      const signals = [
+        AgentUtils.createIntentSignal(SignalType.FUNDING_EVENT, 'Raised $15M Series A funding to scale engineering', 0.95, 'TechCrunch', 3),
+        AgentUtils.createIntentSignal(SignalType.COMPANY_GROWTH, 'Posted 12 new engineering positions on LinkedIn', 0.9, 'LinkedIn Jobs', 1)
+      ];
+      const recommendedMessage = async (target: IntentDrivenOutreachAgent) =>
+        (await target.processOutreachRequest(prospect, signals) as StructuredOutput).recommendedMessage;
+
+      const configuredAgent = new IntentDrivenOutreachAgent({ customBuzzwords: ['momentum'] });
+      expect(await recommendedMessage(agent)).toContain('growth momentum');
+      expect(await recommendedMessage(configuredAgent)).not.toContain('momentum');
+
+      configuredAgent.updateConfig({ customBuzzwords: [] });
+      expect(await recommendedMessage(configuredAgent)).toContain('growth momentum');
+
+      configuredAgent.getLexicon().addTerm('momentum', 'buzzword', 'progress');
+      expect(await recommendedMessage(configuredAgent)).toContain('growth progress');
+    });
+
     test('should report healthy status', () => {
       // Act
       const health = agent.getHealthStatus();
@@ -516,6 +554,283 @@ describe('Integration Tests - End-to-End Workflow', () => {
       expect(validation.isValid).toBe(true);
       expect(validation.errors).toHaveLength(0);
     });
+
+    test('should apply configured and per-request sender profiles', async () => {
+      // Arrange: Agent with a default sender profile
+      const profiledAgent = new IntentDrivenOutreachAgent({
+        senderProfile: {
+          senderName: 'Maya Brooks',
+          senderTitle: 'Account Executive',
+          companyName: 'Buildwise',
+          productOneLiner: 'help engineering teams onboard new hires faster',
+        },
+      });
+
+      const prospect = AgentUtils.createProspectData(
+        'Sarah Chen',
+        'sarah.chen@techstartup.com',
+        'VP of Engineering',
+        'TechStartup Inc',
+        'Software Development',
+        CompanySize.STARTUP
+      );
+
+      const signals = [
+        AgentUtils.createIntentSignal(SignalType.FUNDING_EVENT, 'Raised $15M Series A funding to scale engineering', 0.95, 'TechCrunch', 3),
+        AgentUtils.createIntentSignal(SignalType.COMPANY_GROWTH, 'Posted 12 new engineering positions on LinkedIn', 0.9, 'LinkedIn Jobs', 1)
+      ];
+
+      // Act
+      const defaultResult = await profiledAgent.processOutreachRequest(prospect, signals);
+      const overrideResult = await profiledAgent.processOutreachRequest(prospect, signals, {
+        senderProfile: {
+          senderName: 'Tom Alvarez',
+          companyName: 'Ledgerly',
+          productOneLiner: 'automate month-end close for finance teams',
+        },
+      });
+
+      // Assert: Recommended and alternative messages carry the sender profile
+      expect('code' in defaultResult).toBe(false);
+      expect('code' in overrideResult).toBe(false);
+
+      const defaultOutput = defaultResult as StructuredOutput;
+      [defaultOutput.recommendedMessage, ...defaultOutput.alternativeMessages].forEach(message => {
+        expect(message).toContain('At Buildwise, we help engineering teams onboard new hires faster.');
+        expect(message).toContain('Maya Brooks');
+      });
+
+      const overrideOutput = overrideResult as StructuredOutput;
+      expect(overrideOutput.recommendedMessage).toContain('Ledgerly');
+      expect(overrideOutput.recommendedMessage).not.toContain('Buildwise');
+    });
+
+    test('should still accept the sender profile as the positional third argument', async () => {
+      const prospect = AgentUtils.createProspectData(
+        'Sarah Chen',
+        'sarah.chen@techstartup.com',
+        'VP of Engineering',
+        'TechStartup Inc',
+        'Software Development',
+        CompanySize.STARTUP
+      );
+      const signals = [
+        AgentUtils.createIntentSignal(SignalType.FUNDING_EVENT, 'Raised $15M Series A funding to scale engineering', 0.95, 'TechCrunch', 3),
+        AgentUtils.createIntentSignal(SignalType.COMPANY_GROWTH, 'Posted 12 new engineering positions on LinkedIn', 0.9, 'LinkedIn Jobs', 1)
+      ];
+      const senderProfile = {
+        senderName: 'Tom Alvarez',
+        companyName: 'Ledgerly',
+        productOneLiner: 'automate month-end close for finance teams',
+      };
+
+      const positional = await agent.processOutreachRequest(prospect, signals, senderProfile);
+      const withOptions = await agent.processOutreachRequest(prospect, signals, { senderProfile });
+
+      expect('code' in positional).toBe(false);
+      expect((positional as StructuredOutput).recommendedMessage).toContain('Ledgerly');
+      expect((positional as StructuredOutput).recommendedMessage).toBe((withOptions as StructuredOutput).recommendedMessage);
+    });
+
+    test('should treat a null third argument as no options', async () => {
+      const prospect = AgentUtils.createProspectData(
+        'Sarah Chen',
+        'sarah.chen@techstartup.com',
+        'VP of Engineering',
+        'TechStartup Inc',
+        'Software Development',
+        CompanySize.STARTUP
+      );
+      const signals = [
+        AgentUtils.createIntentSignal(SignalType.FUNDING_EVENT, 'Raised $15M Series A funding to scale engineering', 0.95, 'TechCrunch', 3),
+        AgentUtils.createIntentSignal(SignalType.COMPANY_GROWTH, 'Posted 12 new engineering positions on LinkedIn', 0.9, 'LinkedIn Jobs', 1)
+      ];
+
+      const withNull = await agent.processOutreachRequest(prospect, signals, null as any);
+      const invalid = await agent.processOutreachRequest({} as ProspectData, signals, null as any);
+
+      expect('code' in withNull).toBe(false);
+      expect(invalid).toMatchObject({ code: 'VALIDATION_FAILED' });
+    });
+  });
+
+  describe('Follow-up Sequence Integration', () => {
+    test('should return a follow-up sequence only when requested', async () => {
+      const prospect = AgentUtils.createProspectData(
+        'Sarah Chen',
+        'sarah.chen@techstartup.com',
+        'VP of Engineering',
+        'TechStartup Inc',
+        'Software Development',
+        CompanySize.STARTUP
+      );
+
+      const signals = [
+        AgentUtils.createIntentSignal(SignalType.FUNDING_EVENT, 'Raised $15M Series A funding to scale engineering', 0.95, 'TechCrunch', 3),
+        AgentUtils.createIntentSignal(SignalType.COMPANY_GROWTH, 'Posted 12 new engineering positions on LinkedIn', 0.9, 'LinkedIn Jobs', 1),
+        AgentUtils.createIntentSignal(SignalType.TECHNOLOGY_ADOPTION, 'Migrating services to Kubernetes', 0.85, 'Engineering blog', 5)
+      ];
+
+      const plainResult = await agent.processOutreachRequest(prospect, signals);
+      const sequenceResult = await agent.processOutreachRequest(prospect, signals, { sequence: { maxTouches: 3 } });
+
+      expect('code' in plainResult).toBe(false);
+      expect('code' in sequenceResult).toBe(false);
+      expect((plainResult as StructuredOutput).followUpSequence).toBeUndefined();
+
+      const output = sequenceResult as StructuredOutput;
+      const sequence = output.followUpSequence || [];
+      expect(sequence.length).toBeGreaterThan(0);
+      expect(sequence.map(touch => touch.touchNumber)).toEqual(sequence.map((_, index) => index + 1));
+      expect(output.processingMetadata.workflowSteps).toContain('sequence_generation');
+
+      // The primary signal drives the initial message; touches use the remaining evidence
+      sequence.forEach(touch => {
+        expect(touch.angle).not.toContain('Raised $15M Series A');
+        expect(touch.message).toMatch(/^Hi Sarah,/);
+      });
+    });
+  });
+
+  describe('Channel Integration', () => {
+    const signals = () => [
+      AgentUtils.createIntentSignal(SignalType.FUNDING_EVENT, 'Raised $15M Series A funding to scale engineering', 0.95, 'TechCrunch', 3),
+      AgentUtils.createIntentSignal(SignalType.COMPANY_GROWTH, 'Posted 12 new engineering positions on LinkedIn', 0.9, 'LinkedIn Jobs', 1)
+    ];
+
+    test('should produce connection notes without subjects and SMS with an opt-out footer', async () => {
+      const baseProspect = AgentUtils.createProspectData(
+        'Sarah Chen',
+        'sarah.chen@techstartup.com',
+        'VP of Engineering',
+        'TechStartup Inc',
+        'Software Development',
+        CompanySize.STARTUP
+      );
+      const prospect: ProspectData = {
+        ...baseProspect,
+        contactDetails: {
+          ...baseProspect.contactDetails,
+          linkedinUrl: 'https://www.linkedin.com/in/sarahchen',
+          phoneNumber: '+1 555 010 2030',
+        },
+      };
+
+      const noteResult = await agent.processOutreachRequest(prospect, signals(), {
+        channel: OutreachChannel.LINKEDIN_CONNECTION,
+      });
+      const smsResult = await agent.processOutreachRequest(prospect, signals(), { channel: OutreachChannel.SMS });
+
+      expect('code' in noteResult).toBe(false);
+      expect('code' in smsResult).toBe(false);
+
+      const note = noteResult as StructuredOutput;
+      expect(note.channel).toBe(OutreachChannel.LINKEDIN_CONNECTION);
+      expect(note.recommendedSubject).toBeUndefined();
+      [note.recommendedMessage, ...note.alternativeMessages].forEach(message => {
+        expect(message.length).toBeLessThanOrEqual(300);
+      });
+      expect(note.processingMetadata.workflowSteps).toContain('channel_formatting');
+
+      const sms = smsResult as StructuredOutput;
+      expect(sms.recommendedMessage.endsWith('Reply STOP to opt out.')).toBe(true);
+    });
+
+    test('should reject a channel whose contact field is missing', async () => {
+      const prospect = AgentUtils.createProspectData(
+        'Sarah Chen',
+        'sarah.chen@techstartup.com',
+        'VP of Engineering',
+        'TechStartup Inc',
+        'Software Development',
+        CompanySize.STARTUP
+      );
+
+      const result = await agent.processOutreachRequest(prospect, signals(), { channel: OutreachChannel.SMS });
+
+      expect('code' in result).toBe(true);
+      const error = result as ProcessingError;
+      expect(error.code).toBe('VALIDATION_FAILED');
+      expect(error.message).toContain('phoneNumber');
+    });
+  });
+
+  describe('Batch Processing Integration', () => {
+    const prospectFor = (name: string, company: string): ProspectData => AgentUtils.createProspectData(
+      name,
+      `${name.split(' ')[0].toLowerCase()}@${company.toLowerCase()}.com`,
+      'VP of Engineering',
+      company,
+      'Software Development',
+      CompanySize.STARTUP
+    );
+    const signals = () => [
+      AgentUtils.createIntentSignal(SignalType.FUNDING_EVENT, 'Raised $15M Series A funding to scale engineering', 0.95, 'TechCrunch', 3),
+      AgentUtils.createIntentSignal(SignalType.COMPANY_GROWTH, 'Posted 12 new engineering positions on LinkedIn', 0.9, 'LinkedIn Jobs', 1)
+    ];
+
+    test('should key results by id and keep going past a bad row', async () => {
+      const batch = await agent.processBatch([
+        { id: 'row-1', prospectData: prospectFor('Sarah Chen', 'TechStartup'), intentSignals: signals() },
+        { id: 'row-2', prospectData: prospectFor('John Smith', 'Acme'), intentSignals: [] },
+        { id: 'row-3', prospectData: prospectFor('Priya Patel', 'Northwind'), intentSignals: signals() },
+      ]);
+
+      expect('code' in batch).toBe(false);
+      const { results, stats } = batch as BatchResult;
+
+      expect(Object.keys(results).sort()).toEqual(['row-1', 'row-2', 'row-3']);
+      expect('code' in results['row-1']).toBe(false);
+      expect((results['row-2'] as ProcessingError).code).toBe('VALIDATION_FAILED');
+      expect((results['row-3'] as StructuredOutput).recommendedMessage).toContain('Priya');
+
+      expect(stats.total).toBe(3);
+      expect(stats.succeeded).toBe(2);
+      expect(stats.failed).toBe(1);
+      expect(stats.failuresByErrorCode).toEqual({ VALIDATION_FAILED: 1 });
+      expect(Object.values(stats.confidenceDistribution).reduce((sum, count) => sum + count, 0)).toBe(2);
+    });
+
+    test('should never run more items at once than the requested concurrency', async () => {
+      let inFlight = 0;
+      let peakInFlight = 0;
+      const processOne = agent.processOutreachRequest.bind(agent);
+      jest.spyOn(agent, 'processOutreachRequest').mockImplementation(async (prospectData, intentSignals, options) => {
+        inFlight++;
+        peakInFlight = Math.max(peakInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        try {
+          return await processOne(prospectData, intentSignals, options);
+        } finally {
+          inFlight--;
+        }
+      });
+
+      const items = Array.from({ length: 6 }, (_, index) => ({
+        id: `row-${index + 1}`,
+        prospectData: prospectFor('Sarah Chen', `Company${index + 1}`),
+        intentSignals: signals(),
+      }));
+      const batch = await agent.processBatch(items, { concurrency: 2 });
+
+      expect('code' in batch).toBe(false);
+      expect((batch as BatchResult).stats.succeeded).toBe(6);
+      expect(peakInFlight).toBe(2);
+    });
+
+    test('should reject a batch with duplicate or missing ids', async () => {
+      const item = { id: 'row-1', prospectData: prospectFor('Sarah Chen', 'TechStartup'), intentSignals: signals() };
+
+      const duplicate = await agent.processBatch([item, { ...item }]);
+      const missingId = await agent.processBatch([{ ...item, id: '' }]);
+      const empty = await agent.processBatch([]);
+
+      [duplicate, missingId, empty].forEach(result => {
+        expect('code' in result).toBe(true);
+        expect((result as ProcessingError).code).toBe('INVALID_BATCH');
+      });
+      expect((duplicate as ProcessingError).message).toContain('row-1');
+    });
   });
 
   describe('Real-World Integration Scenarios', () => {
@@ -0,0 +1,270 @@
+/**
+ * Server-level tests for API-key authentication, rate limiting, CORS, body limits and startup
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { createServer, ServerOptions } from '../server';
+
+interface TestResponse {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+describe('HTTP server security', () => {
+  let server: http.Server;
+  let port: number;
+
+  async function start(security: ServerOptions['security']): Promise<void> {
+    server = createServer({ security });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  }
+
+  function request(
+    method: string,
+    path: string,
+    headers: http.OutgoingHttpHeaders = {},
+    body?: string | string[]
+  ): Promise<TestResponse> {
+    return new Promise((resolve, reject) => {
+      const req = http.request({ host: '127.0.0.1', port, method, path, headers }, res => {
+        let data = '';
+        res.on('data', chunk => { data += chunk; });
+        res.on('end', () => {
+          resolve({ status: res.statusCode ?? 0, headers: res.headers, body: data ? JSON.parse(data) : null });
+        });
+      });
+      req.on('error', reject);
+      // Chunks without a Content-Length are sent with chunked encoding
+      for (const chunk of Array.isArray(body) ? body : body !== undefined ? [body] : []) {
+        req.write(chunk);
+      }
+      req.end();
+    });
+  }
+
+  const baseSecurity = {
+    apiKeys: [],
+    corsOrigins: [],
+    rateLimitWindowMs: 60000,
+    rateLimitMaxRequests: 100,
+    maxBodyBytes: 1024 * 1024,
+  };
+
+  afterEach(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  describe('API key authentication', () => {
+    beforeEach(async () => {
+      await start({ ...baseSecurity, apiKeys: [{ name: 'acme', key: 'acme-secret' }] });
+    });
+
+    it('should reject protected routes without a key', async () => {
+      const response = await request('GET', '/jobs/job-1');
+
+      expect(response.status).toBe(401);
+      expect(response.headers['www-authenticate']).toBe('Bearer');
+      expect(response.body.error.code).toBe('UNAUTHORIZED');
+    });
+
+    it('should reject an unknown key', async () => {
+      const response = await request('GET', '/jobs/job-1', { Authorization: 'Bearer wrong-secret' });
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should accept the key as a bearer token or an X-API-Key header', async () => {
+      const bearer = await request('GET', '/jobs/job-1', { Authorization: 'Bearer acme-secret' });
+      const header = await request('GET', '/jobs/job-1', { 'X-API-Key': 'acme-secret' });
+
+      expect(bearer.status).toBe(404);
+      expect(bearer.body.error.code).toBe('JOB_NOT_FOUND');
+      expect(header.status).toBe(404);
+    });
+
+    it('should require a key for Masumi job routes', async () => {
+      const started = await request('POST', '/start_job', { 'Content-Type': 'application/json' }, '{}');
+      const status = await request('GET', '/status?job_id=job-1');
+      const input = await request('POST', '/provide_input', { 'Content-Type': 'application/json' }, '{}');
+
+      expect([started.status, status.status, input.status]).toEqual([401, 401, 401]);
+      expect((await request('GET', '/status?job_id=job-1', { 'X-API-Key': 'acme-secret' })).status).toBe(404);
+    });
+
+    it('should leave health checks and Masumi discovery routes public', async () => {
+      expect((await request('GET', '/health')).status).toBe(200);
+      expect((await request('GET', '/availability')).status).toBe(200);
+      expect((await request('GET', '/input_schema')).status).toBe(200);
+    });
+  });
+
+  describe('rate limiting', () => {
+    it('should enforce per-key quotas independently', async () => {
+      await start({
+        ...baseSecurity,
+        rateLimitMaxRequests: 5,
+        apiKeys: [
+          { name: 'small', key: 'small-secret', maxRequests: 2 },
+          { name: 'default', key: 'default-secret' },
+        ],
+      });
+      const small = { Authorization: 'Bearer small-secret' };
+
+      const first = await request('GET', '/jobs/job-1', small);
+      await request('GET', '/jobs/job-1', small);
+      const blocked = await request('GET', '/jobs/job-1', small);
+      const other = await request('GET', '/jobs/job-1', { Authorization: 'Bearer default-secret' });
+
+      expect(first.headers['x-ratelimit-limit']).toBe('2');
+      expect(first.headers['x-ratelimit-remaining']).toBe('1');
+      expect(blocked.status).toBe(429);
+      expect(blocked.body.error.code).toBe('RATE_LIMITED');
+      expect(other.status).toBe(404);
+      expect(other.headers['x-ratelimit-limit']).toBe('5');
+    });
+
+    it('should return 429 with Retry-After once an unauthenticated client uses its quota', async () => {
+      await start({ ...baseSecurity, rateLimitMaxRequests: 2 });
+
+      await request('GET', '/input_schema');
+      await request('GET', '/input_schema');
+      const blocked = await request('GET', '/input_schema');
+
+      expect(blocked.status).toBe(429);
+      const retryAfter = Number(blocked.headers['retry-after']);
+      expect(retryAfter).toBeGreaterThan(0);
+      expect(retryAfter).toBeLessThanOrEqual(60);
+      expect(blocked.headers['x-ratelimit-remaining']).toBe('0');
+    });
+
+    it('should not count health checks', async () => {
+      await start({ ...baseSecurity, rateLimitMaxRequests: 1 });
+
+      await request('GET', '/health');
+      await request('GET', '/health');
+
+      expect((await request('GET', '/input_schema')).status).toBe(200);
+    });
+  });
+
+  describe('CORS', () => {
+    it('should echo allow-listed origins and answer their preflight requests', async () => {
+      await start({ ...baseSecurity, corsOrigins: ['https://app.example.com'] });
+
+      const preflight = await request('OPTIONS', '/agent/outreach', { Origin: 'https://app.example.com' });
+      const response = await request('GET', '/health', { Origin: 'https://app.example.com' });
+
+      expect(preflight.status).toBe(200);
+      expect(preflight.headers['access-control-allow-origin']).toBe('https://app.example.com');
+      expect(preflight.headers['access-control-allow-headers']).toContain('Authorization');
+      expect(response.headers['access-control-allow-origin']).toBe('https://app.example.com');
+      expect(response.headers['vary']).toBe('Origin');
+    });
+
+    it('should refuse preflight requests from other origins', async () => {
+      await start({ ...baseSecurity, corsOrigins: ['https://app.example.com'] });
+
+      const preflight = await request('OPTIONS', '/agent/outreach', { Origin: 'https://evil.example.com' });
+      const response = await request('GET', '/health', { Origin: 'https://evil.example.com' });
+
+      expect(preflight.status).toBe(403);
+      expect(preflight.body.error.code).toBe('CORS_ORIGIN_DENIED');
+      expect(response.headers['access-control-allow-origin']).toBeUndefined();
+    });
+
+    it('should allow any origin with a wildcard entry', async () => {
+      await start({ ...baseSecurity, corsOrigins: ['*'] });
+
+      const response = await request('GET', '/health', { Origin: 'https://anywhere.example.com' });
+
+      expect(response.headers['access-control-allow-origin']).toBe('*');
+    });
+  });
+
+  describe('request body limits', () => {
+    const oversized = JSON.stringify({ items: 'x'.repeat(200) });
+
+    beforeEach(async () => {
+      await start({ ...baseSecurity, maxBodyBytes: 100 });
+    });
+
+    it('should return 413 when the declared length exceeds the limit', async () => {
+      const response = await request('POST', '/agent/outreach/batch', {
+        'Content-Type': 'application/json',
+        'Content-Length': Buffer.byteLength(oversized),
+      }, oversized);
+
+      expect(response.status).toBe(413);
+      expect(response.body.error.code).toBe('PAYLOAD_TOO_LARGE');
+    });
+
+    it('should return 413 when a streamed body exceeds the limit', async () => {
+      const response = await request('POST', '/agent/outreach/batch', { 'Content-Type': 'application/json' }, [
+        oversized.slice(0, 80),
+        oversized.slice(80),
+      ]);
+
+      expect(response.status).toBe(413);
+    });
+
+    it('should parse bodies within the limit', async () => {
+      const response = await request('POST', '/agent/outreach/batch', { 'Content-Type': 'application/json' }, '{"items":"none"}');
+
+      expect(response.status).toBe(400);
+      expect(response.body.message).toBe('Request body with an items array is required');
+    });
+
+    it('should reject malformed JSON with 400', async () => {
+      const response = await request('POST', '/agent/outreach/batch', { 'Content-Type': 'application/json' }, '{"items":');
+
+      expect(response.status).toBe(400);
+      expect(response.body.error.code).toBe('INVALID_JSON');
+    });
+  });
+
+  describe('startup without a payment verifier', () => {
+    const originalEnv = { ...process.env };
+    const signals = ['SIGTERM', 'SIGINT'] as const;
+    let previousListeners: Map<string, Array<(...args: any[]) => void>>;
+
+    beforeEach(() => {
+      previousListeners = new Map(signals.map(signal => [signal, process.listeners(signal)]));
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      // startServer installs shutdown handlers; remove them so they do not outlive the test
+      signals.forEach(signal => process.listeners(signal)
+        .filter(listener => !previousListeners.get(signal)?.includes(listener))
+        .forEach(listener => process.removeListener(signal, listener)));
+      process.env = { ...originalEnv };
+      jest.restoreAllMocks();
+    });
+
+    it('should start outside the test environment and disable only the Masumi routes', async () => {
+      process.env = { ...originalEnv, NODE_ENV: 'production', PORT: '0', API_KEYS: '' };
+      jest.isolateModules(() => {
+        const isolated: typeof import('../server') = require('../server');
+        server = isolated.startServer();
+      });
+      await new Promise<void>(resolve => server.listening ? resolve() : server.once('listening', () => resolve()));
+      port = (server.address() as AddressInfo).port;
+
+      const health = await request('GET', '/health');
+      const availability = await request('GET', '/availability');
+      const started = await request('POST', '/start_job', { 'Content-Type': 'application/json' }, '{}');
+      const status = await request('GET', '/status?job_id=job-1');
+
+      expect(health.status).toBe(200);
+      expect(health.body.environment).toBe('production');
+      expect(availability.body.status).toBe('unavailable');
+      expect(started.status).toBe(503);
+      expect(started.body.error.code).toBe('MASUMI_DISABLED');
+      expect(status.status).toBe(503);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Tests for negative and disqualifying signals across interpretation, hypothesis, scoring and the agent
+ */
+
+import { SignalInterpreter } from '../signal-interpreter';
+import { HypothesisFormer } from '../hypothesis-former';
+import { ConfidenceScorer } from '../confidence-scorer';
+import {
+  IntentDrivenOutreachAgent,
+  AgentUtils,
+  CompanySize,
+  ConfidenceLevel,
+  IntentSignal,
+  NegativeSignalType,
+  ProcessingError,
+  SignalType,
+} from '../index';
+
+describe('Signal polarity', () => {
+  const daysAgo = (days: number): Date => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const positiveSignals: IntentSignal[] = [
+    {
+      type: SignalType.FUNDING_EVENT,
+      description: 'Raised $40M Series B funding led by Accel',
+      timestamp: daysAgo(5),
+      relevanceScore: 0.95,
+      source: 'TechCrunch',
+    },
+    {
+      type: SignalType.JOB_CHANGE,
+      description: 'Sarah Chen was appointed VP of Engineering',
+      timestamp: daysAgo(10),
+      relevanceScore: 0.9,
+      source: 'LinkedIn',
+    },
+  ];
+  const layoffs: IntentSignal = {
+    type: NegativeSignalType.LAYOFFS,
+    description: 'Laid off 15% of staff in a restructuring',
+    timestamp: daysAgo(3),
+    relevanceScore: 0.9,
+    source: 'Business Insider',
+  };
+  const departure: IntentSignal = {
+    type: NegativeSignalType.PROSPECT_DEPARTURE,
+    description: 'Sarah Chen left TechCorp to join a competitor',
+    timestamp: daysAgo(2),
+    relevanceScore: 0.9,
+    source: 'LinkedIn',
+  };
+
+  const interpreter = new SignalInterpreter();
+  const former = new HypothesisFormer();
+  const scorer = new ConfidenceScorer();
+
+  function assess(signals: IntentSignal[]) {
+    const weighted = interpreter.interpretSignals(signals);
+    const hypothesis = former.formHypothesis(weighted);
+    return { weighted, hypothesis, confidence: scorer.scoreConfidence(hypothesis, weighted) };
+  }
+
+  it('should resolve polarity from the registered type unless the signal sets its own', () => {
+    const [layoffSignal, overridden, funding] = interpreter.interpretSignals([
+      layoffs,
+      { ...positiveSignals[0], polarity: 'negative' },
+      positiveSignals[0],
+    ]);
+
+    expect(layoffSignal.polarity).toBe('negative');
+    expect(overridden.polarity).toBe('negative');
+    expect(funding.polarity).toBe('positive');
+  });
+
+  it('should keep negative signals out of the supporting evidence', () => {
+    const { hypothesis } = assess([...positiveSignals, layoffs]);
+
+    expect(hypothesis.supportingEvidence.some(item => item.includes('Laid off'))).toBe(false);
+    expect(hypothesis.counterEvidence).toEqual(['Layoffs: Laid off 15% of staff in a restructuring']);
+    expect(hypothesis.conservativeAssumptions).toContain('1 negative signals weigh against outreach timing');
+  });
+
+  it('should lower confidence by a level for strong negative evidence', () => {
+    const withoutNegative = assess(positiveSignals);
+    const withNegative = assess([...positiveSignals, layoffs]);
+
+    expect(withoutNegative.confidence).toBe(ConfidenceLevel.HIGH);
+    expect(withNegative.confidence).toBe(ConfidenceLevel.MEDIUM);
+  });
+
+  it('should drop to Low confidence when negative evidence outweighs the positive', () => {
+    const freeze: IntentSignal = {
+      type: NegativeSignalType.HIRING_FREEZE,
+      description: 'Announced a hiring freeze across engineering',
+      timestamp: daysAgo(4),
+      relevanceScore: 0.95,
+      source: 'Company Blog',
+    };
+
+    const { confidence } = assess([positiveSignals[1], layoffs, freeze]);
+
+    expect(confidence).toBe(ConfidenceLevel.LOW);
+  });
+
+  it('should list disqualifiers and score them Low', () => {
+    const { hypothesis, confidence } = assess([...positiveSignals, departure]);
+
+    expect(hypothesis.disqualifiers).toEqual(['Prospect departure: Sarah Chen left TechCorp to join a competitor']);
+    expect(confidence).toBe(ConfidenceLevel.LOW);
+  });
+
+  describe('IntentDrivenOutreachAgent', () => {
+    const prospectData = AgentUtils.createProspectData(
+      'Sarah Chen',
+      'sarah.chen@techcorp.com',
+      'VP of Engineering',
+      'TechCorp',
+      'Software Development',
+      CompanySize.MEDIUM
+    );
+
+    it('should return DO_NOT_CONTACT with the reason instead of a message', async () => {
+      const agent = new IntentDrivenOutreachAgent();
+
+      const result = await agent.processOutreachRequest(prospectData, [...positiveSignals, departure]);
+
+      expect('code' in result).toBe(true);
+      const error = result as ProcessingError;
+      expect(error).toMatchObject({
+        code: 'DO_NOT_CONTACT',
+        message: 'Outreach blocked: Prospect departure: Sarah Chen left TechCorp to join a competitor',
+        step: 'hypothesis_formation',
+        context: { disqualifiers: ['Prospect departure: Sarah Chen left TechCorp to join a competitor'] },
+      });
+      expect(error.remediation).toBeTruthy();
+    });
+
+    it('should block on any signal marked disqualifying', async () => {
+      const agent = new IntentDrivenOutreachAgent();
+      const competitorDeal: IntentSignal = {
+        type: SignalType.TECHNOLOGY_ADOPTION,
+        description: 'Signed a three-year platform contract with a competing vendor',
+        timestamp: daysAgo(20),
+        relevanceScore: 0.8,
+        source: 'Press release',
+        polarity: 'disqualifying',
+      };
+
+      const result = await agent.processOutreachRequest(prospectData, [...positiveSignals, competitorDeal]);
+
+      expect('code' in result && result.code).toBe('DO_NOT_CONTACT');
+    });
+
+    it('should reject unknown polarity values', () => {
+      const agent = new IntentDrivenOutreachAgent();
+
+      const result = agent.validateInputs(prospectData, [
+        positiveSignals[0],
+        { ...positiveSignals[1], polarity: 'neutral' as IntentSignal['polarity'] },
+      ]);
+
+      expect(result.errors).toContainEqual(expect.objectContaining({
+        field: 'intentSignals[1].polarity',
+        code: 'INVALID_SIGNAL_POLARITY',
+      }));
+    });
+  });
+});
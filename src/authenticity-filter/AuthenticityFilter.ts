@@ -6,16 +6,20 @@
  * - Artificial language pattern detection
  * - Salesiness appropriateness checking
  * - Revision trigger mechanism
+ * - Subject line rules (clickbait, ALL CAPS, fake reply/forward prefixes, length)
  * 
  * Requirements: 7.1, 7.2, 7.3, 7.4
  */
 
-import { IAuthenticityFilter } from '../interfaces';
+import { IAuthenticityFilter, ILexicon } from '../interfaces';
 import {
   AuthenticityResult,
   AuthenticityIssue,
   ConfidenceLevel,
 } from '../types';
+import { SYSTEM_CONSTANTS } from '../constants';
+import { escapeRegExp } from '../utils';
+import { LexiconService } from '../lexicon';
 
 export class AuthenticityFilter implements IAuthenticityFilter {
   // Template patterns that indicate templated messages
@@ -30,9 +34,8 @@ export class AuthenticityFilter implements IAuthenticityFilter {
     /\bFILL.*?IN\b/gi, // "FILL X IN" patterns
   ];
 
-  // Artificial/robotic language patterns
-  private readonly ARTIFICIAL_PATTERNS = [
-    // Overly formal/robotic phrases
+  // Overly formal/robotic phrases; these can be dropped without losing meaning
+  private readonly ROBOTIC_PHRASES = [
     /\bi am writing to inform you\b/gi,
     /\bplease be advised that\b/gi,
     /\bkindly be informed\b/gi,
@@ -43,7 +46,10 @@ export class AuthenticityFilter implements IAuthenticityFilter {
     /\bas per our discussion\b/gi,
     /\bin accordance with\b/gi,
     /\bpursuant to\b/gi,
-    
+  ];
+
+  // Artificial language structures that span real content, so they are flagged but not dropped
+  private readonly ARTIFICIAL_PATTERNS = [
     // Repetitive structures
     /(\b\w+\b)(\s+\1){2,}/gi, // Same word repeated 3+ times
     
@@ -93,16 +99,30 @@ export class AuthenticityFilter implements IAuthenticityFilter {
     ],
   };
 
-  // Buzzwords that indicate overly promotional content
-  private readonly PROMOTIONAL_BUZZWORDS = [
-    'amazing', 'incredible', 'unbelievable', 'fantastic', 'outstanding',
-    'exceptional', 'extraordinary', 'phenomenal', 'spectacular', 'magnificent',
-    'guaranteed', 'proven', 'certified', 'award-winning', 'industry-leading',
-    'market-leading', 'best-in-class', 'world-class', 'premium', 'exclusive',
-    'revolutionary', 'groundbreaking', 'cutting-edge', 'state-of-the-art',
-    'game-changing', 'life-changing', 'transformative', 'disruptive'
+  // Clickbait patterns that are never acceptable in a subject line
+  private readonly SUBJECT_CLICKBAIT_PATTERNS = [
+    /!/g,
+    /\?{2,}/g,
+    /\byou won'?t believe\b/gi,
+    /\bopen (this|me|now|immediately)\b/gi,
+    /\b(last|final) chance\b/gi,
+    /\b(act|buy|reply) now\b/gi,
+    /\bdon'?t miss\b/gi,
+    /\blimited time\b/gi,
+    /\burgent\b/gi,
+    /\bfree\b/gi,
+    /\bguaranteed?\b/gi,
+    /\bshocking\b/gi,
+    /\bsecret\b/gi,
+    /\b\d+\s*(%|x\b)/gi, // "100%", "10x" style claims; "%" is not a word character, so only "x" takes a boundary
   ];
 
+  // Prefixes that fake an existing thread
+  private readonly SUBJECT_THREAD_PREFIX = /^\s*(re|fw|fwd)\s*:/i;
+
+  // Promotional terms come from the shared lexicon on every call, so runtime changes apply immediately
+  constructor(private lexicon: ILexicon = new LexiconService()) {}
+
   evaluateAuthenticity(
     message: string,
     confidenceLevel: ConfidenceLevel
@@ -135,6 +155,83 @@ export class AuthenticityFilter implements IAuthenticityFilter {
     };
   }
 
+  /**
+   * Evaluates a subject line against the subject-specific rule set
+   */
+  evaluateSubjectLine(subject: string): AuthenticityResult {
+    const issues = this.detectSubjectLineIssues(subject);
+    const score = this.calculateAuthenticityScore(issues);
+    const revisionRequired = this.shouldTriggerRevision(issues, score);
+
+    return {
+      isAuthentic: score >= 70 && !revisionRequired,
+      issues,
+      revisionRequired,
+      score,
+    };
+  }
+
+  private detectSubjectLineIssues(subject: string): AuthenticityIssue[] {
+    const issues: AuthenticityIssue[] = [];
+    const trimmed = subject.trim();
+
+    if (trimmed.length === 0) {
+      issues.push({
+        type: 'subject_line',
+        description: 'Subject line is empty',
+        severity: 'high',
+        suggestion: 'Write a short subject that reflects the message',
+      });
+      return issues;
+    }
+
+    if (trimmed.length > SYSTEM_CONSTANTS.MAX_SUBJECT_LENGTH) {
+      issues.push({
+        type: 'subject_line',
+        description: `Subject line exceeds ${SYSTEM_CONSTANTS.MAX_SUBJECT_LENGTH} characters (${trimmed.length})`,
+        severity: 'high',
+        suggestion: 'Shorten the subject so it is not cut off in inbox previews',
+      });
+    }
+
+    if (this.SUBJECT_THREAD_PREFIX.test(trimmed)) {
+      issues.push({
+        type: 'subject_line',
+        description: 'Subject line fakes a reply or forward',
+        severity: 'high',
+        suggestion: 'Remove "Re:" / "Fwd:" prefixes from first-touch subjects',
+      });
+    }
+
+    this.SUBJECT_CLICKBAIT_PATTERNS.forEach(pattern => {
+      const matches = trimmed.match(pattern);
+      if (matches && matches.length > 0) {
+        issues.push({
+          type: 'subject_line',
+          description: `Clickbait pattern detected: ${matches[0]}`,
+          severity: 'high',
+          suggestion: 'Describe what the message is about instead of baiting the open',
+        });
+      }
+    });
+
+    issues.push(...this.detectTemplatePatterns(trimmed));
+
+    // Short acronyms such as "CTO" or "AWS" are fine; shouted words and all-caps subjects are not
+    const letters = trimmed.replace(/[^a-zA-Z]/g, '');
+    const shoutedWords = trimmed.match(/\b[A-Z]{5,}\b/g);
+    if ((letters.length >= 4 && letters === letters.toUpperCase()) || shoutedWords) {
+      issues.push({
+        type: 'subject_line',
+        description: `ALL CAPS detected: ${shoutedWords ? shoutedWords.join(', ') : trimmed}`,
+        severity: 'high',
+        suggestion: 'Use sentence case in subject lines',
+      });
+    }
+
+    return issues;
+  }
+
   private detectTemplatePatterns(message: string): AuthenticityIssue[] {
     const issues: AuthenticityIssue[] = [];
     
@@ -145,7 +242,9 @@ export class AuthenticityFilter implements IAuthenticityFilter {
           type: 'template',
           description: `Template pattern detected: ${matches.join(', ')}`,
           severity: 'high',
-          suggestion: 'Replace template placeholders with actual personalized content'
+          suggestion: 'Replace template placeholders with actual personalized content',
+          fix: 'drop_phrase',
+          matches,
         });
       }
     });
@@ -167,7 +266,9 @@ export class AuthenticityFilter implements IAuthenticityFilter {
           type: 'template',
           description: `Repeated sentence detected: "${sentence.substring(0, 50)}..."`,
           severity: 'high', // Changed from 'medium' to 'high' to ensure revision trigger
-          suggestion: 'Vary sentence structure and content to avoid repetition'
+          suggestion: 'Vary sentence structure and content to avoid repetition',
+          fix: 'dedupe_sentence',
+          matches: [sentence],
         });
       }
     });
@@ -178,14 +279,16 @@ export class AuthenticityFilter implements IAuthenticityFilter {
   private detectArtificialLanguage(message: string): AuthenticityIssue[] {
     const issues: AuthenticityIssue[] = [];
     
-    this.ARTIFICIAL_PATTERNS.forEach(pattern => {
+    [...this.ROBOTIC_PHRASES, ...this.ARTIFICIAL_PATTERNS].forEach(pattern => {
       const matches = message.match(pattern);
       if (matches && matches.length > 0) {
+        const droppable = this.ROBOTIC_PHRASES.includes(pattern);
         issues.push({
           type: 'artificial_language',
           description: `Artificial language pattern detected: ${matches[0]}`,
           severity: 'medium',
-          suggestion: 'Use more natural, conversational language'
+          suggestion: 'Use more natural, conversational language',
+          ...(droppable && { fix: 'drop_phrase' as const, matches }),
         });
       }
     });
@@ -199,7 +302,9 @@ export class AuthenticityFilter implements IAuthenticityFilter {
           type: 'artificial_language',
           description: `Overly long sentence detected (${wordCount} words)`,
           severity: 'low',
-          suggestion: 'Break long sentences into shorter, more natural ones'
+          suggestion: 'Break long sentences into shorter, more natural ones',
+          fix: 'split_sentence',
+          matches: [sentence.trim()],
         });
       }
     });
@@ -211,7 +316,9 @@ export class AuthenticityFilter implements IAuthenticityFilter {
         type: 'artificial_language',
         description: `Excessive formal connectors: ${formalConnectors.join(', ')}`,
         severity: 'medium',
-        suggestion: 'Use simpler transitions and more conversational flow'
+        suggestion: 'Use simpler transitions and more conversational flow',
+        fix: 'drop_phrase',
+        matches: formalConnectors,
       });
     }
     
@@ -232,7 +339,9 @@ export class AuthenticityFilter implements IAuthenticityFilter {
           type: 'overly_salesy',
           description: `High-pressure sales language: ${matches[0]}`,
           severity: 'high',
-          suggestion: 'Remove high-pressure sales tactics and use consultative approach'
+          suggestion: 'Remove high-pressure sales tactics and use consultative approach',
+          fix: 'soften_cta',
+          matches,
         });
       }
     });
@@ -246,7 +355,9 @@ export class AuthenticityFilter implements IAuthenticityFilter {
             type: 'overly_salesy',
             description: `Direct sales language inappropriate for ${confidenceLevel} confidence: ${matches[0]}`,
             severity: 'high',
-            suggestion: 'Use softer, more exploratory language appropriate for confidence level'
+            suggestion: 'Use softer, more exploratory language appropriate for confidence level',
+            fix: 'soften_cta',
+            matches,
           });
         }
       });
@@ -261,23 +372,27 @@ export class AuthenticityFilter implements IAuthenticityFilter {
             type: 'overly_salesy',
             description: `Moderate sales language inappropriate for LOW confidence: ${matches[0]}`,
             severity: 'medium',
-            suggestion: 'Use curiosity-based language instead of sales-oriented phrases'
+            suggestion: 'Use curiosity-based language instead of sales-oriented phrases',
+            fix: 'soften_cta',
+            matches,
           });
         }
       });
     }
     
     // Check for excessive promotional buzzwords
-    const buzzwordMatches = this.PROMOTIONAL_BUZZWORDS.filter(buzzword => 
-      new RegExp(`\\b${buzzword}\\b`, 'gi').test(message)
-    );
+    const buzzwordMatches = this.lexicon.getTerms('promotional')
+      .map(({ term }) => term)
+      .filter(term => new RegExp(`\\b${escapeRegExp(term)}\\b`, 'i').test(message));
     
     if (buzzwordMatches.length > 2) {
       issues.push({
         type: 'overly_salesy',
         description: `Excessive promotional buzzwords: ${buzzwordMatches.join(', ')}`,
         severity: 'medium',
-        suggestion: 'Reduce promotional language and focus on specific, factual benefits'
+        suggestion: 'Reduce promotional language and focus on specific, factual benefits',
+        fix: 'drop_phrase',
+        matches: buzzwordMatches,
       });
     }
     
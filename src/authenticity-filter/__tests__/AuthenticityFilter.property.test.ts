@@ -317,6 +317,60 @@ describe('AuthenticityFilter Property Tests', () => {
       );
     });
   });
+
+  describe('Subject Line Rules', () => {
+    it('should accept plain, descriptive subjects', () => {
+      fc.assert(
+        fc.property(
+          fc.constantFrom(
+            'The recent funding at TechCorp',
+            'A question about the team growth at Northwind',
+            'Sarah, a thought on your new role as CTO',
+            'What AWS teams do after a migration'
+          ),
+          (subject) => {
+            const result = authenticityFilter.evaluateSubjectLine(subject);
+            expect(result.isAuthentic).toBe(true);
+            expect(result.issues).toHaveLength(0);
+          }
+        ),
+        { numRuns: 20 }
+      );
+    });
+
+    it('should reject clickbait, ALL CAPS, fake thread prefixes and overlong subjects', () => {
+      fc.assert(
+        fc.property(
+          fc.constantFrom(
+            'You won\'t believe what we found',
+            'Last chance to see this',
+            'FREE audit for your team',
+            'Quick idea!!!',
+            'QUICK IDEA FOR YOU',
+            'Re: our conversation',
+            'Fwd: pricing',
+            '10x your pipeline',
+            '100% growth for your team',
+            'Save 50%',
+            'Cut costs by 30 %',
+            'A very long subject line that keeps going well past what an inbox preview would show'
+          ),
+          (subject) => {
+            const result = authenticityFilter.evaluateSubjectLine(subject);
+            expect(result.isAuthentic).toBe(false);
+            expect(result.issues.every(issue => issue.type === 'subject_line')).toBe(true);
+          }
+        ),
+        { numRuns: 40 }
+      );
+    });
+
+    it('should reject empty subjects', () => {
+      const result = authenticityFilter.evaluateSubjectLine('   ');
+      expect(result.isAuthentic).toBe(false);
+      expect(result.revisionRequired).toBe(true);
+    });
+  });
 });
 
 // Test data generators
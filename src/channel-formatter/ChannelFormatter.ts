@@ -0,0 +1,153 @@
+/**
+ * ChannelFormatter - Adapts generated email-style messages to the outreach channel
+ *
+ * Implements per-channel rules:
+ * - Email: unchanged (120-word limit is applied at generation)
+ * - LinkedIn connection note: 300-character hard limit, no greeting or closing block
+ * - LinkedIn InMail: greeting and closing kept, shorter body
+ * - SMS: no links, signer's name only, opt-out footer
+ */
+
+import { IChannelFormatter } from '../interfaces';
+import { OutreachChannel, SenderProfile } from '../types';
+import { MessageGenerator } from '../message-generator';
+
+interface MessageParts {
+  greeting: string;
+  body: string[];
+  closing: string;
+}
+
+export class ChannelFormatter implements IChannelFormatter {
+  private readonly CONNECTION_NOTE_CHARACTER_LIMIT = 300;
+  private readonly INMAIL_WORD_LIMIT = 80;
+  private readonly SMS_CHARACTER_LIMIT = 320; // two SMS segments
+  private readonly SMS_OPT_OUT_FOOTER = 'Reply STOP to opt out.';
+
+  private readonly GREETING_PATTERN = /^(hi|hello|hey|dear)\b[^\n]*,$/i;
+  private readonly CLOSING_PATTERN = /^(best|kind regards|regards|thanks|thank you|cheers|all the best)\b/i;
+  private readonly LINK_PATTERN = /\b(?:https?:\/\/|www\.)\S+/gi;
+
+  constructor(private sanitizer: MessageGenerator = new MessageGenerator()) {}
+
+  formatMessage(message: string, channel: OutreachChannel, senderProfile?: SenderProfile): string {
+    switch (channel) {
+      case OutreachChannel.LINKEDIN_CONNECTION:
+        return this.formatConnectionNote(message);
+      case OutreachChannel.LINKEDIN_INMAIL:
+        return this.formatInMail(message);
+      case OutreachChannel.SMS:
+        return this.formatSms(message, senderProfile);
+      case OutreachChannel.EMAIL:
+      default:
+        return message;
+    }
+  }
+
+  /**
+   * Only email and InMail have a subject line
+   */
+  supportsSubject(channel: OutreachChannel): boolean {
+    return channel === OutreachChannel.EMAIL || channel === OutreachChannel.LINKEDIN_INMAIL;
+  }
+
+  private formatConnectionNote(message: string): string {
+    const { body } = this.splitMessage(message);
+    return this.fitSentences(this.splitSentences(body.join(' ')), this.CONNECTION_NOTE_CHARACTER_LIMIT);
+  }
+
+  private formatInMail(message: string): string {
+    const { greeting, body, closing } = this.splitMessage(message);
+    const wordLimit = this.INMAIL_WORD_LIMIT - this.sanitizer.countWords(`${greeting} ${closing}`);
+    const shortenedBody = this.sanitizer.countWords(body.join(' ')) > wordLimit
+      ? [this.sanitizer.sanitizeMessage(body.join(' '), wordLimit)]
+      : body;
+
+    return [greeting, ...shortenedBody, closing].filter(block => block.length > 0).join('\n\n');
+  }
+
+  private formatSms(message: string, senderProfile?: SenderProfile): string {
+    const { greeting, body } = this.splitMessage(message);
+    const signOff = senderProfile ? `- ${senderProfile.senderName.trim()}` : '';
+    const bodyText = body.join(' ')
+      .replace(this.LINK_PATTERN, '')
+      .replace(/\s+([.,!?])/g, '$1')
+      .replace(/\s{2,}/g, ' ')
+      .trim();
+
+    // Greeting, sign-off and footer are always kept; the body gets what is left
+    const fixedParts = [greeting, signOff, this.SMS_OPT_OUT_FOOTER].filter(part => part.length > 0);
+    const bodyLimit = this.SMS_CHARACTER_LIMIT - fixedParts.join(' ').length - 2;
+    const smsBody = this.fitSentences(this.splitSentences(bodyText), bodyLimit);
+
+    return [
+      [greeting, smsBody, signOff].filter(part => part.length > 0).join(' '),
+      this.SMS_OPT_OUT_FOOTER,
+    ].join('\n\n');
+  }
+
+  /**
+   * Splits a message into greeting, body blocks and closing.
+   * Works for template output and for provider output that lacks a greeting or sign-off.
+   */
+  private splitMessage(message: string): MessageParts {
+    const blocks = message
+      .split(/\n\s*\n/)
+      .map(block => block.trim())
+      .filter(block => block.length > 0);
+
+    const greeting = blocks.length > 0 && this.GREETING_PATTERN.test(blocks[0]) ? blocks.shift()! : '';
+    const closing = blocks.length > 0 && this.CLOSING_PATTERN.test(blocks[blocks.length - 1]) ? blocks.pop()! : '';
+
+    return {
+      greeting,
+      body: blocks.map(block => block.replace(/\s*\n\s*/g, ' ')),
+      closing,
+    };
+  }
+
+  /**
+   * Keeps the opening and final sentences (the hook and the ask), then fills in
+   * middle sentences in order while they fit. Falls back to a word-boundary cut.
+   */
+  private fitSentences(sentences: string[], characterLimit: number): string {
+    const full = sentences.join(' ');
+    if (full.length <= characterLimit) {
+      return full;
+    }
+
+    const first = sentences[0] || '';
+    const last = sentences.length > 1 ? sentences[sentences.length - 1] : '';
+    const kept = [first, last].filter(sentence => sentence.length > 0);
+    if (kept.join(' ').length > characterLimit) {
+      return this.truncateAtWord(first, characterLimit);
+    }
+
+    const middle: string[] = [];
+    for (const sentence of sentences.slice(1, -1)) {
+      const candidate = [first, ...middle, sentence, last].join(' ');
+      if (candidate.length <= characterLimit) {
+        middle.push(sentence);
+      }
+    }
+
+    return [first, ...middle, last].filter(sentence => sentence.length > 0).join(' ');
+  }
+
+  private truncateAtWord(text: string, characterLimit: number): string {
+    if (text.length <= characterLimit) {
+      return text;
+    }
+    const cut = text.substring(0, characterLimit + 1);
+    const lastSpace = cut.lastIndexOf(' ');
+    return (lastSpace > 0 ? cut.substring(0, lastSpace) : text.substring(0, characterLimit))
+      .replace(/[\s,;:-]+$/, '');
+  }
+
+  private splitSentences(text: string): string[] {
+    return text
+      .split(/(?<=[.!?])\s+/)
+      .map(sentence => sentence.trim())
+      .filter(sentence => sentence.length > 0);
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * Property-based tests for ChannelFormatter
+ * Tests per-channel rules across generated messages
+ */
+
+import fc from 'fast-check';
+import { ChannelFormatter } from '../ChannelFormatter';
+import { MessageGenerator } from '../../message-generator/MessageGenerator';
+import {
+  MessageStrategy,
+  IntentHypothesis,
+  ProspectData,
+  StrategyType,
+  CallToActionLevel,
+  CompanySize,
+  SignalType,
+  SenderProfile,
+  OutreachChannel,
+} from '../../types';
+
+describe('ChannelFormatter Property Tests', () => {
+  let channelFormatter: ChannelFormatter;
+  let messageGenerator: MessageGenerator;
+
+  beforeEach(() => {
+    channelFormatter = new ChannelFormatter();
+    messageGenerator = new MessageGenerator();
+  });
+
+  function generatedMessage(): fc.Arbitrary<{ message: string; senderProfile?: SenderProfile }> {
+    return fc.tuple(
+      generateMessageStrategy(),
+      generateIntentHypothesis(),
+      generateProspectData(),
+      fc.option(generateSenderProfile(), { nil: undefined })
+    ).map(([strategy, hypothesis, prospectData, senderProfile]) => ({
+      message: messageGenerator.generateMessage(strategy, hypothesis, prospectData, senderProfile),
+      senderProfile,
+    }));
+  }
+
+  test('should leave email messages unchanged', () => {
+    fc.assert(
+      fc.property(generatedMessage(), ({ message, senderProfile }) => {
+        expect(channelFormatter.formatMessage(message, OutreachChannel.EMAIL, senderProfile)).toBe(message);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  test('should keep LinkedIn connection notes within 300 characters without greeting or closing', () => {
+    fc.assert(
+      fc.property(generatedMessage(), ({ message, senderProfile }) => {
+        const note = channelFormatter.formatMessage(message, OutreachChannel.LINKEDIN_CONNECTION, senderProfile);
+
+        expect(note.length).toBeGreaterThan(0);
+        expect(note.length).toBeLessThanOrEqual(300);
+        expect(note).not.toMatch(/^Hi /);
+        expect(note).not.toContain('Best regards');
+        expect(note).not.toContain('\n');
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('should shorten InMail bodies and keep greeting and closing', () => {
+    fc.assert(
+      fc.property(generatedMessage(), ({ message, senderProfile }) => {
+        const inMail = channelFormatter.formatMessage(message, OutreachChannel.LINKEDIN_INMAIL, senderProfile);
+        const blocks = message.split(/\n\s*\n/);
+
+        expect(messageGenerator.countWords(inMail)).toBeLessThanOrEqual(80);
+        expect(inMail.startsWith(blocks[0])).toBe(true);
+        expect(inMail.endsWith(blocks[blocks.length - 1])).toBe(true);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('should strip links from SMS and end with an opt-out footer', () => {
+    fc.assert(
+      fc.property(
+        generatedMessage(),
+        fc.constantFrom('https://example.com/case-study', 'www.example.com', 'http://bit.ly/abc123'),
+        ({ message, senderProfile }, link) => {
+          const [greeting, ...rest] = message.split('\n\n');
+          const withLink = [greeting, `See ${link} for details.`, ...rest].join('\n\n');
+
+          const sms = channelFormatter.formatMessage(withLink, OutreachChannel.SMS, senderProfile);
+
+          expect(sms).not.toMatch(/https?:\/\/|www\./);
+          expect(sms.endsWith('Reply STOP to opt out.')).toBe(true);
+          expect(sms.length).toBeLessThanOrEqual(320);
+          if (senderProfile) {
+            expect(sms).toContain(`- ${senderProfile.senderName}`);
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('should only support subjects for email and InMail', () => {
+    expect(channelFormatter.supportsSubject(OutreachChannel.EMAIL)).toBe(true);
+    expect(channelFormatter.supportsSubject(OutreachChannel.LINKEDIN_INMAIL)).toBe(true);
+    expect(channelFormatter.supportsSubject(OutreachChannel.LINKEDIN_CONNECTION)).toBe(false);
+    expect(channelFormatter.supportsSubject(OutreachChannel.SMS)).toBe(false);
+  });
+});
+
+// Generators for property-based testing
+
+function generateMessageStrategy(): fc.Arbitrary<MessageStrategy> {
+  return fc.record({
+    type: fc.constantFrom(...Object.values(StrategyType)),
+    toneGuidelines: fc.array(fc.string({ minLength: 5, maxLength: 20 }), { minLength: 1, maxLength: 3 }),
+    contentFocus: fc.string({ minLength: 10, maxLength: 50 }),
+    callToActionLevel: fc.constantFrom(...Object.values(CallToActionLevel)),
+  });
+}
+
+function generateIntentHypothesis(): fc.Arbitrary<IntentHypothesis> {
+  return fc.record({
+    primaryReason: fc.constantFrom(
+      'Recent funding may enable new initiatives or expansion',
+      'Technology changes may indicate evolving business needs',
+      'New role may bring fresh perspectives and priorities',
+      'Industry developments may influence strategic planning'
+    ),
+    primarySignalType: fc.constantFrom(...Object.values(SignalType)),
+    supportingEvidence: fc.array(fc.string({ minLength: 10, maxLength: 50 }), { minLength: 1, maxLength: 3 }),
+    confidenceFactors: fc.array(fc.string({ minLength: 5, maxLength: 30 }), { maxLength: 3 }),
+    conservativeAssumptions: fc.array(fc.string({ minLength: 5, maxLength: 30 }), { maxLength: 2 }),
+  });
+}
+
+function generateProspectData(): fc.Arbitrary<ProspectData> {
+  return fc.record({
+    role: fc.constantFrom('VP of Engineering', 'CTO', 'Head of Sales', 'Director of Operations'),
+    companyContext: fc.record({
+      name: fc.constantFrom('TechCorp', 'Acme Inc', 'Northwind', 'Globex'),
+      industry: fc.constantFrom('Software', 'Healthcare', 'Finance'),
+      size: fc.constantFrom(...Object.values(CompanySize)),
+    }),
+    contactDetails: fc.record({
+      email: fc.emailAddress(),
+      name: fc.constantFrom('Sarah Chen', 'John Smith', 'Priya Patel'),
+    }),
+  });
+}
+
+function generateSenderProfile(): fc.Arbitrary<SenderProfile> {
+  return fc.record({
+    senderName: fc.constantFrom('Maya Brooks', 'Tom Alvarez'),
+    senderTitle: fc.option(fc.constantFrom('Account Executive', 'Founder'), { nil: undefined }),
+    companyName: fc.constantFrom('Buildwise', 'Ledgerly'),
+    productOneLiner: fc.constantFrom(
+      'help engineering teams onboard new hires faster',
+      'give support leads a single view of customer issues across every channel they run'
+    ),
+    proofPoints: fc.option(fc.constant(['Northwind cut ramp-up time by a third']), { nil: undefined }),
+  });
+}
@@ -0,0 +1,5 @@
+/**
+ * Channel Formatter module exports
+ */
+
+export { ChannelFormatter } from './ChannelFormatter';
@@ -8,15 +8,20 @@
  * - 4.4: Assign Low confidence when weak or assumed signals exist
  * - 4.5: Confidence level directly controls message tone and approach
  * - 1.2: Automatically reduce confidence scoring for weak or insufficient signals
+ *
+ * Confidence is scored on positive signals. Strong negative signals then lower it by a level,
+ * or to Low when they outweigh the positive evidence; any disqualifier means Low.
  */
 
-import { IConfidenceScorer } from '../interfaces';
-import { IntentHypothesis, WeightedSignal, ConfidenceLevel, SignalType } from '../types';
+import { IConfidenceScorer, ISignalTypeRegistry } from '../interfaces';
+import { IntentHypothesis, WeightedSignal, ConfidenceLevel } from '../types';
+import { SignalTypeRegistry } from '../signal-types';
 
 export class ConfidenceScorer implements IConfidenceScorer {
   // Thresholds for confidence scoring
   private readonly HIGH_CONFIDENCE_MIN_SIGNALS = 2;
   private readonly HIGH_CONFIDENCE_MIN_WEIGHT = 0.7;
+  private readonly HIGH_CONFIDENCE_INDIRECT_MIN_WEIGHT = 0.8; // Without a direct signal
   private readonly HIGH_CONFIDENCE_MIN_FRESHNESS = 0.6;
   private readonly HIGH_CONFIDENCE_MIN_RELEVANCE = 0.7;
   
@@ -25,6 +30,9 @@ export class ConfidenceScorer implements IConfidenceScorer {
   
   private readonly WEAK_SIGNAL_THRESHOLD = 0.3;
 
+  // Which signal types count as direct comes from the registry
+  constructor(private signalTypes: ISignalTypeRegistry = new SignalTypeRegistry()) {}
+
   /**
    * Assigns exactly one confidence level based on hypothesis and supporting signals
    * Uses deterministic scoring rules based on signal strength
@@ -45,6 +53,27 @@ export class ConfidenceScorer implements IConfidenceScorer {
       return ConfidenceLevel.LOW;
     }
 
+    if (hypothesis.disqualifiers?.length || validSignals.some(signal => signal.polarity === 'disqualifying')) {
+      return ConfidenceLevel.LOW;
+    }
+
+    // Unverified context can round out a hypothesis but is never evidence of intent
+    const positiveSignals = validSignals.filter(signal =>
+      (signal.polarity === undefined || signal.polarity === 'positive') && !signal.unverified
+    );
+    const negativeSignals = validSignals.filter(signal => signal.polarity === 'negative');
+    if (positiveSignals.length === 0) {
+      return ConfidenceLevel.LOW;
+    }
+
+    const confidence = this.scorePositiveEvidence(hypothesis, positiveSignals);
+    return this.applyNegativeEvidence(confidence, positiveSignals, negativeSignals);
+  }
+
+  /**
+   * Scores the signals that support outreach
+   */
+  private scorePositiveEvidence(hypothesis: IntentHypothesis, validSignals: WeightedSignal[]): ConfidenceLevel {
     // Check for conservative assumptions that force low confidence (Requirement 10.4)
     if (this.hasConservativeIndicators(hypothesis)) {
       return ConfidenceLevel.LOW;
@@ -71,6 +100,25 @@ export class ConfidenceScorer implements IConfidenceScorer {
     return ConfidenceLevel.LOW;
   }
 
+  /**
+   * Lowers confidence by one level for strong negative evidence, or to Low when it outweighs the positive
+   */
+  private applyNegativeEvidence(
+    confidence: ConfidenceLevel,
+    positiveSignals: WeightedSignal[],
+    negativeSignals: WeightedSignal[]
+  ): ConfidenceLevel {
+    if (!negativeSignals.some(signal => signal.weight >= this.WEAK_SIGNAL_THRESHOLD)) {
+      return confidence;
+    }
+
+    const sumWeights = (signals: WeightedSignal[]) => signals.reduce((sum, signal) => sum + signal.weight, 0);
+    if (sumWeights(negativeSignals) >= sumWeights(positiveSignals)) {
+      return ConfidenceLevel.LOW;
+    }
+    return confidence === ConfidenceLevel.HIGH ? ConfidenceLevel.MEDIUM : ConfidenceLevel.LOW;
+  }
+
   /**
    * Applies safety prioritization over persuasiveness
    * Requirement 10.5: Prioritize business safety over message persuasiveness
@@ -168,7 +216,7 @@ export class ConfidenceScorer implements IConfidenceScorer {
     const weakSignals = signals.filter(signal => signal.weight < this.WEAK_SIGNAL_THRESHOLD);
     
     const directSignals = signals.filter(signal => 
-      signal.type === SignalType.JOB_CHANGE || signal.type === SignalType.FUNDING_EVENT
+      this.signalTypes.get(signal.type)?.directness === 'direct'
     );
     
     const recentSignals = signals.filter(signal => 
@@ -225,7 +273,7 @@ export class ConfidenceScorer implements IConfidenceScorer {
     if (metrics.directSignals === 0 && metrics.totalSignals >= 2) {
       // If no direct signals but multiple strong indirect signals, still allow high confidence
       // but require higher thresholds
-      return metrics.averageWeight >= 0.8 && metrics.averageFreshness >= 0.7;
+      return metrics.averageWeight >= this.HIGH_CONFIDENCE_INDIRECT_MIN_WEIGHT && metrics.averageFreshness >= 0.7;
     }
 
     return true;
@@ -220,6 +220,34 @@ describe('ConfidenceScorer Property Tests', () => {
       const result = confidenceScorer.scoreConfidence(strongHypothesis, perfectSignals);
       expect(result).toBe(ConfidenceLevel.HIGH);
     });
+
+    it('should keep the High/Medium boundary at an average weight of 0.7, or 0.8 without a direct signal', () => {
+      const boundaryHypothesis: IntentHypothesis = {
+        primaryReason: 'Recent changes may create new priorities',
+        supportingEvidence: ['Two recent signals'],
+        confidenceFactors: ['Multiple supporting signals (2)'],
+        conservativeAssumptions: []
+      };
+      const signalsWithWeight = (type: SignalType, weight: number): WeightedSignal[] => [1, 2].map(index => ({
+        type,
+        description: `Signal ${index}`,
+        timestamp: new Date(),
+        relevanceScore: 0.9,
+        source: 'test',
+        weight,
+        freshnessScore: 0.9
+      }));
+
+      const levelFor = (type: SignalType, weight: number) =>
+        confidenceScorer.scoreConfidence(boundaryHypothesis, signalsWithWeight(type, weight));
+
+      expect(levelFor(SignalType.JOB_CHANGE, 0.7)).toBe(ConfidenceLevel.HIGH);
+      expect(levelFor(SignalType.JOB_CHANGE, 0.69)).toBe(ConfidenceLevel.MEDIUM);
+      expect(levelFor(SignalType.FUNDING_EVENT, 0.7)).toBe(ConfidenceLevel.HIGH);
+      expect(levelFor(SignalType.FUNDING_EVENT, 0.69)).toBe(ConfidenceLevel.MEDIUM);
+      expect(levelFor(SignalType.INDUSTRY_TREND, 0.8)).toBe(ConfidenceLevel.HIGH);
+      expect(levelFor(SignalType.INDUSTRY_TREND, 0.79)).toBe(ConfidenceLevel.MEDIUM);
+    });
   });
 
   /**
@@ -5,16 +5,19 @@
 export const SYSTEM_CONSTANTS = {
   // Message generation limits
   MAX_MESSAGE_WORDS: 120,
+  MAX_SUBJECT_LENGTH: 60, // characters; longer subjects get cut off in inbox previews
   MIN_INTENT_SIGNALS: 2,
   
   // Confidence scoring thresholds
   HIGH_CONFIDENCE_THRESHOLD: 0.8,
   MEDIUM_CONFIDENCE_THRESHOLD: 0.5,
   
-  // Timing constants
-  SIGNAL_FRESHNESS_DAYS: 30,
+  // Revision limits
   MAX_REVISION_ATTEMPTS: 3,
   
+  // Strategy playbooks
+  DEFAULT_PLAYBOOK: 'default',
+
   // System metadata
   SYSTEM_VERSION: '1.0.0',
   WORKFLOW_STEPS: [
@@ -0,0 +1,86 @@
+/**
+ * ContextIngestor - Brings free-form prospect context into the workflow
+ *
+ * - CompanyContext.recentEvents become low-weight intent signals of the company_event type,
+ *   labelled as unverified company context and flagged `unverified`, so they can round out
+ *   the hypothesis but never count toward confidence
+ * - Whitelisted ProspectData.additionalContext keys become personalization hooks for the
+ *   message generators; every other key stays out of messages
+ */
+
+import { IContextIngestor } from '../interfaces';
+import {
+  ContextSignalType,
+  IntentSignal,
+  PersonalizationHook,
+  PersonalizationHookKey,
+  ProspectData,
+} from '../types';
+
+export class ContextIngestor implements IContextIngestor {
+  private readonly MAX_RECENT_EVENTS = 5;
+  private readonly MAX_EVENT_LENGTH = 200;
+  private readonly EVENT_RELEVANCE = 0.3; // the relevance the validator already treats as weak
+  private readonly EVENT_SOURCE = 'Company context (unverified)';
+
+  // In the order they are preferred; one personal line keeps the message short and unscripted
+  private readonly HOOK_KEYS: PersonalizationHookKey[] = ['priorTouchpoint', 'mutualConnection', 'sharedEvent'];
+  private readonly MAX_HOOKS = 1;
+  private readonly MAX_HOOK_LENGTH = 100;
+
+  /**
+   * Turns the company's recent events into unverified signals, skipping blanks and repeats
+   * Events carry no date, so they are timestamped at ingestion
+   */
+  ingestRecentEvents(prospectData: ProspectData, now: Date = new Date()): IntentSignal[] {
+    const events = prospectData?.companyContext?.recentEvents;
+    if (!Array.isArray(events)) {
+      return [];
+    }
+
+    const seen = new Set<string>();
+    return events
+      .filter((event): event is string => typeof event === 'string')
+      .map(event => event.trim().replace(/\s+/g, ' '))
+      .filter(event => {
+        const key = event.toLowerCase();
+        if (event.length === 0 || event.length > this.MAX_EVENT_LENGTH || seen.has(key)) {
+          return false;
+        }
+        seen.add(key);
+        return true;
+      })
+      .slice(0, this.MAX_RECENT_EVENTS)
+      .map(event => ({
+        type: ContextSignalType.COMPANY_EVENT,
+        description: event,
+        timestamp: new Date(now.getTime()),
+        relevanceScore: this.EVENT_RELEVANCE,
+        source: this.EVENT_SOURCE,
+        unverified: true,
+      }));
+  }
+
+  /**
+   * The whitelisted additionalContext entries a message may mention, most preferred first
+   */
+  getPersonalizationHooks(prospectData: ProspectData): PersonalizationHook[] {
+    const additionalContext = prospectData?.additionalContext;
+    if (!additionalContext || typeof additionalContext !== 'object' || Array.isArray(additionalContext)) {
+      return [];
+    }
+
+    return this.HOOK_KEYS
+      .map(key => ({ key, value: this.readHookValue(additionalContext[key]) }))
+      .filter((hook): hook is PersonalizationHook => hook.value !== undefined)
+      .slice(0, this.MAX_HOOKS);
+  }
+
+  private readHookValue(value: unknown): string | undefined {
+    if (typeof value !== 'string') {
+      return undefined;
+    }
+    const text = value.trim().replace(/[.!?\s]+$/, '');
+    return text.length > 0 && text.length <= this.MAX_HOOK_LENGTH ? text : undefined;
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * Tests for ingesting recent company events and personalization hooks from prospect context
+ */
+
+import { ContextIngestor } from '../ContextIngestor';
+import { SignalInterpreter } from '../../signal-interpreter';
+import { HypothesisFormer } from '../../hypothesis-former';
+import { ConfidenceScorer } from '../../confidence-scorer';
+import { ReasoningAgent } from '../../reasoning-agent';
+import { InputValidator } from '../../validators';
+import { StrategySelector } from '../../strategy-selector';
+import { MessageGenerator } from '../../message-generator';
+import { AuthenticityFilter } from '../../authenticity-filter';
+import { OutputAssembler } from '../../output-assembler';
+import {
+  AgentUtils,
+  CompanySize,
+  ConfidenceLevel,
+  ContextSignalType,
+  IntentSignal,
+  ProspectData,
+  SignalType,
+} from '../../index';
+
+const baseProspect = (): ProspectData => AgentUtils.createProspectData(
+  'Sarah Chen',
+  'sarah.chen@techcorp.com',
+  'VP of Engineering',
+  'TechCorp',
+  'Software Development',
+  CompanySize.MEDIUM
+);
+
+const withContext = (
+  recentEvents?: string[],
+  additionalContext?: Record<string, unknown>
+): ProspectData => {
+  const prospect = baseProspect();
+  return {
+    ...prospect,
+    companyContext: { ...prospect.companyContext, recentEvents },
+    additionalContext,
+  };
+};
+
+describe('ContextIngestor', () => {
+  const now = new Date('2026-06-01T00:00:00.000Z');
+
+  it('should turn recent events into labelled, unverified low-relevance signals', () => {
+    const signals = new ContextIngestor().ingestRecentEvents(
+      withContext(['Opened a new office in Austin', '  opened a new   office in Austin ', '', 'Hosted a developer summit']),
+      now
+    );
+
+    expect(signals).toEqual([
+      {
+        type: ContextSignalType.COMPANY_EVENT,
+        description: 'Opened a new office in Austin',
+        timestamp: now,
+        relevanceScore: 0.3,
+        source: 'Company context (unverified)',
+        unverified: true,
+      },
+      expect.objectContaining({ description: 'Hosted a developer summit', unverified: true }),
+    ]);
+  });
+
+  it('should only expose whitelisted context keys as hooks, most preferred first', () => {
+    const ingestor = new ContextIngestor();
+
+    const hooks = ingestor.getPersonalizationHooks(withContext(undefined, {
+      sharedEvent: 'SaaStr Annual 2026',
+      mutualConnection: 'Dana Lee.',
+      internalNotes: 'Budget owner is the CFO',
+    }));
+
+    expect(hooks).toEqual([{ key: 'mutualConnection', value: 'Dana Lee' }]);
+    expect(ingestor.getPersonalizationHooks(withContext(undefined, { priorTouchpoint: 42, notes: 'x' }))).toEqual([]);
+    expect(ingestor.getPersonalizationHooks(baseProspect())).toEqual([]);
+  });
+
+  it('should let unverified events round out the evidence without lowering confidence', () => {
+    const signals: IntentSignal[] = [
+      AgentUtils.createIntentSignal(SignalType.FUNDING_EVENT, 'Raised $40M Series B funding', 0.95, 'TechCrunch', 5),
+      AgentUtils.createIntentSignal(SignalType.JOB_CHANGE, 'Sarah Chen was appointed VP of Engineering', 0.9, 'LinkedIn', 10),
+    ];
+    const events = new ContextIngestor().ingestRecentEvents(withContext(['Announced a new product line']));
+    const weighted = new SignalInterpreter().interpretSignals([...signals, ...events]);
+    const hypothesis = new HypothesisFormer().formHypothesis(weighted);
+
+    expect(weighted.find(signal => signal.unverified)?.weight).toBeLessThan(0.3);
+    expect(hypothesis.primarySignalType).toBe(SignalType.FUNDING_EVENT);
+    expect(new ConfidenceScorer().scoreConfidence(hypothesis, weighted)).toBe(ConfidenceLevel.HIGH);
+  });
+});
+
+describe('ReasoningAgent prospect context', () => {
+  const createAgent = (): ReasoningAgent => {
+    const messageGenerator = new MessageGenerator();
+    return new ReasoningAgent(
+      new InputValidator(),
+      new SignalInterpreter(),
+      new HypothesisFormer(),
+      new ConfidenceScorer(),
+      new StrategySelector(),
+      messageGenerator,
+      new AuthenticityFilter(),
+      new OutputAssembler(messageGenerator)
+    );
+  };
+
+  const intentSignals: IntentSignal[] = [
+    AgentUtils.createIntentSignal(SignalType.FUNDING_EVENT, 'Raised $40M Series B funding', 0.9, 'TechCrunch', 5),
+    AgentUtils.createIntentSignal(SignalType.COMPANY_GROWTH, 'Announced expansion into two new markets', 0.7, 'Company Blog', 10),
+  ];
+
+  it('should open with the personalization hook and record the context it used', async () => {
+    const agent = createAgent();
+    const prospect = withContext(['Opened a new office in Austin'], {
+      priorTouchpoint: 'our chat at SaaStr in March',
+      mutualConnection: 'Dana Lee',
+      crmStage: 'MQL',
+    });
+
+    const result = await agent.processOutreachRequest(prospect, intentSignals);
+
+    expect('code' in result).toBe(false);
+    if (!('code' in result)) {
+      expect(result.recommendedMessage).toContain('Following up on our chat at SaaStr in March.');
+      expect(result.recommendedMessage).not.toContain('Dana Lee');
+      expect(result.recommendedMessage).not.toContain('MQL');
+
+      const entry = agent.getAuditLog(result.processingMetadata.runId)
+        .find(item => item.step === 'context_ingestion' && item.status === 'completed');
+      expect(entry?.details).toEqual({
+        success: true,
+        recentEvents: ['Opened a new office in Austin'],
+        personalizationHooks: ['priorTouchpoint'],
+      });
+    }
+  });
+
+  it('should skip context ingestion when the prospect has no context', async () => {
+    const agent = createAgent();
+
+    const result = await agent.processOutreachRequest(baseProspect(), intentSignals);
+
+    expect('code' in result).toBe(false);
+    if (!('code' in result)) {
+      const steps = agent.getAuditLog(result.processingMetadata.runId).map(entry => entry.step);
+      expect(steps).not.toContain('context_ingestion');
+      expect(result.recommendedMessage).not.toContain('Following up on');
+    }
+  });
+});
@@ -0,0 +1,5 @@
+/**
+ * Context ingestor module exports
+ */
+
+export { ContextIngestor } from './ContextIngestor';
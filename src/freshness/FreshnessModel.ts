@@ -0,0 +1,109 @@
+/**
+ * FreshnessModel - How fast each kind of intent signal goes stale
+ *
+ * The single source of truth for signal age, used by:
+ * - SignalInterpreter, to weight signals by freshness
+ * - InputValidator, to warn about signals too old to carry much weight
+ *
+ * Each signal type has its own curve, taken from the signal type registry: full
+ * freshness for a plateau, then exponential decay with a half-life down to a floor.
+ * Curves can be overridden per type, and again per vertical (matched on the
+ * prospect's industry).
+ */
+
+import { ISignalTypeRegistry } from '../interfaces';
+import { SignalTypeRegistry } from '../signal-types';
+import { FreshnessCurve, FreshnessProfile, SignalTypeId } from '../types';
+
+export interface FreshnessModelOptions {
+  curves?: FreshnessProfile; // overrides of the registered curves
+  verticals?: Record<string, FreshnessProfile>; // overrides by industry, applied over curves
+  staleBelow?: number; // freshness under which a signal counts as old, default 0.25
+  signalTypes?: ISignalTypeRegistry; // source of each type's base curve, built-in types when omitted
+}
+
+export class FreshnessModel {
+  private readonly MS_PER_DAY = 1000 * 60 * 60 * 24;
+  private readonly INVALID_TIMESTAMP_FRESHNESS = 0.01;
+
+  // Signals without a registered type decay steadily from day one
+  private readonly UNTYPED_CURVE: FreshnessCurve = { plateauDays: 0, halfLifeDays: 21, minimum: 0 };
+
+  private readonly curves: FreshnessProfile;
+  private readonly verticals: Map<string, FreshnessProfile>;
+  private readonly staleBelow: number;
+  private readonly signalTypes: ISignalTypeRegistry;
+
+  constructor(options: FreshnessModelOptions = {}) {
+    this.curves = options.curves ?? {};
+    this.verticals = new Map(
+      Object.entries(options.verticals ?? {}).map(([industry, profile]) => [this.normalizeIndustry(industry), profile])
+    );
+    this.staleBelow = options.staleBelow ?? 0.25;
+    this.signalTypes = options.signalTypes ?? new SignalTypeRegistry();
+  }
+
+  /**
+   * Freshness from 1 (new) down to the curve's floor
+   * Future timestamps count as fully fresh; invalid ones get a minimal score
+   */
+  score(timestamp: Date, type?: SignalTypeId, industry?: string, now: Date = new Date()): number {
+    if (!(timestamp instanceof Date) || isNaN(timestamp.getTime())) {
+      return this.INVALID_TIMESTAMP_FRESHNESS;
+    }
+
+    const ageInDays = (now.getTime() - timestamp.getTime()) / this.MS_PER_DAY;
+    const curve = this.getCurve(type, industry);
+    if (ageInDays <= curve.plateauDays) {
+      return 1.0;
+    }
+
+    const decay = Math.pow(0.5, (ageInDays - curve.plateauDays) / curve.halfLifeDays);
+    return Math.max(curve.minimum, Math.min(1.0, decay));
+  }
+
+  /**
+   * Whether a signal has decayed past the point where it should be flagged as old
+   */
+  isStale(timestamp: Date, type?: SignalTypeId, industry?: string, now: Date = new Date()): boolean {
+    return this.score(timestamp, type, industry, now) < this.staleBelow;
+  }
+
+  /**
+   * The registered curve for a type, with configured and vertical overrides applied
+   * Looked up on every call, so types registered at runtime are picked up
+   */
+  getCurve(type?: SignalTypeId, industry?: string): FreshnessCurve {
+    const registered = type ? this.signalTypes.get(type) : undefined;
+    if (!type || !registered) {
+      return this.UNTYPED_CURVE;
+    }
+
+    const vertical = typeof industry === 'string' ? this.verticals.get(this.normalizeIndustry(industry)) : undefined;
+    const curve = this.applyOverride(registered.freshness, this.curves[type]);
+    return this.applyOverride(curve, vertical?.[type]);
+  }
+
+  // Invalid overrides are ignored so one bad value cannot make every signal stale
+  private applyOverride(curve: FreshnessCurve, override?: Partial<FreshnessCurve>): FreshnessCurve {
+    if (!override) {
+      return curve;
+    }
+
+    return {
+      plateauDays: this.isNonNegative(override.plateauDays) ? override.plateauDays : curve.plateauDays,
+      halfLifeDays: this.isNonNegative(override.halfLifeDays) && override.halfLifeDays > 0
+        ? override.halfLifeDays
+        : curve.halfLifeDays,
+      minimum: this.isNonNegative(override.minimum) && override.minimum <= 1 ? override.minimum : curve.minimum,
+    };
+  }
+
+  private isNonNegative(value: number | undefined): value is number {
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+  }
+
+  private normalizeIndustry(industry: string): string {
+    return industry.trim().toLowerCase();
+  }
+}
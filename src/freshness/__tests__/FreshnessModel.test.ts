@@ -0,0 +1,107 @@
+/**
+ * Tests for the per-signal-type freshness model and its use by validation and weighting
+ */
+
+import { FreshnessModel } from '../FreshnessModel';
+import { InputValidator } from '../../validators';
+import { SignalInterpreter } from '../../signal-interpreter';
+import { AgentUtils, CompanySize, IntentSignal, SignalType } from '../../index';
+
+describe('FreshnessModel', () => {
+  const now = new Date('2026-06-01T00:00:00.000Z');
+  const daysBefore = (days: number): Date => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+  it('should keep signals fully fresh through the plateau, then halve every half-life', () => {
+    const model = new FreshnessModel();
+
+    expect(model.score(daysBefore(14), SignalType.JOB_CHANGE, undefined, now)).toBe(1);
+    expect(model.score(daysBefore(44), SignalType.JOB_CHANGE, undefined, now)).toBeCloseTo(0.5, 8);
+    expect(model.score(daysBefore(74), SignalType.JOB_CHANGE, undefined, now)).toBeCloseTo(0.25, 8);
+    expect(model.score(daysBefore(1000), SignalType.JOB_CHANGE, undefined, now)).toBe(0.1);
+  });
+
+  it('should let funding stay relevant for longer than a job change', () => {
+    const model = new FreshnessModel();
+
+    const funding = model.score(daysBefore(120), SignalType.FUNDING_EVENT, undefined, now);
+    const jobChange = model.score(daysBefore(120), SignalType.JOB_CHANGE, undefined, now);
+
+    expect(funding).toBeCloseTo(0.5, 8);
+    expect(jobChange).toBeLessThan(0.1 + 1e-9);
+    expect(model.isStale(daysBefore(120), SignalType.FUNDING_EVENT, undefined, now)).toBe(false);
+    expect(model.isStale(daysBefore(120), SignalType.JOB_CHANGE, undefined, now)).toBe(true);
+  });
+
+  it('should treat future timestamps as fresh and invalid ones as minimal', () => {
+    const model = new FreshnessModel();
+
+    expect(model.score(new Date(now.getTime() + 1000), SignalType.INDUSTRY_TREND, undefined, now)).toBe(1);
+    expect(model.score(new Date('not a date'), SignalType.INDUSTRY_TREND, undefined, now)).toBe(0.01);
+  });
+
+  it('should merge configured curves over the defaults and ignore invalid values', () => {
+    const model = new FreshnessModel({
+      curves: {
+        [SignalType.JOB_CHANGE]: { halfLifeDays: 60 },
+        [SignalType.FUNDING_EVENT]: { halfLifeDays: 0, plateauDays: -5, minimum: 2 },
+      },
+    });
+
+    expect(model.getCurve(SignalType.JOB_CHANGE)).toEqual({ plateauDays: 14, halfLifeDays: 60, minimum: 0.1 });
+    expect(model.getCurve(SignalType.FUNDING_EVENT)).toEqual(new FreshnessModel().getCurve(SignalType.FUNDING_EVENT));
+  });
+
+  it('should apply a vertical profile when the industry matches', () => {
+    const model = new FreshnessModel({
+      curves: { [SignalType.TECHNOLOGY_ADOPTION]: { plateauDays: 10 } },
+      verticals: { Healthcare: { [SignalType.TECHNOLOGY_ADOPTION]: { halfLifeDays: 180 } } },
+    });
+
+    expect(model.getCurve(SignalType.TECHNOLOGY_ADOPTION, ' healthcare ')).toEqual({ plateauDays: 10, halfLifeDays: 180, minimum: 0.1 });
+    expect(model.getCurve(SignalType.TECHNOLOGY_ADOPTION, 'Retail')).toEqual({ plateauDays: 10, halfLifeDays: 45, minimum: 0.1 });
+  });
+});
+
+describe('Freshness model consumers', () => {
+  const daysAgo = (days: number): Date => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const prospectData = AgentUtils.createProspectData(
+    'Sarah Chen',
+    'sarah.chen@healthco.com',
+    'VP of Engineering',
+    'HealthCo',
+    'Healthcare',
+    CompanySize.MEDIUM
+  );
+  const signal = (type: SignalType, days: number): IntentSignal => ({
+    type,
+    description: `${type} signal`,
+    timestamp: daysAgo(days),
+    relevanceScore: 0.9,
+    source: 'LinkedIn',
+  });
+
+  it('should flag old signals in the validator by their type\'s curve', () => {
+    const result = new InputValidator().validateInput(prospectData, [
+      signal(SignalType.FUNDING_EVENT, 150),
+      signal(SignalType.JOB_CHANGE, 150),
+    ]);
+
+    const oldWarnings = result.warnings.filter(warning => warning.message.includes('older than recommended'));
+    expect(oldWarnings.map(warning => warning.field)).toEqual(['intentSignals[1].timestamp']);
+  });
+
+  it('should share a vertical profile between validation and weighting', () => {
+    const freshness = new FreshnessModel({
+      verticals: { healthcare: { [SignalType.JOB_CHANGE]: { plateauDays: 180 } } },
+    });
+    const signals = [signal(SignalType.JOB_CHANGE, 150), signal(SignalType.FUNDING_EVENT, 5)];
+
+    const result = new InputValidator(freshness).validateInput(prospectData, signals);
+    const [jobChange] = new SignalInterpreter({ freshness }).interpretSignals(signals, 'Healthcare');
+    const [defaultJobChange] = new SignalInterpreter({ freshness }).interpretSignals(signals, 'Retail');
+
+    expect(result.warnings.some(warning => warning.message.includes('older than recommended'))).toBe(false);
+    expect(jobChange.freshnessScore).toBe(1);
+    expect(defaultJobChange.freshnessScore).toBe(0.1);
+  });
+});
@@ -0,0 +1,5 @@
+/**
+ * Freshness module exports
+ */
+
+export { FreshnessModel, FreshnessModelOptions } from './FreshnessModel';
@@ -0,0 +1,57 @@
+/**
+ * ApiKeyAuthenticator - Resolves the client behind an API key
+ *
+ * Accepts the key as "Authorization: Bearer <key>" or "X-API-Key: <key>".
+ * Keys are compared through their SHA-256 digests in constant time, so the
+ * comparison leaks neither length nor content.
+ */
+
+import { IncomingHttpHeaders } from 'http';
+import { createHash, timingSafeEqual } from 'crypto';
+import { ApiKeyConfig } from '../types';
+
+export class ApiKeyAuthenticator {
+  private readonly digests: Array<{ client: ApiKeyConfig; digest: Buffer }>;
+
+  constructor(apiKeys: ApiKeyConfig[]) {
+    this.digests = apiKeys.map(client => ({ client, digest: this.digest(client.key) }));
+  }
+
+  /**
+   * Authentication is required only when at least one key is configured
+   */
+  isEnabled(): boolean {
+    return this.digests.length > 0;
+  }
+
+  authenticate(headers: IncomingHttpHeaders): ApiKeyConfig | null {
+    const presentedKey = this.readKey(headers);
+    if (!presentedKey) {
+      return null;
+    }
+
+    const presented = this.digest(presentedKey);
+    // Check every key so timing does not reveal which one matched
+    let match: ApiKeyConfig | null = null;
+    for (const { client, digest } of this.digests) {
+      if (timingSafeEqual(digest, presented)) {
+        match = client;
+      }
+    }
+    return match;
+  }
+
+  private readKey(headers: IncomingHttpHeaders): string | undefined {
+    const authorization = headers.authorization;
+    if (authorization?.startsWith('Bearer ')) {
+      return authorization.substring('Bearer '.length).trim() || undefined;
+    }
+
+    const apiKey = headers['x-api-key'];
+    return (Array.isArray(apiKey) ? apiKey[0] : apiKey)?.trim() || undefined;
+  }
+
+  private digest(key: string): Buffer {
+    return createHash('sha256').update(key).digest();
+  }
+}
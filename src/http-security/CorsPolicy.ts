@@ -0,0 +1,31 @@
+/**
+ * CorsPolicy - Browser origin allow-list
+ *
+ * Allowed origins are echoed back in Access-Control-Allow-Origin; '*' in the
+ * list allows any origin. With an empty list, no cross-origin browser request
+ * is allowed. Requests without an Origin header (servers, curl) are unaffected.
+ */
+
+export class CorsPolicy {
+  private readonly allowAny: boolean;
+  private readonly origins: Set<string>;
+
+  constructor(allowedOrigins: string[]) {
+    this.allowAny = allowedOrigins.includes('*');
+    this.origins = new Set(allowedOrigins.map(origin => this.normalize(origin)));
+  }
+
+  /**
+   * Value for Access-Control-Allow-Origin, or null when the origin is not allowed
+   */
+  allowOrigin(origin: string): string | null {
+    if (this.allowAny) {
+      return '*';
+    }
+    return this.origins.has(this.normalize(origin)) ? origin : null;
+  }
+
+  private normalize(origin: string): string {
+    return origin.trim().replace(/\/+$/, '').toLowerCase();
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * ServerSecurityConfig - Reads HTTP server security settings from the environment
+ *
+ * Reads API_KEYS, CORS_ORIGIN, RATE_LIMIT_WINDOW_MS, RATE_LIMIT_MAX_REQUESTS and
+ * MAX_BODY_BYTES. API_KEYS is a comma-separated list of name:key or
+ * name:key:maxRequests entries; without it, API-key authentication is off.
+ */
+
+import { ApiKeyConfig, ServerSecurityConfig } from '../types';
+
+type EnvironmentVariables = Record<string, string | undefined>;
+
+export function loadServerSecurityConfig(
+  env: EnvironmentVariables = process.env
+): ServerSecurityConfig {
+  return {
+    apiKeys: parseApiKeys(env.API_KEYS),
+    corsOrigins: splitList(env.CORS_ORIGIN),
+    rateLimitWindowMs: parsePositiveInteger(env.RATE_LIMIT_WINDOW_MS, 'RATE_LIMIT_WINDOW_MS', 15 * 60 * 1000),
+    rateLimitMaxRequests: parsePositiveInteger(env.RATE_LIMIT_MAX_REQUESTS, 'RATE_LIMIT_MAX_REQUESTS', 100),
+    maxBodyBytes: parsePositiveInteger(env.MAX_BODY_BYTES, 'MAX_BODY_BYTES', 1024 * 1024),
+  };
+}
+
+function parseApiKeys(value: string | undefined): ApiKeyConfig[] {
+  const names = new Set<string>();
+
+  return splitList(value).map(entry => {
+    const [name, key, maxRequests, ...rest] = entry.split(':').map(part => part.trim());
+    if (!name || !key || rest.length > 0) {
+      throw new Error('API_KEYS entries must be name:key or name:key:maxRequests');
+    }
+    if (names.has(name)) {
+      throw new Error(`Duplicate API_KEYS name: ${name}`);
+    }
+    names.add(name);
+
+    return {
+      name,
+      key,
+      ...(maxRequests !== undefined && { maxRequests: parsePositiveInteger(maxRequests, `API_KEYS quota for ${name}`) }),
+    };
+  });
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value || '').split(',').map(item => item.trim()).filter(item => item.length > 0);
+}
+
+function parsePositiveInteger(value: string | undefined, name: string, fallback?: number): number {
+  if (value === undefined || value.trim() === '') {
+    if (fallback === undefined) {
+      throw new Error(`${name} is required`);
+    }
+    return fallback;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+  return parsed;
+}
@@ -0,0 +1,61 @@
+/**
+ * SlidingWindowRateLimiter - Per-client request quotas over a sliding window
+ *
+ * Keeps the timestamps of accepted requests per bucket (an API key or a client
+ * IP), so a quota never resets all at once at a window boundary. Rejected
+ * requests are not counted; a client that waits Retry-After seconds gets in.
+ */
+
+import { RateLimitDecision } from '../types';
+
+export class SlidingWindowRateLimiter {
+  private readonly SWEEP_INTERVAL = 1000; // checks between sweeps of idle buckets
+
+  private readonly hits = new Map<string, number[]>();
+  private checksSinceSweep = 0;
+
+  constructor(
+    private windowMs: number,
+    private defaultLimit: number,
+    private now: () => number = Date.now
+  ) {}
+
+  /**
+   * Records a request for the bucket if it is within its quota
+   */
+  consume(bucket: string, limit: number = this.defaultLimit): RateLimitDecision {
+    const now = this.now();
+    const windowStart = now - this.windowMs;
+    const timestamps = (this.hits.get(bucket) ?? []).filter(timestamp => timestamp > windowStart);
+    this.sweepIdleBuckets(windowStart);
+
+    if (timestamps.length >= limit) {
+      this.hits.set(bucket, timestamps);
+      // The request that pushes the count below the limit once it leaves the window
+      const oldestBlocking = timestamps[timestamps.length - limit] ?? now;
+      return {
+        allowed: false,
+        limit,
+        remaining: 0,
+        retryAfterSeconds: Math.max(1, Math.ceil((oldestBlocking + this.windowMs - now) / 1000)),
+      };
+    }
+
+    timestamps.push(now);
+    this.hits.set(bucket, timestamps);
+    return { allowed: true, limit, remaining: limit - timestamps.length, retryAfterSeconds: 0 };
+  }
+
+  private sweepIdleBuckets(windowStart: number): void {
+    if (++this.checksSinceSweep < this.SWEEP_INTERVAL) {
+      return;
+    }
+
+    this.checksSinceSweep = 0;
+    for (const [bucket, timestamps] of this.hits) {
+      if (timestamps.every(timestamp => timestamp <= windowStart)) {
+        this.hits.delete(bucket);
+      }
+    }
+  }
+}
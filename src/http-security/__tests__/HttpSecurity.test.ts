@@ -0,0 +1,77 @@
+/**
+ * Tests for the rate limiter window and the security environment settings
+ */
+
+import { SlidingWindowRateLimiter } from '../SlidingWindowRateLimiter';
+import { loadServerSecurityConfig } from '../ServerSecurityConfig';
+
+describe('SlidingWindowRateLimiter', () => {
+  it('should free capacity as requests slide out of the window', () => {
+    let now = 0;
+    const limiter = new SlidingWindowRateLimiter(10000, 2, () => now);
+
+    expect(limiter.consume('client').allowed).toBe(true);
+    now = 4000;
+    expect(limiter.consume('client').allowed).toBe(true);
+
+    now = 6000;
+    const blocked = limiter.consume('client');
+    expect(blocked.allowed).toBe(false);
+    expect(blocked.retryAfterSeconds).toBe(4); // the first request leaves the window at 10000
+
+    now = 10001;
+    expect(limiter.consume('client')).toEqual({ allowed: true, limit: 2, remaining: 0, retryAfterSeconds: 0 });
+  });
+
+  it('should not count rejected requests against the client', () => {
+    let now = 0;
+    const limiter = new SlidingWindowRateLimiter(1000, 1, () => now);
+
+    limiter.consume('client');
+    for (now = 100; now < 1000; now += 100) {
+      expect(limiter.consume('client').allowed).toBe(false);
+    }
+
+    now = 1001;
+    expect(limiter.consume('client').allowed).toBe(true);
+  });
+
+  it('should apply a per-bucket limit over the default', () => {
+    const limiter = new SlidingWindowRateLimiter(1000, 1, () => 0);
+
+    expect(limiter.consume('a', 3).remaining).toBe(2);
+    expect(limiter.consume('b').remaining).toBe(0);
+  });
+});
+
+describe('loadServerSecurityConfig', () => {
+  it('should use defaults when nothing is set', () => {
+    expect(loadServerSecurityConfig({})).toEqual({
+      apiKeys: [],
+      corsOrigins: [],
+      rateLimitWindowMs: 900000,
+      rateLimitMaxRequests: 100,
+      maxBodyBytes: 1048576,
+    });
+  });
+
+  it('should parse API keys with optional quotas and the CORS allow-list', () => {
+    const config = loadServerSecurityConfig({
+      API_KEYS: 'acme:key-1:500, globex:key-2',
+      CORS_ORIGIN: 'https://app.example.com, https://admin.example.com',
+    });
+
+    expect(config.apiKeys).toEqual([
+      { name: 'acme', key: 'key-1', maxRequests: 500 },
+      { name: 'globex', key: 'key-2' },
+    ]);
+    expect(config.corsOrigins).toEqual(['https://app.example.com', 'https://admin.example.com']);
+  });
+
+  it('should reject malformed settings', () => {
+    expect(() => loadServerSecurityConfig({ API_KEYS: 'missing-key' })).toThrow('name:key');
+    expect(() => loadServerSecurityConfig({ API_KEYS: 'a:1,a:2' })).toThrow('Duplicate');
+    expect(() => loadServerSecurityConfig({ API_KEYS: 'a:1:lots' })).toThrow('positive integer');
+    expect(() => loadServerSecurityConfig({ MAX_BODY_BYTES: '-1' })).toThrow('MAX_BODY_BYTES');
+  });
+});
@@ -0,0 +1,8 @@
+/**
+ * HTTP security module exports
+ */
+
+export { ApiKeyAuthenticator } from './ApiKeyAuthenticator';
+export { SlidingWindowRateLimiter } from './SlidingWindowRateLimiter';
+export { CorsPolicy } from './CorsPolicy';
+export { loadServerSecurityConfig } from './ServerSecurityConfig';
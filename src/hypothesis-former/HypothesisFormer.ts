@@ -6,16 +6,28 @@
  * - 3.2: Hypothesis grounded only in provided signals without inventing facts or motivations
  * - 3.3: Form conservative hypothesis or decline to proceed when insufficient signals exist
  * - 3.4: Hypothesis specific enough to guide message strategy selection
+ *
+ * Only positive signals support the hypothesis. Negative signals are listed as counter-evidence
+ * and disqualifying signals as disqualifiers, which tell the caller not to reach out at all.
  */
 
-import { IHypothesisFormer } from '../interfaces';
-import { WeightedSignal, IntentHypothesis, SignalType } from '../types';
+import { IHypothesisFormer, ISignalTypeRegistry } from '../interfaces';
+import { WeightedSignal, IntentHypothesis, SignalTypeId } from '../types';
+import { SignalTypeRegistry } from '../signal-types';
+import { SignalMetadataExtractor } from '../signal-metadata';
 
 export class HypothesisFormer implements IHypothesisFormer {
   private readonly MIN_SIGNAL_WEIGHT_THRESHOLD = 0.3; // Minimum weight for a signal to be considered strong
   private readonly MIN_TOTAL_WEIGHT_THRESHOLD = 0.5; // Minimum total weight to form confident hypothesis
   private readonly MIN_SIGNALS_FOR_HYPOTHESIS = 1; // Minimum number of signals needed
 
+  private readonly metadataExtractor: SignalMetadataExtractor;
+
+  // Labels, reasons, grounding keywords, directness and metadata schemas come from the registered signal types
+  constructor(private signalTypes: ISignalTypeRegistry = new SignalTypeRegistry()) {
+    this.metadataExtractor = new SignalMetadataExtractor(signalTypes);
+  }
+
   /**
    * Forms exactly one primary hypothesis from weighted signals
    * Returns conservative hypothesis if signals are insufficient
@@ -26,8 +38,27 @@ export class HypothesisFormer implements IHypothesisFormer {
       return this.createConservativeHypothesis('No intent signals provided');
     }
 
+    // Disqualifiers count whatever their weight; a stale one still means "do not contact"
+    const disqualifyingSignals = weightedSignals.filter(signal => signal.polarity === 'disqualifying');
+    const negativeSignals = weightedSignals.filter(signal =>
+      signal.polarity === 'negative' && signal.weight && !isNaN(signal.weight) && signal.weight > 0.01
+    );
+    const positiveSignals = weightedSignals.filter(signal => this.isPositive(signal));
+
+    const hypothesis = this.formFromPositiveSignals(positiveSignals);
+    return this.addNegativeEvidence(hypothesis, negativeSignals, disqualifyingSignals);
+  }
+
+  /**
+   * Forms the hypothesis from the signals that support outreach
+   */
+  private formFromPositiveSignals(positiveSignals: WeightedSignal[]): IntentHypothesis {
+    if (positiveSignals.length === 0) {
+      return this.createConservativeHypothesis('No positive intent signals provided');
+    }
+
     // Filter out signals with invalid or very low weights
-    const validSignals = weightedSignals.filter(signal => 
+    const validSignals = positiveSignals.filter(signal => 
       signal.weight && !isNaN(signal.weight) && signal.weight > 0.01
     );
 
@@ -53,6 +84,35 @@ export class HypothesisFormer implements IHypothesisFormer {
     return this.createEvidenceBasedHypothesis(strongSignals, sortedSignals);
   }
 
+  /**
+   * Records signals that count against outreach without letting them support the hypothesis
+   */
+  private addNegativeEvidence(
+    hypothesis: IntentHypothesis,
+    negativeSignals: WeightedSignal[],
+    disqualifyingSignals: WeightedSignal[]
+  ): IntentHypothesis {
+    if (negativeSignals.length === 0 && disqualifyingSignals.length === 0) {
+      return hypothesis;
+    }
+
+    const describe = (signal: WeightedSignal) => `${this.getSignalTypeDescription(signal.type)}: ${signal.description}`;
+    const result: IntentHypothesis = { ...hypothesis, conservativeAssumptions: [...hypothesis.conservativeAssumptions] };
+
+    if (negativeSignals.length > 0) {
+      result.counterEvidence = negativeSignals.map(describe);
+      result.conservativeAssumptions.unshift(`${negativeSignals.length} negative signals weigh against outreach timing`);
+    }
+    if (disqualifyingSignals.length > 0) {
+      result.disqualifiers = disqualifyingSignals.map(describe);
+    }
+    return result;
+  }
+
+  private isPositive(signal: WeightedSignal): boolean {
+    return signal.polarity === undefined || signal.polarity === 'positive';
+  }
+
   /**
    * Creates conservative hypothesis when signals are insufficient or unclear
    */
@@ -106,8 +166,13 @@ export class HypothesisFormer implements IHypothesisFormer {
     // Note any conservative assumptions made
     const conservativeAssumptions = this.identifyConservativeAssumptions(strongSignals, allSignals);
 
+    // Structured metadata names the event exactly, where the description only implies it
+    const primarySignalDetail = this.metadataExtractor.describe(primarySignal);
+
     return {
       primaryReason,
+      primarySignalType: primarySignal.type,
+      ...(primarySignalDetail && { primarySignalDetail }),
       supportingEvidence,
       confidenceFactors,
       conservativeAssumptions
@@ -163,15 +228,8 @@ export class HypothesisFormer implements IHypothesisFormer {
    */
   private formulatePrimaryReason(primarySignal: WeightedSignal): string {
     // Ensure we don't exaggerate value propositions (Requirement 10.3)
-    const conservativeReasons: Record<SignalType, string> = {
-      [SignalType.JOB_CHANGE]: 'Recent role change may create new priorities and decision-making authority',
-      [SignalType.FUNDING_EVENT]: 'Recent funding may enable new initiatives and technology investments',
-      [SignalType.TECHNOLOGY_ADOPTION]: 'Technology changes may indicate evolving business needs',
-      [SignalType.COMPANY_GROWTH]: 'Company growth may create new operational challenges and opportunities',
-      [SignalType.INDUSTRY_TREND]: 'Industry developments may influence strategic planning and priorities'
-    };
-
-    const baseReason = conservativeReasons[primarySignal.type] || 'Business context suggests potential relevance';
+    const baseReason = this.signalTypes.get(primarySignal.type)?.conservativeReason
+      || 'Business context suggests potential relevance';
     
     // Validate that we're not fabricating data (Requirement 10.3)
     if (!this.isGroundedInEvidence(baseReason, primarySignal)) {
@@ -191,57 +249,24 @@ export class HypothesisFormer implements IHypothesisFormer {
    * Requirement 10.3: Never exaggerate value propositions or fabricate data
    */
   private isGroundedInEvidence(reason: string, signal: WeightedSignal): boolean {
-    // Check if the signal description supports the reason
+    // The signal description must mention one of its type's grounding keywords
     const _reasonKeywords = reason.toLowerCase().split(' ');
     const signalDescription = signal.description.toLowerCase();
+    const definition = this.signalTypes.get(signal.type);
     
-    // For job change signals, verify description mentions role/position changes
-    if (signal.type === SignalType.JOB_CHANGE) {
-      const jobChangeKeywords = ['hired', 'promoted', 'appointed', 'joined', 'role', 'position'];
-      return jobChangeKeywords.some(keyword => signalDescription.includes(keyword));
-    }
-    
-    // For funding signals, verify description mentions funding/investment
-    if (signal.type === SignalType.FUNDING_EVENT) {
-      const fundingKeywords = ['funding', 'investment', 'raised', 'capital', 'round', 'investor'];
-      return fundingKeywords.some(keyword => signalDescription.includes(keyword));
-    }
-    
-    // For technology signals, verify description mentions technology/tech changes
-    if (signal.type === SignalType.TECHNOLOGY_ADOPTION) {
-      const techKeywords = ['technology', 'tech', 'system', 'platform', 'software', 'tool'];
-      return techKeywords.some(keyword => signalDescription.includes(keyword));
-    }
-    
-    // For growth signals, verify description mentions growth indicators
-    if (signal.type === SignalType.COMPANY_GROWTH) {
-      const growthKeywords = ['growth', 'expansion', 'scaling', 'hiring', 'revenue', 'market'];
-      return growthKeywords.some(keyword => signalDescription.includes(keyword));
-    }
-    
-    // For industry trends, verify description mentions industry/market changes
-    if (signal.type === SignalType.INDUSTRY_TREND) {
-      const trendKeywords = ['industry', 'market', 'trend', 'sector', 'regulation', 'compliance'];
-      return trendKeywords.some(keyword => signalDescription.includes(keyword));
+    // If we can't verify the evidence, be conservative
+    if (!definition) {
+      return false;
     }
     
-    // If we can't verify the evidence, be conservative
-    return false;
+    return definition.groundingKeywords.some(keyword => signalDescription.includes(keyword));
   }
 
   /**
    * Gets human-readable description for signal type
    */
-  private getSignalTypeDescription(signalType: SignalType): string {
-    const descriptions: Record<SignalType, string> = {
-      [SignalType.JOB_CHANGE]: 'Role transition',
-      [SignalType.FUNDING_EVENT]: 'Funding activity',
-      [SignalType.TECHNOLOGY_ADOPTION]: 'Technology change',
-      [SignalType.COMPANY_GROWTH]: 'Growth indicator',
-      [SignalType.INDUSTRY_TREND]: 'Industry trend'
-    };
-
-    return descriptions[signalType] || 'Business signal';
+  private getSignalTypeDescription(signalType: SignalTypeId): string {
+    return this.signalTypes.get(signalType)?.label || 'Business signal';
   }
 
   /**
@@ -269,11 +294,21 @@ export class HypothesisFormer implements IHypothesisFormer {
     
     // Direct signal types increase confidence
     const directSignals = strongSignals.filter(signal => 
-      signal.type === SignalType.JOB_CHANGE || signal.type === SignalType.FUNDING_EVENT
+      this.signalTypes.get(signal.type)?.directness === 'direct'
     );
     if (directSignals.length > 0) {
       factors.push(`Direct business signals (${directSignals.length})`);
     }
+
+    // Events confirmed by independent sources increase confidence
+    strongSignals
+      .filter(signal => signal.sources && signal.sources.length > 1)
+      .forEach(signal => {
+        const sources = signal.sources as string[];
+        factors.push(
+          `${this.getSignalTypeDescription(signal.type)} reported by ${sources.length} sources (${sources.join(', ')})`
+        );
+      });
     
     return factors.length > 0 ? factors : ['Single supporting signal available'];
   }
@@ -298,7 +333,7 @@ export class HypothesisFormer implements IHypothesisFormer {
     
     // Note if we only have indirect signals
     const indirectSignals = strongSignals.filter(signal => 
-      signal.type === SignalType.INDUSTRY_TREND || signal.type === SignalType.COMPANY_GROWTH
+      this.signalTypes.get(signal.type)?.directness === 'indirect'
     );
     if (indirectSignals.length === strongSignals.length) {
       assumptions.push('Hypothesis based on indirect signals only');
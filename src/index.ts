@@ -21,7 +21,23 @@ export * from './strategy-selector';
 export * from './message-generator';
 export * from './authenticity-filter';
 export * from './output-assembler';
+export * from './sequence-generator';
+export * from './channel-formatter';
+export * from './lexicon';
+export * from './message-reviser';
 export * from './reasoning-agent';
+export * from './llm-providers';
+export * from './response-cache';
+export * from './job-queue';
+export * from './http-security';
+export * from './freshness';
+export * from './signal-types';
+export * from './signal-metadata';
+export * from './context-ingestor';
+export * from './persona-classifier';
+export * from './playbooks';
+export * from './message-templates';
+export * from './masumi';
 
 import { ReasoningAgent } from './reasoning-agent';
 import { InputValidator } from './validators';
@@ -29,15 +45,44 @@ import { SignalInterpreter } from './signal-interpreter';
 import { HypothesisFormer } from './hypothesis-former';
 import { ConfidenceScorer } from './confidence-scorer';
 import { StrategySelector } from './strategy-selector';
-import { MessageGenerator } from './message-generator';
+import { MessageGenerator, LlmMessageGenerator } from './message-generator';
 import { AuthenticityFilter } from './authenticity-filter';
 import { OutputAssembler } from './output-assembler';
+import { SequenceGenerator } from './sequence-generator';
+import { ChannelFormatter } from './channel-formatter';
+import { LexiconService } from './lexicon';
+import { MessageReviser } from './message-reviser';
+import { ResponseCache } from './response-cache';
+import { FreshnessModel } from './freshness';
+import { SignalTypeRegistry } from './signal-types';
+import { ContextIngestor } from './context-ingestor';
+import { PersonaClassifier } from './persona-classifier';
+import { PlaybookRegistry } from './playbooks';
+import { MessageTemplateLibrary } from './message-templates';
+import { ILlmProvider } from './interfaces';
+import { mapWithConcurrency, toOutreachRequestOptions } from './utils';
+import { SYSTEM_CONSTANTS } from './constants';
 import {
   ProspectData,
   IntentSignal,
   StructuredOutput,
   ProcessingError,
   ValidationResult,
+  SenderProfile,
+  OutreachRequestOptions,
+  OutreachChannel,
+  BatchItem,
+  BatchOptions,
+  BatchResult,
+  BatchStats,
+  CacheStats,
+  SignalCorroborationOptions,
+  FreshnessProfile,
+  SignalTypeDefinition,
+  SignalTypeId,
+  StrategyMatrix,
+  Playbook,
+  MessagePhrasings,
   SignalType,
   CompanySize,
   ConfidenceLevel,
@@ -52,12 +97,40 @@ import {
 export interface AgentConfig {
   /** Enable verbose logging for debugging */
   enableVerboseLogging?: boolean;
-  /** Maximum number of authenticity revision attempts */
+  /** Maximum number of authenticity revision attempts; 0 turns revision off */
   maxRevisionAttempts?: number;
-  /** Custom buzzword list for authenticity filtering */
+  /** Extra buzzwords the generator removes and the authenticity filter counts as promotional */
   customBuzzwords?: string[];
   /** Timeout for processing requests in milliseconds */
   processingTimeout?: number;
+  /** Time budgets in milliseconds keyed by workflow step name, e.g. { message_generation: 5000 } */
+  stepTimeouts?: Record<string, number>;
+  /** LLM provider for message generation; template generation is used when null */
+  llmProvider?: ILlmProvider | null;
+  /** Default sender/offering profile used when a request does not supply one */
+  senderProfile?: SenderProfile | null;
+  /** Seconds a result is reused for identical requests; 0 disables the response cache */
+  cacheTtlSeconds?: number;
+  /** Results kept in the response cache before the least recently used is evicted */
+  cacheMaxEntries?: number;
+  /** Merges reports of the same event from several sources into one signal; off when null */
+  signalCorroboration?: SignalCorroborationOptions | null;
+  /** Weight multipliers in (0, 1] by signal type, over the registered priorities (job_change 1.0 down to industry_trend 0.6) */
+  signalTypePriorities?: Partial<Record<SignalTypeId, number>>;
+  /** Signal types registered alongside the built-in ones, or redefinitions of built-in types */
+  customSignalTypes?: SignalTypeDefinition[];
+  /** Freshness curve overrides by signal type, merged over the defaults (e.g. funding has a 90-day half-life) */
+  freshnessCurves?: FreshnessProfile;
+  /** Freshness profiles keyed by prospect industry, applied over freshnessCurves */
+  freshnessVerticals?: Record<string, FreshnessProfile>;
+  /** Strategy overrides by company size: tone, CTA cap, follow-up timing and value framing */
+  strategyMatrix?: StrategyMatrix;
+  /** Strategy playbooks registered alongside the built-in "default" one, or a redefinition of it */
+  playbooks?: Playbook[];
+  /** Playbook used when a request or batch does not name one (default: "default"); must be registered */
+  defaultPlaybook?: string;
+  /** Message phrasings registered alongside the built-in ones, replacing the entry with the same slot, signal type and strategy */
+  messageTemplates?: MessagePhrasings[];
 }
 
 /**
@@ -115,6 +188,15 @@ export interface AgentConfig {
 export class IntentDrivenOutreachAgent {
   private reasoningAgent: ReasoningAgent;
   private config: Required<AgentConfig>;
+  private readonly lexicon = new LexiconService();
+  private readonly signalTypes = new SignalTypeRegistry();
+  private readonly playbooks = new PlaybookRegistry();
+  private readonly templateLibrary = new MessageTemplateLibrary();
+  private responseCache: ResponseCache<StructuredOutput> | null;
+  private configVersion = 0; // bumped on every config, lexicon, signal type, playbook or phrasing change; part of each cache key
+  private readonly DEFAULT_BATCH_CONCURRENCY = 4;
+  private readonly MAX_BATCH_CONCURRENCY = 16;
+  private readonly MAX_BATCH_SIZE = 1000;
 
   /**
    * Creates a new Intent-Driven Cold Outreach Agent instance
@@ -127,28 +209,33 @@ export class IntentDrivenOutreachAgent {
       maxRevisionAttempts: config.maxRevisionAttempts ?? 3,
       customBuzzwords: config.customBuzzwords ?? [],
       processingTimeout: config.processingTimeout ?? 30000, // 30 seconds
+      stepTimeouts: config.stepTimeouts ?? {},
+      llmProvider: config.llmProvider ?? null,
+      senderProfile: config.senderProfile ?? null,
+      cacheTtlSeconds: config.cacheTtlSeconds ?? 0,
+      cacheMaxEntries: config.cacheMaxEntries ?? 500,
+      signalCorroboration: config.signalCorroboration ?? null,
+      signalTypePriorities: config.signalTypePriorities ?? {},
+      freshnessCurves: config.freshnessCurves ?? {},
+      freshnessVerticals: config.freshnessVerticals ?? {},
+      customSignalTypes: config.customSignalTypes ?? [],
+      strategyMatrix: config.strategyMatrix ?? {},
+      playbooks: config.playbooks ?? [],
+      defaultPlaybook: config.defaultPlaybook ?? SYSTEM_CONSTANTS.DEFAULT_PLAYBOOK,
+      messageTemplates: config.messageTemplates ?? [],
     };
 
-    // Initialize all components with configuration
-    const inputValidator = new InputValidator();
-    const signalInterpreter = new SignalInterpreter();
-    const hypothesisFormer = new HypothesisFormer();
-    const confidenceScorer = new ConfidenceScorer();
-    const strategySelector = new StrategySelector();
-    const messageGenerator = new MessageGenerator();
-    const authenticityFilter = new AuthenticityFilter();
-    const outputAssembler = new OutputAssembler(messageGenerator);
-
-    this.reasoningAgent = new ReasoningAgent(
-      inputValidator,
-      signalInterpreter,
-      hypothesisFormer,
-      confidenceScorer,
-      strategySelector,
-      messageGenerator,
-      authenticityFilter,
-      outputAssembler
-    );
+    this.syncCustomBuzzwords([], this.config.customBuzzwords);
+    this.syncCustomSignalTypes([], this.config.customSignalTypes);
+    this.syncPlaybooks([], this.config.playbooks);
+    this.assertDefaultPlaybook(this.config.defaultPlaybook);
+    this.syncMessageTemplates([], this.config.messageTemplates);
+    this.reasoningAgent = this.buildReasoningAgent();
+    this.responseCache = this.buildResponseCache();
+    this.lexicon.onChange(() => this.invalidateCache());
+    this.signalTypes.onChange(() => this.invalidateCache());
+    this.playbooks.onChange(() => this.invalidateCache());
+    this.templateLibrary.onChange(() => this.invalidateCache());
   }
 
   /**
@@ -156,6 +243,7 @@ export class IntentDrivenOutreachAgent {
    * 
    * @param prospectData Information about the target prospect
    * @param intentSignals Array of intent signals indicating prospect interest
+   * @param options Optional sender profile (overrides the configured default), follow-up sequence settings, channel, playbook and AbortSignal
    * @returns Promise resolving to structured output or processing error
    * 
    * @example
@@ -172,32 +260,92 @@ export class IntentDrivenOutreachAgent {
    *   console.log('Alternatives:', result.alternativeMessages);
    *   console.log('Follow-up timing:', result.suggestedFollowUpTiming);
    * }
+   *
+   * // Request a follow-up sequence alongside the initial message
+   * const withSequence = await agent.processOutreachRequest(prospectData, intentSignals, {
+   *   sequence: { maxTouches: 3 },
+   * });
+   *
+   * // Cancel a request, e.g. when the client disconnects
+   * const controller = new AbortController();
+   * const pending = agent.processOutreachRequest(prospectData, intentSignals, { signal: controller.signal });
+   * controller.abort(); // resolves with a PROCESSING_CANCELLED error
    * ```
    */
   async processOutreachRequest(
     prospectData: ProspectData,
-    intentSignals: IntentSignal[]
+    intentSignals: IntentSignal[],
+    options?: OutreachRequestOptions
+  ): Promise<StructuredOutput | ProcessingError>;
+  /**
+   * @deprecated Pass the sender profile as `{ senderProfile }` in the request options
+   */
+  async processOutreachRequest(
+    prospectData: ProspectData,
+    intentSignals: IntentSignal[],
+    senderProfile?: SenderProfile
+  ): Promise<StructuredOutput | ProcessingError>;
+  async processOutreachRequest(
+    prospectData: ProspectData,
+    intentSignals: IntentSignal[],
+    optionsOrSenderProfile?: OutreachRequestOptions | SenderProfile
   ): Promise<StructuredOutput | ProcessingError> {
+    const options = toOutreachRequestOptions(optionsOrSenderProfile);
     try {
+      const effectiveSenderProfile = options.senderProfile ?? this.config.senderProfile ?? undefined;
+
       // Validate inputs before processing
-      const validationResult = this.validateInputs(prospectData, intentSignals);
+      const validationResult = this.validateInputs(
+        prospectData,
+        intentSignals,
+        effectiveSenderProfile,
+        options.channel
+      );
       if (!validationResult.isValid) {
         return this.createValidationError(validationResult);
       }
 
-      // Process with timeout
-      const processingPromise = this.reasoningAgent.processOutreachRequest(
+      const playbook = options.playbook ?? this.config.defaultPlaybook;
+      if (!this.playbooks.has(playbook)) {
+        return this.createUnknownPlaybookError(playbook);
+      }
+
+      // Identical requests under the same configuration reuse the stored result
+      const cache = this.responseCache;
+      const configVersion = this.configVersion;
+      const cacheKey = cache
+        ? ResponseCache.createKey(configVersion, prospectData, intentSignals, {
+            senderProfile: effectiveSenderProfile,
+            sequence: options.sequence,
+            channel: options.channel ?? OutreachChannel.EMAIL,
+            playbook,
+          })
+        : null;
+      const cached = cache && cacheKey ? cache.get(cacheKey) : undefined;
+      if (cached && cacheKey) {
+        cached.value.processingMetadata.cache = { hit: true, key: cacheKey, storedAt: cached.storedAt };
+        return cached.value;
+      }
+
+      // The workflow enforces the timeouts itself and stops at the step that overran
+      const result = await this.reasoningAgent.processOutreachRequest(
         prospectData,
-        intentSignals
+        intentSignals,
+        { ...options, senderProfile: effectiveSenderProfile, playbook },
+        {
+          totalTimeoutMs: this.config.processingTimeout,
+          stepTimeouts: this.config.stepTimeouts,
+          maxRevisionAttempts: this.config.maxRevisionAttempts,
+        }
       );
 
-      const timeoutPromise = new Promise<ProcessingError>((_, reject) => {
-        setTimeout(() => {
-          reject(new Error('Processing timeout exceeded'));
-        }, this.config.processingTimeout);
-      });
-
-      const result = await Promise.race([processingPromise, timeoutPromise]);
+      // Errors are never cached; neither are results produced under a configuration that has since changed
+      if (cache && cacheKey && !('code' in result)) {
+        result.processingMetadata.cache = { hit: false, key: cacheKey };
+        if (configVersion === this.configVersion) {
+          cache.set(cacheKey, result);
+        }
+      }
 
       // Log processing details if verbose logging is enabled
       if (this.config.enableVerboseLogging && !('code' in result)) {
@@ -211,19 +359,84 @@ export class IntentDrivenOutreachAgent {
     }
   }
 
+  /**
+   * Processes a list of prospects with bounded concurrency
+   *
+   * Each item gets its own result or error keyed by its client-supplied id,
+   * so a single bad row never fails the whole batch.
+   *
+   * @param items Prospects to process, each with a unique id
+   * @param options Optional batch settings (concurrency defaults to 4, max 16) and a campaign playbook
+   * @returns Promise resolving to per-item results with aggregate stats, or an error if the batch itself is malformed
+   *
+   * @example
+   * ```typescript
+   * const batch = await agent.processBatch([
+   *   { id: 'row-1', prospectData, intentSignals },
+   *   { id: 'row-2', prospectData: otherProspect, intentSignals: otherSignals },
+   * ], { concurrency: 4 });
+   *
+   * if (!('code' in batch)) {
+   *   console.log('Failures by code:', batch.stats.failuresByErrorCode);
+   * }
+   * ```
+   */
+  async processBatch(
+    items: BatchItem[],
+    options: BatchOptions = {}
+  ): Promise<BatchResult | ProcessingError> {
+    const batchError = this.validateBatch(items);
+    if (batchError) {
+      return batchError;
+    }
+    if (options.playbook !== undefined && !this.playbooks.has(options.playbook)) {
+      return this.createUnknownPlaybookError(options.playbook);
+    }
+
+    const startTime = Date.now();
+    const concurrency = Math.min(
+      this.MAX_BATCH_CONCURRENCY,
+      Math.max(1, Math.floor(options.concurrency ?? this.DEFAULT_BATCH_CONCURRENCY))
+    );
+
+    const outcomes = await mapWithConcurrency(items, concurrency, async item => {
+      try {
+        // The batch's playbook applies to items that do not name their own
+        const itemOptions = { ...item.options, playbook: item.options?.playbook ?? options.playbook };
+        return await this.processOutreachRequest(item.prospectData, item.intentSignals, itemOptions);
+      } catch (error) {
+        return this.handleProcessingError(error);
+      }
+    });
+
+    const results: Record<string, StructuredOutput | ProcessingError> = {};
+    items.forEach((item, index) => {
+      results[item.id] = outcomes[index];
+    });
+
+    return {
+      results,
+      stats: this.summarizeBatch(outcomes, Date.now() - startTime),
+    };
+  }
+
   /**
    * Validates prospect data and intent signals before processing
    * 
    * @param prospectData Prospect information to validate
    * @param intentSignals Intent signals to validate
+   * @param senderProfile Optional sender profile to validate
+   * @param channel Optional outreach channel; its contact field must be present
    * @returns Validation result with errors and warnings
    */
   public validateInputs(
     prospectData: ProspectData,
-    intentSignals: IntentSignal[]
+    intentSignals: IntentSignal[],
+    senderProfile?: SenderProfile,
+    channel?: OutreachChannel
   ): ValidationResult {
-    const inputValidator = new InputValidator();
-    return inputValidator.validateInput(prospectData, intentSignals);
+    const inputValidator = new InputValidator(this.buildFreshnessModel(), this.signalTypes);
+    return inputValidator.validateInput(prospectData, intentSignals, senderProfile, channel);
   }
 
   /**
@@ -237,25 +450,148 @@ export class IntentDrivenOutreachAgent {
 
   /**
    * Updates the agent configuration
-   * 
+   *
+   * Buzzword, signal type, playbook and phrasing changes apply to the shared lexicon and registries immediately; a new LLM provider,
+   * signal interpretation setting or strategy matrix rebuilds the workflow components. Requests already running
+   * finish on the old components.
+   * Any update invalidates the response cache.
+   *
    * @param newConfig Partial configuration to update
    */
   public updateConfig(newConfig: Partial<AgentConfig>): void {
+    if (newConfig.defaultPlaybook !== undefined || newConfig.playbooks !== undefined) {
+      this.assertDefaultPlaybook(newConfig.defaultPlaybook ?? this.config.defaultPlaybook, newConfig.playbooks);
+    }
+
+    const previousConfig = this.config;
     this.config = {
       ...this.config,
       ...newConfig,
     };
+    this.invalidateCache();
+
+    if (this.config.cacheTtlSeconds !== previousConfig.cacheTtlSeconds
+      || this.config.cacheMaxEntries !== previousConfig.cacheMaxEntries) {
+      this.responseCache = this.buildResponseCache();
+    }
 
-    // Reinitialize components if necessary
     if (newConfig.customBuzzwords !== undefined) {
-      // Would need to reinitialize authenticity filter with new buzzwords
-      // For now, log that restart is needed
-      if (this.config.enableVerboseLogging) {
-        console.log('Configuration updated. Restart agent to apply buzzword changes.');
-      }
+      this.syncCustomBuzzwords(previousConfig.customBuzzwords, this.config.customBuzzwords);
+    }
+
+    if (newConfig.customSignalTypes !== undefined) {
+      this.syncCustomSignalTypes(previousConfig.customSignalTypes, this.config.customSignalTypes);
+    }
+
+    if (newConfig.playbooks !== undefined) {
+      this.syncPlaybooks(previousConfig.playbooks, this.config.playbooks);
+    }
+
+    if (newConfig.messageTemplates !== undefined) {
+      this.syncMessageTemplates(previousConfig.messageTemplates, this.config.messageTemplates);
+    }
+
+    const llmProviderChanged = newConfig.llmProvider !== undefined && newConfig.llmProvider !== previousConfig.llmProvider;
+    const interpretationChanged =
+      (newConfig.signalCorroboration !== undefined && newConfig.signalCorroboration !== previousConfig.signalCorroboration)
+      || (newConfig.signalTypePriorities !== undefined && newConfig.signalTypePriorities !== previousConfig.signalTypePriorities)
+      || (newConfig.freshnessCurves !== undefined && newConfig.freshnessCurves !== previousConfig.freshnessCurves)
+      || (newConfig.freshnessVerticals !== undefined && newConfig.freshnessVerticals !== previousConfig.freshnessVerticals);
+    const strategyChanged = newConfig.strategyMatrix !== undefined && newConfig.strategyMatrix !== previousConfig.strategyMatrix;
+    if (llmProviderChanged || interpretationChanged || strategyChanged) {
+      this.reasoningAgent = this.buildReasoningAgent();
     }
   }
 
+  /**
+   * Gets the lexicon shared by message generation and authenticity filtering
+   *
+   * Terms added or removed here apply to the next request without restarting the agent.
+   *
+   * @example
+   * ```typescript
+   * agent.getLexicon().addTerm('hyperautomation', 'buzzword', 'automation');
+   * agent.getLexicon().removeTerm('premium', 'promotional');
+   * ```
+   */
+  public getLexicon(): LexiconService {
+    return this.lexicon;
+  }
+
+  /**
+   * Gets the signal type registry shared by validation, weighting, hypothesis formation and generation
+   *
+   * Types registered here are accepted from the next request without restarting the agent.
+   *
+   * @example
+   * ```typescript
+   * agent.getSignalTypes().register({
+   *   id: 'hiring_surge',
+   *   label: 'Hiring surge',
+   *   priority: 0.75,
+   *   directness: 'moderate',
+   *   freshness: { plateauDays: 7, halfLifeDays: 30, minimum: 0.1 },
+   *   groundingKeywords: ['hiring', 'roles', 'openings'],
+   *   conservativeReason: 'A hiring push may stretch onboarding and tooling',
+   *   subjectTopic: 'the hiring push',
+   * });
+   * ```
+   */
+  public getSignalTypes(): SignalTypeRegistry {
+    return this.signalTypes;
+  }
+
+  /**
+   * Gets the playbook registry strategies are selected from
+   *
+   * Playbooks registered or loaded here can be named by requests and batches right away.
+   *
+   * @example
+   * ```typescript
+   * agent.getPlaybooks().loadFile('./playbooks/enterprise-security.json');
+   * await agent.processOutreachRequest(prospectData, intentSignals, { playbook: 'enterprise-security' });
+   * ```
+   */
+  public getPlaybooks(): PlaybookRegistry {
+    return this.playbooks;
+  }
+
+  /**
+   * Gets the template library messages take their relevance and value proposition sentences from
+   *
+   * Phrasings registered or loaded here apply to the next request.
+   *
+   * @example
+   * ```typescript
+   * agent.getMessageTemplates().register({
+   *   slot: 'relevance',
+   *   signalType: SignalType.FUNDING_EVENT,
+   *   variants: ['Congrats on the raise at {company}; it seemed relevant to {remit}.'],
+   * });
+   * agent.getMessageTemplates().loadFile('./templates/fintech.json');
+   * ```
+   */
+  public getMessageTemplates(): MessageTemplateLibrary {
+    return this.templateLibrary;
+  }
+
+  /**
+   * Drops every cached result, e.g. after changing data the workflow reads outside the agent config
+   *
+   * Config updates, lexicon, signal type, playbook and phrasing changes invalidate the cache on their own.
+   */
+  public invalidateCache(): void {
+    this.configVersion++;
+    this.responseCache?.clear();
+  }
+
+  /**
+   * Gets response cache counters, or null when the cache is disabled
+   */
+  public getCacheStats(): CacheStats | null {
+    return this.responseCache?.getStats() ?? null;
+  }
+
   /**
    * Gets processing statistics and health information
    * 
@@ -292,19 +628,240 @@ export class IntentDrivenOutreachAgent {
     };
   }
 
+  private createUnknownPlaybookError(playbook: string): ProcessingError {
+    return {
+      code: 'UNKNOWN_PLAYBOOK',
+      message: `Unknown playbook "${playbook}"`,
+      step: 'input_validation',
+      context: { playbook, available: this.playbooks.list().map(registered => registered.name) },
+      remediation: 'Name a registered playbook, or omit playbook to use the default',
+    };
+  }
+
+  /**
+   * Checks batch shape; row contents are validated per item during processing
+   */
+  private validateBatch(items: BatchItem[]): ProcessingError | null {
+    let problem: string | null = null;
+
+    if (!Array.isArray(items) || items.length === 0) {
+      problem = 'Batch must be a non-empty array of items';
+    } else if (items.length > this.MAX_BATCH_SIZE) {
+      problem = `Batch exceeds the maximum of ${this.MAX_BATCH_SIZE} items`;
+    } else {
+      const seenIds = new Set<string>();
+      for (const [index, item] of items.entries()) {
+        const id = item && typeof item === 'object' ? item.id : undefined;
+        if (typeof id !== 'string' || id.trim().length === 0) {
+          problem = `Item at index ${index} must have a non-empty string id`;
+          break;
+        }
+        if (seenIds.has(id)) {
+          problem = `Duplicate item id "${id}"`;
+          break;
+        }
+        seenIds.add(id);
+      }
+    }
+
+    if (!problem) {
+      return null;
+    }
+
+    return {
+      code: 'INVALID_BATCH',
+      message: problem,
+      step: 'batch_validation',
+      remediation: 'Send a non-empty array of items, each with a unique id, prospectData and intentSignals',
+    };
+  }
+
+  /**
+   * Aggregates per-item outcomes into batch statistics
+   */
+  private summarizeBatch(outcomes: Array<StructuredOutput | ProcessingError>, executionTime: number): BatchStats {
+    const confidenceDistribution: Record<ConfidenceLevel, number> = {
+      [ConfidenceLevel.HIGH]: 0,
+      [ConfidenceLevel.MEDIUM]: 0,
+      [ConfidenceLevel.LOW]: 0,
+    };
+    const failuresByErrorCode: Record<string, number> = {};
+
+    outcomes.forEach(outcome => {
+      if ('code' in outcome) {
+        failuresByErrorCode[outcome.code] = (failuresByErrorCode[outcome.code] || 0) + 1;
+      } else {
+        confidenceDistribution[outcome.intentConfidence]++;
+      }
+    });
+
+    const failed = Object.values(failuresByErrorCode).reduce((sum, count) => sum + count, 0);
+
+    return {
+      total: outcomes.length,
+      succeeded: outcomes.length - failed,
+      failed,
+      confidenceDistribution,
+      failuresByErrorCode,
+      executionTime,
+    };
+  }
+
+  /**
+   * Builds the freshness model shared by input validation and signal weighting
+   */
+  private buildFreshnessModel(): FreshnessModel {
+    return new FreshnessModel({
+      curves: this.config.freshnessCurves,
+      verticals: this.config.freshnessVerticals,
+      signalTypes: this.signalTypes,
+    });
+  }
+
+  /**
+   * Builds the workflow components around the shared lexicon, signal type registry and the configured LLM provider
+   */
+  private buildReasoningAgent(): ReasoningAgent {
+    const strategySelector = new StrategySelector(this.config.strategyMatrix, this.playbooks);
+    const contextIngestor = new ContextIngestor();
+    const personaClassifier = new PersonaClassifier();
+    const templateGenerator = new MessageGenerator(
+      this.lexicon,
+      this.signalTypes,
+      contextIngestor,
+      personaClassifier,
+      this.templateLibrary
+    );
+    const messageGenerator = this.config.llmProvider
+      ? new LlmMessageGenerator(this.config.llmProvider, templateGenerator, contextIngestor)
+      : templateGenerator;
+    const authenticityFilter = new AuthenticityFilter(this.lexicon);
+    const freshness = this.buildFreshnessModel();
+
+    return new ReasoningAgent(
+      new InputValidator(freshness, this.signalTypes),
+      new SignalInterpreter({
+        typePriorities: this.config.signalTypePriorities,
+        corroboration: this.config.signalCorroboration ?? undefined,
+        freshness,
+        signalTypes: this.signalTypes,
+      }),
+      new HypothesisFormer(this.signalTypes),
+      new ConfidenceScorer(this.signalTypes),
+      strategySelector,
+      messageGenerator,
+      authenticityFilter,
+      new OutputAssembler(messageGenerator),
+      new SequenceGenerator(strategySelector, authenticityFilter, templateGenerator),
+      new ChannelFormatter(templateGenerator),
+      new MessageReviser(templateGenerator),
+      contextIngestor,
+      personaClassifier
+    );
+  }
+
+  private buildResponseCache(): ResponseCache<StructuredOutput> | null {
+    if (!(this.config.cacheTtlSeconds > 0)) {
+      return null;
+    }
+    return new ResponseCache<StructuredOutput>({
+      ttlMs: this.config.cacheTtlSeconds * 1000,
+      maxEntries: this.config.cacheMaxEntries,
+    });
+  }
+
+  /**
+   * Moves configured buzzwords into the lexicon. Terms dropped from the config are removed
+   * unless they ship with the lexicon; terms already present keep their replacement.
+   */
+  private syncCustomBuzzwords(previous: string[], next: string[]): void {
+    const nextTerms = new Set(next.map(term => term.trim().toLowerCase()));
+    const categories = ['buzzword', 'promotional'] as const;
+
+    previous
+      .filter(term => !nextTerms.has(term.trim().toLowerCase()))
+      .forEach(term => categories.forEach(category => {
+        if (!this.lexicon.isDefaultTerm(term, category)) {
+          this.lexicon.removeTerm(term, category);
+        }
+      }));
+
+    next.forEach(term => categories.forEach(category => {
+      if (!this.lexicon.hasTerm(term, category)) {
+        this.lexicon.addTerm(term, category);
+      }
+    }));
+  }
+
+  /**
+   * Moves configured signal types into the registry. Types dropped from the config are
+   * unregistered, which restores the default definition of a redefined built-in type.
+   */
+  private syncCustomSignalTypes(previous: SignalTypeDefinition[], next: SignalTypeDefinition[]): void {
+    const nextIds = new Set(next.map(definition => definition.id));
+
+    previous
+      .filter(definition => !nextIds.has(definition.id))
+      .forEach(definition => this.signalTypes.unregister(definition.id));
+
+    next.forEach(definition => this.signalTypes.register(definition));
+  }
+
+  /**
+   * Moves configured playbooks into the registry. Playbooks dropped from the config are
+   * unregistered, which restores the built-in default playbook if it was redefined.
+   */
+  private syncPlaybooks(previous: Playbook[], next: Playbook[]): void {
+    const nextNames = new Set(next.map(playbook => playbook.name));
+
+    previous
+      .filter(playbook => !nextNames.has(playbook.name))
+      .forEach(playbook => this.playbooks.unregister(playbook.name));
+
+    next.forEach(playbook => this.playbooks.register(playbook));
+  }
+
+  /**
+   * Throws INVALID_PLAYBOOK unless the default playbook is registered, or will be once nextPlaybooks are synced
+   */
+  private assertDefaultPlaybook(name: string, nextPlaybooks?: Playbook[]): void {
+    const removed = nextPlaybooks !== undefined && this.config.playbooks.some(playbook => playbook.name === name);
+    const registered = name === SYSTEM_CONSTANTS.DEFAULT_PLAYBOOK
+      || (nextPlaybooks ?? []).some(playbook => playbook.name === name)
+      || (this.playbooks.has(name) && !removed);
+
+    if (!registered) {
+      const available = this.playbooks.list().map(playbook => playbook.name).join(', ');
+      const error = new Error(`defaultPlaybook "${name}" is not a registered playbook (available: ${available})`);
+      error.name = 'INVALID_PLAYBOOK';
+      throw error;
+    }
+  }
+
+  /**
+   * Moves configured phrasings into the template library. Entries dropped from the config are
+   * unregistered, which restores the built-in phrasings they replaced.
+   */
+  private syncMessageTemplates(previous: MessagePhrasings[], next: MessagePhrasings[]): void {
+    const keyOf = (entry: MessagePhrasings) => `${entry.slot}|${entry.signalType ?? '*'}|${entry.strategyType ?? '*'}`;
+    const nextKeys = new Set(next.map(keyOf));
+
+    previous
+      .filter(entry => !nextKeys.has(keyOf(entry)))
+      .forEach(entry => this.templateLibrary.unregister(entry.slot, entry.signalType, entry.strategyType));
+
+    next.forEach(entry => this.templateLibrary.register(entry));
+  }
+
   /**
    * Handles unexpected processing errors
    */
   private handleProcessingError(error: unknown): ProcessingError {
     let message = 'An unexpected error occurred during processing';
-    let code = 'PROCESSING_ERROR';
+    const code = 'PROCESSING_ERROR';
 
     if (error instanceof Error) {
       message = error.message;
-      if (error.message.includes('timeout')) {
-        code = 'PROCESSING_TIMEOUT';
-        message = 'Processing request exceeded the configured timeout';
-      }
     }
 
     return {
@@ -410,7 +967,7 @@ export const AgentUtils = {
   },
 
   /**
-   * Validates that a signal type is valid
+   * Validates that a signal type is one of the built-in SignalType values
    */
   isValidSignalType(type: string): type is SignalType {
     return Object.values(SignalType).includes(type as SignalType);
@@ -16,17 +16,47 @@ import {
   ProcessingError,
   ProcessingMetadata,
   AuditLogEntry,
+  LlmCompletionRequest,
+  SenderProfile,
+  FollowUpTiming,
+  FollowUpTouch,
+  SequenceOptions,
+  OutreachRequestOptions,
+  ExecutionLimits,
+  SubjectLines,
+  OutreachChannel,
+  OutputExtras,
+  LexiconCategory,
+  LexiconTerm,
+  MessageRevision,
+  AuthenticityIssue,
+  MasumiJob,
+  PaymentRequest,
+  OutreachJob,
+  WebhookDelivery,
+  SignalTypeId,
+  SignalTypeDefinition,
+  PersonalizationHook,
+  Persona,
+  CompanySize,
+  Playbook,
+  CallToActionLevel,
+  MessagePhrasings,
+  MessageSlot,
+  StrategyType,
 } from '../types';
 
 export interface IInputValidator {
   validateInput(
     prospectData: ProspectData,
-    intentSignals: IntentSignal[]
+    intentSignals: IntentSignal[],
+    senderProfile?: SenderProfile,
+    channel?: OutreachChannel
   ): ValidationResult;
 }
 
 export interface ISignalInterpreter {
-  interpretSignals(intentSignals: IntentSignal[]): WeightedSignal[];
+  interpretSignals(intentSignals: IntentSignal[], industry?: string): WeightedSignal[];
 }
 
 export interface IHypothesisFormer {
@@ -41,15 +71,33 @@ export interface IConfidenceScorer {
 }
 
 export interface IStrategySelector {
-  selectStrategy(confidenceLevel: ConfidenceLevel): MessageStrategy;
+  selectStrategy(
+    confidenceLevel: ConfidenceLevel,
+    companySize?: CompanySize,
+    persona?: Persona,
+    playbook?: string
+  ): MessageStrategy;
+}
+
+export interface IPersonaClassifier {
+  classify(role: string): Persona;
 }
 
 export interface IMessageGenerator {
   generateMessage(
+    strategy: MessageStrategy,
+    hypothesis: IntentHypothesis,
+    prospectData: ProspectData,
+    senderProfile?: SenderProfile,
+    variant?: number, // 0 for the recommended message, 1 and 2 for the alternatives
+    signal?: AbortSignal // aborted when the step is cancelled or runs out of time
+  ): string | Promise<string>;
+
+  generateSubjectLines(
     strategy: MessageStrategy,
     hypothesis: IntentHypothesis,
     prospectData: ProspectData
-  ): string;
+  ): SubjectLines;
 }
 
 export interface IAuthenticityFilter {
@@ -57,6 +105,8 @@ export interface IAuthenticityFilter {
     message: string,
     confidenceLevel: ConfidenceLevel
   ): AuthenticityResult;
+
+  evaluateSubjectLine(subject: string): AuthenticityResult;
 }
 
 export interface IOutputAssembler {
@@ -65,24 +115,127 @@ export interface IOutputAssembler {
     confidence: ConfidenceLevel,
     reasoning: string,
     alternatives: [string, string],
-    metadata: ProcessingMetadata
+    metadata: ProcessingMetadata,
+    extras?: OutputExtras
   ): StructuredOutput;
+
+  suggestFollowUpTiming(confidence: ConfidenceLevel): FollowUpTiming;
   
   generateAlternativeMessages(
     originalStrategy: MessageStrategy,
     hypothesis: IntentHypothesis,
     prospectData: ProspectData,
-    confidence: ConfidenceLevel
-  ): [string, string];
+    confidence: ConfidenceLevel,
+    senderProfile?: SenderProfile,
+    signal?: AbortSignal
+  ): Promise<[string, string]>;
+}
+
+export interface IMessageReviser {
+  reviseMessage(message: string, issues: AuthenticityIssue[], confidence: ConfidenceLevel): MessageRevision;
+}
+
+export interface ILexicon {
+  getTerms(category: LexiconCategory): LexiconTerm[];
+  hasTerm(term: string, category: LexiconCategory): boolean;
+  addTerm(term: string, category: LexiconCategory, replacement?: string): void;
+  removeTerm(term: string, category: LexiconCategory): boolean;
+}
+
+export interface ISignalTypeRegistry {
+  get(type: SignalTypeId): SignalTypeDefinition | undefined;
+  has(type: SignalTypeId): boolean;
+  list(): SignalTypeDefinition[];
+  register(definition: SignalTypeDefinition): void;
+  unregister(type: SignalTypeId): boolean;
+}
+
+export interface IPlaybookRegistry {
+  get(name: string): Playbook | undefined;
+  has(name: string): boolean;
+  list(): Playbook[];
+  register(playbook: Playbook): void;
+  unregister(name: string): boolean;
+}
+
+export interface IMessageTemplateLibrary {
+  get(slot: MessageSlot, signalType?: SignalTypeId, strategyType?: StrategyType): MessagePhrasings | undefined;
+  has(slot: MessageSlot, signalType?: SignalTypeId, strategyType?: StrategyType): boolean;
+  list(): MessagePhrasings[];
+  register(entry: MessagePhrasings): void;
+  unregister(slot: MessageSlot, signalType?: SignalTypeId, strategyType?: StrategyType): boolean;
+  selectVariant(
+    slot: MessageSlot,
+    seed: string,
+    variant: number,
+    signalType?: SignalTypeId,
+    strategyType?: StrategyType
+  ): string | undefined;
+}
+
+export interface IContextIngestor {
+  ingestRecentEvents(prospectData: ProspectData, now?: Date): IntentSignal[];
+  getPersonalizationHooks(prospectData: ProspectData): PersonalizationHook[];
+}
+
+export interface IChannelFormatter {
+  formatMessage(message: string, channel: OutreachChannel, senderProfile?: SenderProfile): string;
+  supportsSubject(channel: OutreachChannel): boolean;
+}
+
+export interface ISequenceGenerator {
+  generateSequence(
+    initialMessage: string,
+    hypothesis: IntentHypothesis,
+    prospectData: ProspectData,
+    confidence: ConfidenceLevel,
+    timing: FollowUpTiming,
+    options?: SequenceOptions,
+    senderProfile?: SenderProfile,
+    maxCallToAction?: CallToActionLevel
+  ): FollowUpTouch[];
+}
+
+export interface ILlmProvider {
+  readonly name: string;
+  complete(request: LlmCompletionRequest, signal?: AbortSignal): Promise<string>; // abort cancels the HTTP request
 }
 
 export interface IReasoningAgent {
   processOutreachRequest(
     prospectData: ProspectData,
-    intentSignals: IntentSignal[]
+    intentSignals: IntentSignal[],
+    options?: OutreachRequestOptions,
+    limits?: ExecutionLimits
   ): Promise<StructuredOutput | ProcessingError>;
 }
 
+// Anything that runs the full outreach pipeline, with input validation
+export interface IOutreachProcessor {
+  processOutreachRequest(
+    prospectData: ProspectData,
+    intentSignals: IntentSignal[],
+    options?: OutreachRequestOptions
+  ): Promise<StructuredOutput | ProcessingError>;
+}
+
+export interface IJobStore {
+  create(job: MasumiJob): void;
+  get(jobId: string): MasumiJob | undefined;
+  update(jobId: string, changes: Partial<Omit<MasumiJob, 'jobId' | 'createdAt'>>): MasumiJob | undefined;
+}
+
+// Payment-verification hook for Masumi jobs; the job runs only once payment is confirmed
+export interface IPaymentVerifier {
+  createPaymentRequest(job: MasumiJob): Promise<PaymentRequest>;
+  waitForPayment(job: MasumiJob): Promise<boolean>;
+}
+
+// Delivers a finished job to its callback URL, retrying on failure
+export interface IWebhookDispatcher {
+  dispatch(job: OutreachJob): WebhookDelivery;
+}
+
 export interface IAuditLogger {
   logStep(step: string, status: 'started' | 'completed' | 'failed', details?: Record<string, unknown>): void;
   getAuditLog(): AuditLogEntry[];
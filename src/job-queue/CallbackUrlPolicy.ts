@@ -0,0 +1,89 @@
+/**
+ * CallbackUrlPolicy - Which hosts webhooks may be delivered to
+ *
+ * Callback URLs come from clients, so without a policy the server could be
+ * made to POST to its own network. With an allow-list, only the listed hosts
+ * (exact, or "*.example.com" for subdomains) are accepted. Without one, any
+ * public host is accepted, and loopback, link-local and private addresses are
+ * rejected both in the URL and after DNS resolution.
+ */
+
+import { BlockList, isIP } from 'net';
+
+export class CallbackUrlPolicy {
+  private readonly allowedHosts: string[];
+  private readonly blockedAddresses = new BlockList();
+
+  constructor(allowedHosts: string[] = []) {
+    this.allowedHosts = allowedHosts.map(host => host.trim().toLowerCase()).filter(Boolean);
+
+    const ipv4Subnets: Array<[string, number]> = [
+      ['0.0.0.0', 8], // "this" network
+      ['10.0.0.0', 8], // private
+      ['100.64.0.0', 10], // carrier-grade NAT
+      ['127.0.0.0', 8], // loopback
+      ['169.254.0.0', 16], // link-local, including cloud metadata endpoints
+      ['172.16.0.0', 12], // private
+      ['192.168.0.0', 16], // private
+      ['224.0.0.0', 4], // multicast
+      ['240.0.0.0', 4], // reserved and broadcast
+    ];
+    const ipv6Subnets: Array<[string, number]> = [
+      ['::', 128], // unspecified
+      ['::1', 128], // loopback
+      ['fc00::', 7], // unique local
+      ['fe80::', 10], // link-local
+    ];
+    ipv4Subnets.forEach(([network, prefix]) => this.blockedAddresses.addSubnet(network, prefix, 'ipv4'));
+    ipv6Subnets.forEach(([network, prefix]) => this.blockedAddresses.addSubnet(network, prefix, 'ipv6'));
+  }
+
+  /**
+   * Returns why the URL is not an acceptable callback, or null if it is
+   */
+  check(url: string): string | null {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return 'callbackUrl must be an absolute http or https URL';
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      return 'callbackUrl must be an absolute http or https URL';
+    }
+
+    // IPv6 hosts keep their brackets in URL.hostname
+    const hostname = parsed.hostname.replace(/^\[(.*)\]$/, '$1').toLowerCase();
+
+    if (this.allowedHosts.length > 0) {
+      return this.isAllowedHost(hostname) ? null : `callbackUrl host ${hostname} is not in the allowed callback hosts`;
+    }
+
+    if (hostname === 'localhost' || hostname.endsWith('.localhost') || !this.isAllowedAddress(hostname)) {
+      return `callbackUrl host ${hostname} is a loopback, link-local or private address`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Whether a resolved address may be connected to; hosts on the allow-list may resolve anywhere
+   */
+  isAllowedAddress(address: string, hostname?: string): boolean {
+    if (hostname !== undefined && this.allowedHosts.length > 0) {
+      return this.isAllowedHost(hostname.toLowerCase());
+    }
+
+    const family = isIP(address);
+    if (family === 0) {
+      return true; // a host name, checked again once resolved
+    }
+    return !this.blockedAddresses.check(address, family === 6 ? 'ipv6' : 'ipv4');
+  }
+
+  private isAllowedHost(hostname: string): boolean {
+    return this.allowedHosts.some(allowed => allowed.startsWith('*.')
+      ? hostname.endsWith(allowed.slice(1))
+      : hostname === allowed);
+  }
+}
@@ -0,0 +1,318 @@
+/**
+ * OutreachJobQueue - Asynchronous outreach runs with bounded concurrency
+ *
+ * Implements the job subsystem with:
+ * - Submit-then-poll, or a signed webhook once the job finishes
+ * - At most `concurrency` pipeline runs at a time, the rest wait in FIFO order
+ * - At most `maxQueuedJobs` jobs waiting; further submissions fail with QUEUE_FULL
+ * - Retries with exponential backoff when a run fails with a transient error code
+ *
+ * The queue is also an IOutreachProcessor, so other job front ends (such as
+ * MasumiService) can share its concurrency bound and retries. Work that must
+ * answer at once, such as synchronous HTTP requests, reserves slots instead.
+ */
+
+import { randomUUID } from 'crypto';
+import { IOutreachProcessor, IWebhookDispatcher } from '../interfaces';
+import {
+  IntentSignal,
+  OutreachJob,
+  OutreachJobRequest,
+  OutreachRequestOptions,
+  ProcessingError,
+  ProspectData,
+  StructuredOutput,
+} from '../types';
+import { backoffDelay } from '../utils';
+import { CallbackUrlPolicy } from './CallbackUrlPolicy';
+
+export interface OutreachJobQueueOptions {
+  concurrency?: number; // default 10
+  maxQueuedJobs?: number; // jobs waiting to start, default 1000
+  maxAttempts?: number; // pipeline runs per job, default 3
+  retryBaseDelayMs?: number; // default 1000, doubled per retry
+  retryableErrorCodes?: string[]; // default: timeouts, generation failures and unexpected errors
+  maxRetainedJobs?: number; // finished jobs kept for polling, default 1000
+  webhookDispatcher?: IWebhookDispatcher; // required to accept callback URLs
+  callbackUrlPolicy?: CallbackUrlPolicy; // default rejects loopback, link-local and private addresses
+}
+
+interface QueueEntry {
+  job: OutreachJob;
+  request: OutreachJobRequest;
+}
+
+export class OutreachJobQueue implements IOutreachProcessor {
+  // Errors that may succeed on a later run; validation and cancellation never do
+  private readonly DEFAULT_RETRYABLE_ERROR_CODES = ['PROCESSING_TIMEOUT', 'MESSAGE_GENERATION_ERROR', 'PROCESSING_ERROR'];
+
+  private readonly entries = new Map<string, QueueEntry>();
+  private readonly pending: string[] = [];
+  private readonly waiters = new Map<string, Array<(job: OutreachJob) => void>>();
+  private readonly retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private readonly inFlight = new Set<Promise<void>>();
+  private runningCount = 0;
+  private reservedCount = 0; // slots held by reserveSlots() callers
+
+  private readonly concurrency: number;
+  private readonly maxQueuedJobs: number;
+  private readonly maxAttempts: number;
+  private readonly retryBaseDelayMs: number;
+  private readonly retryableErrorCodes: Set<string>;
+  private readonly maxRetainedJobs: number;
+  private readonly callbackUrlPolicy: CallbackUrlPolicy;
+
+  constructor(private processor: IOutreachProcessor, private options: OutreachJobQueueOptions = {}) {
+    this.concurrency = Math.max(1, Math.floor(options.concurrency ?? 10));
+    this.maxQueuedJobs = Math.max(0, options.maxQueuedJobs ?? 1000);
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? 3);
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 1000;
+    this.retryableErrorCodes = new Set(options.retryableErrorCodes ?? this.DEFAULT_RETRYABLE_ERROR_CODES);
+    this.maxRetainedJobs = options.maxRetainedJobs ?? 1000;
+    this.callbackUrlPolicy = options.callbackUrlPolicy ?? new CallbackUrlPolicy();
+  }
+
+  /**
+   * Queues a request and returns at once; poll getJob() or wait for the webhook
+   */
+  submit(request: OutreachJobRequest): OutreachJob | ProcessingError {
+    const requestError = this.validateRequest(request);
+    if (requestError) {
+      return requestError;
+    }
+    if (this.pending.length >= this.maxQueuedJobs) {
+      return this.createError(`The job queue is full (${this.maxQueuedJobs} jobs waiting)`, 'QUEUE_FULL');
+    }
+
+    const now = new Date();
+    const job: OutreachJob = {
+      jobId: randomUUID(),
+      status: 'queued',
+      attempts: 0,
+      ...(request.callbackUrl && { callbackUrl: request.callbackUrl }),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.entries.set(job.jobId, { job, request });
+    this.pending.push(job.jobId);
+    this.evictFinishedJobs();
+    this.pump();
+
+    return { ...job };
+  }
+
+  getJob(jobId: string): OutreachJob | undefined {
+    const entry = this.entries.get(jobId);
+    return entry ? { ...entry.job } : undefined;
+  }
+
+  /**
+   * Resolves with the job once it has completed or failed
+   */
+  waitForJob(jobId: string): Promise<OutreachJob | undefined> {
+    const entry = this.entries.get(jobId);
+    if (!entry || this.isFinished(entry.job)) {
+      return Promise.resolve(entry ? { ...entry.job } : undefined);
+    }
+
+    return new Promise(resolve => {
+      this.waiters.set(jobId, [...(this.waiters.get(jobId) ?? []), resolve]);
+    });
+  }
+
+  /**
+   * Runs a request through the queue and waits for its outcome
+   */
+  async processOutreachRequest(
+    prospectData: ProspectData,
+    intentSignals: IntentSignal[],
+    options: OutreachRequestOptions = {}
+  ): Promise<StructuredOutput | ProcessingError> {
+    const { signal: _signal, ...jobOptions } = options;
+    const submitted = this.submit({ prospectData, intentSignals, options: jobOptions });
+    if ('code' in submitted) {
+      return submitted;
+    }
+
+    const job = await this.waitForJob(submitted.jobId);
+    return job?.result ?? job?.error ?? this.createError(`Job ${submitted.jobId} finished without an outcome`);
+  }
+
+  /**
+   * Takes up to `count` concurrency slots for work run outside the queue, or null when none is free
+   * Queued jobs do not start in reserved slots until release() is called
+   */
+  reserveSlots(count: number): { slots: number; release: () => void } | null {
+    const free = this.concurrency - this.runningCount - this.reservedCount;
+    if (free < 1) {
+      return null;
+    }
+
+    const slots = Math.min(free, Math.max(1, Math.floor(count)));
+    let released = false;
+    this.reservedCount += slots;
+    return {
+      slots,
+      release: () => {
+        if (released) {
+          return;
+        }
+        released = true;
+        this.reservedCount -= slots;
+        this.pump();
+      },
+    };
+  }
+
+  getStats(): { queued: number; running: number; reserved: number; retrying: number; concurrency: number } {
+    return {
+      queued: this.pending.length,
+      running: this.runningCount,
+      reserved: this.reservedCount,
+      retrying: this.retryTimers.size,
+      concurrency: this.concurrency,
+    };
+  }
+
+  /**
+   * Resolves once no job is queued, running or waiting to retry
+   */
+  async waitForIdle(): Promise<void> {
+    while (this.inFlight.size > 0) {
+      await Promise.all(Array.from(this.inFlight));
+    }
+  }
+
+  /**
+   * Cancels scheduled retries; those jobs stay in the retrying state
+   */
+  close(): void {
+    this.retryTimers.forEach(timer => clearTimeout(timer));
+    this.retryTimers.clear();
+    this.inFlight.clear();
+  }
+
+  private pump(): void {
+    while (this.runningCount + this.reservedCount < this.concurrency && this.pending.length > 0) {
+      const jobId = this.pending.shift() as string;
+      const entry = this.entries.get(jobId);
+      if (!entry) {
+        continue;
+      }
+
+      this.runningCount++;
+      this.track(this.run(entry).finally(() => {
+        this.runningCount--;
+        this.pump();
+      }));
+    }
+  }
+
+  private async run(entry: QueueEntry): Promise<void> {
+    const { job, request } = entry;
+    this.update(job, { status: 'running', attempts: job.attempts + 1, nextAttemptAt: undefined });
+
+    let outcome: StructuredOutput | ProcessingError;
+    try {
+      outcome = await this.processor.processOutreachRequest(request.prospectData, request.intentSignals, request.options);
+    } catch (error) {
+      outcome = this.createError(error instanceof Error ? error.message : 'Unknown error');
+    }
+
+    if (!('code' in outcome)) {
+      this.finish(job, { status: 'completed', result: outcome, error: undefined });
+      return;
+    }
+
+    if (this.retryableErrorCodes.has(outcome.code) && job.attempts < this.maxAttempts) {
+      const delayMs = backoffDelay(job.attempts, this.retryBaseDelayMs);
+      this.update(job, { status: 'retrying', error: outcome, nextAttemptAt: new Date(Date.now() + delayMs) });
+      this.scheduleRetry(job.jobId, delayMs);
+      return;
+    }
+
+    this.finish(job, { status: 'failed', error: outcome });
+  }
+
+  private scheduleRetry(jobId: string, delayMs: number): void {
+    this.track(new Promise<void>(resolve => {
+      const timer = setTimeout(() => {
+        this.retryTimers.delete(jobId);
+        this.pending.push(jobId);
+        this.pump();
+        resolve();
+      }, delayMs);
+      this.retryTimers.set(jobId, timer);
+    }));
+  }
+
+  private finish(job: OutreachJob, changes: Partial<OutreachJob>): void {
+    this.update(job, { ...changes, completedAt: new Date() });
+
+    if (job.callbackUrl && this.options.webhookDispatcher) {
+      this.options.webhookDispatcher.dispatch({ ...job });
+    }
+
+    const waiters = this.waiters.get(job.jobId) ?? [];
+    this.waiters.delete(job.jobId);
+    waiters.forEach(resolve => resolve({ ...job }));
+  }
+
+  private validateRequest(request: OutreachJobRequest): ProcessingError | null {
+    if (!request || !request.prospectData || !Array.isArray(request.intentSignals)) {
+      return this.createError('prospectData and intentSignals are required', 'INVALID_JOB_REQUEST');
+    }
+
+    if (request.callbackUrl !== undefined) {
+      if (!this.options.webhookDispatcher) {
+        return this.createError('Webhooks are not configured on this server', 'INVALID_JOB_REQUEST');
+      }
+
+      const violation = this.callbackUrlPolicy.check(request.callbackUrl);
+      if (violation) {
+        return this.createError(violation, 'INVALID_JOB_REQUEST');
+      }
+    }
+
+    return null;
+  }
+
+  private track(work: Promise<void>): void {
+    const tracked: Promise<void> = work
+      .catch(error => console.error('Outreach job stopped unexpectedly:', error))
+      .finally(() => this.inFlight.delete(tracked));
+    this.inFlight.add(tracked);
+  }
+
+  private update(job: OutreachJob, changes: Partial<OutreachJob>): void {
+    Object.assign(job, changes, { updatedAt: new Date() });
+  }
+
+  private isFinished(job: OutreachJob): boolean {
+    return job.status === 'completed' || job.status === 'failed';
+  }
+
+  // Oldest finished jobs go first; queued, running and retrying jobs are never evicted
+  private evictFinishedJobs(): void {
+    for (const [jobId, entry] of this.entries) {
+      if (this.entries.size <= this.maxRetainedJobs) {
+        return;
+      }
+      if (this.isFinished(entry.job)) {
+        this.entries.delete(jobId);
+      }
+    }
+  }
+
+  private createError(message: string, code: string = 'PROCESSING_ERROR'): ProcessingError {
+    const remediations: Record<string, string> = {
+      INVALID_JOB_REQUEST: 'Send prospectData and intentSignals as for POST /agent/outreach, and a public http(s) callbackUrl if any',
+      QUEUE_FULL: 'Resubmit the job once earlier jobs have finished',
+      PROCESSING_ERROR: 'Resubmit the job; contact support if the issue persists',
+    };
+    const step = code === 'INVALID_JOB_REQUEST' || code === 'QUEUE_FULL' ? 'job_submission' : 'job_execution';
+
+    return { code, message, step, remediation: remediations[code] };
+  }
+}
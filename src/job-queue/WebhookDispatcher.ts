@@ -0,0 +1,222 @@
+/**
+ * WebhookDispatcher - Signed delivery of finished jobs to client callback URLs
+ *
+ * Implements webhook delivery with:
+ * - HMAC-SHA256 signatures over "<timestamp>.<body>" in X-Webhook-Signature
+ * - Retries with exponential backoff on network errors and non-2xx responses
+ * - Deliveries that exhaust their attempts kept for listing and redelivery
+ */
+
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { IWebhookDispatcher } from '../interfaces';
+import { OutreachJob, WebhookDelivery, WebhookEvent } from '../types';
+import { backoffDelay } from '../utils';
+import { CallbackUrlPolicy } from './CallbackUrlPolicy';
+import { WebhookTransport, createWebhookTransport, sendWebhook } from './WebhookTransport';
+
+export interface WebhookDispatcherOptions {
+  secret: string; // shared with clients to verify signatures
+  maxAttempts?: number; // default 5
+  retryBaseDelayMs?: number; // default 2000, doubled per retry
+  timeoutMs?: number; // per attempt, default 10000
+  maxRetainedDeliveries?: number; // default 1000; failed deliveries are kept first
+  callbackUrlPolicy?: CallbackUrlPolicy; // default rejects loopback, link-local and private addresses
+  transport?: WebhookTransport; // replaces the policy-checked HTTP transport
+}
+
+/**
+ * Checks a webhook signature as a client would, in constant time
+ */
+export function verifyWebhookSignature(secret: string, timestamp: string, body: string, signature: string): boolean {
+  const expected = Buffer.from(`sha256=${signWebhook(secret, timestamp, body)}`);
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+function signWebhook(secret: string, timestamp: string, body: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+export class WebhookDispatcher implements IWebhookDispatcher {
+  private readonly deliveries = new Map<string, WebhookDelivery>();
+  private readonly bodies = new Map<string, string>(); // signed payload per delivery, kept for retries
+  private readonly retryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private readonly inFlight = new Set<Promise<void>>();
+
+  private readonly maxAttempts: number;
+  private readonly retryBaseDelayMs: number;
+  private readonly timeoutMs: number;
+  private readonly maxRetainedDeliveries: number;
+  private readonly transport: WebhookTransport;
+
+  constructor(private options: WebhookDispatcherOptions) {
+    if (!options.secret) {
+      throw new Error('WebhookDispatcher requires a signing secret');
+    }
+
+    this.maxAttempts = Math.max(1, options.maxAttempts ?? 5);
+    this.retryBaseDelayMs = options.retryBaseDelayMs ?? 2000;
+    this.timeoutMs = options.timeoutMs ?? 10000;
+    this.maxRetainedDeliveries = options.maxRetainedDeliveries ?? 1000;
+    this.transport = options.transport
+      ?? (options.callbackUrlPolicy ? createWebhookTransport(options.callbackUrlPolicy) : sendWebhook);
+  }
+
+  /**
+   * Queues delivery of a finished job's result or error to its callback URL
+   */
+  dispatch(job: OutreachJob): WebhookDelivery {
+    if (!job.callbackUrl) {
+      throw new Error(`Job ${job.jobId} has no callback URL`);
+    }
+
+    const event: WebhookEvent = job.status === 'completed' ? 'job.completed' : 'job.failed';
+    const now = new Date();
+    const delivery: WebhookDelivery = {
+      deliveryId: randomUUID(),
+      jobId: job.jobId,
+      event,
+      url: job.callbackUrl,
+      status: 'pending',
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    this.deliveries.set(delivery.deliveryId, delivery);
+    this.bodies.set(delivery.deliveryId, JSON.stringify({
+      event,
+      jobId: job.jobId,
+      attempts: job.attempts,
+      completedAt: job.completedAt,
+      ...(job.result && { result: job.result }),
+      ...(job.error && { error: job.error }),
+    }));
+    this.evictDeliveries();
+
+    const queued = { ...delivery };
+    this.track(this.attempt(delivery.deliveryId));
+    return queued;
+  }
+
+  getDelivery(deliveryId: string): WebhookDelivery | undefined {
+    const delivery = this.deliveries.get(deliveryId);
+    return delivery ? { ...delivery } : undefined;
+  }
+
+  /**
+   * Deliveries that used up every attempt, oldest first
+   */
+  getFailedDeliveries(): WebhookDelivery[] {
+    return Array.from(this.deliveries.values())
+      .filter(delivery => delivery.status === 'failed')
+      .map(delivery => ({ ...delivery }));
+  }
+
+  /**
+   * Starts a failed delivery over with a fresh set of attempts
+   */
+  redeliver(deliveryId: string): WebhookDelivery | undefined {
+    const delivery = this.deliveries.get(deliveryId);
+    if (!delivery || delivery.status !== 'failed') {
+      return undefined;
+    }
+
+    this.update(delivery, { status: 'pending', attempts: 0, lastError: undefined });
+    const restarted = { ...delivery };
+    this.track(this.attempt(deliveryId));
+    return restarted;
+  }
+
+  /**
+   * Resolves once no attempt is running or scheduled
+   */
+  async waitForIdle(): Promise<void> {
+    while (this.inFlight.size > 0) {
+      await Promise.all(Array.from(this.inFlight));
+    }
+  }
+
+  /**
+   * Cancels scheduled retries; those deliveries stay pending
+   */
+  close(): void {
+    this.retryTimers.forEach(timer => clearTimeout(timer));
+    this.retryTimers.clear();
+    this.inFlight.clear();
+  }
+
+  private async attempt(deliveryId: string): Promise<void> {
+    const delivery = this.deliveries.get(deliveryId);
+    const body = this.bodies.get(deliveryId);
+    if (!delivery || body === undefined) {
+      return;
+    }
+
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    this.update(delivery, { attempts: delivery.attempts + 1, nextAttemptAt: undefined });
+
+    try {
+      const statusCode = await this.transport(delivery.url, {
+        'X-Webhook-Id': deliveryId,
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Timestamp': timestamp,
+        'X-Webhook-Signature': `sha256=${signWebhook(this.options.secret, timestamp, body)}`,
+      }, body, this.timeoutMs);
+
+      if (statusCode < 200 || statusCode >= 300) {
+        throw new Error(`HTTP ${statusCode}`);
+      }
+
+      this.update(delivery, { status: 'delivered', lastError: undefined });
+      this.bodies.delete(deliveryId);
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : 'Unknown error';
+
+      if (delivery.attempts >= this.maxAttempts) {
+        this.update(delivery, { status: 'failed', lastError });
+        return;
+      }
+
+      const delayMs = backoffDelay(delivery.attempts, this.retryBaseDelayMs);
+      this.update(delivery, { lastError, nextAttemptAt: new Date(Date.now() + delayMs) });
+      this.scheduleRetry(deliveryId, delayMs);
+    }
+  }
+
+  private scheduleRetry(deliveryId: string, delayMs: number): void {
+    this.track(new Promise<void>(resolve => {
+      const timer = setTimeout(() => {
+        this.retryTimers.delete(deliveryId);
+        this.attempt(deliveryId).then(resolve, resolve);
+      }, delayMs);
+      this.retryTimers.set(deliveryId, timer);
+    }));
+  }
+
+  private track(attempt: Promise<void>): void {
+    const tracked: Promise<void> = attempt
+      .catch(error => console.error('Webhook delivery stopped unexpectedly:', error))
+      .finally(() => this.inFlight.delete(tracked));
+    this.inFlight.add(tracked);
+  }
+
+  private update(delivery: WebhookDelivery, changes: Partial<WebhookDelivery>): void {
+    Object.assign(delivery, changes, { updatedAt: new Date() });
+  }
+
+  // Drops the oldest delivered deliveries first, then the oldest failed ones; pending ones are kept
+  private evictDeliveries(): void {
+    for (const status of ['delivered', 'failed'] as const) {
+      for (const [deliveryId, delivery] of this.deliveries) {
+        if (this.deliveries.size <= this.maxRetainedDeliveries) {
+          return;
+        }
+        if (delivery.status === status) {
+          this.deliveries.delete(deliveryId);
+          this.bodies.delete(deliveryId);
+        }
+      }
+    }
+  }
+}
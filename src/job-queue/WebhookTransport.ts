@@ -0,0 +1,99 @@
+/**
+ * WebhookTransport - Minimal transport for webhook delivery
+ *
+ * Posts a pre-serialized body over HTTP or HTTPS and resolves with the status
+ * code, so the dispatcher decides what counts as delivered. The body is sent
+ * exactly as signed. The dispatcher accepts an alternative transport for testing.
+ *
+ * Host names are checked against the callback URL policy after DNS resolution,
+ * so a public name that points at an internal address is refused as well.
+ */
+
+import * as dns from 'dns';
+import * as http from 'http';
+import * as https from 'https';
+import { LookupFunction } from 'net';
+import { CallbackUrlPolicy } from './CallbackUrlPolicy';
+
+export type WebhookTransport = (
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+  timeoutMs: number
+) => Promise<number>;
+
+/**
+ * Creates a transport that only connects to addresses the policy allows
+ */
+export function createWebhookTransport(policy: CallbackUrlPolicy): WebhookTransport {
+  const lookup: LookupFunction = (hostname, options, callback) => {
+    dns.lookup(hostname, options, (error, address, family) => {
+      if (error) {
+        callback(error, address, family);
+        return;
+      }
+
+      const addresses = Array.isArray(address) ? address.map(entry => entry.address) : [address];
+      const blocked = addresses.find(candidate => !policy.isAllowedAddress(candidate, hostname));
+      if (blocked) {
+        callback(new Error(`Webhook host ${hostname} resolved to a disallowed address ${blocked}`), address, family);
+        return;
+      }
+      callback(null, address, family);
+    });
+  };
+
+  return (url, headers, body, timeoutMs) => {
+    const violation = policy.check(url);
+    if (violation) {
+      return Promise.reject(new Error(violation));
+    }
+    return post(url, headers, body, timeoutMs, lookup);
+  };
+}
+
+/**
+ * Rejects on network errors, timeouts and URLs the default callback URL policy refuses
+ */
+export const sendWebhook: WebhookTransport = createWebhookTransport(new CallbackUrlPolicy());
+
+function post(
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+  timeoutMs: number,
+  lookup: LookupFunction
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const protocol = new URL(url).protocol;
+    const request = (protocol === 'https:' ? https : http).request(
+      url,
+      {
+        method: 'POST',
+        headers: {
+          ...headers,
+          'Content-Type': 'application/json',
+          'Content-Length': Buffer.byteLength(body).toString(),
+        },
+        timeout: timeoutMs,
+        lookup,
+      },
+      (response) => {
+        // Drain the body so the socket is released
+        response.resume();
+        response.on('end', () => resolve(response.statusCode || 0));
+      }
+    );
+
+    request.on('timeout', () => {
+      request.destroy(new Error(`Webhook timed out after ${timeoutMs}ms`));
+    });
+
+    request.on('error', (error) => {
+      reject(error);
+    });
+
+    request.write(body);
+    request.end();
+  });
+}
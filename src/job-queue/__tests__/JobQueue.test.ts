@@ -0,0 +1,345 @@
+/**
+ * Tests for the asynchronous job queue and webhook delivery
+ * The pipeline and HTTP calls are replaced by in-memory stubs
+ */
+
+import { CallbackUrlPolicy } from '../CallbackUrlPolicy';
+import { OutreachJobQueue } from '../OutreachJobQueue';
+import { WebhookDispatcher, verifyWebhookSignature } from '../WebhookDispatcher';
+import { WebhookTransport, createWebhookTransport } from '../WebhookTransport';
+import { IOutreachProcessor } from '../../interfaces';
+import {
+  CompanySize,
+  ConfidenceLevel,
+  IntentSignal,
+  OutreachJob,
+  OutreachJobRequest,
+  ProcessingError,
+  ProspectData,
+  SignalType,
+  StructuredOutput,
+} from '../../types';
+
+const prospectData: ProspectData = {
+  role: 'VP of Engineering',
+  companyContext: { name: 'TechCorp', industry: 'Technology', size: CompanySize.MEDIUM },
+  contactDetails: { name: 'Sarah Chen', email: 'sarah@techcorp.com' },
+};
+
+const intentSignals: IntentSignal[] = [{
+  type: SignalType.FUNDING_EVENT,
+  description: 'Raised $15M Series A funding round',
+  timestamp: new Date(),
+  relevanceScore: 0.9,
+  source: 'TechCrunch',
+}];
+
+const request: OutreachJobRequest = { prospectData, intentSignals };
+
+const output = {
+  intentConfidence: ConfidenceLevel.HIGH,
+  recommendedMessage: 'Hi Sarah,\n\nCongrats on the Series A.\n\nBest regards',
+} as StructuredOutput;
+
+function processingError(code: string): ProcessingError {
+  return { code, message: `${code} happened`, step: 'message_generation' };
+}
+
+// Processor that answers from a script, one entry per call, and records concurrency
+function scriptedProcessor(outcomes: Array<StructuredOutput | ProcessingError>, delayMs: number = 0) {
+  const stats = { calls: 0, running: 0, maxRunning: 0 };
+  const processor: IOutreachProcessor = {
+    processOutreachRequest: async () => {
+      const outcome = outcomes[Math.min(stats.calls, outcomes.length - 1)];
+      stats.calls++;
+      stats.running++;
+      stats.maxRunning = Math.max(stats.maxRunning, stats.running);
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+      stats.running--;
+      return outcome;
+    },
+  };
+  return { processor, stats };
+}
+
+function recordingTransport(statusCodes: Array<number | Error>) {
+  const calls: Array<{ url: string; headers: Record<string, string>; body: string }> = [];
+  const transport: WebhookTransport = async (url, headers, body) => {
+    const response = statusCodes[Math.min(calls.length, statusCodes.length - 1)];
+    calls.push({ url, headers, body });
+    if (response instanceof Error) {
+      throw response;
+    }
+    return response;
+  };
+  return { calls, transport };
+}
+
+function finishedJob(status: OutreachJob['status']): OutreachJob {
+  return {
+    jobId: 'job-1',
+    status,
+    attempts: 1,
+    callbackUrl: 'https://client.example.com/hooks/outreach',
+    ...(status === 'completed' ? { result: output } : { error: processingError('VALIDATION_FAILED') }),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    completedAt: new Date(),
+  };
+}
+
+describe('Job Queue', () => {
+  describe('OutreachJobQueue', () => {
+    test('should never run more jobs at once than the concurrency limit', async () => {
+      const { processor, stats } = scriptedProcessor([output], 5);
+      const queue = new OutreachJobQueue(processor, { concurrency: 2 });
+
+      const jobs = Array.from({ length: 5 }, () => queue.submit(request) as OutreachJob);
+      expect(queue.getStats()).toMatchObject({ queued: 3, running: 2, concurrency: 2 });
+
+      await queue.waitForIdle();
+
+      expect(stats.maxRunning).toBe(2);
+      jobs.forEach(job => {
+        expect(queue.getJob(job.jobId)).toMatchObject({ status: 'completed', attempts: 1, result: output });
+      });
+    });
+
+    test('should retry transient errors with backoff until a run succeeds', async () => {
+      const { processor, stats } = scriptedProcessor([
+        processingError('PROCESSING_TIMEOUT'),
+        processingError('MESSAGE_GENERATION_ERROR'),
+        output,
+      ]);
+      const queue = new OutreachJobQueue(processor, { maxAttempts: 3, retryBaseDelayMs: 1 });
+
+      const job = queue.submit(request) as OutreachJob;
+      await queue.waitForIdle();
+
+      expect(stats.calls).toBe(3);
+      expect(queue.getJob(job.jobId)).toMatchObject({ status: 'completed', attempts: 3, error: undefined });
+    });
+
+    test('should fail at once on errors that are not transient', async () => {
+      const { processor, stats } = scriptedProcessor([processingError('VALIDATION_FAILED'), output]);
+      const queue = new OutreachJobQueue(processor, { retryBaseDelayMs: 1 });
+
+      const job = queue.submit(request) as OutreachJob;
+      await queue.waitForIdle();
+
+      expect(stats.calls).toBe(1);
+      expect(queue.getJob(job.jobId)).toMatchObject({ status: 'failed', attempts: 1, error: { code: 'VALIDATION_FAILED' } });
+    });
+
+    test('should fail with the last error once attempts run out', async () => {
+      const { processor } = scriptedProcessor([processingError('PROCESSING_TIMEOUT')]);
+      const queue = new OutreachJobQueue(processor, { maxAttempts: 2, retryBaseDelayMs: 1 });
+
+      const job = queue.submit(request) as OutreachJob;
+      expect(queue.getJob(job.jobId)?.status).toBe('running');
+      const finished = await queue.waitForJob(job.jobId);
+
+      expect(finished).toMatchObject({ status: 'failed', attempts: 2, error: { code: 'PROCESSING_TIMEOUT' } });
+      expect(finished?.completedAt).toBeInstanceOf(Date);
+    });
+
+    test('should act as a processor that waits for the queued run', async () => {
+      const { processor } = scriptedProcessor([output]);
+      const queue = new OutreachJobQueue(processor);
+
+      await expect(queue.processOutreachRequest(prospectData, intentSignals)).resolves.toBe(output);
+    });
+
+    test('should refuse new jobs once maxQueuedJobs are waiting', async () => {
+      const { processor } = scriptedProcessor([output], 20);
+      const queue = new OutreachJobQueue(processor, { concurrency: 1, maxQueuedJobs: 2 });
+
+      const submitted = [1, 2, 3].map(() => queue.submit(request));
+      expect(submitted.every(job => 'jobId' in job)).toBe(true); // one running, two waiting
+      expect(queue.submit(request)).toMatchObject({ code: 'QUEUE_FULL', step: 'job_submission' });
+
+      await queue.waitForIdle();
+      expect(queue.submit(request)).toHaveProperty('jobId');
+      await queue.waitForIdle();
+    });
+
+    test('should hold queued jobs back while slots are reserved', async () => {
+      const { processor, stats } = scriptedProcessor([output]);
+      const queue = new OutreachJobQueue(processor, { concurrency: 3 });
+
+      const batch = queue.reserveSlots(2);
+      const single = queue.reserveSlots(4);
+      expect(batch?.slots).toBe(2);
+      expect(single?.slots).toBe(1); // only one slot was left
+      expect(queue.reserveSlots(1)).toBeNull();
+
+      const job = queue.submit(request) as OutreachJob;
+      expect(queue.getStats()).toMatchObject({ queued: 1, running: 0, reserved: 3 });
+
+      single?.release();
+      single?.release(); // releasing twice frees the slot once
+      expect(queue.getStats()).toMatchObject({ queued: 0, running: 1, reserved: 2 });
+      expect((await queue.waitForJob(job.jobId))?.status).toBe('completed');
+      expect(stats.calls).toBe(1);
+
+      batch?.release();
+      expect(queue.getStats().reserved).toBe(0);
+    });
+
+    test('should reject callback URLs when webhooks are off or the URL is not http(s)', () => {
+      const { processor } = scriptedProcessor([output]);
+      const withoutWebhooks = new OutreachJobQueue(processor);
+      const withWebhooks = new OutreachJobQueue(processor, {
+        webhookDispatcher: new WebhookDispatcher({ secret: 'test-secret', transport: recordingTransport([200]).transport }),
+      });
+
+      expect(withoutWebhooks.submit({ ...request, callbackUrl: 'https://client.example.com' }))
+        .toMatchObject({ code: 'INVALID_JOB_REQUEST', message: 'Webhooks are not configured on this server' });
+      expect(withWebhooks.submit({ ...request, callbackUrl: 'ftp://client.example.com' }))
+        .toMatchObject({ code: 'INVALID_JOB_REQUEST', step: 'job_submission' });
+      expect(withWebhooks.submit({ ...request, intentSignals: undefined as any }))
+        .toMatchObject({ code: 'INVALID_JOB_REQUEST' });
+    });
+
+    test('should reject callback URLs that point at internal addresses', async () => {
+      const { processor } = scriptedProcessor([output]);
+      const queue = new OutreachJobQueue(processor, {
+        webhookDispatcher: new WebhookDispatcher({ secret: 'test-secret', transport: recordingTransport([200]).transport }),
+      });
+
+      [
+        'http://localhost:8080/hooks',
+        'http://127.0.0.1/hooks',
+        'http://10.1.2.3/hooks',
+        'http://172.20.0.5/hooks',
+        'http://192.168.1.10/hooks',
+        'http://169.254.169.254/latest/meta-data',
+        'http://[::1]/hooks',
+        'http://[fd00::1]/hooks',
+        'http://[::ffff:127.0.0.1]/hooks',
+        'http://2130706433/hooks', // 127.0.0.1 as a decimal number
+      ].forEach(callbackUrl => {
+        expect(queue.submit({ ...request, callbackUrl })).toMatchObject({
+          code: 'INVALID_JOB_REQUEST',
+          message: expect.stringContaining('loopback, link-local or private address'),
+        });
+      });
+      expect(queue.submit({ ...request, callbackUrl: 'https://8.8.8.8/hooks' })).toHaveProperty('jobId');
+      await queue.waitForIdle();
+    });
+
+    test('should accept only allowed callback hosts when an allow-list is set', async () => {
+      const { processor } = scriptedProcessor([output]);
+      const queue = new OutreachJobQueue(processor, {
+        webhookDispatcher: new WebhookDispatcher({ secret: 'test-secret', transport: recordingTransport([200]).transport }),
+        callbackUrlPolicy: new CallbackUrlPolicy(['hooks.client.example.com', '*.acme.com']),
+      });
+
+      expect(queue.submit({ ...request, callbackUrl: 'https://hooks.client.example.com/a' })).toHaveProperty('jobId');
+      expect(queue.submit({ ...request, callbackUrl: 'https://eu.hooks.acme.com/a' })).toHaveProperty('jobId');
+      expect(queue.submit({ ...request, callbackUrl: 'https://client.example.com/a' }))
+        .toMatchObject({ code: 'INVALID_JOB_REQUEST', message: expect.stringContaining('not in the allowed callback hosts') });
+      expect(queue.submit({ ...request, callbackUrl: 'https://evilacme.com/a' }))
+        .toMatchObject({ code: 'INVALID_JOB_REQUEST' });
+      await queue.waitForIdle();
+    });
+
+    test('should send a webhook when a job with a callback URL finishes', async () => {
+      const { processor } = scriptedProcessor([processingError('VALIDATION_FAILED')]);
+      const { calls, transport } = recordingTransport([200]);
+      const dispatcher = new WebhookDispatcher({ secret: 'test-secret', transport });
+      const queue = new OutreachJobQueue(processor, { webhookDispatcher: dispatcher });
+
+      const job = queue.submit({ ...request, callbackUrl: 'https://client.example.com/hooks' }) as OutreachJob;
+      await queue.waitForIdle();
+      await dispatcher.waitForIdle();
+
+      expect(calls).toHaveLength(1);
+      expect(calls[0].url).toBe('https://client.example.com/hooks');
+      expect(JSON.parse(calls[0].body)).toMatchObject({
+        event: 'job.failed',
+        jobId: job.jobId,
+        error: { code: 'VALIDATION_FAILED' },
+      });
+    });
+  });
+
+  describe('WebhookDispatcher', () => {
+    test('should sign the exact body it sends', async () => {
+      const { calls, transport } = recordingTransport([204]);
+      const dispatcher = new WebhookDispatcher({ secret: 'test-secret', transport });
+
+      const delivery = dispatcher.dispatch(finishedJob('completed'));
+      await dispatcher.waitForIdle();
+
+      const { headers, body } = calls[0];
+      expect(headers['X-Webhook-Id']).toBe(delivery.deliveryId);
+      expect(headers['X-Webhook-Event']).toBe('job.completed');
+      expect(verifyWebhookSignature('test-secret', headers['X-Webhook-Timestamp'], body, headers['X-Webhook-Signature'])).toBe(true);
+      expect(verifyWebhookSignature('other-secret', headers['X-Webhook-Timestamp'], body, headers['X-Webhook-Signature'])).toBe(false);
+      expect(verifyWebhookSignature('test-secret', headers['X-Webhook-Timestamp'], `${body} `, headers['X-Webhook-Signature'])).toBe(false);
+      expect(JSON.parse(body).result).toEqual(output);
+      expect(dispatcher.getDelivery(delivery.deliveryId)).toMatchObject({ status: 'delivered', attempts: 1 });
+    });
+
+    test('should retry network errors and non-2xx responses', async () => {
+      const { calls, transport } = recordingTransport([new Error('ECONNRESET'), 503, 200]);
+      const dispatcher = new WebhookDispatcher({ secret: 'test-secret', transport, retryBaseDelayMs: 1 });
+
+      const delivery = dispatcher.dispatch(finishedJob('completed'));
+      await dispatcher.waitForIdle();
+
+      expect(calls).toHaveLength(3);
+      expect(new Set(calls.map(call => call.body)).size).toBe(1);
+      expect(dispatcher.getDelivery(delivery.deliveryId)).toMatchObject({ status: 'delivered', attempts: 3, lastError: undefined });
+    });
+
+    test('should list deliveries that exhaust their attempts and redeliver them on request', async () => {
+      const statusCodes: Array<number | Error> = [500, 500];
+      const { calls, transport } = recordingTransport(statusCodes);
+      const dispatcher = new WebhookDispatcher({ secret: 'test-secret', transport, maxAttempts: 2, retryBaseDelayMs: 1 });
+
+      const delivery = dispatcher.dispatch(finishedJob('failed'));
+      await dispatcher.waitForIdle();
+
+      expect(dispatcher.getFailedDeliveries()).toEqual([
+        expect.objectContaining({ deliveryId: delivery.deliveryId, event: 'job.failed', attempts: 2, lastError: 'HTTP 500' }),
+      ]);
+
+      statusCodes.push(200);
+      expect(dispatcher.redeliver(delivery.deliveryId)).toMatchObject({ status: 'pending', attempts: 0 });
+      await dispatcher.waitForIdle();
+
+      expect(calls).toHaveLength(3);
+      expect(dispatcher.getFailedDeliveries()).toEqual([]);
+      expect(dispatcher.redeliver(delivery.deliveryId)).toBeUndefined();
+    });
+
+    test('should require a signing secret', () => {
+      expect(() => new WebhookDispatcher({ secret: '' })).toThrow('requires a signing secret');
+    });
+  });
+
+  describe('CallbackUrlPolicy', () => {
+    test('should refuse resolved addresses in blocked ranges unless the host is allowed', () => {
+      const policy = new CallbackUrlPolicy();
+      expect(policy.isAllowedAddress('127.0.0.1', 'hooks.example.com')).toBe(false);
+      expect(policy.isAllowedAddress('10.0.0.8', 'hooks.example.com')).toBe(false);
+      expect(policy.isAllowedAddress('fe80::1', 'hooks.example.com')).toBe(false);
+      expect(policy.isAllowedAddress('93.184.216.34', 'hooks.example.com')).toBe(true);
+
+      const allowList = new CallbackUrlPolicy(['hooks.internal.example.com']);
+      expect(allowList.isAllowedAddress('10.0.0.8', 'hooks.internal.example.com')).toBe(true);
+      expect(allowList.isAllowedAddress('93.184.216.34', 'other.example.com')).toBe(false);
+    });
+
+    test('should stop the transport from posting to internal addresses', async () => {
+      const transport = createWebhookTransport(new CallbackUrlPolicy());
+
+      await expect(transport('http://127.0.0.1:9/hooks', {}, '{}', 1000))
+        .rejects.toThrow('loopback, link-local or private address');
+      await expect(transport('ftp://client.example.com/hooks', {}, '{}', 1000))
+        .rejects.toThrow('absolute http or https URL');
+    });
+  });
+});
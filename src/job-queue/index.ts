@@ -0,0 +1,8 @@
+/**
+ * Job queue module exports
+ */
+
+export { CallbackUrlPolicy } from './CallbackUrlPolicy';
+export { OutreachJobQueue, OutreachJobQueueOptions } from './OutreachJobQueue';
+export { WebhookDispatcher, WebhookDispatcherOptions, verifyWebhookSignature } from './WebhookDispatcher';
+export { WebhookTransport, createWebhookTransport, sendWebhook } from './WebhookTransport';
@@ -0,0 +1,146 @@
+/**
+ * LexiconService - Shared, hot-reloadable word lists for generation and filtering
+ *
+ * Implements a single lexicon consulted on every call by:
+ * - MessageGenerator, which rewrites buzzwords to their replacement or removes them
+ * - AuthenticityFilter, which flags messages with excessive promotional terms
+ *
+ * Terms added or removed at runtime apply to the next message without rebuilding components.
+ *
+ * Requirements: 6.4, 7.3
+ */
+
+import { ILexicon } from '../interfaces';
+import { LexiconCategory, LexiconTerm } from '../types';
+
+export class LexiconService implements ILexicon {
+  // Buzzwords and the plainer wording the generator substitutes for them
+  private readonly DEFAULT_BUZZWORDS: Record<string, string> = {
+    'synergy': 'collaboration',
+    'leverage': 'use',
+    'paradigm': 'approach',
+    'disruptive': 'impactful',
+    'innovative': 'new',
+    'cutting-edge': 'advanced',
+    'revolutionary': 'significant',
+    'game-changer': 'improvement',
+    'best-in-class': 'high-quality',
+    'world-class': 'excellent',
+    'industry-leading': 'established',
+    'next-generation': 'modern',
+    'state-of-the-art': 'current',
+    'turnkey': 'complete',
+    'seamless': 'smooth',
+    'robust': 'reliable',
+    'scalable': 'flexible',
+    'enterprise-grade': 'professional',
+    'mission-critical': 'important',
+    'value-add': 'benefit',
+    'low-hanging fruit': 'easy wins',
+    'circle back': 'follow up',
+    'touch base': 'connect',
+    'move the needle': 'make progress',
+    'boil the ocean': 'tackle everything',
+    'think outside the box': 'be creative',
+  };
+
+  // Terms that indicate overly promotional content
+  private readonly DEFAULT_PROMOTIONAL_TERMS = [
+    'amazing', 'incredible', 'unbelievable', 'fantastic', 'outstanding',
+    'exceptional', 'extraordinary', 'phenomenal', 'spectacular', 'magnificent',
+    'guaranteed', 'proven', 'certified', 'award-winning', 'industry-leading',
+    'market-leading', 'best-in-class', 'world-class', 'premium', 'exclusive',
+    'revolutionary', 'groundbreaking', 'cutting-edge', 'state-of-the-art',
+    'game-changing', 'life-changing', 'transformative', 'disruptive',
+  ];
+
+  // Keyed by category, then by lowercased term; insertion order is match order
+  private terms: Record<LexiconCategory, Map<string, LexiconTerm>>;
+  private readonly changeListeners = new Set<() => void>();
+
+  constructor() {
+    this.terms = this.createDefaultTerms();
+  }
+
+  getTerms(category: LexiconCategory): LexiconTerm[] {
+    return Array.from(this.terms[category].values()).map(entry => ({ ...entry }));
+  }
+
+  hasTerm(term: string, category: LexiconCategory): boolean {
+    return this.terms[category].has(this.normalize(term));
+  }
+
+  /**
+   * Adds a term, or updates the replacement of one already present
+   */
+  addTerm(term: string, category: LexiconCategory, replacement?: string): void {
+    const key = this.normalize(term);
+    if (key.length === 0) {
+      return;
+    }
+
+    const trimmedReplacement = replacement?.trim();
+    this.terms[category].set(key, {
+      term: key,
+      category,
+      ...(trimmedReplacement !== undefined && { replacement: trimmedReplacement }),
+    });
+    this.notifyChange();
+  }
+
+  removeTerm(term: string, category: LexiconCategory): boolean {
+    const removed = this.terms[category].delete(this.normalize(term));
+    if (removed) {
+      this.notifyChange();
+    }
+    return removed;
+  }
+
+  /**
+   * Registers a callback run after every change to the terms; returns an unsubscribe function
+   */
+  onChange(listener: () => void): () => void {
+    this.changeListeners.add(listener);
+    return () => this.changeListeners.delete(listener);
+  }
+
+  /**
+   * Whether a term ships with the lexicon, as opposed to being added at runtime
+   */
+  isDefaultTerm(term: string, category: LexiconCategory): boolean {
+    const key = this.normalize(term);
+    return category === 'buzzword'
+      ? key in this.DEFAULT_BUZZWORDS
+      : this.DEFAULT_PROMOTIONAL_TERMS.includes(key);
+  }
+
+  /**
+   * Drops every runtime change and restores the default terms
+   */
+  reset(): void {
+    this.terms = this.createDefaultTerms();
+    this.notifyChange();
+  }
+
+  private createDefaultTerms(): Record<LexiconCategory, Map<string, LexiconTerm>> {
+    return {
+      buzzword: new Map(
+        Object.entries(this.DEFAULT_BUZZWORDS).map(([term, replacement]) => [
+          term,
+          { term, category: 'buzzword', replacement },
+        ])
+      ),
+      promotional: new Map(
+        this.DEFAULT_PROMOTIONAL_TERMS.map(term => [term, { term, category: 'promotional' }])
+      ),
+    };
+  }
+
+  private notifyChange(): void {
+    this.changeListeners.forEach(listener => listener());
+  }
+
+  private normalize(term: string): string {
+    return term.trim().toLowerCase().replace(/\s+/g, ' ');
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Property-based tests for LexiconService
+ * Tests term management and that generator and filter see runtime changes immediately
+ */
+
+import fc from 'fast-check';
+import { LexiconService } from '../LexiconService';
+import { MessageGenerator } from '../../message-generator/MessageGenerator';
+import { AuthenticityFilter } from '../../authenticity-filter/AuthenticityFilter';
+import { ConfidenceLevel, LexiconCategory } from '../../types';
+
+describe('LexiconService Property Tests', () => {
+  let lexicon: LexiconService;
+
+  beforeEach(() => {
+    lexicon = new LexiconService();
+  });
+
+  const termArb = fc.stringMatching(/^[a-z]{4,10}( [a-z]{3,8})?$/);
+  const categoryArb = fc.constantFrom<LexiconCategory>('buzzword', 'promotional');
+
+  test('should find added terms regardless of case and spacing, and forget removed ones', () => {
+    fc.assert(
+      fc.property(termArb, categoryArb, fc.option(termArb, { nil: undefined }), (term, category, replacement) => {
+        const local = new LexiconService();
+        local.addTerm(`  ${term.toUpperCase().replace(' ', '   ')} `, category, replacement);
+
+        expect(local.hasTerm(term, category)).toBe(true);
+        expect(local.getTerms(category).find(entry => entry.term === term)?.replacement).toBe(replacement);
+
+        expect(local.removeTerm(term, category)).toBe(true);
+        expect(local.hasTerm(term, category)).toBe(false);
+        expect(local.removeTerm(term, category)).toBe(false);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  test('should keep categories independent', () => {
+    lexicon.addTerm('hyperautomation', 'buzzword', 'automation');
+
+    expect(lexicon.hasTerm('hyperautomation', 'buzzword')).toBe(true);
+    expect(lexicon.hasTerm('hyperautomation', 'promotional')).toBe(false);
+  });
+
+  test('should not expose internal state through returned terms', () => {
+    lexicon.getTerms('buzzword')[0].replacement = 'changed';
+    lexicon.getTerms('buzzword').length = 0;
+
+    expect(lexicon.getTerms('buzzword').find(entry => entry.term === 'synergy')?.replacement).toBe('collaboration');
+  });
+
+  test('should restore the default terms on reset', () => {
+    lexicon.removeTerm('synergy', 'buzzword');
+    lexicon.addTerm('hyperautomation', 'promotional');
+
+    lexicon.reset();
+
+    expect(lexicon.hasTerm('synergy', 'buzzword')).toBe(true);
+    expect(lexicon.hasTerm('hyperautomation', 'promotional')).toBe(false);
+    expect(lexicon.isDefaultTerm('synergy', 'buzzword')).toBe(true);
+    expect(lexicon.isDefaultTerm('hyperautomation', 'promotional')).toBe(false);
+  });
+
+  test('should apply buzzword changes to the next sanitized message', () => {
+    const generator = new MessageGenerator(lexicon);
+    const message = 'Your hyperautomation rollout looked like a real step forward.';
+
+    expect(generator.sanitizeMessage(message)).toBe(message);
+
+    lexicon.addTerm('hyperautomation', 'buzzword', 'automation');
+    expect(generator.sanitizeMessage(message)).toBe('Your automation rollout looked like a real step forward.');
+    expect(generator.containsBuzzwords(message)).toBe(true);
+
+    // Without a replacement the term is removed along with its leading space
+    lexicon.addTerm('hyperautomation', 'buzzword');
+    expect(generator.sanitizeMessage(message)).toBe('Your rollout looked like a real step forward.');
+
+    lexicon.removeTerm('hyperautomation', 'buzzword');
+    expect(generator.sanitizeMessage(message)).toBe(message);
+  });
+
+  test('should apply promotional term changes to the next authenticity evaluation', () => {
+    const filter = new AuthenticityFilter(lexicon);
+    const message = 'Hi Sam,\n\nOur stellar, dazzling and superb platform could help your team.\n\nBest regards';
+    const hasPromotionalIssue = () => filter
+      .evaluateAuthenticity(message, ConfidenceLevel.HIGH)
+      .issues.some(issue => issue.description.startsWith('Excessive promotional buzzwords'));
+
+    expect(hasPromotionalIssue()).toBe(false);
+
+    ['stellar', 'dazzling', 'superb'].forEach(term => lexicon.addTerm(term, 'promotional'));
+    expect(hasPromotionalIssue()).toBe(true);
+
+    lexicon.removeTerm('superb', 'promotional');
+    expect(hasPromotionalIssue()).toBe(false);
+  });
+
+  test('should treat regex characters in terms literally', () => {
+    const generator = new MessageGenerator(lexicon);
+    lexicon.addTerm('a.i', 'buzzword', 'automation');
+
+    expect(generator.sanitizeMessage('We use a.i daily, not aXi.')).toBe('We use automation daily, not aXi.');
+  });
+});
@@ -0,0 +1,5 @@
+/**
+ * Lexicon module exports
+ */
+
+export { LexiconService } from './LexiconService';
@@ -0,0 +1,100 @@
+/**
+ * AnthropicProvider - Messages API backed LLM provider
+ */
+
+import { ILlmProvider } from '../interfaces';
+import { LlmCompletionRequest } from '../types';
+import { HttpTransport, postJson } from './HttpTransport';
+
+export interface AnthropicProviderOptions {
+  apiKey: string;
+  model?: string;
+  baseUrl?: string;
+  timeoutMs?: number;
+  transport?: HttpTransport;
+}
+
+// The parts of a Messages API response the provider reads
+interface AnthropicContentBlock {
+  type: string;
+  text?: unknown;
+}
+
+interface AnthropicMessage {
+  content: AnthropicContentBlock[];
+}
+
+export class AnthropicProvider implements ILlmProvider {
+  readonly name = 'anthropic';
+
+  private readonly DEFAULT_MODEL = 'claude-3-5-haiku-latest';
+  private readonly DEFAULT_BASE_URL = 'https://api.anthropic.com/v1';
+  private readonly DEFAULT_TIMEOUT_MS = 20000;
+  private readonly API_VERSION = '2023-06-01';
+
+  private readonly model: string;
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+  private readonly transport: HttpTransport;
+
+  constructor(private options: AnthropicProviderOptions) {
+    if (!options.apiKey) {
+      throw new Error('Anthropic API key is required');
+    }
+
+    this.model = options.model || this.DEFAULT_MODEL;
+    this.baseUrl = options.baseUrl || this.DEFAULT_BASE_URL;
+    this.timeoutMs = options.timeoutMs ?? this.DEFAULT_TIMEOUT_MS;
+    this.transport = options.transport || postJson;
+  }
+
+  async complete(request: LlmCompletionRequest, signal?: AbortSignal): Promise<string> {
+    const response = await this.transport(
+      `${this.baseUrl}/messages`,
+      {
+        'x-api-key': this.options.apiKey,
+        'anthropic-version': this.API_VERSION,
+      },
+      {
+        model: this.model,
+        system: request.systemPrompt,
+        messages: [{ role: 'user', content: request.userPrompt }],
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+      },
+      this.timeoutMs,
+      signal
+    );
+
+    if (!this.isMessage(response)) {
+      throw this.createResponseError('Anthropic response did not match the Messages format');
+    }
+
+    // Concatenate text blocks; other block types carry no message content
+    const content = response.content
+      .map(block => (block.type === 'text' && typeof block.text === 'string' ? block.text : ''))
+      .join('');
+
+    if (content.trim().length === 0) {
+      throw this.createResponseError('Anthropic response did not contain text content');
+    }
+
+    return content;
+  }
+
+  private isMessage(response: unknown): response is AnthropicMessage {
+    if (typeof response !== 'object' || response === null) {
+      return false;
+    }
+    const content = (response as { content?: unknown }).content;
+    return Array.isArray(content) && content.every(block =>
+      typeof block === 'object' && block !== null && typeof (block as { type?: unknown }).type === 'string'
+    );
+  }
+
+  private createResponseError(message: string): Error {
+    const error = new Error(message);
+    error.name = 'MESSAGE_GENERATION_ERROR';
+    return error;
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * HttpTransport - Minimal JSON-over-HTTPS transport for LLM providers
+ *
+ * Uses the Node.js https module so providers need no third-party HTTP client.
+ * Providers accept an alternative transport for testing.
+ */
+
+import * as https from 'https';
+
+export type HttpTransport = (
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  timeoutMs: number,
+  signal?: AbortSignal
+) => Promise<unknown>;
+
+/**
+ * Posts a JSON body and resolves with the parsed JSON response
+ * Rejects on network errors, timeouts, non-2xx status codes, invalid JSON and an aborted signal
+ */
+export const postJson: HttpTransport = (url, headers, body, timeoutMs, signal) => {
+  return new Promise((resolve, reject) => {
+    const payload = JSON.stringify(body);
+    const request = https.request(
+      url,
+      {
+        method: 'POST',
+        headers: {
+          ...headers,
+          'Content-Type': 'application/json',
+          'Content-Length': Buffer.byteLength(payload).toString(),
+        },
+        timeout: timeoutMs,
+        // Aborting destroys the socket, so a cancelled step stops paying for the completion
+        signal,
+      },
+      (response) => {
+        let responseBody = '';
+
+        response.on('data', (chunk) => {
+          responseBody += chunk.toString();
+        });
+
+        response.on('end', () => {
+          const statusCode = response.statusCode || 0;
+          if (statusCode < 200 || statusCode >= 300) {
+            reject(new Error(`HTTP ${statusCode}: ${responseBody.substring(0, 200)}`));
+            return;
+          }
+
+          try {
+            resolve(JSON.parse(responseBody));
+          } catch (error) {
+            reject(new Error('Invalid JSON in provider response'));
+          }
+        });
+      }
+    );
+
+    request.on('timeout', () => {
+      request.destroy(new Error(`Request timed out after ${timeoutMs}ms`));
+    });
+
+    request.on('error', (error) => {
+      reject(error);
+    });
+
+    request.write(payload);
+    request.end();
+  });
+};
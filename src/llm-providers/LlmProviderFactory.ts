@@ -0,0 +1,55 @@
+/**
+ * LlmProviderFactory - Creates an LLM provider from environment configuration
+ *
+ * Reads LLM_PROVIDER (openai | anthropic | stub), LLM_MODEL, OPENAI_API_KEY and
+ * ANTHROPIC_API_KEY. When LLM_PROVIDER is not set, the provider is inferred from
+ * whichever API key is present; with neither, template generation is used.
+ */
+
+import { ILlmProvider } from '../interfaces';
+import { OpenAIProvider } from './OpenAIProvider';
+import { AnthropicProvider } from './AnthropicProvider';
+import { StubLlmProvider } from './StubLlmProvider';
+
+type EnvironmentVariables = Record<string, string | undefined>;
+
+export function createLlmProviderFromEnv(
+  env: EnvironmentVariables = process.env
+): ILlmProvider | null {
+  const model = env.LLM_MODEL || undefined;
+  const providerName = (env.LLM_PROVIDER || inferProviderName(env) || '').toLowerCase();
+
+  switch (providerName) {
+    case '':
+    case 'none':
+      return null;
+
+    case 'openai':
+      if (!env.OPENAI_API_KEY) {
+        throw new Error('LLM_PROVIDER=openai requires OPENAI_API_KEY');
+      }
+      return new OpenAIProvider({ apiKey: env.OPENAI_API_KEY, model });
+
+    case 'anthropic':
+      if (!env.ANTHROPIC_API_KEY) {
+        throw new Error('LLM_PROVIDER=anthropic requires ANTHROPIC_API_KEY');
+      }
+      return new AnthropicProvider({ apiKey: env.ANTHROPIC_API_KEY, model });
+
+    case 'stub':
+      return new StubLlmProvider();
+
+    default:
+      throw new Error(`Unknown LLM_PROVIDER: ${env.LLM_PROVIDER}`);
+  }
+}
+
+function inferProviderName(env: EnvironmentVariables): string | undefined {
+  if (env.OPENAI_API_KEY) {
+    return 'openai';
+  }
+  if (env.ANTHROPIC_API_KEY) {
+    return 'anthropic';
+  }
+  return undefined;
+}
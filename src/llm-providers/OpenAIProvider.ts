@@ -0,0 +1,93 @@
+/**
+ * OpenAIProvider - Chat Completions API backed LLM provider
+ */
+
+import { ILlmProvider } from '../interfaces';
+import { LlmCompletionRequest } from '../types';
+import { HttpTransport, postJson } from './HttpTransport';
+
+export interface OpenAIProviderOptions {
+  apiKey: string;
+  model?: string;
+  baseUrl?: string;
+  timeoutMs?: number;
+  transport?: HttpTransport;
+}
+
+// The parts of a Chat Completions response the provider reads
+interface OpenAIChatCompletion {
+  choices: Array<{ message?: { content?: unknown } }>;
+}
+
+export class OpenAIProvider implements ILlmProvider {
+  readonly name = 'openai';
+
+  private readonly DEFAULT_MODEL = 'gpt-4o-mini';
+  private readonly DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+  private readonly DEFAULT_TIMEOUT_MS = 20000;
+
+  private readonly model: string;
+  private readonly baseUrl: string;
+  private readonly timeoutMs: number;
+  private readonly transport: HttpTransport;
+
+  constructor(private options: OpenAIProviderOptions) {
+    if (!options.apiKey) {
+      throw new Error('OpenAI API key is required');
+    }
+
+    this.model = options.model || this.DEFAULT_MODEL;
+    this.baseUrl = options.baseUrl || this.DEFAULT_BASE_URL;
+    this.timeoutMs = options.timeoutMs ?? this.DEFAULT_TIMEOUT_MS;
+    this.transport = options.transport || postJson;
+  }
+
+  async complete(request: LlmCompletionRequest, signal?: AbortSignal): Promise<string> {
+    const response = await this.transport(
+      `${this.baseUrl}/chat/completions`,
+      { Authorization: `Bearer ${this.options.apiKey}` },
+      {
+        model: this.model,
+        messages: [
+          { role: 'system', content: request.systemPrompt },
+          { role: 'user', content: request.userPrompt },
+        ],
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+      },
+      this.timeoutMs,
+      signal
+    );
+
+    if (!this.isChatCompletion(response)) {
+      throw this.createResponseError('OpenAI response did not match the Chat Completions format');
+    }
+
+    const content = response.choices[0]?.message?.content;
+    if (typeof content !== 'string' || content.trim().length === 0) {
+      throw this.createResponseError('OpenAI response did not contain message content');
+    }
+
+    return content;
+  }
+
+  private isChatCompletion(response: unknown): response is OpenAIChatCompletion {
+    if (typeof response !== 'object' || response === null) {
+      return false;
+    }
+    const choices = (response as { choices?: unknown }).choices;
+    return Array.isArray(choices) && choices.every(choice => {
+      if (typeof choice !== 'object' || choice === null) {
+        return false;
+      }
+      const message = (choice as { message?: unknown }).message;
+      return message === undefined || (typeof message === 'object' && message !== null);
+    });
+  }
+
+  private createResponseError(message: string): Error {
+    const error = new Error(message);
+    error.name = 'MESSAGE_GENERATION_ERROR';
+    return error;
+  }
+}
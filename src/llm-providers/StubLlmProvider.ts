@@ -0,0 +1,63 @@
+/**
+ * StubLlmProvider - Local deterministic LLM provider
+ *
+ * Used in tests and offline environments. Returns either a configured response
+ * or a short message assembled from the labelled fields of the prompt, and
+ * records every request it receives for inspection.
+ */
+
+import { ILlmProvider } from '../interfaces';
+import { LlmCompletionRequest } from '../types';
+
+export type StubLlmResponse = string | ((request: LlmCompletionRequest) => string);
+
+export class StubLlmProvider implements ILlmProvider {
+  readonly name = 'stub';
+  readonly requests: LlmCompletionRequest[] = [];
+
+  constructor(private response?: StubLlmResponse) {}
+
+  async complete(request: LlmCompletionRequest): Promise<string> {
+    this.requests.push(request);
+
+    if (typeof this.response === 'function') {
+      return this.response(request);
+    }
+
+    if (typeof this.response === 'string') {
+      return this.response;
+    }
+
+    return this.composeFromPrompt(request.userPrompt);
+  }
+
+  /**
+   * Builds a plain message from the prompt so output tracks the input deterministically
+   */
+  private composeFromPrompt(userPrompt: string): string {
+    const name = this.readField(userPrompt, 'Recipient first name') || 'there';
+    const company = this.readField(userPrompt, 'Company') || 'your company';
+    const reason = (this.readField(userPrompt, 'Why now') || 'The timing seemed worth a note')
+      .replace(/[.\s]+$/, '');
+
+    return [
+      `Hi ${name},`,
+      '',
+      `I noticed a few recent updates at ${company} and thought of your team.`,
+      '',
+      `${reason}. I'd be glad to share what similar teams have tried.`,
+      '',
+      'Would it make sense to compare notes?',
+      '',
+      'Best regards',
+    ].join('\n');
+  }
+
+  private readField(prompt: string, label: string): string | undefined {
+    const line = prompt
+      .split('\n')
+      .find(candidate => candidate.startsWith(`${label}:`));
+
+    return line ? line.substring(label.length + 1).trim() : undefined;
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Tests for LLM providers and environment-based provider selection
+ * HTTP calls are replaced by an in-memory transport
+ */
+
+import { OpenAIProvider } from '../OpenAIProvider';
+import { AnthropicProvider } from '../AnthropicProvider';
+import { StubLlmProvider } from '../StubLlmProvider';
+import { createLlmProviderFromEnv } from '../LlmProviderFactory';
+import { AddressInfo, createServer, Socket } from 'net';
+import { HttpTransport, postJson } from '../HttpTransport';
+import { LlmCompletionRequest } from '../../types';
+
+const request: LlmCompletionRequest = {
+  systemPrompt: 'You write short emails.',
+  userPrompt: 'Recipient first name: Sam\nCompany: Acme\nWhy now: Recent funding may enable new initiatives',
+  maxTokens: 200,
+  temperature: 0.2,
+};
+
+function recordingTransport(response: unknown) {
+  const calls: Array<{ url: string; headers: Record<string, string>; body: any; signal?: AbortSignal }> = [];
+  const transport: HttpTransport = async (url, headers, body, _timeoutMs, signal) => {
+    calls.push({ url, headers, body, signal });
+    return response;
+  };
+  return { calls, transport };
+}
+
+describe('LLM Providers', () => {
+  describe('OpenAIProvider', () => {
+    test('should send a chat completion request and return message content', async () => {
+      const { calls, transport } = recordingTransport({
+        choices: [{ message: { content: 'Hi Sam,\n\nHello.' } }],
+      });
+      const provider = new OpenAIProvider({ apiKey: 'sk-test', model: 'gpt-test', transport });
+
+      const result = await provider.complete(request);
+
+      expect(result).toBe('Hi Sam,\n\nHello.');
+      expect(calls[0].url).toBe('https://api.openai.com/v1/chat/completions');
+      expect(calls[0].headers.Authorization).toBe('Bearer sk-test');
+      expect(calls[0].body.model).toBe('gpt-test');
+      expect(calls[0].body.messages).toEqual([
+        { role: 'system', content: request.systemPrompt },
+        { role: 'user', content: request.userPrompt },
+      ]);
+      expect(calls[0].body.max_tokens).toBe(200);
+    });
+
+    test('should reject responses without content', async () => {
+      const { transport } = recordingTransport({ choices: [] });
+      const provider = new OpenAIProvider({ apiKey: 'sk-test', transport });
+
+      await expect(provider.complete(request)).rejects.toThrow('did not contain message content');
+    });
+
+    test('should reject malformed responses with a message generation error', async () => {
+      for (const response of [null, 'Hi Sam', { choices: 'none' }, { choices: [null] }, { choices: [{ message: 'Hi' }] }]) {
+        const provider = new OpenAIProvider({ apiKey: 'sk-test', transport: recordingTransport(response).transport });
+
+        await expect(provider.complete(request)).rejects.toMatchObject({
+          name: 'MESSAGE_GENERATION_ERROR',
+          message: 'OpenAI response did not match the Chat Completions format',
+        });
+      }
+    });
+  });
+
+  describe('AnthropicProvider', () => {
+    test('should send a messages request and join text blocks', async () => {
+      const { calls, transport } = recordingTransport({
+        content: [
+          { type: 'text', text: 'Hi Sam,' },
+          { type: 'text', text: '\n\nHello.' },
+        ],
+      });
+      const provider = new AnthropicProvider({ apiKey: 'ak-test', transport });
+
+      const result = await provider.complete(request);
+
+      expect(result).toBe('Hi Sam,\n\nHello.');
+      expect(calls[0].url).toBe('https://api.anthropic.com/v1/messages');
+      expect(calls[0].headers['x-api-key']).toBe('ak-test');
+      expect(calls[0].headers['anthropic-version']).toBeTruthy();
+      expect(calls[0].body.system).toBe(request.systemPrompt);
+      expect(calls[0].body.messages).toEqual([{ role: 'user', content: request.userPrompt }]);
+    });
+
+    test('should reject malformed responses with a message generation error', async () => {
+      for (const response of [undefined, { content: 'Hi Sam' }, { content: [{ text: 'Hi Sam' }] }, { content: [null] }]) {
+        const provider = new AnthropicProvider({ apiKey: 'ak-test', transport: recordingTransport(response).transport });
+
+        await expect(provider.complete(request)).rejects.toMatchObject({
+          name: 'MESSAGE_GENERATION_ERROR',
+          message: 'Anthropic response did not match the Messages format',
+        });
+      }
+    });
+
+    test('should reject responses without text blocks', async () => {
+      const { transport } = recordingTransport({ content: [{ type: 'tool_use', id: 'tool-1' }] });
+      const provider = new AnthropicProvider({ apiKey: 'ak-test', transport });
+
+      await expect(provider.complete(request)).rejects.toMatchObject({ name: 'MESSAGE_GENERATION_ERROR' });
+    });
+  });
+
+  describe('postJson', () => {
+    test('should abort the HTTP request when the signal is aborted', async () => {
+      // Accepts connections and never answers, like a slow provider
+      const server = createServer();
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      const connected = new Promise<Socket>(resolve => server.once('connection', resolve));
+      const { port } = server.address() as AddressInfo;
+      const controller = new AbortController();
+
+      try {
+        const pending = postJson(`https://127.0.0.1:${port}/v1/messages`, {}, { model: 'test' }, 10000, controller.signal);
+        const socket = await connected;
+        const socketClosed = new Promise(resolve => socket.once('close', resolve));
+        controller.abort();
+
+        await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+        await socketClosed;
+      } finally {
+        await new Promise(resolve => server.close(resolve));
+      }
+    });
+
+    test('should pass the signal from the provider to the transport', async () => {
+      const { calls, transport } = recordingTransport({ choices: [{ message: { content: 'Hi Sam,' } }] });
+      const controller = new AbortController();
+
+      await new OpenAIProvider({ apiKey: 'sk-test', transport }).complete(request, controller.signal);
+
+      expect(calls[0].signal).toBe(controller.signal);
+    });
+  });
+
+  describe('StubLlmProvider', () => {
+    test('should compose a deterministic message from prompt fields', async () => {
+      const provider = new StubLlmProvider();
+
+      const first = await provider.complete(request);
+      const second = await provider.complete(request);
+
+      expect(first).toBe(second);
+      expect(first).toMatch(/^Hi Sam,/);
+      expect(first).toContain('Acme');
+      expect(provider.requests).toHaveLength(2);
+    });
+
+    test('should return configured responses', async () => {
+      expect(await new StubLlmProvider('fixed').complete(request)).toBe('fixed');
+      expect(await new StubLlmProvider(r => r.systemPrompt).complete(request)).toBe(request.systemPrompt);
+    });
+  });
+
+  describe('createLlmProviderFromEnv', () => {
+    test('should return null when no provider or key is configured', () => {
+      expect(createLlmProviderFromEnv({})).toBeNull();
+      expect(createLlmProviderFromEnv({ LLM_PROVIDER: 'none', OPENAI_API_KEY: 'sk' })).toBeNull();
+    });
+
+    test('should read the API keys reserved in .env.example', () => {
+      expect(createLlmProviderFromEnv({ OPENAI_API_KEY: 'sk' })?.name).toBe('openai');
+      expect(createLlmProviderFromEnv({ ANTHROPIC_API_KEY: 'ak' })?.name).toBe('anthropic');
+      expect(
+        createLlmProviderFromEnv({ LLM_PROVIDER: 'anthropic', OPENAI_API_KEY: 'sk', ANTHROPIC_API_KEY: 'ak' })?.name
+      ).toBe('anthropic');
+      expect(createLlmProviderFromEnv({ LLM_PROVIDER: 'stub' })?.name).toBe('stub');
+    });
+
+    test('should fail fast on misconfiguration', () => {
+      expect(() => createLlmProviderFromEnv({ LLM_PROVIDER: 'openai' })).toThrow('OPENAI_API_KEY');
+      expect(() => createLlmProviderFromEnv({ LLM_PROVIDER: 'other' })).toThrow('Unknown LLM_PROVIDER');
+    });
+  });
+});
@@ -0,0 +1,9 @@
+/**
+ * LLM provider module exports
+ */
+
+export { OpenAIProvider, OpenAIProviderOptions } from './OpenAIProvider';
+export { AnthropicProvider, AnthropicProviderOptions } from './AnthropicProvider';
+export { StubLlmProvider, StubLlmResponse } from './StubLlmProvider';
+export { createLlmProviderFromEnv } from './LlmProviderFactory';
+export { HttpTransport, postJson } from './HttpTransport';
@@ -0,0 +1,77 @@
+/**
+ * InMemoryJobStore - Process-local storage for Masumi jobs
+ *
+ * Jobs are kept in creation order. Jobs left in awaiting_payment or
+ * awaiting_input for longer than the TTL fail as expired. Once the store is
+ * full, the oldest finished jobs are dropped first, then the oldest waiting
+ * ones; running jobs are never evicted.
+ * Returned jobs are copies, so callers change state only through update().
+ */
+
+import { IJobStore } from '../interfaces';
+import { MasumiJob } from '../types';
+
+export class InMemoryJobStore implements IJobStore {
+  private readonly jobs = new Map<string, MasumiJob>();
+
+  constructor(
+    private readonly maxRetainedJobs: number = 1000,
+    private readonly awaitingJobTtlMs: number = 24 * 60 * 60 * 1000
+  ) {}
+
+  create(job: MasumiJob): void {
+    this.jobs.forEach(stored => this.expireIfStale(stored));
+    this.jobs.set(job.jobId, { ...job });
+    this.evictJobs(job.jobId);
+  }
+
+  get(jobId: string): MasumiJob | undefined {
+    const job = this.jobs.get(jobId);
+    return job ? { ...this.expireIfStale(job) } : undefined;
+  }
+
+  update(jobId: string, changes: Partial<Omit<MasumiJob, 'jobId' | 'createdAt'>>): MasumiJob | undefined {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      return undefined;
+    }
+
+    const updated = { ...job, ...changes, updatedAt: new Date() };
+    this.jobs.set(jobId, updated);
+    return { ...updated };
+  }
+
+  private expireIfStale(job: MasumiJob): MasumiJob {
+    if (!this.isWaiting(job) || Date.now() - job.updatedAt.getTime() < this.awaitingJobTtlMs) {
+      return job;
+    }
+
+    const waitingFor = job.status === 'awaiting_payment' ? 'payment' : 'input';
+    return this.update(job.jobId, {
+      status: 'failed',
+      message: `Job expired after waiting ${Math.round(this.awaitingJobTtlMs / 1000)}s for ${waitingFor}`,
+    }) as MasumiJob;
+  }
+
+  // The job just created is kept even when the rest of the store is running jobs
+  private evictJobs(createdJobId: string): void {
+    this.evictOldest(job => job.status === 'completed' || job.status === 'failed');
+    this.evictOldest(job => this.isWaiting(job) && job.jobId !== createdJobId);
+  }
+
+  // Drops the oldest matching jobs until the store is back within maxRetainedJobs
+  private evictOldest(matches: (job: MasumiJob) => boolean): void {
+    for (const [jobId, job] of this.jobs) {
+      if (this.jobs.size <= this.maxRetainedJobs) {
+        return;
+      }
+      if (matches(job)) {
+        this.jobs.delete(jobId);
+      }
+    }
+  }
+
+  private isWaiting(job: MasumiJob): boolean {
+    return job.status === 'awaiting_payment' || job.status === 'awaiting_input';
+  }
+}
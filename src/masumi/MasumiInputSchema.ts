@@ -0,0 +1,253 @@
+/**
+ * MasumiInputSchema - MIP-003 input schema for outreach jobs
+ *
+ * Flattens ProspectData into one schema field per leaf and takes intent signals
+ * as a JSON array. The field tables are keyed by the interface properties, so a
+ * property added to ProspectData or IntentSignal fails compilation until it is
+ * described here.
+ */
+
+import {
+  CompanyContext,
+  CompanySize,
+  ContactDetails,
+  InputSchemaField,
+  IntentSignal,
+  NegativeSignalType,
+  OutreachChannel,
+  ProspectData,
+  SignalType,
+} from '../types';
+
+interface FieldSpec {
+  id: string;
+  type: InputSchemaField['type'];
+  name: string;
+  description: string;
+  optional?: boolean;
+  values?: string[];
+}
+
+export interface ParsedJobInput {
+  prospectData: ProspectData;
+  intentSignals: IntentSignal[];
+  channel?: OutreachChannel;
+}
+
+export class MasumiInputSchema {
+  private readonly PROSPECT_FIELDS: Record<Exclude<keyof ProspectData, 'companyContext' | 'contactDetails'>, FieldSpec> = {
+    role: { id: 'role', type: 'string', name: 'Prospect role', description: 'Job title, e.g. VP of Engineering' },
+    additionalContext: {
+      id: 'additional_context',
+      type: 'textarea',
+      name: 'Additional context',
+      description: 'JSON object with anything else known about the prospect',
+      optional: true,
+    },
+  };
+
+  private readonly COMPANY_FIELDS: Record<keyof CompanyContext, FieldSpec> = {
+    name: { id: 'company_name', type: 'string', name: 'Company name', description: 'Name of the prospect\'s company' },
+    industry: { id: 'company_industry', type: 'string', name: 'Industry', description: 'Industry the company operates in' },
+    size: {
+      id: 'company_size',
+      type: 'option',
+      name: 'Company size',
+      description: 'Size band of the company',
+      values: Object.values(CompanySize),
+    },
+    recentEvents: {
+      id: 'recent_events',
+      type: 'textarea',
+      name: 'Recent company events',
+      description: 'One event per line',
+      optional: true,
+    },
+  };
+
+  private readonly CONTACT_FIELDS: Record<keyof ContactDetails, FieldSpec> = {
+    name: { id: 'contact_name', type: 'string', name: 'Contact name', description: 'Full name of the prospect' },
+    email: { id: 'contact_email', type: 'email', name: 'Contact email', description: 'Email address of the prospect' },
+    linkedinUrl: {
+      id: 'linkedin_url',
+      type: 'url',
+      name: 'LinkedIn profile URL',
+      description: 'Required for the linkedin_connection and linkedin_inmail channels',
+      optional: true,
+    },
+    phoneNumber: {
+      id: 'phone_number',
+      type: 'string',
+      name: 'Phone number',
+      description: 'Required for the sms channel',
+      optional: true,
+    },
+  };
+
+  private readonly SIGNAL_PROPERTY_DESCRIPTIONS: Record<keyof IntentSignal, string> = {
+    type: `one of ${[...Object.values(SignalType), ...Object.values(NegativeSignalType)].join(', ')}`,
+    description: 'what happened',
+    timestamp: 'ISO date',
+    relevanceScore: 'number from 0 to 1',
+    source: 'where the signal was observed',
+    metadata: 'optional object; funding_event takes round, amount (USD) and leadInvestor, job_change takes previousCompany, newTitle and startDate, technology_adoption takes technology and replacedVendor',
+    polarity: 'optional: positive, negative or disqualifying',
+    unverified: 'optional: true when nobody has confirmed the signal; it then never counts toward confidence',
+  };
+
+  private readonly CHANNEL_FIELD: FieldSpec = {
+    id: 'channel',
+    type: 'option',
+    name: 'Channel',
+    description: `Delivery channel, default ${OutreachChannel.EMAIL}`,
+    optional: true,
+    values: Object.values(OutreachChannel),
+  };
+
+  getFields(): InputSchemaField[] {
+    const signalProperties = Object.entries(this.SIGNAL_PROPERTY_DESCRIPTIONS)
+      .map(([property, description]) => `${property} (${description})`)
+      .join(', ');
+
+    const intentSignalsField: FieldSpec = {
+      id: 'intent_signals',
+      type: 'textarea',
+      name: 'Intent signals',
+      description: `JSON array of at least one signal, each with ${signalProperties}`,
+    };
+
+    return [
+      ...this.fieldSpecs(),
+      intentSignalsField,
+      this.CHANNEL_FIELD,
+    ].map(spec => this.toSchemaField(spec));
+  }
+
+  /**
+   * Converts MIP-003 input data into a request, or lists what is missing or malformed
+   */
+  parseInputData(inputData: Record<string, unknown>): ParsedJobInput | { problems: string[] } {
+    const problems: string[] = [];
+    const read = (spec: FieldSpec): string | undefined => {
+      const value = inputData[spec.id];
+      const text = typeof value === 'string' ? value.trim() : undefined;
+
+      if (!text) {
+        if (!spec.optional) {
+          problems.push(`${spec.id} is required`);
+        }
+        return undefined;
+      }
+      if (spec.values && !spec.values.includes(text)) {
+        problems.push(`${spec.id} must be one of ${spec.values.join(', ')}`);
+        return undefined;
+      }
+      return text;
+    };
+
+    const recentEvents = read(this.COMPANY_FIELDS.recentEvents)
+      ?.split('\n')
+      .map(event => event.trim())
+      .filter(event => event.length > 0);
+    const additionalContext = this.parseJson(
+      read(this.PROSPECT_FIELDS.additionalContext),
+      this.PROSPECT_FIELDS.additionalContext.id,
+      problems
+    );
+    if (additionalContext !== undefined && (typeof additionalContext !== 'object' || Array.isArray(additionalContext))) {
+      problems.push(`${this.PROSPECT_FIELDS.additionalContext.id} must be a JSON object`);
+    }
+
+    const linkedinUrl = read(this.CONTACT_FIELDS.linkedinUrl);
+    const phoneNumber = read(this.CONTACT_FIELDS.phoneNumber);
+
+    const prospectData: ProspectData = {
+      role: read(this.PROSPECT_FIELDS.role) ?? '',
+      companyContext: {
+        name: read(this.COMPANY_FIELDS.name) ?? '',
+        industry: read(this.COMPANY_FIELDS.industry) ?? '',
+        size: read(this.COMPANY_FIELDS.size) as CompanySize,
+        ...(recentEvents && { recentEvents }),
+      },
+      contactDetails: {
+        name: read(this.CONTACT_FIELDS.name) ?? '',
+        email: read(this.CONTACT_FIELDS.email) ?? '',
+        ...(linkedinUrl && { linkedinUrl }),
+        ...(phoneNumber && { phoneNumber }),
+      },
+      ...(additionalContext !== undefined && { additionalContext: additionalContext as Record<string, unknown> }),
+    };
+
+    const intentSignals = this.parseIntentSignals(inputData.intent_signals, problems);
+    const channel = read(this.CHANNEL_FIELD) as OutreachChannel | undefined;
+
+    if (problems.length > 0) {
+      return { problems };
+    }
+
+    return { prospectData, intentSignals, ...(channel && { channel }) };
+  }
+
+  // Signals may arrive as a JSON string (per the schema) or as an already-parsed array
+  private parseIntentSignals(value: unknown, problems: string[]): IntentSignal[] {
+    const parsed = typeof value === 'string'
+      ? this.parseJson(value.trim() || undefined, 'intent_signals', problems)
+      : value;
+
+    if (parsed === undefined) {
+      if (problems.every(problem => !problem.startsWith('intent_signals'))) {
+        problems.push('intent_signals is required');
+      }
+      return [];
+    }
+    if (!Array.isArray(parsed) || parsed.length === 0) {
+      problems.push('intent_signals must be a non-empty JSON array');
+      return [];
+    }
+
+    return parsed.map((signal: any) => ({ ...signal, timestamp: new Date(signal?.timestamp) }));
+  }
+
+  private parseJson(text: string | undefined, id: string, problems: string[]): unknown {
+    if (text === undefined) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(text);
+    } catch {
+      problems.push(`${id} must be valid JSON`);
+      return undefined;
+    }
+  }
+
+  private fieldSpecs(): FieldSpec[] {
+    return [
+      ...Object.values(this.PROSPECT_FIELDS).filter(spec => spec.id !== 'additional_context'),
+      ...Object.values(this.COMPANY_FIELDS),
+      ...Object.values(this.CONTACT_FIELDS),
+      this.PROSPECT_FIELDS.additionalContext,
+    ];
+  }
+
+  private toSchemaField(spec: FieldSpec): InputSchemaField {
+    const validations: NonNullable<InputSchemaField['validations']> = [];
+    if (spec.optional) {
+      validations.push({ validation: 'optional', value: 'true' });
+    }
+    if (spec.type === 'email' || spec.type === 'url') {
+      validations.push({ validation: 'format', value: spec.type });
+    }
+
+    return {
+      id: spec.id,
+      type: spec.type,
+      name: spec.name,
+      data: {
+        description: spec.description,
+        ...(spec.values && { values: spec.values }),
+      },
+      ...(validations.length > 0 && { validations }),
+    };
+  }
+}
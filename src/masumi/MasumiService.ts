@@ -0,0 +1,188 @@
+/**
+ * MasumiService - Runs outreach requests as Masumi agentic-service jobs (MIP-003)
+ *
+ * Implements the job lifecycle behind the MIP-003 endpoints:
+ * - start_job stores the input, requests payment and returns at once
+ * - the job runs in the background after the payment verifier confirms payment
+ * - missing or invalid input parks the job in awaiting_input until provide_input
+ * - the finished job holds the StructuredOutput or the ProcessingError
+ *
+ * Storage and payment verification are pluggable; the outreach pipeline itself
+ * is unchanged and still available as a synchronous call.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { IJobStore, IOutreachProcessor, IPaymentVerifier } from '../interfaces';
+import { InputSchemaField, MasumiJob, ProcessingError } from '../types';
+import { MasumiInputSchema } from './MasumiInputSchema';
+import { canonicalJson } from '../utils';
+
+export class MasumiService {
+  private readonly activeRuns = new Set<Promise<void>>();
+
+  constructor(
+    private processor: IOutreachProcessor,
+    private jobStore: IJobStore,
+    private paymentVerifier: IPaymentVerifier,
+    private inputSchema: MasumiInputSchema = new MasumiInputSchema()
+  ) {}
+
+  getInputSchema(): InputSchemaField[] {
+    return this.inputSchema.getFields();
+  }
+
+  /**
+   * Creates a job and requests payment; processing starts once payment is confirmed
+   */
+  async startJob(identifierFromPurchaser: string, inputData: Record<string, unknown>): Promise<MasumiJob | ProcessingError> {
+    if (typeof identifierFromPurchaser !== 'string' || identifierFromPurchaser.trim().length === 0) {
+      return this.createError('INVALID_JOB_REQUEST', 'identifier_from_purchaser is required', 'start_job');
+    }
+    if (!this.isPlainObject(inputData)) {
+      return this.createError('INVALID_JOB_REQUEST', 'input_data must be an object keyed by input schema field id', 'start_job');
+    }
+
+    const now = new Date();
+    const job: MasumiJob = {
+      jobId: randomUUID(),
+      status: 'awaiting_payment',
+      identifierFromPurchaser,
+      inputData,
+      inputHash: this.hashInput(inputData),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.jobStore.create(job);
+
+    const payment = await this.paymentVerifier.createPaymentRequest(job);
+    const pending = this.jobStore.update(job.jobId, { payment }) as MasumiJob;
+
+    this.track(this.runJob(pending));
+    return pending;
+  }
+
+  getJob(jobId: string): MasumiJob | ProcessingError {
+    return this.jobStore.get(jobId)
+      ?? this.createError('JOB_NOT_FOUND', `No job with id ${jobId}`, 'job_status');
+  }
+
+  /**
+   * Merges additional input into a job waiting for it and resumes processing
+   */
+  provideInput(jobId: string, inputData: Record<string, unknown>): MasumiJob | ProcessingError {
+    const job = this.jobStore.get(jobId);
+    if (!job) {
+      return this.createError('JOB_NOT_FOUND', `No job with id ${jobId}`, 'provide_input');
+    }
+    if (job.status !== 'awaiting_input') {
+      return this.createError('JOB_NOT_AWAITING_INPUT', `Job ${jobId} is ${job.status}`, 'provide_input');
+    }
+    if (!this.isPlainObject(inputData)) {
+      return this.createError('INVALID_JOB_REQUEST', 'input_data must be an object keyed by input schema field id', 'provide_input');
+    }
+
+    const mergedInput = { ...job.inputData, ...inputData };
+    const resumed = this.jobStore.update(jobId, {
+      status: 'running',
+      inputData: mergedInput,
+      inputHash: this.hashInput(mergedInput),
+      message: undefined,
+      error: undefined,
+    }) as MasumiJob;
+
+    this.track(this.processInput(resumed));
+    return resumed;
+  }
+
+  /**
+   * Resolves once every job started so far has finished or is waiting on the purchaser
+   */
+  async waitForActiveJobs(): Promise<void> {
+    while (this.activeRuns.size > 0) {
+      await Promise.all(Array.from(this.activeRuns));
+    }
+  }
+
+  private async runJob(job: MasumiJob): Promise<void> {
+    let paid = false;
+    try {
+      paid = await this.paymentVerifier.waitForPayment(job);
+    } catch (error) {
+      console.error(`Payment verification failed for job ${job.jobId}:`, error);
+    }
+
+    if (!paid) {
+      this.jobStore.update(job.jobId, { status: 'failed', message: 'Payment was not confirmed' });
+      return;
+    }
+
+    // The store may have expired or evicted the job while payment was pending
+    const current = this.jobStore.get(job.jobId);
+    if (current?.status !== 'awaiting_payment') {
+      return;
+    }
+
+    await this.processInput(current);
+  }
+
+  private async processInput(job: MasumiJob): Promise<void> {
+    const parsed = this.inputSchema.parseInputData(job.inputData);
+    if ('problems' in parsed) {
+      this.jobStore.update(job.jobId, {
+        status: 'awaiting_input',
+        message: `Missing or invalid input: ${parsed.problems.join('; ')}`,
+      });
+      return;
+    }
+
+    this.jobStore.update(job.jobId, { status: 'running' });
+
+    try {
+      const result = await this.processor.processOutreachRequest(
+        parsed.prospectData,
+        parsed.intentSignals,
+        parsed.channel ? { channel: parsed.channel } : {}
+      );
+
+      if (!('code' in result)) {
+        this.jobStore.update(job.jobId, { status: 'completed', result });
+      } else if (result.code === 'VALIDATION_FAILED') {
+        // The purchaser can correct the input through provide_input
+        this.jobStore.update(job.jobId, { status: 'awaiting_input', message: result.message, error: result });
+      } else {
+        this.jobStore.update(job.jobId, { status: 'failed', message: result.message, error: result });
+      }
+    } catch (error) {
+      this.jobStore.update(job.jobId, {
+        status: 'failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  private track(run: Promise<void>): void {
+    const tracked: Promise<void> = run
+      .catch(error => console.error('Masumi job stopped unexpectedly:', error))
+      .finally(() => this.activeRuns.delete(tracked));
+    this.activeRuns.add(tracked);
+  }
+
+  // Key order must not change the hash, so objects are serialized with sorted keys
+  private hashInput(inputData: Record<string, unknown>): string {
+    return createHash('sha256').update(canonicalJson(inputData)).digest('hex');
+  }
+
+  private isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private createError(code: string, message: string, step: string): ProcessingError {
+    const remediations: Record<string, string> = {
+      INVALID_JOB_REQUEST: 'Send identifier_from_purchaser and input_data as described by GET /input_schema',
+      JOB_NOT_FOUND: 'Check the job id returned by start_job; finished jobs are kept for a limited time',
+      JOB_NOT_AWAITING_INPUT: 'Only jobs with status awaiting_input accept more input',
+    };
+
+    return { code, message, step, remediation: remediations[code] };
+  }
+}
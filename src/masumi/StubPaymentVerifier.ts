@@ -0,0 +1,36 @@
+/**
+ * StubPaymentVerifier - Local payment verifier that never touches the network
+ *
+ * Used in tests and local development. Issues a deterministic blockchain
+ * identifier per job and confirms (or rejects) every payment immediately.
+ * Records the ids of jobs it was asked to verify for inspection.
+ */
+
+import { IPaymentVerifier } from '../interfaces';
+import { MasumiJob, PaymentRequest } from '../types';
+
+export interface StubPaymentVerifierOptions {
+  confirmPayments?: boolean; // default true
+  payByMs?: number; // time the purchaser has to pay, default 1 hour
+  submitResultMs?: number; // time the agent has to submit a result, default 2 hours
+}
+
+export class StubPaymentVerifier implements IPaymentVerifier {
+  readonly verifiedJobIds: string[] = [];
+
+  constructor(private options: StubPaymentVerifierOptions = {}) {}
+
+  async createPaymentRequest(job: MasumiJob): Promise<PaymentRequest> {
+    const now = Date.now();
+    return {
+      blockchainIdentifier: `stub-${job.jobId}`,
+      payByTime: new Date(now + (this.options.payByMs ?? 60 * 60 * 1000)),
+      submitResultTime: new Date(now + (this.options.submitResultMs ?? 2 * 60 * 60 * 1000)),
+    };
+  }
+
+  async waitForPayment(job: MasumiJob): Promise<boolean> {
+    this.verifiedJobIds.push(job.jobId);
+    return this.options.confirmPayments ?? true;
+  }
+}
@@ -0,0 +1,250 @@
+/**
+ * Tests for Masumi job handling (MIP-003)
+ * Payments are confirmed by the local stub verifier
+ */
+
+import { MasumiService } from '../MasumiService';
+import { MasumiInputSchema } from '../MasumiInputSchema';
+import { InMemoryJobStore } from '../InMemoryJobStore';
+import { StubPaymentVerifier } from '../StubPaymentVerifier';
+import { IntentDrivenOutreachAgent } from '../../index';
+import { CompanySize, MasumiJob, OutreachChannel, ProcessingError, SignalType } from '../../types';
+
+const intentSignals = [
+  {
+    type: SignalType.FUNDING_EVENT,
+    description: 'Raised $15M Series A funding round',
+    timestamp: new Date().toISOString(),
+    relevanceScore: 0.9,
+    source: 'TechCrunch',
+  },
+  {
+    type: SignalType.COMPANY_GROWTH,
+    description: 'Posted 12 new engineering positions',
+    timestamp: new Date().toISOString(),
+    relevanceScore: 0.8,
+    source: 'LinkedIn',
+  },
+];
+
+const inputData = {
+  role: 'VP of Engineering',
+  company_name: 'TechCorp',
+  company_industry: 'Technology',
+  company_size: CompanySize.MEDIUM,
+  contact_name: 'Sarah Chen',
+  contact_email: 'sarah@techcorp.com',
+  intent_signals: JSON.stringify(intentSignals),
+};
+
+function asJob(result: MasumiJob | ProcessingError): MasumiJob {
+  if ('code' in result) {
+    throw new Error(`Expected a job, got ${result.code}`);
+  }
+  return result;
+}
+
+describe('Masumi Jobs', () => {
+  let paymentVerifier: StubPaymentVerifier;
+  let service: MasumiService;
+
+  beforeEach(() => {
+    paymentVerifier = new StubPaymentVerifier();
+    service = new MasumiService(new IntentDrivenOutreachAgent(), new InMemoryJobStore(), paymentVerifier);
+  });
+
+  describe('MasumiInputSchema', () => {
+    const schema = new MasumiInputSchema();
+
+    test('should describe every prospect field plus intent signals and channel', () => {
+      const fields = schema.getFields();
+
+      expect(fields.map(field => field.id)).toEqual([
+        'role',
+        'company_name',
+        'company_industry',
+        'company_size',
+        'recent_events',
+        'contact_name',
+        'contact_email',
+        'linkedin_url',
+        'phone_number',
+        'additional_context',
+        'intent_signals',
+        'channel',
+      ]);
+      expect(fields.find(field => field.id === 'company_size')?.data?.values).toEqual(Object.values(CompanySize));
+      expect(fields.find(field => field.id === 'channel')?.validations).toEqual([{ validation: 'optional', value: 'true' }]);
+      expect(fields.find(field => field.id === 'intent_signals')?.data?.description).toContain(SignalType.JOB_CHANGE);
+    });
+
+    test('should build a request from input data', () => {
+      const parsed = schema.parseInputData({
+        ...inputData,
+        recent_events: 'Opened Austin office\n\nHired a new CFO',
+        channel: OutreachChannel.LINKEDIN_INMAIL,
+        linkedin_url: 'https://linkedin.com/in/sarahchen',
+      });
+
+      expect('problems' in parsed).toBe(false);
+      if (!('problems' in parsed)) {
+        expect(parsed.prospectData.companyContext.recentEvents).toEqual(['Opened Austin office', 'Hired a new CFO']);
+        expect(parsed.prospectData.contactDetails).toEqual({
+          name: 'Sarah Chen',
+          email: 'sarah@techcorp.com',
+          linkedinUrl: 'https://linkedin.com/in/sarahchen',
+        });
+        expect(parsed.intentSignals[0].timestamp).toBeInstanceOf(Date);
+        expect(parsed.channel).toBe(OutreachChannel.LINKEDIN_INMAIL);
+      }
+    });
+
+    test('should list missing and malformed fields', () => {
+      const { intent_signals: _signals, role: _role, ...rest } = inputData;
+
+      expect(schema.parseInputData({ ...rest, company_size: 'huge', additional_context: '[1]' })).toEqual({
+        problems: [
+          'additional_context must be a JSON object',
+          'role is required',
+          'company_size must be one of startup, small, medium, large, enterprise',
+          'intent_signals is required',
+        ],
+      });
+      expect(schema.parseInputData({ ...inputData, intent_signals: 'not json' })).toEqual({
+        problems: ['intent_signals must be valid JSON'],
+      });
+    });
+  });
+
+  test('should request payment, then run the pipeline in the background', async () => {
+    const job = asJob(await service.startJob('purchaser-1', inputData));
+
+    expect(job.status).toBe('awaiting_payment');
+    expect(job.payment?.blockchainIdentifier).toBe(`stub-${job.jobId}`);
+    expect(job.inputHash).toMatch(/^[0-9a-f]{64}$/);
+
+    await service.waitForActiveJobs();
+
+    const finished = asJob(service.getJob(job.jobId));
+    expect(paymentVerifier.verifiedJobIds).toEqual([job.jobId]);
+    expect(finished.status).toBe('completed');
+    expect(finished.result?.recommendedMessage).toContain('Sarah');
+  });
+
+  test('should hash input independently of key order', async () => {
+    const reordered = Object.fromEntries(Object.entries(inputData).reverse());
+
+    const first = asJob(await service.startJob('purchaser-1', inputData));
+    const second = asJob(await service.startJob('purchaser-2', reordered));
+
+    expect(second.inputHash).toBe(first.inputHash);
+    expect(second.jobId).not.toBe(first.jobId);
+    await service.waitForActiveJobs();
+  });
+
+  test('should fail the job when payment is not confirmed', async () => {
+    const unpaid = new MasumiService(
+      new IntentDrivenOutreachAgent(),
+      new InMemoryJobStore(),
+      new StubPaymentVerifier({ confirmPayments: false })
+    );
+
+    const job = asJob(await unpaid.startJob('purchaser-1', inputData));
+    await unpaid.waitForActiveJobs();
+
+    expect(unpaid.getJob(job.jobId)).toMatchObject({ status: 'failed', message: 'Payment was not confirmed' });
+  });
+
+  test('should wait for missing input and resume once it is provided', async () => {
+    const { intent_signals, ...partialInput } = inputData;
+    const job = asJob(await service.startJob('purchaser-1', partialInput));
+    await service.waitForActiveJobs();
+
+    const waiting = asJob(service.getJob(job.jobId));
+    expect(waiting.status).toBe('awaiting_input');
+    expect(waiting.message).toContain('intent_signals is required');
+
+    const resumed = asJob(service.provideInput(job.jobId, { intent_signals }));
+    expect(resumed.status).toBe('running');
+    expect(resumed.inputHash).not.toBe(waiting.inputHash);
+    await service.waitForActiveJobs();
+
+    expect(asJob(service.getJob(job.jobId)).status).toBe('completed');
+  });
+
+  test('should ask for corrected input when the pipeline rejects it', async () => {
+    const job = asJob(await service.startJob('purchaser-1', { ...inputData, channel: OutreachChannel.SMS }));
+    await service.waitForActiveJobs();
+
+    const waiting = asJob(service.getJob(job.jobId));
+    expect(waiting.status).toBe('awaiting_input');
+    expect(waiting.error?.code).toBe('VALIDATION_FAILED');
+
+    service.provideInput(job.jobId, { phone_number: '+1 555 010 0199' });
+    await service.waitForActiveJobs();
+
+    expect(service.getJob(job.jobId)).toMatchObject({ status: 'completed', error: undefined });
+  });
+
+  test('should reject malformed requests and unknown jobs', async () => {
+    const job = asJob(await service.startJob('purchaser-1', inputData));
+    await service.waitForActiveJobs();
+
+    expect(await service.startJob('', inputData)).toMatchObject({ code: 'INVALID_JOB_REQUEST', step: 'start_job' });
+    expect(await service.startJob('purchaser-1', [] as any)).toMatchObject({ code: 'INVALID_JOB_REQUEST' });
+    expect(service.getJob('missing')).toMatchObject({ code: 'JOB_NOT_FOUND', step: 'job_status' });
+    expect(service.provideInput('missing', {})).toMatchObject({ code: 'JOB_NOT_FOUND', step: 'provide_input' });
+    expect(service.provideInput(job.jobId, {})).toMatchObject({ code: 'JOB_NOT_AWAITING_INPUT' });
+  });
+
+  test('should evict only finished jobs once the store is full', () => {
+    const store = new InMemoryJobStore(2);
+    const job = (jobId: string, status: MasumiJob['status']): MasumiJob => ({
+      jobId,
+      status,
+      identifierFromPurchaser: 'purchaser-1',
+      inputData: {},
+      inputHash: '',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    store.create(job('running', 'running'));
+    store.create(job('done', 'completed'));
+    store.create(job('waiting', 'awaiting_input'));
+
+    expect(store.get('running')).toBeDefined();
+    expect(store.get('done')).toBeUndefined();
+    expect(store.get('waiting')).toBeDefined();
+  });
+
+  test('should expire waiting jobs after the TTL and evict them once finished jobs are gone', () => {
+    const store = new InMemoryJobStore(2, 60000);
+    const job = (jobId: string, status: MasumiJob['status'], ageMs: number = 0): MasumiJob => ({
+      jobId,
+      status,
+      identifierFromPurchaser: 'purchaser-1',
+      inputData: {},
+      inputHash: '',
+      createdAt: new Date(Date.now() - ageMs),
+      updatedAt: new Date(Date.now() - ageMs),
+    });
+
+    store.create(job('stale-payment', 'awaiting_payment', 120000));
+    store.create(job('stale-input', 'awaiting_input', 120000));
+    expect(store.get('stale-payment')).toMatchObject({ status: 'failed', message: 'Job expired after waiting 60s for payment' });
+
+    // Expired jobs are finished, so they make room first
+    store.create(job('fresh-payment', 'awaiting_payment'));
+    expect(store.get('stale-payment')).toBeUndefined();
+    expect(store.get('stale-input')).toBeDefined();
+    expect(store.get('fresh-payment')).toMatchObject({ status: 'awaiting_payment' });
+
+    // Waiting jobs count against the limit too; the oldest goes once nothing has finished
+    store.create(job('running', 'running'));
+    store.create(job('fresh-input', 'awaiting_input'));
+    expect(store.get('fresh-payment')).toBeUndefined();
+    expect(store.get('running')).toBeDefined();
+    expect(store.get('fresh-input')).toBeDefined();
+  });
+});
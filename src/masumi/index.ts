@@ -0,0 +1,8 @@
+/**
+ * Masumi module exports
+ */
+
+export { MasumiService } from './MasumiService';
+export { MasumiInputSchema, ParsedJobInput } from './MasumiInputSchema';
+export { InMemoryJobStore } from './InMemoryJobStore';
+export { StubPaymentVerifier, StubPaymentVerifierOptions } from './StubPaymentVerifier';
@@ -0,0 +1,198 @@
+/**
+ * LlmMessageGenerator - Generates outreach messages through a pluggable LLM provider
+ *
+ * Implements LLM-backed generation with:
+ * - Prompt built from strategy tone guidelines, content focus and intent hypothesis
+ * - Sender offering, relevant pain point and signature when a sender profile is given
+ * - Call-to-action instructions matching the strategy's CTA level
+ * - Value framing for the company size, when the strategy has one
+ * - Whitelisted personalization hooks, passed as facts to state exactly as given
+ * - Same word-limit and buzzword constraints as template generation
+ * - Template subject lines, so subjects stay deterministic and rule-checked
+ *
+ * Requirements: 6.1, 6.3, 6.4, 6.5
+ */
+
+import { IMessageGenerator, ILlmProvider, IContextIngestor } from '../interfaces';
+import {
+  MessageStrategy,
+  IntentHypothesis,
+  ProspectData,
+  CallToActionLevel,
+  LlmCompletionRequest,
+  SenderProfile,
+  SubjectLines,
+  ValueFraming,
+} from '../types';
+import { SYSTEM_CONSTANTS } from '../constants';
+import { MessageGenerator } from './MessageGenerator';
+import { ContextIngestor } from '../context-ingestor';
+
+export class LlmMessageGenerator implements IMessageGenerator {
+  private readonly MAX_TOKENS = 400;
+  private readonly TEMPERATURE = 0.4;
+
+  constructor(
+    private provider: ILlmProvider,
+    private sanitizer: MessageGenerator = new MessageGenerator(),
+    private contextIngestor: IContextIngestor = new ContextIngestor()
+  ) {}
+
+  async generateMessage(
+    strategy: MessageStrategy,
+    hypothesis: IntentHypothesis,
+    prospectData: ProspectData,
+    senderProfile?: SenderProfile,
+    _variant?: number,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const request = this.buildCompletionRequest(strategy, hypothesis, prospectData, senderProfile);
+
+    let completion: string;
+    try {
+      completion = await this.provider.complete(request, signal);
+    } catch (error) {
+      throw this.createGenerationError(
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+
+    // Provider output must meet the same constraints as template output (Requirements 6.1, 6.4)
+    const message = this.sanitizer.sanitizeMessage(completion.trim());
+    if (message.trim().length === 0) {
+      throw this.createGenerationError('provider returned an empty message');
+    }
+
+    return message;
+  }
+
+  generateSubjectLines(
+    strategy: MessageStrategy,
+    hypothesis: IntentHypothesis,
+    prospectData: ProspectData
+  ): SubjectLines {
+    return this.sanitizer.generateSubjectLines(strategy, hypothesis, prospectData);
+  }
+
+  /**
+   * Builds the provider request from strategy, hypothesis and prospect data
+   */
+  public buildCompletionRequest(
+    strategy: MessageStrategy,
+    hypothesis: IntentHypothesis,
+    prospectData: ProspectData,
+    senderProfile?: SenderProfile
+  ): LlmCompletionRequest {
+    return {
+      systemPrompt: this.buildSystemPrompt(),
+      userPrompt: this.buildUserPrompt(strategy, hypothesis, prospectData, senderProfile),
+      maxTokens: this.MAX_TOKENS,
+      temperature: this.TEMPERATURE,
+    };
+  }
+
+  private buildSystemPrompt(): string {
+    return [
+      'You write short, human-sounding cold outreach emails.',
+      `Stay under ${SYSTEM_CONSTANTS.MAX_MESSAGE_WORDS} words, including greeting and sign-off.`,
+      'Only use facts given in the prompt; never invent numbers, customers or results.',
+      'Avoid buzzwords, sales clichés, urgency and placeholder text.',
+      'Start with "Hi <first name>," and return only the email body.',
+    ].join('\n');
+  }
+
+  private buildUserPrompt(
+    strategy: MessageStrategy,
+    hypothesis: IntentHypothesis,
+    prospectData: ProspectData,
+    senderProfile?: SenderProfile
+  ): string {
+    const { companyContext, contactDetails } = prospectData;
+
+    return [
+      `Recipient first name: ${contactDetails.name.split(' ')[0]}`,
+      `Recipient role: ${prospectData.role}`,
+      `Company: ${companyContext.name}`,
+      `Industry: ${companyContext.industry}`,
+      `Why now: ${hypothesis.primaryReason}`,
+      ...this.contextIngestor.getPersonalizationHooks(prospectData)
+        .map(hook => `Personal connection (${hook.key}, state exactly as given): ${hook.value}`),
+      ...(hypothesis.primarySignalDetail ? [`Event (state exactly as given): ${hypothesis.primarySignalDetail}`] : []),
+      'Supporting evidence:',
+      ...this.formatList(hypothesis.supportingEvidence),
+      'Conservative assumptions:',
+      ...this.formatList(hypothesis.conservativeAssumptions),
+      `Strategy: ${strategy.type}`,
+      'Tone guidelines:',
+      ...this.formatList(strategy.toneGuidelines),
+      `Content focus: ${strategy.contentFocus}`,
+      ...this.buildTemplateLines(strategy),
+      ...(strategy.valueFraming ? [`Value framing: ${this.describeValueFraming(strategy.valueFraming)}`] : []),
+      `Call to action: ${this.describeCallToAction(strategy.callToActionLevel)}`,
+      ...this.buildSenderLines(hypothesis, senderProfile),
+    ].join('\n');
+  }
+
+  private buildSenderLines(hypothesis: IntentHypothesis, senderProfile?: SenderProfile): string[] {
+    if (!senderProfile) {
+      return ['Sign off with "Best regards" only.'];
+    }
+
+    const painPoint = hypothesis.primarySignalType
+      ? senderProfile.painPointsBySignalType?.[hypothesis.primarySignalType]
+      : undefined;
+    const signature = [senderProfile.senderName, senderProfile.senderTitle, senderProfile.companyName]
+      .filter(part => part && part.trim().length > 0)
+      .join(', ');
+
+    return [
+      `Sender company: ${senderProfile.companyName}`,
+      `What we offer: we ${senderProfile.productOneLiner}`,
+      `Relevant pain point: ${painPoint || 'none given'}`,
+      'Proof points (use at most one, verbatim):',
+      ...this.formatList(senderProfile.proofPoints || []),
+      `Sign off with "Best regards," followed by: ${signature}`,
+    ];
+  }
+
+  private formatList(items: string[]): string[] {
+    return items.length > 0 ? items.map(item => `- ${item}`) : ['- none'];
+  }
+
+  /**
+   * Translates the strategy CTA level into an instruction (Requirement 6.5)
+   */
+  private describeCallToAction(level: CallToActionLevel): string {
+    switch (level) {
+      case CallToActionLevel.DIRECT:
+        return 'Ask for a brief call, politely and without pressure.';
+      case CallToActionLevel.SOFT:
+        return 'Offer to share insights if useful; do not ask for a meeting.';
+      case CallToActionLevel.NONE:
+      default:
+        return 'Do not ask for a call or meeting; end with an open, low-pressure question.';
+    }
+  }
+
+  // Playbook sentences are style guides for the model, not text to copy
+  private buildTemplateLines(strategy: MessageStrategy): string[] {
+    const templates = Object.entries(strategy.templates ?? {})
+      .filter((entry): entry is [string, string] => typeof entry[1] === 'string');
+    return templates.length > 0
+      ? ['Sentence templates (follow their intent; placeholders in braces stand for prospect details):',
+        ...this.formatList(templates.map(([part, template]) => `${part}: ${template}`))]
+      : [];
+  }
+
+  private describeValueFraming(framing: ValueFraming): string {
+    return framing === ValueFraming.RISK
+      ? 'Lead with lower risk and fit with security and compliance requirements.'
+      : 'Lead with how quickly the value shows up.';
+  }
+
+  private createGenerationError(reason: string): Error {
+    const error = new Error(`LLM provider "${this.provider.name}" failed: ${reason}`);
+    error.name = 'MESSAGE_GENERATION_ERROR';
+    return error;
+  }
+}
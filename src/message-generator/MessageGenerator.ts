@@ -6,32 +6,50 @@
  * - Hypothesis-based relevance inclusion
  * - Buzzword and cliché avoidance
  * - Call-to-action restriction for non-High confidence
+ * - Subject line variants for the recommended and alternative messages
+ * - A personal opening line from whitelisted additionalContext, when given
+ * - Relevance wording pitched at the prospect's seniority and function
+ * - A value framing line for the company size (speed or risk), when it fits the word limit
+ * - Relevance and value proposition sentences from the template library, varied per message
+ * - Sentence templates from the strategy's playbook play in place of the library's phrasings
  * 
  * Requirements: 6.1, 6.3, 6.4, 6.5
  */
 
-import { IMessageGenerator } from '../interfaces';
+import {
+  IMessageGenerator,
+  ILexicon,
+  ISignalTypeRegistry,
+  IContextIngestor,
+  IPersonaClassifier,
+  IMessageTemplateLibrary,
+} from '../interfaces';
 import {
   MessageStrategy,
   IntentHypothesis,
   ProspectData,
   StrategyType,
   CallToActionLevel,
+  MessageSlot,
   ConfidenceLevel,
+  SenderProfile,
+  SubjectLines,
+  PersonalizationHook,
+  JobFunction,
+  Persona,
+  Seniority,
+  ValueFraming,
 } from '../types';
+import { SYSTEM_CONSTANTS } from '../constants';
+import { formatSignature, escapeRegExp } from '../utils';
+import { LexiconService } from '../lexicon';
+import { SignalTypeRegistry } from '../signal-types';
+import { ContextIngestor } from '../context-ingestor';
+import { PersonaClassifier } from '../persona-classifier';
+import { MessageTemplateLibrary } from '../message-templates';
 
 export class MessageGenerator implements IMessageGenerator {
   private readonly WORD_LIMIT = 120;
-  
-  // Common buzzwords and clichés to avoid
-  private readonly BUZZWORDS = [
-    'synergy', 'leverage', 'paradigm', 'disruptive', 'innovative',
-    'cutting-edge', 'revolutionary', 'game-changer', 'best-in-class',
-    'world-class', 'industry-leading', 'next-generation', 'state-of-the-art',
-    'turnkey', 'seamless', 'robust', 'scalable', 'enterprise-grade',
-    'mission-critical', 'value-add', 'low-hanging fruit', 'circle back',
-    'touch base', 'move the needle', 'boil the ocean', 'think outside the box'
-  ];
 
   private readonly SALES_CLICHES = [
     'i hope this email finds you well',
@@ -46,16 +64,36 @@ export class MessageGenerator implements IMessageGenerator {
     'i don\'t want to take up too much of your time'
   ];
 
+  // Buzzwords come from the shared lexicon on every call, so runtime changes apply immediately
+  // Subject topics come from the registered signal types, so custom types get their own
+  // Personalization hooks come from the context ingestor's whitelist, never from raw additionalContext
+  // The persona classifier reads the prospect's title, so wording suits a CTO and an engineer alike
+  // Phrasings come from the template library on every call, so registered phrasings apply immediately
+  constructor(
+    private lexicon: ILexicon = new LexiconService(),
+    private signalTypes: ISignalTypeRegistry = new SignalTypeRegistry(),
+    private contextIngestor: IContextIngestor = new ContextIngestor(),
+    private personaClassifier: IPersonaClassifier = new PersonaClassifier(),
+    private templateLibrary: IMessageTemplateLibrary = new MessageTemplateLibrary()
+  ) {}
+
+  /**
+   * Writes one message; `variant` picks its phrasings, 0 for the recommended message and 1 and 2 for
+   * the alternatives, so the three never share a library phrasing
+   */
   generateMessage(
     strategy: MessageStrategy,
     hypothesis: IntentHypothesis,
-    prospectData: ProspectData
+    prospectData: ProspectData,
+    senderProfile?: SenderProfile,
+    variant = 0
   ): string {
-    const messageComponents = this.buildMessageComponents(strategy, hypothesis, prospectData);
-    let message = this.assembleMessage(messageComponents);
+    const messageComponents = this.buildMessageComponents(strategy, hypothesis, prospectData, senderProfile, variant);
     
-    // Ensure word limit compliance
-    message = this.enforceWordLimit(message);
+    // Ensure word limit compliance, keeping the closing signature intact
+    const bodyWordLimit = this.WORD_LIMIT - this.countWords(messageComponents.closing);
+    const body = this.enforceWordLimit(this.assembleBody(messageComponents), bodyWordLimit);
+    let message = [body, '', messageComponents.closing].join('\n');
     
     // Validate against buzzwords and clichés
     message = this.removeBuzzwordsAndCliches(message);
@@ -63,24 +101,162 @@ export class MessageGenerator implements IMessageGenerator {
     return message;
   }
 
-  private buildMessageComponents(
+  /**
+   * Generates one subject per message variant: the recommended message and both alternatives
+   */
+  generateSubjectLines(
     strategy: MessageStrategy,
     hypothesis: IntentHypothesis,
     prospectData: ProspectData
-  ): MessageComponents {
-    const greeting = this.generateGreeting(prospectData);
-    const relevanceStatement = this.generateRelevanceStatement(hypothesis, prospectData);
-    const valueProposition = this.generateValueProposition(strategy, hypothesis, prospectData);
-    const callToAction = this.generateCallToAction(strategy);
-    const closing = this.generateClosing();
+  ): SubjectLines {
+    const [recommended, alternative1, alternative2] = this.getSubjectVariants(strategy, hypothesis, prospectData)
+      .map(subject => this.sanitizeSubjectLine(subject));
 
     return {
+      recommended,
+      alternatives: [alternative1, alternative2],
+    };
+  }
+
+  private getSubjectVariants(
+    strategy: MessageStrategy,
+    hypothesis: IntentHypothesis,
+    prospectData: ProspectData
+  ): [string, string, string] {
+    const topic = this.getSubjectTopic(hypothesis, prospectData);
+    const companyName = prospectData.companyContext.name;
+    const firstName = prospectData.contactDetails.name.split(' ')[0];
+
+    switch (strategy.type) {
+      case StrategyType.DIRECT_VALUE_ALIGNMENT:
+        return [
+          `${this.capitalizeFirst(topic)} at ${companyName}`,
+          `An idea for ${companyName} after ${topic}`,
+          `${firstName}, a thought on ${topic}`,
+        ];
+
+      case StrategyType.INSIGHT_LED_OBSERVATION:
+        return [
+          `A pattern we see after ${topic}`,
+          `Observation on ${topic} at ${companyName}`,
+          `What ${prospectData.companyContext.industry} teams do after ${topic}`,
+        ];
+
+      case StrategyType.SOFT_CURIOSITY:
+      default:
+        return [
+          `Curious about ${topic}`,
+          `A question about ${topic} at ${companyName}`,
+          `${firstName}, how ${companyName} approaches ${topic}`,
+        ];
+    }
+  }
+
+  // Subjects name the signal behind the message without restating its details
+  private getSubjectTopic(hypothesis: IntentHypothesis, prospectData: ProspectData): string {
+    const topic = hypothesis.primarySignalType
+      ? this.signalTypes.get(hypothesis.primarySignalType)?.subjectTopic
+      : undefined;
+
+    if (topic) {
+      return topic.replace(/\{industry\}/g, prospectData.companyContext.industry);
+    }
+
+    const functionName = this.describeFunction(this.personaClassifier.classify(prospectData.role));
+    return functionName ? `${functionName} priorities` : `priorities for ${prospectData.role}`;
+  }
+
+  /**
+   * Strips reply/forward prefixes, shouting and exclamation marks, and applies the length limit
+   */
+  private sanitizeSubjectLine(subject: string): string {
+    let clean = this.removeBuzzwordsAndCliches(subject)
+      .replace(/^\s*((re|fw|fwd)\s*:\s*)+/i, '')
+      .replace(/!/g, '')
+      .replace(/\b[A-Z]{5,}\b/g, word => word.charAt(0) + word.slice(1).toLowerCase())
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    if (clean.length > SYSTEM_CONSTANTS.MAX_SUBJECT_LENGTH) {
+      const truncated = clean.substring(0, SYSTEM_CONSTANTS.MAX_SUBJECT_LENGTH + 1);
+      const lastSpace = truncated.lastIndexOf(' ');
+      clean = (lastSpace > 0 ? truncated.substring(0, lastSpace) : truncated.substring(0, SYSTEM_CONSTANTS.MAX_SUBJECT_LENGTH))
+        .replace(/[\s,;:-]+$/, '');
+    }
+
+    return this.capitalizeFirst(clean);
+  }
+
+  private capitalizeFirst(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  }
+
+  private buildMessageComponents(
+    strategy: MessageStrategy,
+    hypothesis: IntentHypothesis,
+    prospectData: ProspectData,
+    senderProfile: SenderProfile | undefined,
+    variant: number
+  ): MessageComponents {
+    const greeting = this.generateGreeting(prospectData);
+    const personalization = this.contextIngestor.getPersonalizationHooks(prospectData)
+      .map(hook => this.generatePersonalizationLine(hook))
+      .join(' ');
+    const templates = strategy.templates ?? {};
+    const relevanceStatement = templates.relevance
+      ? this.fillTemplate(templates.relevance, hypothesis, prospectData)
+      : this.generateRelevanceStatement(strategy, hypothesis, prospectData, variant);
+    const valueProposition = templates.valueProposition
+      ? this.fillTemplate(templates.valueProposition, hypothesis, prospectData)
+      : senderProfile
+        ? this.generateSenderValueProposition(strategy, hypothesis, prospectData, senderProfile)
+        : this.generateValueProposition(strategy, hypothesis, prospectData, variant);
+    const callToAction = templates.callToAction
+      ? this.fillTemplate(templates.callToAction, hypothesis, prospectData)
+      : this.generateCallToAction(strategy);
+    const closing = this.generateClosing(senderProfile);
+    const components = {
       greeting,
+      personalization,
       relevanceStatement,
       valueProposition,
       callToAction,
       closing,
     };
+
+    // The framing line is the first thing left out when the message is near the word limit
+    const framing = this.generateFramingStatement(strategy, prospectData);
+    const framed = { ...components, valueProposition: `${valueProposition} ${framing}` };
+    const fits = this.countWords(this.assembleBody(framed)) + this.countWords(closing) <= this.WORD_LIMIT;
+    return framing && fits ? framed : components;
+  }
+
+  // Placeholders are checked when a playbook or phrasing is registered, so each one here has a value
+  private fillTemplate(template: string, hypothesis: IntentHypothesis, prospectData: ProspectData): string {
+    const reason = this.trimSentenceEnd(hypothesis.primaryReason);
+    const values: Record<string, string> = {
+      firstName: prospectData.contactDetails.name.split(' ')[0],
+      company: prospectData.companyContext.name,
+      industry: prospectData.companyContext.industry,
+      role: prospectData.role,
+      reason: reason.charAt(0).toLowerCase() + reason.slice(1),
+      remit: this.describeRemit(prospectData),
+      event: hypothesis.primarySignalDetail ?? '',
+    };
+    return template.replace(/\{(\w+)\}/g, (match, name: string) => values[name] ?? match).trim();
+  }
+
+  // What the company most likely weighs: time to results when small, risk and compliance when large
+  private generateFramingStatement(strategy: MessageStrategy, prospectData: ProspectData): string {
+    const companyName = prospectData.companyContext.name;
+    switch (strategy.valueFraming) {
+      case ValueFraming.SPEED:
+        return `At ${companyName}'s stage, the deciding question is usually how quickly something pays off.`;
+      case ValueFraming.RISK:
+        return `At ${companyName}'s scale, the deciding question is usually how something fits your security and compliance requirements.`;
+      default:
+        return '';
+    }
   }
 
   private generateGreeting(prospectData: ProspectData): string {
@@ -88,51 +264,133 @@ export class MessageGenerator implements IMessageGenerator {
     return `Hi ${name},`;
   }
 
+  // States the caller-supplied fact as given, without adding to it (Requirement 10.3)
+  private generatePersonalizationLine(hook: PersonalizationHook): string {
+    switch (hook.key) {
+      case 'priorTouchpoint':
+        return `Following up on ${hook.value}.`;
+      case 'mutualConnection':
+        return `We're both connected with ${hook.value}.`;
+      case 'sharedEvent':
+      default:
+        return `We were both at ${hook.value}.`;
+    }
+  }
+
   private generateRelevanceStatement(
+    strategy: MessageStrategy,
     hypothesis: IntentHypothesis,
-    prospectData: ProspectData
+    prospectData: ProspectData,
+    variant: number
   ): string {
     // Include hypothesis-based relevance (Requirement 6.3)
-    const primaryReason = hypothesis.primaryReason;
-    const companyName = prospectData.companyContext.name;
-    
-    // Create a natural connection based on the hypothesis
-    if (primaryReason.toLowerCase().includes('funding') || primaryReason.toLowerCase().includes('growth')) {
-      return `I noticed ${companyName}'s recent growth momentum and thought it might be relevant to your role as ${prospectData.role}.`;
-    } else if (primaryReason.toLowerCase().includes('technology') || primaryReason.toLowerCase().includes('adoption')) {
-      return `Given ${companyName}'s technology initiatives, I thought this might be timely for your work in ${prospectData.role}.`;
-    } else if (primaryReason.toLowerCase().includes('job') || primaryReason.toLowerCase().includes('role')) {
-      return `Congratulations on your role at ${companyName}. I thought this might be relevant as you settle into your position.`;
-    } else {
-      return `I came across ${companyName} and thought this might be relevant to your work as ${prospectData.role}.`;
+    // Name the event itself when the signal's metadata states it
+    const slot: MessageSlot = hypothesis.primarySignalDetail ? 'event_relevance' : 'relevance';
+    return this.generateFromLibrary(slot, strategy, hypothesis, prospectData, variant)
+      ?? `I came across ${prospectData.companyContext.name} and thought this might be relevant to ${this.describeRemit(prospectData)}.`;
+  }
+
+  // Same prospect, same phrasing: the seed is the contact's address
+  private generateFromLibrary(
+    slot: MessageSlot,
+    strategy: MessageStrategy,
+    hypothesis: IntentHypothesis,
+    prospectData: ProspectData,
+    variant: number
+  ): string | undefined {
+    const seed = prospectData.contactDetails.email.trim().toLowerCase();
+    const phrasing = this.templateLibrary.selectVariant(slot, seed, variant, hypothesis.primarySignalType, strategy.type);
+    return phrasing ? this.fillTemplate(phrasing, hypothesis, prospectData) : undefined;
+  }
+
+  // The part of the business the prospect answers for, at their level:
+  // "the engineering organization you lead", "the sales team you manage", "your data work"
+  private describeRemit(prospectData: ProspectData): string {
+    const persona = this.personaClassifier.classify(prospectData.role);
+    if (persona.jobFunction === JobFunction.GENERAL_MANAGEMENT) {
+      return `where you're taking ${prospectData.companyContext.name}`;
+    }
+
+    const functionName = this.describeFunction(persona);
+    if (!functionName) {
+      return `your role as ${prospectData.role}`;
+    }
+
+    switch (persona.seniority) {
+      case Seniority.C_LEVEL:
+      case Seniority.VP:
+      case Seniority.DIRECTOR:
+        return `the ${functionName} organization you lead`;
+      case Seniority.MANAGER:
+        return `the ${functionName} team you manage`;
+      case Seniority.IC:
+      default:
+        return `your ${functionName} work`;
+    }
+  }
+
+  // Undefined when the title names no single function to speak to
+  private describeFunction(persona: Persona): string | undefined {
+    switch (persona.jobFunction) {
+      case JobFunction.OTHER:
+      case JobFunction.GENERAL_MANAGEMENT:
+        return undefined;
+      case JobFunction.IT:
+        return 'IT';
+      default:
+        return persona.jobFunction.replace(/_/g, ' ');
     }
   }
 
+  // Phrasings stay grounded in the hypothesis, and soft curiosity ones acknowledge uncertainty (Requirements 10.3, 10.4)
   private generateValueProposition(
     strategy: MessageStrategy,
     hypothesis: IntentHypothesis,
-    prospectData: ProspectData
+    prospectData: ProspectData,
+    variant: number
   ): string {
-    const companyName = prospectData.companyContext.name;
-    
-    // Implement grounded value proposition validation (Requirement 10.3)
-    // Ensure we don't exaggerate or fabricate claims
-    
+    return this.generateFromLibrary('value_proposition', strategy, hypothesis, prospectData, variant)
+      ?? `This might be worth exploring given ${prospectData.companyContext.name}'s current situation, though I understand priorities can vary.`;
+  }
+
+  /**
+   * Generates a value proposition that names what the sender offers
+   * Pain points and proof points come only from the sender profile (Requirement 10.3)
+   */
+  private generateSenderValueProposition(
+    strategy: MessageStrategy,
+    hypothesis: IntentHypothesis,
+    prospectData: ProspectData,
+    senderProfile: SenderProfile
+  ): string {
+    const offering = `At ${senderProfile.companyName}, we ${this.trimSentenceEnd(senderProfile.productOneLiner)}.`;
+    const painPoint = hypothesis.primarySignalType
+      ? senderProfile.painPointsBySignalType?.[hypothesis.primarySignalType]
+      : undefined;
+    const proofPoint = senderProfile.proofPoints?.[0];
+
     switch (strategy.type) {
       case StrategyType.DIRECT_VALUE_ALIGNMENT:
-        // Avoid exaggerated claims, stay grounded in hypothesis
-        return `Based on ${hypothesis.primaryReason.toLowerCase()}, there may be alignment with what we're seeing other ${prospectData.companyContext.industry} companies consider.`;
-        
+        return [
+          painPoint ? `Moments like this often put ${this.trimSentenceEnd(painPoint)} on the agenda.` : '',
+          offering,
+          proofPoint ? `${this.trimSentenceEnd(proofPoint)}.` : '',
+        ].filter(part => part.length > 0).join(' ');
+
       case StrategyType.INSIGHT_LED_OBSERVATION:
-        // Provide conservative insights without overstating capabilities
-        return `I've observed similar patterns in the ${prospectData.companyContext.industry} space, and companies like ${companyName} sometimes find value in exploring this area.`;
-        
+        return [
+          painPoint
+            ? `Teams in ${prospectData.companyContext.industry} often find ${this.trimSentenceEnd(painPoint)} becomes pressing at this stage.`
+            : '',
+          offering,
+        ].filter(part => part.length > 0).join(' ');
+
       case StrategyType.SOFT_CURIOSITY:
-        // Acknowledge uncertainty appropriately (Requirement 10.4)
-        return `I'm curious about how ${companyName} approaches this area, as it might be relevant given your current context, though I recognize every situation is unique.`;
-        
       default:
-        return `This might be worth exploring given ${companyName}'s current situation, though I understand priorities can vary.`;
+        // Acknowledge uncertainty appropriately (Requirement 10.4)
+        return painPoint
+          ? `I'm curious whether ${this.trimSentenceEnd(painPoint)} is on your radar. ${offering} I recognize every situation is unique, though.`
+          : `${offering} I'm curious whether that is relevant for ${prospectData.companyContext.name}, though I recognize every situation is unique.`;
     }
   }
 
@@ -150,33 +408,37 @@ export class MessageGenerator implements IMessageGenerator {
     return 'Let me know if this would be worth exploring further, when the timing works for you.';
   }
 
-  private generateClosing(): string {
-    return 'Best regards';
+  private generateClosing(senderProfile?: SenderProfile): string {
+    return formatSignature(senderProfile);
+  }
+
+  private trimSentenceEnd(text: string): string {
+    return text.trim().replace(/[.!?\s]+$/, '');
   }
 
-  private assembleMessage(components: MessageComponents): string {
+  private assembleBody(components: MessageComponents): string {
     return [
       components.greeting,
       '',
-      components.relevanceStatement,
+      components.personalization
+        ? `${components.personalization} ${components.relevanceStatement}`
+        : components.relevanceStatement,
       '',
       components.valueProposition,
       '',
       components.callToAction,
-      '',
-      components.closing,
     ].join('\n');
   }
 
-  private enforceWordLimit(message: string): string {
+  private enforceWordLimit(message: string, wordLimit: number = this.WORD_LIMIT): string {
     const words = message.split(/\s+/).filter(word => word.length > 0);
     
-    if (words.length <= this.WORD_LIMIT) {
+    if (words.length <= wordLimit) {
       return message;
     }
 
     // Trim to word limit while preserving sentence structure
-    const trimmedWords = words.slice(0, this.WORD_LIMIT);
+    const trimmedWords = words.slice(0, wordLimit);
     let trimmedMessage = trimmedWords.join(' ');
     
     // Ensure we end on a complete sentence if possible
@@ -196,54 +458,23 @@ export class MessageGenerator implements IMessageGenerator {
   private removeBuzzwordsAndCliches(message: string): string {
     let cleanMessage = message;
     
-    // Remove buzzwords (case-insensitive)
-    this.BUZZWORDS.forEach(buzzword => {
-      const regex = new RegExp(`\\b${buzzword}\\b`, 'gi');
-      cleanMessage = cleanMessage.replace(regex, this.getBuzzwordReplacement(buzzword));
+    // Replace buzzwords (case-insensitive); terms without a replacement are removed with their leading space
+    this.lexicon.getTerms('buzzword').forEach(({ term, replacement }) => {
+      const pattern = escapeRegExp(term);
+      cleanMessage = replacement !== undefined
+        ? cleanMessage.replace(new RegExp(`\\b${pattern}\\b`, 'gi'), replacement)
+        : cleanMessage.replace(new RegExp(`[ \\t]?\\b${pattern}\\b`, 'gi'), '');
     });
     
     // Remove sales clichés (case-insensitive)
     this.SALES_CLICHES.forEach(cliche => {
-      const regex = new RegExp(cliche.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi');
+      const regex = new RegExp(escapeRegExp(cliche), 'gi');
       cleanMessage = cleanMessage.replace(regex, this.getCliqueReplacement(cliche));
     });
     
     return cleanMessage;
   }
 
-  private getBuzzwordReplacement(buzzword: string): string {
-    const replacements: Record<string, string> = {
-      'synergy': 'collaboration',
-      'leverage': 'use',
-      'paradigm': 'approach',
-      'disruptive': 'impactful',
-      'innovative': 'new',
-      'cutting-edge': 'advanced',
-      'revolutionary': 'significant',
-      'game-changer': 'improvement',
-      'best-in-class': 'high-quality',
-      'world-class': 'excellent',
-      'industry-leading': 'established',
-      'next-generation': 'modern',
-      'state-of-the-art': 'current',
-      'turnkey': 'complete',
-      'seamless': 'smooth',
-      'robust': 'reliable',
-      'scalable': 'flexible',
-      'enterprise-grade': 'professional',
-      'mission-critical': 'important',
-      'value-add': 'benefit',
-      'low-hanging fruit': 'easy wins',
-      'circle back': 'follow up',
-      'touch base': 'connect',
-      'move the needle': 'make progress',
-      'boil the ocean': 'tackle everything',
-      'think outside the box': 'be creative'
-    };
-    
-    return replacements[buzzword.toLowerCase()] || buzzword;
-  }
-
   private getCliqueReplacement(cliche: string): string {
     // For clichés, we typically want to remove them entirely or replace with more natural language
     const replacements: Record<string, string> = {
@@ -262,6 +493,14 @@ export class MessageGenerator implements IMessageGenerator {
     return replacements[cliche.toLowerCase()] || '';
   }
 
+  /**
+   * Applies buzzword/cliché removal and the word limit to externally produced text,
+   * so messages from other generators meet the same constraints as template output
+   */
+  public sanitizeMessage(message: string, wordLimit: number = this.WORD_LIMIT): string {
+    return this.enforceWordLimit(this.removeBuzzwordsAndCliches(message), wordLimit);
+  }
+
   // Helper method to count words in a message
   public countWords(message: string): number {
     return message.split(/\s+/).filter(word => word.length > 0).length;
@@ -270,8 +509,8 @@ export class MessageGenerator implements IMessageGenerator {
   // Helper method to check if message contains buzzwords
   public containsBuzzwords(message: string): boolean {
     const lowerMessage = message.toLowerCase();
-    return this.BUZZWORDS.some(buzzword => 
-      new RegExp(`\\b${buzzword}\\b`, 'i').test(lowerMessage)
+    return this.lexicon.getTerms('buzzword').some(({ term }) =>
+      new RegExp(`\\b${escapeRegExp(term)}\\b`, 'i').test(lowerMessage)
     );
   }
 
@@ -304,6 +543,7 @@ export class MessageGenerator implements IMessageGenerator {
 
 interface MessageComponents {
   greeting: string;
+  personalization: string; // empty when no personalization hook applies
   relevanceStatement: string;
   valueProposition: string;
   callToAction: string;
@@ -0,0 +1,222 @@
+/**
+ * Property-based tests for LlmMessageGenerator
+ * Uses the deterministic stub provider so no network access is needed
+ */
+
+import fc from 'fast-check';
+import { LlmMessageGenerator } from '../LlmMessageGenerator';
+import { MessageGenerator } from '../MessageGenerator';
+import { StubLlmProvider } from '../../llm-providers/StubLlmProvider';
+import { ILlmProvider } from '../../interfaces';
+import { IntentDrivenOutreachAgent, AgentUtils } from '../../index';
+import {
+  MessageStrategy,
+  IntentHypothesis,
+  ProspectData,
+  StrategyType,
+  CallToActionLevel,
+  CompanySize,
+  SignalType,
+  StructuredOutput,
+} from '../../types';
+
+describe('LlmMessageGenerator Property Tests', () => {
+  const sanitizer = new MessageGenerator();
+
+  describe('Prompt construction', () => {
+    it('should include tone guidelines, content focus and hypothesis in the prompt', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          generateMessageStrategy(),
+          generateIntentHypothesis(),
+          generateProspectData(),
+          async (strategy, hypothesis, prospectData) => {
+            const provider = new StubLlmProvider();
+            const generator = new LlmMessageGenerator(provider);
+
+            await generator.generateMessage(strategy, hypothesis, prospectData);
+
+            expect(provider.requests).toHaveLength(1);
+            const prompt = provider.requests[0].userPrompt;
+
+            strategy.toneGuidelines.forEach(guideline => {
+              expect(prompt).toContain(guideline);
+            });
+            expect(prompt).toContain(strategy.contentFocus);
+            expect(prompt).toContain(hypothesis.primaryReason);
+            hypothesis.supportingEvidence.forEach(evidence => {
+              expect(prompt).toContain(evidence);
+            });
+            expect(prompt).toContain(prospectData.companyContext.name);
+          }
+        ),
+        { numRuns: 50 }
+      );
+    });
+
+    it('should forbid meeting requests in the prompt when CTA level is none', () => {
+      const generator = new LlmMessageGenerator(new StubLlmProvider());
+      const request = generator.buildCompletionRequest(
+        {
+          type: StrategyType.SOFT_CURIOSITY,
+          toneGuidelines: ['Gentle and curious tone'],
+          contentFocus: 'Genuine curiosity',
+          callToActionLevel: CallToActionLevel.NONE,
+        },
+        {
+          primaryReason: 'Industry developments may influence strategic planning',
+          supportingEvidence: [],
+          confidenceFactors: [],
+          conservativeAssumptions: [],
+        },
+        AgentUtils.createProspectData('Ana Ruiz', 'ana@example.com', 'CTO', 'Acme', 'Retail', CompanySize.SMALL)
+      );
+
+      expect(request.userPrompt).toContain('Do not ask for a call or meeting');
+      expect(request.systemPrompt).toContain('120 words');
+    });
+  });
+
+  describe('Output constraints', () => {
+    it('should never return messages exceeding 120 words or containing buzzwords', async () => {
+      const noisyText = fc.array(
+        fc.constantFrom(
+          'synergy', 'leverage', 'seamless', 'robust', 'circle back',
+          'I hope this email finds you well', 'team', 'growth', 'the', 'platform.'
+        ),
+        { minLength: 1, maxLength: 300 }
+      ).map(words => `Hi Sam,\n\n${words.join(' ')}`);
+
+      await fc.assert(
+        fc.asyncProperty(
+          noisyText,
+          generateMessageStrategy(),
+          generateIntentHypothesis(),
+          generateProspectData(),
+          async (completion, strategy, hypothesis, prospectData) => {
+            const generator = new LlmMessageGenerator(new StubLlmProvider(completion));
+            const message = await generator.generateMessage(strategy, hypothesis, prospectData);
+
+            expect(sanitizer.countWords(message)).toBeLessThanOrEqual(120);
+            expect(sanitizer.containsBuzzwords(message)).toBe(false);
+            expect(sanitizer.containsCliches(message)).toBe(false);
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should produce deterministic output with the stub provider', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          generateMessageStrategy(),
+          generateIntentHypothesis(),
+          generateProspectData(),
+          async (strategy, hypothesis, prospectData) => {
+            const generator = new LlmMessageGenerator(new StubLlmProvider());
+
+            const first = await generator.generateMessage(strategy, hypothesis, prospectData);
+            const second = await generator.generateMessage(strategy, hypothesis, prospectData);
+
+            expect(first).toBe(second);
+            expect(first).toMatch(/^Hi \S+,/);
+          }
+        ),
+        { numRuns: 50 }
+      );
+    });
+  });
+
+  describe('Provider failures', () => {
+    it('should surface provider errors as MESSAGE_GENERATION_ERROR', async () => {
+      const failingProvider: ILlmProvider = {
+        name: 'failing',
+        complete: async () => {
+          throw new Error('HTTP 503: overloaded');
+        },
+      };
+      const generator = new LlmMessageGenerator(failingProvider);
+
+      await expect(
+        generator.generateMessage(
+          {
+            type: StrategyType.INSIGHT_LED_OBSERVATION,
+            toneGuidelines: ['Thoughtful'],
+            contentFocus: 'Insights',
+            callToActionLevel: CallToActionLevel.SOFT,
+          },
+          {
+            primaryReason: 'Technology changes may indicate evolving business needs',
+            supportingEvidence: [],
+            confidenceFactors: [],
+            conservativeAssumptions: [],
+          },
+          AgentUtils.createProspectData('Ana Ruiz', 'ana@example.com', 'CTO', 'Acme', 'Retail', CompanySize.SMALL)
+        )
+      ).rejects.toMatchObject({ name: 'MESSAGE_GENERATION_ERROR' });
+    });
+  });
+
+  describe('Agent integration', () => {
+    it('should route message generation through the configured provider', async () => {
+      const provider = new StubLlmProvider();
+      const agent = new IntentDrivenOutreachAgent({ llmProvider: provider });
+
+      const result = await agent.processOutreachRequest(
+        AgentUtils.createProspectData(
+          'Sarah Chen',
+          'sarah.chen@techstartup.com',
+          'VP of Engineering',
+          'TechStartup Inc',
+          'Software Development',
+          CompanySize.STARTUP
+        ),
+        [
+          AgentUtils.createIntentSignal(SignalType.FUNDING_EVENT, 'Raised $15M Series A funding round', 0.95, 'TechCrunch', 3),
+          AgentUtils.createIntentSignal(SignalType.COMPANY_GROWTH, 'Announced hiring growth across engineering', 0.9, 'LinkedIn', 1),
+        ]
+      );
+
+      expect('code' in result).toBe(false);
+      const output = result as StructuredOutput;
+      expect(output.recommendedMessage).toContain('TechStartup Inc');
+      // Recommended message plus two alternatives
+      expect(provider.requests.length).toBeGreaterThanOrEqual(3);
+    });
+  });
+});
+
+// Generators for property-based testing
+
+function generateMessageStrategy(): fc.Arbitrary<MessageStrategy> {
+  return fc.record({
+    type: fc.constantFrom(...Object.values(StrategyType)),
+    toneGuidelines: fc.array(fc.string({ minLength: 5, maxLength: 50 }), { minLength: 1, maxLength: 4 }),
+    contentFocus: fc.string({ minLength: 10, maxLength: 100 }),
+    callToActionLevel: fc.constantFrom(...Object.values(CallToActionLevel)),
+  });
+}
+
+function generateIntentHypothesis(): fc.Arbitrary<IntentHypothesis> {
+  return fc.record({
+    primaryReason: fc.string({ minLength: 10, maxLength: 100 }),
+    supportingEvidence: fc.array(fc.string({ minLength: 5, maxLength: 80 }), { maxLength: 3 }),
+    confidenceFactors: fc.array(fc.string({ minLength: 5, maxLength: 50 }), { maxLength: 3 }),
+    conservativeAssumptions: fc.array(fc.string({ minLength: 5, maxLength: 50 }), { maxLength: 3 }),
+  });
+}
+
+function generateProspectData(): fc.Arbitrary<ProspectData> {
+  return fc.record({
+    role: fc.constantFrom('VP of Engineering', 'CTO', 'Head of Sales', 'Operations Manager'),
+    companyContext: fc.record({
+      name: fc.constantFrom('TechCorp', 'Acme Inc', 'Northwind', 'Globex'),
+      industry: fc.constantFrom('Software', 'Healthcare', 'Finance'),
+      size: fc.constantFrom(...Object.values(CompanySize)),
+    }),
+    contactDetails: fc.record({
+      email: fc.emailAddress(),
+      name: fc.constantFrom('Sarah Chen', 'John Smith', 'Priya Patel'),
+    }),
+  });
+}
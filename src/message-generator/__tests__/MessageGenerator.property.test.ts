@@ -5,6 +5,7 @@
 
 import fc from 'fast-check';
 import { MessageGenerator } from '../MessageGenerator';
+import { AuthenticityFilter } from '../../authenticity-filter/AuthenticityFilter';
 import {
   MessageStrategy,
   IntentHypothesis,
@@ -13,6 +14,7 @@ import {
   CallToActionLevel,
   CompanySize,
   SignalType,
+  SenderProfile,
 } from '../../types';
 
 describe('MessageGenerator Property Tests', () => {
@@ -191,9 +193,213 @@ describe('MessageGenerator Property Tests', () => {
       );
     });
   });
+
+  /**
+   * Sender profile: value proposition and signature name what the sender offers
+   */
+  describe('Sender Profile', () => {
+    it('should name the sender offering instead of generic alignment language', () => {
+      fc.assert(
+        fc.property(
+          generateMessageStrategy(),
+          generateIntentHypothesis(),
+          generateProspectData(),
+          generateSenderProfile(),
+          (strategy, hypothesis, prospectData, senderProfile) => {
+            const message = messageGenerator.generateMessage(strategy, hypothesis, prospectData, senderProfile);
+
+            expect(message).toContain(`At ${senderProfile.companyName}, we ${senderProfile.productOneLiner}.`);
+            expect(message).not.toContain('this area');
+            expect(message).not.toContain('there may be alignment');
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should sign off with the sender name and company', () => {
+      fc.assert(
+        fc.property(
+          generateMessageStrategy(),
+          generateIntentHypothesis(),
+          generateProspectData(),
+          generateSenderProfile(),
+          (strategy, hypothesis, prospectData, senderProfile) => {
+            const message = messageGenerator.generateMessage(strategy, hypothesis, prospectData, senderProfile);
+            const closing = message.split('\n\n').pop() as string;
+
+            expect(closing.startsWith('Best regards,\n')).toBe(true);
+            expect(closing).toContain(senderProfile.senderName);
+            expect(closing).toContain(senderProfile.companyName);
+            expect(messageGenerator.countWords(message)).toBeLessThanOrEqual(120);
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should use the pain point for the primary signal type', () => {
+      const senderProfile: SenderProfile = {
+        senderName: 'Maya Brooks',
+        senderTitle: 'Account Executive',
+        companyName: 'Buildwise',
+        productOneLiner: 'help engineering teams onboard new hires faster',
+        proofPoints: ['Northwind cut ramp-up time from eight weeks to five'],
+        painPointsBySignalType: {
+          [SignalType.FUNDING_EVENT]: 'onboarding a wave of new engineers',
+        },
+      };
+      const strategy: MessageStrategy = {
+        type: StrategyType.DIRECT_VALUE_ALIGNMENT,
+        toneGuidelines: ['Confident and direct tone'],
+        contentFocus: 'Direct connection between prospect signals and value proposition',
+        callToActionLevel: CallToActionLevel.DIRECT,
+      };
+      const prospectData: ProspectData = {
+        role: 'VP of Engineering',
+        companyContext: { name: 'TechCorp', industry: 'Software', size: CompanySize.MEDIUM },
+        contactDetails: { name: 'Sarah Johnson', email: 'sarah@techcorp.com' },
+      };
+
+      const fundingMessage = messageGenerator.generateMessage(
+        strategy,
+        {
+          primaryReason: 'Recent funding may enable new initiatives and technology investments',
+          primarySignalType: SignalType.FUNDING_EVENT,
+          supportingEvidence: ['Funding activity: Raised Series B'],
+          confidenceFactors: [],
+          conservativeAssumptions: [],
+        },
+        prospectData,
+        senderProfile
+      );
+      const trendMessage = messageGenerator.generateMessage(
+        strategy,
+        {
+          primaryReason: 'Industry developments may influence strategic planning and priorities',
+          primarySignalType: SignalType.INDUSTRY_TREND,
+          supportingEvidence: ['Industry trend: New compliance rules'],
+          confidenceFactors: [],
+          conservativeAssumptions: [],
+        },
+        prospectData,
+        senderProfile
+      );
+
+      expect(fundingMessage).toContain('onboarding a wave of new engineers');
+      expect(fundingMessage).toContain('Northwind cut ramp-up time from eight weeks to five.');
+      expect(fundingMessage).toContain('Maya Brooks\nAccount Executive, Buildwise');
+      expect(trendMessage).not.toContain('onboarding a wave of new engineers');
+    });
+
+    it('should keep the bare closing when no sender profile is given', () => {
+      fc.assert(
+        fc.property(
+          generateMessageStrategy(),
+          generateIntentHypothesis(),
+          generateProspectData(),
+          (strategy, hypothesis, prospectData) => {
+            const message = messageGenerator.generateMessage(strategy, hypothesis, prospectData);
+
+            expect(message.endsWith('\n\nBest regards')).toBe(true);
+          }
+        ),
+        { numRuns: 50 }
+      );
+    });
+  });
+
+  describe('Subject Lines', () => {
+    it('should generate three distinct subjects that pass the subject rule set', () => {
+      const authenticityFilter = new AuthenticityFilter();
+
+      fc.assert(
+        fc.property(
+          generateMessageStrategy(),
+          generateIntentHypothesis(),
+          generateProspectData(),
+          fc.option(fc.constantFrom(...Object.values(SignalType)), { nil: undefined }),
+          (strategy, hypothesis, prospectData, primarySignalType) => {
+            const subjects = messageGenerator.generateSubjectLines(
+              strategy,
+              { ...hypothesis, primarySignalType },
+              prospectData
+            );
+            const all = [subjects.recommended, ...subjects.alternatives];
+
+            expect(new Set(all).size).toBe(3);
+            all.forEach(subject => {
+              expect(subject.length).toBeGreaterThan(0);
+              expect(subject.length).toBeLessThanOrEqual(60);
+              expect(authenticityFilter.evaluateSubjectLine(subject).isAuthentic).toBe(true);
+            });
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should clean shouting, fake reply prefixes and overlong company names', () => {
+      const strategy: MessageStrategy = {
+        type: StrategyType.DIRECT_VALUE_ALIGNMENT,
+        toneGuidelines: ['Direct'],
+        contentFocus: 'Value alignment',
+        callToActionLevel: CallToActionLevel.DIRECT,
+      };
+      const hypothesis: IntentHypothesis = {
+        primaryReason: 'Recent funding may enable new initiatives',
+        primarySignalType: SignalType.FUNDING_EVENT,
+        supportingEvidence: [],
+        confidenceFactors: [],
+        conservativeAssumptions: [],
+      };
+      const prospectData: ProspectData = {
+        role: 'CTO',
+        companyContext: {
+          name: 'RE: MEGACORP Worldwide Holdings International Group of Companies!',
+          industry: 'Finance',
+          size: CompanySize.ENTERPRISE,
+        },
+        contactDetails: { name: 'Ana Ruiz', email: 'ana@megacorp.com' },
+      };
+
+      const subjects = messageGenerator.generateSubjectLines(strategy, hypothesis, prospectData);
+
+      [subjects.recommended, ...subjects.alternatives].forEach(subject => {
+        expect(subject).not.toMatch(/^\s*(re|fwd?)\s*:/i);
+        expect(subject).not.toContain('MEGACORP');
+        expect(subject).not.toContain('!');
+        expect(subject.length).toBeLessThanOrEqual(60);
+      });
+    });
+  });
 });
 
 // Test data generators
+function generateSenderProfile(): fc.Arbitrary<SenderProfile> {
+  return fc.record({
+    senderName: fc.constantFrom('Maya Brooks', 'Tom Alvarez', 'Lena Fischer'),
+    senderTitle: fc.option(fc.constantFrom('Account Executive', 'Founder', 'Solutions Engineer'), { nil: undefined }),
+    companyName: fc.constantFrom('Buildwise', 'Ledgerly', 'Shipyard Labs'),
+    productOneLiner: fc.constantFrom(
+      'help engineering teams onboard new hires faster',
+      'automate month-end close for finance teams',
+      'give support leads a single view of customer issues across every channel they run'
+    ),
+    proofPoints: fc.option(
+      fc.array(fc.constantFrom('Northwind cut ramp-up time by a third', 'Globex closes its books two days sooner'), { minLength: 1, maxLength: 2 }),
+      { nil: undefined }
+    ),
+    painPointsBySignalType: fc.option(
+      fc.dictionary(
+        fc.constantFrom(...Object.values(SignalType)),
+        fc.constantFrom('onboarding new engineers quickly', 'keeping costs predictable while headcount grows')
+      ),
+      { nil: undefined }
+    ),
+  });
+}
+
 function generateMessageStrategy(): fc.Arbitrary<MessageStrategy> {
   return fc.record({
     type: fc.constantFrom(...Object.values(StrategyType)),
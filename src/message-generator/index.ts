@@ -1,6 +1,8 @@
 /**
  * Message Generator Module
  * Exports the MessageGenerator class for generating human-sounding outreach messages
+ * and the LlmMessageGenerator for provider-backed generation
  */
 
-export { MessageGenerator } from './MessageGenerator';
\ No newline at end of file
+export { MessageGenerator } from './MessageGenerator';
+export { LlmMessageGenerator } from './LlmMessageGenerator';
@@ -0,0 +1,232 @@
+/**
+ * MessageReviser - Applies targeted rewrites for authenticity issues
+ *
+ * Implements issue-driven revision with:
+ * - Offending phrases dropped (placeholders, robotic phrasing, formal connectors, promotional terms)
+ * - Overly long sentences split at a natural break near the middle
+ * - Repeated sentences removed after their first occurrence
+ * - Pushy calls to action replaced with a softer one for the confidence level
+ *
+ * Greeting and closing blocks are never rewritten, and the result stays within the word limit.
+ *
+ * Requirements: 7.4
+ */
+
+import { IMessageReviser } from '../interfaces';
+import {
+  AuthenticityIssue,
+  ConfidenceLevel,
+  MessageRevision,
+  RevisionFix,
+} from '../types';
+import { MessageGenerator } from '../message-generator';
+import { escapeRegExp } from '../utils';
+
+interface MessageParts {
+  greeting: string;
+  body: string;
+  closing: string;
+}
+
+export class MessageReviser implements IMessageReviser {
+  private readonly WORD_LIMIT = 120;
+  private readonly MIN_SPLIT_WORDS = 4;
+
+  // Replacement asks, never stronger than the strategy for each confidence level allows
+  private readonly SOFT_CALLS_TO_ACTION: Record<ConfidenceLevel, string> = {
+    [ConfidenceLevel.HIGH]: 'Would a short conversation be useful?',
+    [ConfidenceLevel.MEDIUM]: 'Happy to share what has worked for similar teams, if useful.',
+    [ConfidenceLevel.LOW]: 'Curious whether this is on your radar at all.',
+  };
+
+  // Natural break points for splitting long sentences, most natural first
+  private readonly SPLIT_POINTS = [
+    /,\s+(?:and|but|so|which)\s+/g,
+    /;\s+/g,
+    /,\s+/g,
+    /\s+(?:and|but|so)\s+/g,
+  ];
+
+  constructor(private sanitizer: MessageGenerator = new MessageGenerator()) {}
+
+  reviseMessage(message: string, issues: AuthenticityIssue[], confidence: ConfidenceLevel): MessageRevision {
+    const { greeting, body, closing } = this.splitMessage(message);
+    const appliedFixes: string[] = [];
+    let revisedBody = body;
+
+    for (const issue of issues) {
+      if (!issue.fix || !issue.matches) {
+        continue;
+      }
+
+      for (const match of new Set(issue.matches)) {
+        const rewritten = this.applyFix(revisedBody, issue.fix, match, confidence);
+        if (rewritten !== null && rewritten !== revisedBody) {
+          revisedBody = rewritten;
+          appliedFixes.push(this.describeFix(issue.fix, match));
+        }
+      }
+    }
+
+    if (appliedFixes.length === 0) {
+      return { message, appliedFixes };
+    }
+
+    revisedBody = this.tidy(revisedBody);
+    const bodyWordLimit = this.WORD_LIMIT - this.sanitizer.countWords(`${greeting} ${closing}`);
+    if (this.sanitizer.countWords(revisedBody) > bodyWordLimit) {
+      revisedBody = this.sanitizer.sanitizeMessage(revisedBody, bodyWordLimit);
+    }
+
+    return {
+      message: [greeting, revisedBody, closing].filter(block => block.length > 0).join('\n\n'),
+      appliedFixes,
+    };
+  }
+
+  private applyFix(body: string, fix: RevisionFix, match: string, confidence: ConfidenceLevel): string | null {
+    switch (fix) {
+      case 'drop_phrase':
+        return this.dropPhrase(body, match);
+      case 'split_sentence':
+        return this.splitSentence(body, match);
+      case 'dedupe_sentence':
+        return this.dedupeSentence(body, match);
+      case 'soften_cta':
+        return this.softenCallToAction(body, match, confidence);
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Removes a phrase along with a trailing comma or conjunction, so lists stay readable
+   */
+  private dropPhrase(body: string, phrase: string): string {
+    const trimmed = phrase.trim();
+    if (trimmed.length === 0) {
+      return body;
+    }
+
+    const start = /^\w/.test(trimmed) ? '\\b' : '';
+    const end = /\w$/.test(trimmed) ? '\\b' : '';
+    const pattern = new RegExp(`${start}${escapeRegExp(trimmed)}${end}(?:,\\s*|\\s+(?:and|or)(?=\\s))?`, 'gi');
+    return body.replace(pattern, '');
+  }
+
+  /**
+   * Splits a sentence at the break point closest to its middle.
+   * The filter's sentence may start in the greeting block, so only its last line is used.
+   */
+  private splitSentence(body: string, sentence: string): string | null {
+    const target = sentence.split('\n').pop()?.trim() ?? '';
+    const index = target.length > 0 ? body.indexOf(target) : -1;
+    if (index === -1) {
+      return null;
+    }
+
+    const middle = target.length / 2;
+    for (const splitPoint of this.SPLIT_POINTS) {
+      const candidates = Array.from(target.matchAll(splitPoint))
+        .filter(candidate => {
+          const left = target.substring(0, candidate.index);
+          const right = target.substring((candidate.index ?? 0) + candidate[0].length);
+          return this.sanitizer.countWords(left) >= this.MIN_SPLIT_WORDS
+            && this.sanitizer.countWords(right) >= this.MIN_SPLIT_WORDS;
+        })
+        .sort((a, b) => Math.abs((a.index ?? 0) - middle) - Math.abs((b.index ?? 0) - middle));
+
+      if (candidates.length > 0) {
+        const best = candidates[0];
+        const left = target.substring(0, best.index).replace(/[,;\s]+$/, '');
+        const right = target.substring((best.index ?? 0) + best[0].length);
+        const split = `${left}. ${this.capitalizeFirst(right)}`;
+        return body.substring(0, index) + split + body.substring(index + target.length);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Keeps the first occurrence of a repeated sentence and removes the rest
+   */
+  private dedupeSentence(body: string, sentence: string): string {
+    const pattern = new RegExp(`${escapeRegExp(sentence.trim())}[.!?]*\\s*`, 'gi');
+    let seen = false;
+
+    return body.replace(pattern, occurrence => {
+      if (!seen) {
+        seen = true;
+        return occurrence;
+      }
+      return '';
+    });
+  }
+
+  /**
+   * Replaces the sentence holding the pushy phrase with a softer ask.
+   * If the softer ask is already in the message, the sentence is just removed.
+   */
+  private softenCallToAction(body: string, phrase: string, confidence: ConfidenceLevel): string | null {
+    const lowerPhrase = phrase.trim().toLowerCase();
+    const sentence = (body.match(/[^.!?\n]+[.!?]*/g) || [])
+      .find(candidate => candidate.toLowerCase().includes(lowerPhrase));
+    if (!sentence) {
+      return null;
+    }
+
+    const softCallToAction = this.SOFT_CALLS_TO_ACTION[confidence];
+    const replacement = body.includes(softCallToAction) ? '' : softCallToAction;
+    return body.replace(sentence.trim(), replacement);
+  }
+
+  private describeFix(fix: RevisionFix, match: string): string {
+    switch (fix) {
+      case 'split_sentence':
+        return `split a ${this.sanitizer.countWords(match)}-word sentence`;
+      case 'dedupe_sentence':
+        return 'removed a repeated sentence';
+      case 'soften_cta':
+        return `softened the call to action ("${match.trim()}")`;
+      case 'drop_phrase':
+      default:
+        return `dropped "${match.trim()}"`;
+    }
+  }
+
+  /**
+   * Repairs spacing, punctuation and capitalization left behind by removals
+   */
+  private tidy(body: string): string {
+    return body
+      .split(/\n\s*\n/)
+      .map(paragraph => paragraph
+        .replace(/[ \t]{2,}/g, ' ')
+        .replace(/[ \t]+([.,!?;:])/g, '$1')
+        .replace(/[,;:]+([.!?])/g, '$1')
+        .replace(/^[\s,;:.]+/, '')
+        .replace(/(^|[.!?]\s+)([a-z])/g, (_, boundary: string, letter: string) => boundary + letter.toUpperCase())
+        .trim())
+      .filter(paragraph => paragraph.length > 0)
+      .join('\n\n');
+  }
+
+  // Template and provider messages put the greeting and sign-off in their own blocks
+  private splitMessage(message: string): MessageParts {
+    const blocks = message.split(/\n\s*\n/).map(block => block.trim()).filter(block => block.length > 0);
+    if (blocks.length < 3) {
+      return { greeting: '', body: blocks.join('\n\n'), closing: '' };
+    }
+
+    return {
+      greeting: blocks[0],
+      body: blocks.slice(1, -1).join('\n\n'),
+      closing: blocks[blocks.length - 1],
+    };
+  }
+
+  private capitalizeFirst(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Property-based tests for MessageReviser
+ * Tests that targeted rewrites resolve flagged issues without touching greeting or closing
+ */
+
+import fc from 'fast-check';
+import { MessageReviser } from '../MessageReviser';
+import { AuthenticityFilter } from '../../authenticity-filter/AuthenticityFilter';
+import { MessageGenerator } from '../../message-generator/MessageGenerator';
+import { ConfidenceLevel } from '../../types';
+
+describe('MessageReviser Property Tests', () => {
+  let reviser: MessageReviser;
+  let authenticityFilter: AuthenticityFilter;
+  let messageGenerator: MessageGenerator;
+
+  beforeEach(() => {
+    messageGenerator = new MessageGenerator();
+    reviser = new MessageReviser(messageGenerator);
+    authenticityFilter = new AuthenticityFilter();
+  });
+
+  const greetingArb = fc.constantFrom('Hi Sarah,', 'Hello John,', 'Hi Priya,');
+  const closingArb = fc.constantFrom('Best regards', 'Best regards,\nMaya Brooks\nBuildwise');
+  const cleanSentenceArb = fc.constantFrom(
+    'I noticed your team recently opened a second office in Austin.',
+    'Teams in your position often revisit their onboarding plans.',
+    'We help engineering teams get new hires productive sooner.',
+    'It seemed relevant to the work you lead.'
+  );
+  const offendingSentenceArb = fc.constantFrom(
+    'Please be advised that we work with similar teams.',
+    'Act now to secure your spot.',
+    'Our amazing, incredible and fantastic platform could help.',
+    'We could help [Company] with this.',
+    "Don't miss out on this limited time offer."
+  );
+
+  test('should resolve flagged phrases without lowering the score or touching greeting and closing', () => {
+    fc.assert(
+      fc.property(
+        greetingArb,
+        fc.uniqueArray(cleanSentenceArb, { minLength: 1, maxLength: 3 }),
+        fc.uniqueArray(offendingSentenceArb, { minLength: 1, maxLength: 3 }),
+        closingArb,
+        fc.constantFrom(...Object.values(ConfidenceLevel)),
+        (greeting, cleanSentences, offendingSentences, closing, confidence) => {
+          const body = [...cleanSentences, ...offendingSentences].join(' ');
+          const message = [greeting, body, closing].join('\n\n');
+          const before = authenticityFilter.evaluateAuthenticity(message, confidence);
+
+          const revision = reviser.reviseMessage(message, before.issues, confidence);
+          const after = authenticityFilter.evaluateAuthenticity(revision.message, confidence);
+
+          expect(revision.appliedFixes.length).toBeGreaterThan(0);
+          expect(after.score).toBeGreaterThanOrEqual(before.score);
+          expect(after.issues.some(issue => issue.type === 'template')).toBe(false);
+          expect(revision.message.startsWith(`${greeting}\n\n`)).toBe(true);
+          expect(revision.message.endsWith(`\n\n${closing}`)).toBe(true);
+          expect(messageGenerator.countWords(revision.message)).toBeLessThanOrEqual(120);
+          expect(revision.message).not.toMatch(/ {2,}| [.,!?]/);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('should leave messages without fixable issues unchanged', () => {
+    fc.assert(
+      fc.property(
+        greetingArb,
+        fc.uniqueArray(cleanSentenceArb, { minLength: 1, maxLength: 4 }),
+        closingArb,
+        (greeting, sentences, closing) => {
+          const message = [greeting, sentences.join(' '), closing].join('\n\n');
+          const issues = authenticityFilter.evaluateAuthenticity(message, ConfidenceLevel.MEDIUM).issues;
+
+          expect(reviser.reviseMessage(message, issues, ConfidenceLevel.MEDIUM)).toEqual({
+            message,
+            appliedFixes: [],
+          });
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  test('should split overly long sentences at a natural break', () => {
+    const longSentence = 'Our team has worked with dozens of companies in your space over the last several years, ' +
+      'and we have seen that the ones who invest early in onboarding tooling tend to retain engineers much longer.';
+    const message = `Hi Sarah,\n\n${longSentence}\n\nBest regards`;
+    const before = authenticityFilter.evaluateAuthenticity(message, ConfidenceLevel.MEDIUM);
+
+    const revision = reviser.reviseMessage(message, before.issues, ConfidenceLevel.MEDIUM);
+
+    expect(revision.appliedFixes).toEqual(['split a 37-word sentence']);
+    expect(revision.message).toContain('over the last several years. We have seen');
+    expect(authenticityFilter.evaluateAuthenticity(revision.message, ConfidenceLevel.MEDIUM).issues).toHaveLength(0);
+  });
+
+  test('should keep only the first copy of a repeated sentence', () => {
+    const message = 'Hi Sarah,\n\nCongrats on the move. Your Austin office opening caught my eye. ' +
+      'It seemed relevant to your role. Your Austin office opening caught my eye.\n\nBest regards';
+    const before = authenticityFilter.evaluateAuthenticity(message, ConfidenceLevel.MEDIUM);
+
+    const revision = reviser.reviseMessage(message, before.issues, ConfidenceLevel.MEDIUM);
+
+    expect(revision.message).toBe(
+      'Hi Sarah,\n\nCongrats on the move. Your Austin office opening caught my eye. It seemed relevant to your role.\n\nBest regards'
+    );
+    expect(revision.appliedFixes).toEqual(['removed a repeated sentence']);
+  });
+
+  test('should replace a pushy ask with one that fits the confidence level', () => {
+    const message = 'Hi Sarah,\n\nI saw the Series A news. Book a demo now to see it in action.\n\nBest regards';
+    const before = authenticityFilter.evaluateAuthenticity(message, ConfidenceLevel.LOW);
+
+    const revision = reviser.reviseMessage(message, before.issues, ConfidenceLevel.LOW);
+
+    expect(revision.message).toBe(
+      'Hi Sarah,\n\nI saw the Series A news. Curious whether this is on your radar at all.\n\nBest regards'
+    );
+  });
+});
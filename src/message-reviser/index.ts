@@ -0,0 +1,5 @@
+/**
+ * Message Reviser module exports
+ */
+
+export { MessageReviser } from './MessageReviser';
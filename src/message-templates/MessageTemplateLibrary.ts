@@ -0,0 +1,262 @@
+/**
+ * MessageTemplateLibrary - Phrasings MessageGenerator chooses its sentences from
+ *
+ * Each entry holds interchangeable phrasings of one message slot, optionally narrowed to a
+ * signal type and a strategy. The built-in phrasings live in default.templates.json; teams
+ * register or load their own as JSON, replacing the entry with the same slot, signal type and strategy.
+ *
+ * Selection is seeded, so the same prospect always gets the same wording:
+ * - Entries are consulted from most to least specific: signal type and strategy, signal type, strategy, neither
+ * - Within an entry, phrasings are ordered by a hash of the seed and the phrasing
+ * - The recommended message takes the first phrasing and each alternative the next one,
+ *   so no two of them share a phrasing while three are available
+ */
+
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { IMessageTemplateLibrary } from '../interfaces';
+import { MessagePhrasings, MessageSlot, SignalTypeId, StrategyType } from '../types';
+import defaultPhrasings from './default.templates.json';
+
+export class MessageTemplateLibrary implements IMessageTemplateLibrary {
+  private readonly SLOTS: MessageSlot[] = ['relevance', 'event_relevance', 'value_proposition'];
+  private readonly FIELDS = ['slot', 'signalType', 'strategyType', 'variants'];
+  private readonly SIGNAL_TYPE_PATTERN = /^[a-z][a-z0-9_]*$/;
+  private readonly PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+  private readonly PLACEHOLDERS = ['firstName', 'company', 'industry', 'role', 'reason', 'remit'];
+  private readonly MAX_VARIANT_LENGTH = 300;
+  // The recommended message and both alternatives; an entry that matches everything must cover all three
+  private readonly MIN_FALLBACK_VARIANTS = 3;
+
+  private readonly builtIn: Map<string, MessagePhrasings>;
+  private phrasings: Map<string, MessagePhrasings>;
+  private readonly changeListeners = new Set<() => void>();
+
+  constructor() {
+    this.builtIn = new Map(this.parse(defaultPhrasings, 'default.templates.json')
+      .map(entry => [this.keyOf(entry.slot, entry.signalType, entry.strategyType), entry]));
+    this.phrasings = new Map(this.builtIn);
+  }
+
+  get(slot: MessageSlot, signalType?: SignalTypeId, strategyType?: StrategyType): MessagePhrasings | undefined {
+    const entry = this.phrasings.get(this.keyOf(slot, signalType, strategyType));
+    return entry ? this.copy(entry) : undefined;
+  }
+
+  has(slot: MessageSlot, signalType?: SignalTypeId, strategyType?: StrategyType): boolean {
+    return this.phrasings.has(this.keyOf(slot, signalType, strategyType));
+  }
+
+  list(): MessagePhrasings[] {
+    return Array.from(this.phrasings.values()).map(entry => this.copy(entry));
+  }
+
+  /**
+   * Every problem with an entry, each prefixed with its field; empty when it can be registered
+   */
+  validate(entry: unknown): string[] {
+    if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+      return ['must be an object with slot and variants'];
+    }
+
+    const fields = entry as Record<string, unknown>;
+    const problems = Object.keys(fields)
+      .filter(key => !this.FIELDS.includes(key))
+      .map(key => `${key}: unknown field`);
+
+    const slot = fields.slot as MessageSlot;
+    if (!this.SLOTS.includes(slot)) {
+      problems.push(`slot: must be one of ${this.SLOTS.join(', ')}`);
+    }
+    if (fields.signalType !== undefined
+      && (typeof fields.signalType !== 'string' || !this.SIGNAL_TYPE_PATTERN.test(fields.signalType))) {
+      problems.push('signalType: must be a lowercase snake_case signal type id');
+    }
+    if (fields.strategyType !== undefined && !(Object.values(StrategyType) as unknown[]).includes(fields.strategyType)) {
+      problems.push(`strategyType: must be one of ${Object.values(StrategyType).join(', ')}`);
+    }
+
+    const variants = fields.variants;
+    if (!Array.isArray(variants) || variants.length === 0) {
+      problems.push('variants: must be a non-empty array of strings');
+      return problems;
+    }
+
+    const placeholders = slot === 'event_relevance' ? [...this.PLACEHOLDERS, 'event'] : this.PLACEHOLDERS;
+    variants.forEach((variant, index) => {
+      problems.push(...this.checkVariant(variant, placeholders).map(problem => `variants[${index}]: ${problem}`));
+    });
+    if (new Set(variants).size < variants.length) {
+      problems.push('variants: must not repeat a phrasing');
+    }
+    if (fields.signalType === undefined && fields.strategyType === undefined && variants.length < this.MIN_FALLBACK_VARIANTS) {
+      problems.push(`variants: an entry for every signal type and strategy needs at least ${this.MIN_FALLBACK_VARIANTS}, one per message`);
+    }
+    return problems;
+  }
+
+  /**
+   * Adds phrasings, or replaces the entry with the same slot, signal type and strategy
+   * Throws when the entry is invalid
+   */
+  register(entry: MessagePhrasings): void {
+    const problems = this.validate(entry);
+    if (problems.length > 0) {
+      throw this.createTemplateError(`Invalid message template: ${problems.join('; ')}`);
+    }
+    this.phrasings.set(this.keyOf(entry.slot, entry.signalType, entry.strategyType), this.copy(entry));
+    this.notifyChange();
+  }
+
+  /**
+   * Registers every entry in a JSON array and returns them; nothing is registered if any entry is invalid
+   * `source` names the text in errors, e.g. a file path
+   */
+  loadJson(json: string, source = 'message template JSON'): MessagePhrasings[] {
+    let value: unknown;
+    try {
+      value = JSON.parse(json);
+    } catch (error) {
+      throw this.createTemplateError(`${source} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const entries = this.parse(value, source);
+    entries.forEach(entry => this.phrasings.set(this.keyOf(entry.slot, entry.signalType, entry.strategyType), this.copy(entry)));
+    this.notifyChange();
+    return entries.map(entry => this.copy(entry));
+  }
+
+  /**
+   * Registers every entry in a JSON file and returns them
+   */
+  loadFile(path: string): MessagePhrasings[] {
+    let json: string;
+    try {
+      json = readFileSync(path, 'utf8');
+    } catch (error) {
+      throw this.createTemplateError(`Cannot read ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return this.loadJson(json, path);
+  }
+
+  /**
+   * Removes an entry; a replaced built-in entry reverts to its default instead
+   */
+  unregister(slot: MessageSlot, signalType?: SignalTypeId, strategyType?: StrategyType): boolean {
+    const key = this.keyOf(slot, signalType, strategyType);
+    const builtIn = this.builtIn.get(key);
+    if (builtIn) {
+      const replaced = this.phrasings.get(key) !== builtIn;
+      if (replaced) {
+        this.phrasings.set(key, builtIn);
+        this.notifyChange();
+      }
+      return replaced;
+    }
+
+    const removed = this.phrasings.delete(key);
+    if (removed) {
+      this.notifyChange();
+    }
+    return removed;
+  }
+
+  /**
+   * The phrasing for one message of a run: 0 for the recommended message, 1 and 2 for the alternatives
+   * `seed` identifies the prospect, so repeat runs choose the same phrasings
+   * Undefined only when no entry matches the slot
+   */
+  selectVariant(
+    slot: MessageSlot,
+    seed: string,
+    variant: number,
+    signalType?: SignalTypeId,
+    strategyType?: StrategyType
+  ): string | undefined {
+    const keys = [
+      ...(signalType !== undefined ? [this.keyOf(slot, signalType, strategyType), this.keyOf(slot, signalType)] : []),
+      this.keyOf(slot, undefined, strategyType),
+      this.keyOf(slot),
+    ];
+
+    const candidates: string[] = [];
+    new Set(keys).forEach(key => {
+      const entry = this.phrasings.get(key);
+      if (entry) {
+        this.seededOrder(entry.variants, seed)
+          .filter(phrasing => !candidates.includes(phrasing))
+          .forEach(phrasing => candidates.push(phrasing));
+      }
+    });
+
+    return candidates.length > 0 ? candidates[Math.max(0, Math.floor(variant)) % candidates.length] : undefined;
+  }
+
+  /**
+   * Registers a callback run after every change to the library; returns an unsubscribe function
+   */
+  onChange(listener: () => void): () => void {
+    this.changeListeners.add(listener);
+    return () => this.changeListeners.delete(listener);
+  }
+
+  /**
+   * Drops every registered entry and restores the built-in phrasings
+   */
+  reset(): void {
+    this.phrasings = new Map(this.builtIn);
+    this.notifyChange();
+  }
+
+  private checkVariant(variant: unknown, placeholders: string[]): string[] {
+    if (typeof variant !== 'string' || variant.trim().length === 0 || variant.length > this.MAX_VARIANT_LENGTH) {
+      return [`must be a non-empty string of at most ${this.MAX_VARIANT_LENGTH} characters`];
+    }
+    const unknown = Array.from(variant.matchAll(this.PLACEHOLDER_PATTERN))
+      .map(match => match[1])
+      .filter(placeholder => !placeholders.includes(placeholder));
+    return unknown.length > 0
+      ? [`unknown placeholder ${unknown.map(name => `{${name}}`).join(', ')}; use ${placeholders.map(name => `{${name}}`).join(', ')}`]
+      : [];
+  }
+
+  private parse(value: unknown, source: string): MessagePhrasings[] {
+    if (!Array.isArray(value)) {
+      throw this.createTemplateError(`Invalid ${source}: must be an array of phrasing entries`);
+    }
+
+    const problems = value.flatMap((entry, index) => this.validate(entry).map(problem => `[${index}].${problem}`));
+    if (problems.length > 0) {
+      throw this.createTemplateError(`Invalid ${source}: ${problems.join('; ')}`);
+    }
+    return value as MessagePhrasings[];
+  }
+
+  // Hashing each phrasing with the seed gives a stable order that does not shift when phrasings are added
+  private seededOrder(variants: string[], seed: string): string[] {
+    const rank = (phrasing: string): string => createHash('sha256').update(`${seed}\n${phrasing}`).digest('hex');
+    return variants
+      .map(phrasing => ({ phrasing, rank: rank(phrasing) }))
+      .sort((a, b) => (a.rank < b.rank ? -1 : a.rank > b.rank ? 1 : 0))
+      .map(({ phrasing }) => phrasing);
+  }
+
+  private keyOf(slot: MessageSlot, signalType?: SignalTypeId, strategyType?: StrategyType): string {
+    return `${slot}|${signalType ?? '*'}|${strategyType ?? '*'}`;
+  }
+
+  // Entries are copied in and out, so callers cannot change a registered entry in place
+  private copy(entry: MessagePhrasings): MessagePhrasings {
+    return { ...entry, variants: [...entry.variants] };
+  }
+
+  private createTemplateError(message: string): Error {
+    const error = new Error(message);
+    error.name = 'INVALID_MESSAGE_TEMPLATE';
+    return error;
+  }
+
+  private notifyChange(): void {
+    this.changeListeners.forEach(listener => listener());
+  }
+}
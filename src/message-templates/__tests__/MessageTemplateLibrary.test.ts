@@ -0,0 +1,281 @@
+/**
+ * Tests for the message template library: seeded phrasing selection, per-message guards and custom phrasings
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MessageTemplateLibrary } from '../MessageTemplateLibrary';
+import { MessageGenerator } from '../../message-generator';
+import { LexiconService } from '../../lexicon';
+import { SignalTypeRegistry } from '../../signal-types';
+import { ContextIngestor } from '../../context-ingestor';
+import { PersonaClassifier } from '../../persona-classifier';
+import {
+  IntentDrivenOutreachAgent,
+  AgentUtils,
+  CallToActionLevel,
+  CompanySize,
+  IntentSignal,
+  MessagePhrasings,
+  ProspectData,
+  SignalType,
+  StrategyType,
+} from '../../index';
+
+const fundingPhrasings = (): string[] => new MessageTemplateLibrary().get('relevance', SignalType.FUNDING_EVENT)!.variants;
+
+describe('MessageTemplateLibrary selection', () => {
+  it('should choose the same phrasing for the same seed', () => {
+    const first = new MessageTemplateLibrary();
+    const second = new MessageTemplateLibrary();
+
+    [0, 1, 2].forEach(variant => {
+      expect(first.selectVariant('relevance', 'sarah@techcorp.com', variant, SignalType.FUNDING_EVENT))
+        .toBe(second.selectVariant('relevance', 'sarah@techcorp.com', variant, SignalType.FUNDING_EVENT));
+    });
+  });
+
+  it('should give the recommended message and both alternatives different phrasings', () => {
+    const library = new MessageTemplateLibrary();
+
+    ['a@example.com', 'b@example.com', 'c@example.com'].forEach(seed => {
+      const chosen = [0, 1, 2].map(variant => library.selectVariant('relevance', seed, variant, SignalType.FUNDING_EVENT));
+      expect(new Set(chosen).size).toBe(3);
+      chosen.forEach(phrasing => expect(fundingPhrasings()).toContain(phrasing));
+    });
+  });
+
+  it('should vary the recommended phrasing across prospects', () => {
+    const library = new MessageTemplateLibrary();
+
+    const recommended = new Set(Array.from({ length: 20 }, (_, index) =>
+      library.selectVariant('relevance', `prospect${index}@example.com`, 0, SignalType.FUNDING_EVENT)
+    ));
+
+    expect(recommended.size).toBeGreaterThan(1);
+  });
+
+  it('should prefer the most specific entry and fall back to broader ones', () => {
+    const library = new MessageTemplateLibrary();
+    library.register({
+      slot: 'relevance',
+      signalType: SignalType.FUNDING_EVENT,
+      strategyType: StrategyType.SOFT_CURIOSITY,
+      variants: ['Congrats on the raise at {company}.'],
+    });
+
+    const recommended = library.selectVariant('relevance', 'a@example.com', 0, SignalType.FUNDING_EVENT, StrategyType.SOFT_CURIOSITY);
+    const alternative = library.selectVariant('relevance', 'a@example.com', 1, SignalType.FUNDING_EVENT, StrategyType.SOFT_CURIOSITY);
+    const otherStrategy = library.selectVariant('relevance', 'a@example.com', 0, SignalType.FUNDING_EVENT, StrategyType.DIRECT_VALUE_ALIGNMENT);
+    const customType = library.selectVariant('relevance', 'a@example.com', 0, 'conference_talk');
+
+    expect(recommended).toBe('Congrats on the raise at {company}.');
+    expect(fundingPhrasings()).toContain(alternative);
+    expect(fundingPhrasings()).toContain(otherStrategy);
+    expect(library.get('relevance')!.variants).toContain(customType);
+  });
+
+  it('should revert a replaced built-in entry when unregistered', () => {
+    const library = new MessageTemplateLibrary();
+    library.register({ slot: 'relevance', signalType: SignalType.FUNDING_EVENT, variants: ['Congrats on the raise.'] });
+
+    expect(library.unregister('relevance', SignalType.FUNDING_EVENT)).toBe(true);
+    expect(library.get('relevance', SignalType.FUNDING_EVENT)!.variants).toEqual(fundingPhrasings());
+    expect(library.unregister('relevance', SignalType.FUNDING_EVENT)).toBe(false);
+  });
+});
+
+describe('MessageTemplateLibrary validation', () => {
+  it('should report each problem with its field', () => {
+    const library = new MessageTemplateLibrary();
+
+    expect(library.validate({
+      slot: 'greeting',
+      strategyType: 'hard_sell',
+      tone: 'warm',
+      variants: ['Saw {event} at {company}', '', 'Saw {event} at {company}'],
+    })).toEqual([
+      'tone: unknown field',
+      'slot: must be one of relevance, event_relevance, value_proposition',
+      `strategyType: must be one of ${Object.values(StrategyType).join(', ')}`,
+      expect.stringMatching(/^variants\[0\]: unknown placeholder \{event\}/),
+      'variants[1]: must be a non-empty string of at most 300 characters',
+      expect.stringMatching(/^variants\[2\]: unknown placeholder \{event\}/),
+      'variants: must not repeat a phrasing',
+    ]);
+  });
+
+  it('should allow {event} only in event_relevance', () => {
+    const library = new MessageTemplateLibrary();
+    const entry = (slot: MessagePhrasings['slot']) => ({
+      slot,
+      signalType: SignalType.FUNDING_EVENT,
+      variants: ['I saw {event} and thought of {company}.'],
+    });
+
+    expect(library.validate(entry('event_relevance'))).toEqual([]);
+    expect(library.validate(entry('relevance'))).toHaveLength(1);
+  });
+
+  it('should require three phrasings in an entry that matches everything', () => {
+    const library = new MessageTemplateLibrary();
+
+    expect(() => library.register({ slot: 'value_proposition', variants: ['One.', 'Two.'] })).toThrow(
+      'Invalid message template: variants: an entry for every signal type and strategy needs at least 3, one per message'
+    );
+    expect(library.get('value_proposition')!.variants).toHaveLength(3);
+  });
+});
+
+describe('Loading phrasings from JSON', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'message-templates-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should load a file of phrasings', () => {
+    const path = join(directory, 'fintech.json');
+    const entries: MessagePhrasings[] = [
+      { slot: 'relevance', signalType: 'conference_talk', variants: ['Your talk caught my eye, {firstName}.'] },
+      { slot: 'value_proposition', strategyType: StrategyType.SOFT_CURIOSITY, variants: ['I might be off base here, though.'] },
+    ];
+    writeFileSync(path, JSON.stringify(entries));
+    const library = new MessageTemplateLibrary();
+
+    expect(library.loadFile(path)).toEqual(entries);
+    expect(library.get('relevance', 'conference_talk')).toEqual(entries[0]);
+  });
+
+  it('should register nothing when one entry is invalid', () => {
+    const library = new MessageTemplateLibrary();
+    const json = JSON.stringify([
+      { slot: 'relevance', signalType: 'conference_talk', variants: ['Your talk caught my eye.'] },
+      { slot: 'relevance', signalType: 'Conference Talk', variants: ['Hi {owner}.'] },
+    ]);
+
+    expect(() => library.loadJson(json, 'fintech.json')).toThrow(
+      /^Invalid fintech\.json: \[1\]\.signalType: must be a lowercase snake_case signal type id; \[1\]\.variants\[0\]: unknown placeholder \{owner\}/
+    );
+    expect(library.has('relevance', 'conference_talk')).toBe(false);
+  });
+
+  it('should fail on malformed JSON, a non-array and missing files', () => {
+    const library = new MessageTemplateLibrary();
+
+    expect(() => library.loadJson('[{', 'inline')).toThrow(/^inline is not valid JSON/);
+    expect(() => library.loadJson('{}', 'inline')).toThrow('Invalid inline: must be an array of phrasing entries');
+    expect(() => library.loadFile(join(directory, 'missing.json'))).toThrow(/^Cannot read/);
+  });
+});
+
+describe('Phrasings in the workflow', () => {
+  const prospect = (email: string): ProspectData => AgentUtils.createProspectData(
+    'Sarah Chen',
+    email,
+    'VP of Engineering',
+    'TechCorp',
+    'Software Development',
+    CompanySize.MEDIUM
+  );
+  const intentSignals: IntentSignal[] = [
+    AgentUtils.createIntentSignal(SignalType.FUNDING_EVENT, 'Raised $15M Series A funding to scale engineering team', 0.95, 'TechCrunch', 3),
+    AgentUtils.createIntentSignal(SignalType.COMPANY_GROWTH, 'Posted 12 new engineering positions on LinkedIn', 0.9, 'LinkedIn Jobs', 1),
+  ];
+  const filled = (phrasing: string): string =>
+    phrasing.replace('{company}', 'TechCorp').replace('{remit}', 'the engineering organization you lead');
+
+  it('should write the recommended message and alternatives with different relevance phrasings', async () => {
+    const agent = new IntentDrivenOutreachAgent();
+
+    const result = await agent.processOutreachRequest(prospect('sarah.chen@techcorp.com'), intentSignals);
+
+    expect('code' in result).toBe(false);
+    if (!('code' in result)) {
+      const messages = [result.recommendedMessage, ...result.alternativeMessages];
+      const used = messages.map(message => fundingPhrasings().findIndex(phrasing => message.includes(filled(phrasing))));
+      expect(used.every(index => index >= 0)).toBe(true);
+      expect(new Set(used).size).toBe(3);
+    }
+  });
+
+  it('should write the same message for the same prospect', () => {
+    const generator = () => new MessageGenerator();
+    const hypothesis = {
+      primaryReason: 'Recent funding may enable new initiatives and technology investments',
+      primarySignalType: SignalType.FUNDING_EVENT,
+      supportingEvidence: [],
+      confidenceFactors: [],
+      conservativeAssumptions: [],
+    };
+    const strategy = {
+      type: StrategyType.DIRECT_VALUE_ALIGNMENT,
+      toneGuidelines: [],
+      contentFocus: 'Direct connection between prospect signals and value proposition',
+      callToActionLevel: CallToActionLevel.DIRECT,
+    };
+
+    expect(generator().generateMessage(strategy, hypothesis, prospect('sarah.chen@techcorp.com')))
+      .toBe(generator().generateMessage(strategy, hypothesis, prospect('sarah.chen@techcorp.com')));
+  });
+
+  it('should use configured phrasings and restore the built-in ones when dropped', async () => {
+    const custom: MessagePhrasings = {
+      slot: 'relevance',
+      signalType: SignalType.FUNDING_EVENT,
+      variants: ['Congrats on the Series A at {company}; it seemed relevant to {remit}.'],
+    };
+    const agent = new IntentDrivenOutreachAgent({ messageTemplates: [custom] });
+    const recommended = async (): Promise<string> => {
+      const result = await agent.processOutreachRequest(prospect('sarah.chen@techcorp.com'), intentSignals);
+      return 'code' in result ? '' : result.recommendedMessage;
+    };
+
+    expect(await recommended()).toContain('Congrats on the Series A at TechCorp; it seemed relevant to the engineering organization you lead.');
+
+    agent.updateConfig({ messageTemplates: [] });
+
+    expect(await recommended()).not.toContain('Congrats on the Series A');
+    expect(agent.getMessageTemplates().get('relevance', SignalType.FUNDING_EVENT)!.variants).toEqual(fundingPhrasings());
+  });
+
+  it('should read phrasings from the library it is given', () => {
+    const library = new MessageTemplateLibrary();
+    const generator = new MessageGenerator(
+      new LexiconService(),
+      new SignalTypeRegistry(),
+      new ContextIngestor(),
+      new PersonaClassifier(),
+      library
+    );
+    library.register({
+      slot: 'value_proposition',
+      strategyType: StrategyType.INSIGHT_LED_OBSERVATION,
+      variants: ['Other {industry} teams have asked us about this lately.'],
+    });
+
+    const message = generator.generateMessage(
+      {
+        type: StrategyType.INSIGHT_LED_OBSERVATION,
+        toneGuidelines: [],
+        contentFocus: 'Industry insights',
+        callToActionLevel: CallToActionLevel.SOFT,
+      },
+      {
+        primaryReason: 'Company growth may create new operational challenges and opportunities',
+        primarySignalType: SignalType.COMPANY_GROWTH,
+        supportingEvidence: [],
+        confidenceFactors: [],
+        conservativeAssumptions: [],
+      },
+      prospect('sarah.chen@techcorp.com')
+    );
+
+    expect(message).toContain('Other Software Development teams have asked us about this lately.');
+  });
+});
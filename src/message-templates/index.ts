@@ -0,0 +1,5 @@
+/**
+ * Message templates module exports
+ */
+
+export { MessageTemplateLibrary } from './MessageTemplateLibrary';
@@ -2,7 +2,7 @@
  * OutputAssembler - Assembles structured output with all required fields
  * 
  * Implements structured output generation with:
- * - All required fields (confidence, reasoning, messages, timing, metadata)
+ * - All required fields (confidence, reasoning, messages, subjects, timing, metadata)
  * - Alternative message generation (exactly 2 alternatives)
  * - Follow-up timing suggestions based on confidence
  * - Internal reasoning concealment
@@ -21,6 +21,9 @@ import {
   ProspectData,
   StrategyType,
   CallToActionLevel,
+  SenderProfile,
+  OutputExtras,
+  OutreachChannel,
 } from '../types';
 
 export class OutputAssembler implements IOutputAssembler {
@@ -31,13 +34,16 @@ export class OutputAssembler implements IOutputAssembler {
     confidence: ConfidenceLevel,
     reasoning: string,
     alternatives: [string, string],
-    metadata: ProcessingMetadata
+    metadata: ProcessingMetadata,
+    extras: OutputExtras = {}
   ): StructuredOutput {
+    const { channel = OutreachChannel.EMAIL, subjects, followUpSequence, persona } = extras;
+
     // Ensure internal reasoning concealment (Requirement 8.6)
     const concealedReasoning = this.concealInternalReasoning(reasoning);
     
-    // Generate follow-up timing based on confidence (Requirement 8.5)
-    const followUpTiming = this.suggestFollowUpTiming(confidence);
+    // Generate follow-up timing based on confidence, unless the strategy set one (Requirement 8.5)
+    const followUpTiming = extras.followUpTiming ?? this.suggestFollowUpTiming(confidence);
     
     // Clean metadata to remove internal details (Requirement 8.6)
     const cleanedMetadata = this.cleanProcessingMetadata(metadata);
@@ -47,7 +53,11 @@ export class OutputAssembler implements IOutputAssembler {
       reasoningSummary: concealedReasoning, // Requirement 8.2
       recommendedMessage: message, // Requirement 8.3
       alternativeMessages: alternatives, // Requirement 8.4 - exactly 2 alternatives
+      channel,
+      ...(subjects ? { recommendedSubject: subjects.recommended, alternativeSubjects: subjects.alternatives } : {}),
       suggestedFollowUpTiming: followUpTiming, // Requirement 8.5
+      ...(followUpSequence ? { followUpSequence } : {}),
+      ...(persona ? { persona } : {}),
       processingMetadata: cleanedMetadata,
     };
   }
@@ -56,24 +66,33 @@ export class OutputAssembler implements IOutputAssembler {
    * Generates exactly 2 alternative messages with different approaches
    * Requirements: 8.4
    */
-  generateAlternativeMessages(
+  async generateAlternativeMessages(
     originalStrategy: MessageStrategy,
     hypothesis: IntentHypothesis,
     prospectData: ProspectData,
-    confidence: ConfidenceLevel
-  ): [string, string] {
+    confidence: ConfidenceLevel,
+    senderProfile?: SenderProfile,
+    signal?: AbortSignal
+  ): Promise<[string, string]> {
     const alternativeStrategies = this.getAlternativeStrategies(originalStrategy, confidence);
     
-    let alternative1 = this.messageGenerator.generateMessage(
+    // Variants 1 and 2 take phrasings the recommended message (variant 0) did not use
+    let alternative1 = await this.messageGenerator.generateMessage(
       alternativeStrategies[0],
       hypothesis,
-      prospectData
+      prospectData,
+      senderProfile,
+      1,
+      signal
     );
     
-    let alternative2 = this.messageGenerator.generateMessage(
+    let alternative2 = await this.messageGenerator.generateMessage(
       alternativeStrategies[1],
       hypothesis,
-      prospectData
+      prospectData,
+      senderProfile,
+      2,
+      signal
     );
 
     // Ensure alternatives are different by adding distinguishing elements if they're identical
@@ -89,10 +108,11 @@ export class OutputAssembler implements IOutputAssembler {
    * Adds distinguishing elements to ensure message alternatives are different
    */
   private addDistinguishingElement(message: string, approach: 'conversational' | 'analytical'): string {
-    const lines = message.split('\n');
-    const greeting = lines[0] || 'Hi,';
-    const body = lines.slice(1, -2).join('\n') || '';
-    const closing = lines.slice(-2).join('\n') || 'Best regards';
+    // Messages are blank-line separated blocks: greeting, body paragraphs, closing signature
+    const blocks = message.split(/\n\s*\n/);
+    const greeting = blocks[0] || 'Hi,';
+    const body = blocks.slice(1, -1).join('\n\n') || '';
+    const closing = blocks.length > 1 ? blocks[blocks.length - 1] : 'Best regards';
 
     let distinguishingPhrase = '';
     if (approach === 'conversational') {
@@ -111,7 +131,7 @@ export class OutputAssembler implements IOutputAssembler {
    * Suggests follow-up timing based on confidence level
    * Requirements: 8.5
    */
-  private suggestFollowUpTiming(confidence: ConfidenceLevel): FollowUpTiming {
+  public suggestFollowUpTiming(confidence: ConfidenceLevel): FollowUpTiming {
     switch (confidence) {
       case ConfidenceLevel.HIGH:
         return FollowUpTiming.ONE_WEEK; // High confidence warrants quicker follow-up
@@ -276,6 +296,10 @@ export class OutputAssembler implements IOutputAssembler {
         details: undefined, // Remove internal details
       })),
       version: metadata.version,
+      runId: metadata.runId,
+      stepTimings: metadata.stepTimings && Object.fromEntries(
+        Object.entries(metadata.stepTimings).map(([step, duration]) => [this.sanitizeWorkflowStep(step), duration])
+      ),
     };
   }
 
@@ -285,9 +309,11 @@ export class OutputAssembler implements IOutputAssembler {
   private sanitizeWorkflowStep(step: string): string {
     const stepMappings: Record<string, string> = {
       'input_validation': 'Input Processing',
+      'context_ingestion': 'Context Review',
       'signal_interpretation': 'Signal Analysis',
       'hypothesis_formation': 'Intent Analysis',
       'confidence_scoring': 'Confidence Assessment',
+      'persona_classification': 'Audience Review',
       'strategy_selection': 'Approach Selection',
       'message_generation': 'Message Creation',
       'authenticity_filtering': 'Quality Review',
@@ -307,18 +333,19 @@ export class OutputAssembler implements IOutputAssembler {
     const baseStrategy = originalStrategy.type;
     
     // Create variations of the original strategy with different tones/approaches
+    // Each keeps the original's CTA level and company-size adjustments
     const alternative1: MessageStrategy = {
+      ...originalStrategy,
       type: baseStrategy,
       toneGuidelines: this.getAlternativeToneGuidelines(originalStrategy, 'variant1'),
       contentFocus: this.getAlternativeContentFocus(originalStrategy, 'variant1'),
-      callToActionLevel: originalStrategy.callToActionLevel,
     };
     
     const alternative2: MessageStrategy = {
+      ...originalStrategy,
       type: baseStrategy,
       toneGuidelines: this.getAlternativeToneGuidelines(originalStrategy, 'variant2'),
       contentFocus: this.getAlternativeContentFocus(originalStrategy, 'variant2'),
-      callToActionLevel: originalStrategy.callToActionLevel,
     };
     
     return [alternative1, alternative2];
@@ -18,11 +18,16 @@ import {
   CompanySize,
   SignalType,
   AuditLogEntry,
+  SubjectLines,
 } from '../../types';
 
 describe('OutputAssembler Property Tests', () => {
   let outputAssembler: OutputAssembler;
   let messageGenerator: MessageGenerator;
+  const testSubjects: SubjectLines = {
+    recommended: 'The recent funding at TechCorp',
+    alternatives: ['An idea for TechCorp after the recent funding', 'Sarah, a thought on the recent funding'],
+  };
 
   beforeEach(() => {
     messageGenerator = new MessageGenerator();
@@ -104,7 +109,8 @@ describe('OutputAssembler Property Tests', () => {
             input.confidence,
             input.reasoning,
             input.alternatives,
-            input.metadata as ProcessingMetadata
+            input.metadata as ProcessingMetadata,
+            { subjects: testSubjects }
           );
 
           // Requirement 8.1: Should include intent_confidence level
@@ -147,6 +153,10 @@ describe('OutputAssembler Property Tests', () => {
           expect(result.alternativeMessages[0]).not.toBe(result.recommendedMessage);
           expect(result.alternativeMessages[1]).not.toBe(result.recommendedMessage);
 
+          // Subject lines are passed through for each message variant
+          expect(result.recommendedSubject).toBe(testSubjects.recommended);
+          expect(result.alternativeSubjects).toEqual(testSubjects.alternatives);
+
           // Requirement 8.5: Should suggest appropriate follow-up timing
           expect(result.suggestedFollowUpTiming).toBeDefined();
           expect(Object.values(FollowUpTiming)).toContain(result.suggestedFollowUpTiming);
@@ -204,7 +214,8 @@ describe('OutputAssembler Property Tests', () => {
             ConfidenceLevel.HIGH,
             input.reasoning,
             input.alternatives as [string, string],
-            input.metadata as ProcessingMetadata
+            input.metadata as ProcessingMetadata,
+            { subjects: testSubjects }
           );
           expect(highResult.suggestedFollowUpTiming).toBe(FollowUpTiming.ONE_WEEK);
 
@@ -214,7 +225,8 @@ describe('OutputAssembler Property Tests', () => {
             ConfidenceLevel.MEDIUM,
             input.reasoning,
             input.alternatives as [string, string],
-            input.metadata as ProcessingMetadata
+            input.metadata as ProcessingMetadata,
+            { subjects: testSubjects }
           );
           expect(mediumResult.suggestedFollowUpTiming).toBe(FollowUpTiming.TWO_WEEKS);
 
@@ -224,7 +236,8 @@ describe('OutputAssembler Property Tests', () => {
             ConfidenceLevel.LOW,
             input.reasoning,
             input.alternatives as [string, string],
-            input.metadata as ProcessingMetadata
+            input.metadata as ProcessingMetadata,
+            { subjects: testSubjects }
           );
           expect(lowResult.suggestedFollowUpTiming).toBe(FollowUpTiming.ONE_MONTH);
         }
@@ -236,9 +249,9 @@ describe('OutputAssembler Property Tests', () => {
   /**
    * Test that alternative message generation produces exactly 2 different messages
    */
-  test('Alternative message generation should produce exactly 2 different messages', () => {
-    fc.assert(
-      fc.property(
+  test('Alternative message generation should produce exactly 2 different messages', async () => {
+    await fc.assert(
+      fc.asyncProperty(
         fc.record({
           strategy: fc.record({
             type: fc.constantFrom(
@@ -282,8 +295,8 @@ describe('OutputAssembler Property Tests', () => {
             ConfidenceLevel.LOW
           )
         }),
-        (input) => {
-          const alternatives = outputAssembler.generateAlternativeMessages(
+        async (input) => {
+          const alternatives = await outputAssembler.generateAlternativeMessages(
             input.strategy as MessageStrategy,
             input.hypothesis as IntentHypothesis,
             input.prospectData as ProspectData,
@@ -390,7 +403,8 @@ describe('OutputAssembler Property Tests', () => {
             input.confidence,
             input.reasoning,
             input.alternatives,
-            input.metadata as ProcessingMetadata
+            input.metadata as ProcessingMetadata,
+            { subjects: testSubjects }
           );
 
           // Check that reasoning summary doesn't contain technical workflow terms
@@ -488,7 +502,8 @@ describe('OutputAssembler Property Tests', () => {
             details: { internalData: 'should be removed' }
           }],
           version: '1.0.0'
-        } as ProcessingMetadata
+        } as ProcessingMetadata,
+        { subjects: testSubjects }
       );
 
       // Should not contain any technical terms
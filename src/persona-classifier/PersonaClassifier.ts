@@ -0,0 +1,131 @@
+/**
+ * PersonaClassifier - Maps a free-text job title to a seniority level and a function
+ *
+ * Titles are lowercased, punctuation is dropped and common abbreviations are expanded
+ * ("Sr. Dir., Eng." reads as "senior director engineering") before matching, so:
+ * - "CTO" is C-level engineering, "SVP Sales" is VP sales, "Head of People" is director people
+ * - Titles that name no level are individual contributors; no known function is OTHER
+ *
+ * The persona drives tone in StrategySelector, relevance wording in MessageGenerator,
+ * and is returned on the output for routing.
+ */
+
+import { IPersonaClassifier } from '../interfaces';
+import { JobFunction, Persona, Seniority } from '../types';
+
+export class PersonaClassifier implements IPersonaClassifier {
+  private readonly ABBREVIATIONS: Record<string, string> = {
+    sr: 'senior',
+    snr: 'senior',
+    jr: 'junior',
+    dir: 'director',
+    mgr: 'manager',
+    mngr: 'manager',
+    eng: 'engineering',
+    engr: 'engineer',
+    swe: 'software engineer',
+    dev: 'developer',
+    ops: 'operations',
+    mktg: 'marketing',
+    fin: 'finance',
+    bizdev: 'business development',
+    cofounder: 'co founder',
+  };
+
+  // Chief officer abbreviations carry their function with them
+  private readonly CHIEF_OFFICERS: Record<string, JobFunction> = {
+    ceo: JobFunction.GENERAL_MANAGEMENT,
+    cto: JobFunction.ENGINEERING,
+    cpo: JobFunction.PRODUCT,
+    cdo: JobFunction.DATA,
+    ciso: JobFunction.SECURITY,
+    cso: JobFunction.SECURITY,
+    cio: JobFunction.IT,
+    cro: JobFunction.SALES,
+    cmo: JobFunction.MARKETING,
+    cfo: JobFunction.FINANCE,
+    coo: JobFunction.OPERATIONS,
+    chro: JobFunction.PEOPLE,
+  };
+
+  // Checked highest first; the first level with a matching phrase wins
+  private readonly SENIORITY_PHRASES: Array<[Seniority, string[]]> = [
+    [Seniority.C_LEVEL, ['chief', 'founder', 'president', 'managing director']],
+    [Seniority.VP, ['vp', 'svp', 'evp', 'avp']],
+    [Seniority.DIRECTOR, ['director', 'head']],
+    [Seniority.MANAGER, ['manager', 'supervisor', 'team lead']],
+  ];
+
+  // Manager titles that usually name an individual contributor role rather than a people manager
+  private readonly IC_MANAGER_TITLES = ['product manager', 'project manager', 'program manager', 'account manager'];
+
+  // Checked in order, so narrower functions win: "Sales Engineer" is sales, "Data Engineer" is data
+  private readonly FUNCTION_PHRASES: Array<[JobFunction, string[]]> = [
+    [JobFunction.CUSTOMER_SUCCESS, ['customer success', 'customer experience', 'support', 'client services']],
+    [JobFunction.SECURITY, ['security', 'infosec']],
+    [JobFunction.DATA, ['data', 'analytics', 'machine learning', 'ai', 'business intelligence']],
+    [JobFunction.SALES, ['sales', 'revenue', 'business development', 'account executive', 'account manager', 'partnerships']],
+    [JobFunction.MARKETING, ['marketing', 'growth', 'brand', 'demand generation', 'communications']],
+    [JobFunction.FINANCE, ['finance', 'financial', 'accounting', 'controller', 'treasury', 'procurement']],
+    [JobFunction.PEOPLE, ['people', 'hr', 'human resources', 'talent', 'recruiting']],
+    [JobFunction.LEGAL, ['legal', 'counsel', 'compliance']],
+    [JobFunction.IT, ['it', 'information technology', 'information officer', 'helpdesk']],
+    [JobFunction.PRODUCT, ['product', 'design', 'ux']],
+    [JobFunction.ENGINEERING, [
+      'engineering', 'engineer', 'developer', 'software', 'technology', 'technical',
+      'devops', 'platform', 'architect', 'infrastructure', 'qa',
+    ]],
+    [JobFunction.OPERATIONS, ['operations', 'operating', 'supply chain', 'logistics', 'facilities']],
+    [JobFunction.GENERAL_MANAGEMENT, ['chief executive', 'founder', 'president', 'general manager', 'managing director']],
+  ];
+
+  classify(role: string): Persona {
+    const title = this.normalize(role);
+    return {
+      seniority: this.classifySeniority(title),
+      jobFunction: this.classifyFunction(title),
+    };
+  }
+
+  // Padded with spaces so phrases match whole words only
+  private normalize(role: string): string {
+    const words = (typeof role === 'string' ? role : '')
+      .toLowerCase()
+      .replace(/&/g, ' and ')
+      .replace(/[^a-z0-9]+/g, ' ')
+      .trim()
+      .split(' ')
+      .map(word => this.ABBREVIATIONS[word] ?? word);
+
+    return ` ${words.join(' ')} `.replace(/ vice president /g, ' vp ');
+  }
+
+  private classifySeniority(title: string): Seniority {
+    if (Object.keys(this.CHIEF_OFFICERS).some(officer => this.hasPhrase(title, officer))) {
+      return Seniority.C_LEVEL;
+    }
+
+    const match = this.SENIORITY_PHRASES.find(([, phrases]) => phrases.some(phrase => this.hasPhrase(title, phrase)));
+    if (!match) {
+      return Seniority.IC;
+    }
+    if (match[0] === Seniority.MANAGER && this.IC_MANAGER_TITLES.some(phrase => this.hasPhrase(title, phrase))) {
+      return Seniority.IC;
+    }
+    return match[0];
+  }
+
+  private classifyFunction(title: string): JobFunction {
+    const officer = Object.keys(this.CHIEF_OFFICERS).find(abbreviation => this.hasPhrase(title, abbreviation));
+    if (officer) {
+      return this.CHIEF_OFFICERS[officer];
+    }
+
+    const match = this.FUNCTION_PHRASES.find(([, phrases]) => phrases.some(phrase => this.hasPhrase(title, phrase)));
+    return match ? match[0] : JobFunction.OTHER;
+  }
+
+  private hasPhrase(title: string, phrase: string): boolean {
+    return title.includes(` ${phrase} `);
+  }
+}
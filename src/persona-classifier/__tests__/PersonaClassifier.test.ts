@@ -0,0 +1,103 @@
+/**
+ * Tests for classifying job titles into seniority and function, and their use in the workflow
+ */
+
+import { PersonaClassifier } from '../PersonaClassifier';
+import { StrategySelector } from '../../strategy-selector';
+import { MessageGenerator } from '../../message-generator';
+import { HypothesisFormer } from '../../hypothesis-former';
+import { SignalInterpreter } from '../../signal-interpreter';
+import {
+  IntentDrivenOutreachAgent,
+  AgentUtils,
+  CompanySize,
+  ConfidenceLevel,
+  IntentSignal,
+  JobFunction,
+  ProspectData,
+  Seniority,
+  SignalType,
+} from '../../index';
+
+describe('PersonaClassifier', () => {
+  const classifier = new PersonaClassifier();
+
+  it.each([
+    ['CTO', Seniority.C_LEVEL, JobFunction.ENGINEERING],
+    ['Co-Founder & CEO', Seniority.C_LEVEL, JobFunction.GENERAL_MANAGEMENT],
+    ['Chief Revenue Officer', Seniority.C_LEVEL, JobFunction.SALES],
+    ['SVP, Sales', Seniority.VP, JobFunction.SALES],
+    ['Vice President of Marketing', Seniority.VP, JobFunction.MARKETING],
+    ['Sr. Dir., Eng.', Seniority.DIRECTOR, JobFunction.ENGINEERING],
+    ['Head of People', Seniority.DIRECTOR, JobFunction.PEOPLE],
+    ['Engineering Manager', Seniority.MANAGER, JobFunction.ENGINEERING],
+    ['Senior Data Engineer', Seniority.IC, JobFunction.DATA],
+    ['Sales Engineer', Seniority.IC, JobFunction.SALES],
+    ['Product Manager', Seniority.IC, JobFunction.PRODUCT],
+    ['IT Ops Mgr', Seniority.MANAGER, JobFunction.IT],
+    ['Consultant', Seniority.IC, JobFunction.OTHER],
+  ])('should classify "%s" as %s %s', (role, seniority, jobFunction) => {
+    expect(classifier.classify(role)).toEqual({ seniority, jobFunction });
+  });
+
+  it('should only match whole words', () => {
+    expect(classifier.classify('Editor').jobFunction).toBe(JobFunction.OTHER);
+    expect(classifier.classify('Directory Services Specialist').seniority).toBe(Seniority.IC);
+  });
+});
+
+describe('Persona in the workflow', () => {
+  const prospect = (role: string): ProspectData => AgentUtils.createProspectData(
+    'Sarah Chen',
+    'sarah.chen@techcorp.com',
+    role,
+    'TechCorp',
+    'Software Development',
+    CompanySize.MEDIUM
+  );
+  const intentSignals: IntentSignal[] = [
+    AgentUtils.createIntentSignal(SignalType.FUNDING_EVENT, 'Raised $40M Series B funding', 0.9, 'TechCrunch', 5),
+    AgentUtils.createIntentSignal(SignalType.COMPANY_GROWTH, 'Announced expansion into two new markets', 0.7, 'Company Blog', 10),
+  ];
+
+  it('should add a seniority tone without changing the call to action', () => {
+    const selector = new StrategySelector();
+    const base = selector.selectStrategy(ConfidenceLevel.HIGH);
+
+    const executive = selector.selectStrategy(ConfidenceLevel.HIGH, undefined, {
+      seniority: Seniority.C_LEVEL,
+      jobFunction: JobFunction.ENGINEERING,
+    });
+
+    expect(executive.toneGuidelines).toEqual([
+      ...base.toneGuidelines,
+      'Brief and outcome-focused; lead with business impact, skip operational detail',
+    ]);
+    expect(executive.callToActionLevel).toBe(base.callToActionLevel);
+  });
+
+  it('should word relevance for the prospect\'s level and function', () => {
+    const generator = new MessageGenerator();
+    const strategy = new StrategySelector().selectStrategy(ConfidenceLevel.MEDIUM);
+    const hypothesis = new HypothesisFormer().formHypothesis(new SignalInterpreter().interpretSignals(intentSignals));
+    const message = (role: string): string => generator.generateMessage(strategy, hypothesis, prospect(role));
+
+    expect(message('CTO')).toContain('relevant to the engineering organization you lead.');
+    expect(message('Sales Manager')).toContain('relevant to the sales team you manage.');
+    expect(message('Data Analyst')).toContain('relevant to your data work.');
+    expect(message('CEO')).toContain('relevant to where you\'re taking TechCorp.');
+    expect(message('Consultant')).toContain('relevant to your role as Consultant.');
+  });
+
+  it('should expose the persona on the output', async () => {
+    const agent = new IntentDrivenOutreachAgent();
+
+    const result = await agent.processOutreachRequest(prospect('Sr. Dir., Eng.'), intentSignals);
+
+    expect('code' in result).toBe(false);
+    if (!('code' in result)) {
+      expect(result.persona).toEqual({ seniority: Seniority.DIRECTOR, jobFunction: JobFunction.ENGINEERING });
+      expect(result.processingMetadata.workflowSteps).toContain('Audience Review');
+    }
+  });
+});
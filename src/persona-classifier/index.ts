@@ -0,0 +1,5 @@
+/**
+ * Persona classifier module exports
+ */
+
+export { PersonaClassifier } from './PersonaClassifier';
@@ -0,0 +1,164 @@
+/**
+ * PlaybookRegistry - The strategy playbooks StrategySelector can choose from, by name
+ *
+ * A playbook is a list of plays. Each play sets the strategy type, tone guidelines, content
+ * focus, CTA level and optional sentence templates, and says when it applies. The built-in
+ * "default" playbook (default.playbook.json) holds the three confidence-based strategies.
+ *
+ * Playbooks are checked against PlaybookSchema when registered or loaded; an invalid one
+ * throws an INVALID_PLAYBOOK error listing every problem with its path, and nothing is registered.
+ */
+
+import { readFileSync } from 'fs';
+import { IPlaybookRegistry } from '../interfaces';
+import { Playbook, PlaybookProblem } from '../types';
+import { SYSTEM_CONSTANTS } from '../constants';
+import { PlaybookSchema } from './PlaybookSchema';
+import defaultPlaybook from './default.playbook.json';
+
+export class PlaybookRegistry implements IPlaybookRegistry {
+  private readonly schema = new PlaybookSchema();
+  private readonly builtIn: Playbook;
+  private playbooks: Map<string, Playbook>;
+  private readonly changeListeners = new Set<() => void>();
+
+  constructor() {
+    this.builtIn = this.parse(defaultPlaybook, 'default.playbook.json');
+    this.playbooks = this.createBuiltInPlaybooks();
+  }
+
+  get(name: string): Playbook | undefined {
+    const playbook = typeof name === 'string' ? this.playbooks.get(name) : undefined;
+    return playbook ? this.copy(playbook) : undefined;
+  }
+
+  has(name: string): boolean {
+    return typeof name === 'string' && this.playbooks.has(name);
+  }
+
+  list(): Playbook[] {
+    return Array.from(this.playbooks.values()).map(playbook => this.copy(playbook));
+  }
+
+  /**
+   * Every problem with a playbook, each with its path; empty when it can be registered
+   */
+  validate(playbook: unknown): PlaybookProblem[] {
+    return this.schema.validate(playbook);
+  }
+
+  /**
+   * Adds a playbook, or replaces the one registered under the same name
+   * Throws when the playbook does not match the schema
+   */
+  register(playbook: Playbook): void {
+    const valid = this.parse(playbook, `playbook "${String(playbook?.name)}"`);
+    this.playbooks.set(valid.name, this.copy(valid));
+    this.notifyChange();
+  }
+
+  /**
+   * Registers a playbook from JSON text and returns it
+   * `source` names the text in errors, e.g. a file path
+   */
+  loadJson(json: string, source = 'playbook JSON'): Playbook {
+    let value: unknown;
+    try {
+      value = JSON.parse(json);
+    } catch (error) {
+      throw this.createPlaybookError(`${source} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const playbook = this.parse(value, source);
+    this.playbooks.set(playbook.name, this.copy(playbook));
+    this.notifyChange();
+    return this.copy(playbook);
+  }
+
+  /**
+   * Registers a playbook from a JSON file and returns it
+   */
+  loadFile(path: string): Playbook {
+    let json: string;
+    try {
+      json = readFileSync(path, 'utf8');
+    } catch (error) {
+      throw this.createPlaybookError(`Cannot read ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return this.loadJson(json, path);
+  }
+
+  /**
+   * Removes a playbook; the default playbook reverts to the built-in one instead
+   */
+  unregister(name: string): boolean {
+    if (name === SYSTEM_CONSTANTS.DEFAULT_PLAYBOOK) {
+      const redefined = this.playbooks.get(name) !== this.builtIn;
+      if (redefined) {
+        this.playbooks.set(name, this.builtIn);
+        this.notifyChange();
+      }
+      return redefined;
+    }
+
+    const removed = this.playbooks.delete(name);
+    if (removed) {
+      this.notifyChange();
+    }
+    return removed;
+  }
+
+  /**
+   * Registers a callback run after every change to the registry; returns an unsubscribe function
+   */
+  onChange(listener: () => void): () => void {
+    this.changeListeners.add(listener);
+    return () => this.changeListeners.delete(listener);
+  }
+
+  /**
+   * Drops every registered playbook and restores the built-in default
+   */
+  reset(): void {
+    this.playbooks = this.createBuiltInPlaybooks();
+    this.notifyChange();
+  }
+
+  private parse(value: unknown, source: string): Playbook {
+    const problems = this.schema.validate(value);
+    if (problems.length > 0) {
+      const details = problems.map(problem => `${problem.path}: ${problem.message}`).join('; ');
+      throw this.createPlaybookError(`Invalid ${source}: ${details}`);
+    }
+    return value as Playbook;
+  }
+
+  private createBuiltInPlaybooks(): Map<string, Playbook> {
+    return new Map([[this.builtIn.name, this.builtIn]]);
+  }
+
+  // Playbooks are copied in and out, so callers cannot change a registered playbook in place
+  private copy(playbook: Playbook): Playbook {
+    return {
+      ...playbook,
+      plays: playbook.plays.map(play => ({
+        ...play,
+        toneGuidelines: [...play.toneGuidelines],
+        ...(play.when && {
+          when: Object.fromEntries(Object.entries(play.when).map(([key, values]) => [key, [...values]])),
+        }),
+        ...(play.templates && { templates: { ...play.templates } }),
+      })),
+    };
+  }
+
+  private createPlaybookError(message: string): Error {
+    const error = new Error(message);
+    error.name = 'INVALID_PLAYBOOK';
+    return error;
+  }
+
+  private notifyChange(): void {
+    this.changeListeners.forEach(listener => listener());
+  }
+}
@@ -0,0 +1,250 @@
+/**
+ * PlaybookSchema - Checks a strategy playbook read from config before it is used
+ *
+ * Every problem is reported with its path in the playbook, e.g. 'plays[1].callToActionLevel',
+ * so a broken file can be fixed without guessing. Beyond field types, a playbook must:
+ * - Keep each play's CTA within what its confidence levels allow (none for Low, soft for Medium)
+ * - Cover every confidence level with a play that has no other conditions, so selection never fails
+ * - Only use the template placeholders MessageGenerator fills in
+ */
+
+import {
+  CallToActionLevel,
+  CompanySize,
+  ConfidenceLevel,
+  JobFunction,
+  PlayConditions,
+  PlaybookProblem,
+  Seniority,
+  StrategyTemplates,
+  StrategyType,
+} from '../types';
+
+type Fields = Record<string, unknown>;
+
+export class PlaybookSchema {
+  private readonly NAME_PATTERN = /^[a-z][a-z0-9_-]*$/;
+  private readonly MAX_NAME_LENGTH = 64;
+  private readonly MAX_TEMPLATE_LENGTH = 300;
+  private readonly PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+  private readonly PLAYBOOK_FIELDS = ['name', 'description', 'plays'];
+  private readonly PLAY_FIELDS = ['name', 'when', 'type', 'toneGuidelines', 'contentFocus', 'callToActionLevel', 'templates'];
+  private readonly TEMPLATE_FIELDS: Array<keyof StrategyTemplates> = ['relevance', 'valueProposition', 'callToAction'];
+  private readonly PLACEHOLDERS = ['firstName', 'company', 'industry', 'role', 'reason', 'remit'];
+
+  private readonly CONDITION_VALUES: Record<keyof PlayConditions, string[]> = {
+    confidenceLevels: Object.values(ConfidenceLevel),
+    companySizes: Object.values(CompanySize),
+    seniorities: Object.values(Seniority),
+    jobFunctions: Object.values(JobFunction),
+  };
+
+  // CTA levels from least to most direct, and the most each confidence level may use
+  private readonly CTA_ORDER = [CallToActionLevel.NONE, CallToActionLevel.SOFT, CallToActionLevel.DIRECT];
+  private readonly CTA_CEILING: Record<ConfidenceLevel, CallToActionLevel> = {
+    [ConfidenceLevel.HIGH]: CallToActionLevel.DIRECT,
+    [ConfidenceLevel.MEDIUM]: CallToActionLevel.SOFT,
+    [ConfidenceLevel.LOW]: CallToActionLevel.NONE,
+  };
+
+  /**
+   * Every problem with the playbook; empty when it can be registered
+   */
+  validate(value: unknown): PlaybookProblem[] {
+    if (!this.isPlainObject(value)) {
+      return [{ path: '(root)', message: 'Playbook must be an object' }];
+    }
+
+    const problems: PlaybookProblem[] = [
+      ...this.checkUnknownFields(value, this.PLAYBOOK_FIELDS, ''),
+      ...this.checkName(value.name, 'name'),
+    ];
+    if (value.description !== undefined && !this.isNonEmptyString(value.description)) {
+      problems.push({ path: 'description', message: 'must be a non-empty string when set' });
+    }
+
+    const plays = value.plays;
+    if (!Array.isArray(plays) || plays.length === 0) {
+      problems.push({ path: 'plays', message: 'must be a non-empty array' });
+      return problems;
+    }
+
+    const seenNames = new Set<string>();
+    plays.forEach((play, index) => {
+      const path = `plays[${index}]`;
+      if (!this.isPlainObject(play)) {
+        problems.push({ path, message: 'must be an object' });
+        return;
+      }
+      problems.push(...this.checkPlay(play, path));
+      if (typeof play.name === 'string') {
+        if (seenNames.has(play.name)) {
+          problems.push({ path: `${path}.name`, message: `duplicate play name "${play.name}"` });
+        }
+        seenNames.add(play.name);
+      }
+    });
+
+    problems.push(...this.checkCoverage(plays));
+    return problems;
+  }
+
+  private checkPlay(play: Fields, path: string): PlaybookProblem[] {
+    const problems: PlaybookProblem[] = [
+      ...this.checkUnknownFields(play, this.PLAY_FIELDS, path),
+      ...this.checkName(play.name, `${path}.name`),
+      ...this.checkEnum(play.type, Object.values(StrategyType), `${path}.type`),
+      ...this.checkEnum(play.callToActionLevel, this.CTA_ORDER, `${path}.callToActionLevel`),
+    ];
+
+    if (!Array.isArray(play.toneGuidelines) || play.toneGuidelines.length === 0) {
+      problems.push({ path: `${path}.toneGuidelines`, message: 'must be a non-empty array of strings' });
+    } else {
+      play.toneGuidelines.forEach((guideline, index) => {
+        if (!this.isNonEmptyString(guideline)) {
+          problems.push({ path: `${path}.toneGuidelines[${index}]`, message: 'must be a non-empty string' });
+        }
+      });
+    }
+    if (!this.isNonEmptyString(play.contentFocus)) {
+      problems.push({ path: `${path}.contentFocus`, message: 'must be a non-empty string' });
+    }
+
+    if (play.when !== undefined) {
+      problems.push(...this.checkConditions(play.when, `${path}.when`));
+    }
+    if (play.templates !== undefined) {
+      problems.push(...this.checkTemplates(play.templates, `${path}.templates`));
+    }
+    problems.push(...this.checkCallToActionCeiling(play, path));
+    return problems;
+  }
+
+  private checkConditions(when: unknown, path: string): PlaybookProblem[] {
+    if (!this.isPlainObject(when)) {
+      return [{ path, message: 'must be an object' }];
+    }
+
+    const problems = this.checkUnknownFields(when, Object.keys(this.CONDITION_VALUES), path);
+    (Object.keys(this.CONDITION_VALUES) as Array<keyof PlayConditions>).forEach(key => {
+      const values = when[key];
+      if (values === undefined) {
+        return;
+      }
+      if (!Array.isArray(values) || values.length === 0) {
+        problems.push({ path: `${path}.${key}`, message: 'must be a non-empty array when set' });
+        return;
+      }
+      values.forEach((value, index) => {
+        problems.push(...this.checkEnum(value, this.CONDITION_VALUES[key], `${path}.${key}[${index}]`));
+      });
+    });
+    return problems;
+  }
+
+  private checkTemplates(templates: unknown, path: string): PlaybookProblem[] {
+    if (!this.isPlainObject(templates)) {
+      return [{ path, message: 'must be an object' }];
+    }
+
+    const problems = this.checkUnknownFields(templates, this.TEMPLATE_FIELDS, path);
+    this.TEMPLATE_FIELDS.forEach(key => {
+      const template = templates[key];
+      if (template === undefined) {
+        return;
+      }
+      if (!this.isNonEmptyString(template) || template.length > this.MAX_TEMPLATE_LENGTH) {
+        problems.push({
+          path: `${path}.${key}`,
+          message: `must be a non-empty string of at most ${this.MAX_TEMPLATE_LENGTH} characters`,
+        });
+        return;
+      }
+      const unknown = Array.from(template.matchAll(this.PLACEHOLDER_PATTERN))
+        .map(match => match[1])
+        .filter(placeholder => !this.PLACEHOLDERS.includes(placeholder));
+      if (unknown.length > 0) {
+        problems.push({
+          path: `${path}.${key}`,
+          message: `unknown placeholder ${unknown.map(name => `{${name}}`).join(', ')}; use ${this.PLACEHOLDERS.map(name => `{${name}}`).join(', ')}`,
+        });
+      }
+    });
+    return problems;
+  }
+
+  // A play without confidence conditions can be picked at Low confidence, so it may not ask for anything
+  private checkCallToActionCeiling(play: Fields, path: string): PlaybookProblem[] {
+    const level = play.callToActionLevel as CallToActionLevel;
+    if (!this.CTA_ORDER.includes(level)) {
+      return [];
+    }
+
+    const confidenceLevels = this.readConfidenceLevels(play.when) ?? Object.values(ConfidenceLevel);
+    const exceeded = confidenceLevels.find(confidence =>
+      this.CTA_ORDER.indexOf(level) > this.CTA_ORDER.indexOf(this.CTA_CEILING[confidence])
+    );
+    return exceeded
+      ? [{
+          path: `${path}.callToActionLevel`,
+          message: `${level} exceeds ${this.CTA_CEILING[exceeded]}, the most ${exceeded} confidence allows`,
+        }]
+      : [];
+  }
+
+  private checkCoverage(plays: unknown[]): PlaybookProblem[] {
+    const unconditional = plays
+      .filter((play): play is Fields => this.isPlainObject(play))
+      .filter(play => !this.isPlainObject(play.when)
+        || (play.when.companySizes === undefined && play.when.seniorities === undefined && play.when.jobFunctions === undefined));
+
+    return Object.values(ConfidenceLevel)
+      .filter(confidence => !unconditional.some(play =>
+        (this.readConfidenceLevels(play.when) ?? [confidence]).includes(confidence)
+      ))
+      .map(confidence => ({
+        path: 'plays',
+        message: `no play covers ${confidence} confidence without companySizes, seniorities or jobFunctions conditions`,
+      }));
+  }
+
+  private readConfidenceLevels(when: unknown): ConfidenceLevel[] | undefined {
+    if (!this.isPlainObject(when) || !Array.isArray(when.confidenceLevels)) {
+      return undefined;
+    }
+    return when.confidenceLevels.filter((value): value is ConfidenceLevel =>
+      (Object.values(ConfidenceLevel) as unknown[]).includes(value)
+    );
+  }
+
+  private checkName(name: unknown, path: string): PlaybookProblem[] {
+    if (typeof name !== 'string' || !this.NAME_PATTERN.test(name) || name.length > this.MAX_NAME_LENGTH) {
+      return [{
+        path,
+        message: `must be lowercase letters, digits, "-" or "_", starting with a letter, at most ${this.MAX_NAME_LENGTH} characters`,
+      }];
+    }
+    return [];
+  }
+
+  private checkEnum(value: unknown, allowed: string[], path: string): PlaybookProblem[] {
+    return typeof value === 'string' && allowed.includes(value)
+      ? []
+      : [{ path, message: `must be one of ${allowed.join(', ')}` }];
+  }
+
+  private checkUnknownFields(value: Fields, allowed: string[], path: string): PlaybookProblem[] {
+    return Object.keys(value)
+      .filter(key => !allowed.includes(key))
+      .map(key => ({ path: path ? `${path}.${key}` : key, message: 'unknown field' }));
+  }
+
+  private isNonEmptyString(value: unknown): value is string {
+    return typeof value === 'string' && value.trim().length > 0;
+  }
+
+  private isPlainObject(value: unknown): value is Fields {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
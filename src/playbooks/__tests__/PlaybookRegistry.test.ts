@@ -0,0 +1,314 @@
+/**
+ * Tests for loading and validating strategy playbooks, and selecting them per request or campaign
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PlaybookRegistry } from '../PlaybookRegistry';
+import { StrategySelector } from '../../strategy-selector';
+import {
+  IntentDrivenOutreachAgent,
+  AgentUtils,
+  CallToActionLevel,
+  CompanySize,
+  ConfidenceLevel,
+  IntentSignal,
+  JobFunction,
+  Playbook,
+  Seniority,
+  SignalType,
+  StrategyType,
+} from '../../index';
+
+const securityPlaybook = (): Playbook => ({
+  name: 'enterprise-security',
+  plays: [
+    {
+      name: 'security_leaders',
+      when: { confidenceLevels: [ConfidenceLevel.HIGH], jobFunctions: [JobFunction.SECURITY] },
+      type: StrategyType.INSIGHT_LED_OBSERVATION,
+      toneGuidelines: ['Measured and specific'],
+      contentFocus: 'Risk reduction tied to the prospect\'s signals',
+      callToActionLevel: CallToActionLevel.SOFT,
+      templates: {
+        relevance: 'Teams like yours at {company} often revisit {remit} after moments like this.',
+        callToAction: 'Would a short comparison of how other {industry} teams handle this be useful, {firstName}?',
+      },
+    },
+    {
+      name: 'fallback',
+      type: StrategyType.SOFT_CURIOSITY,
+      toneGuidelines: ['Curious and low-key'],
+      contentFocus: 'Open questions about the prospect\'s priorities',
+      callToActionLevel: CallToActionLevel.NONE,
+    },
+  ],
+});
+
+describe('PlaybookRegistry', () => {
+  it('should hold the default playbook with one play per confidence level', () => {
+    const selector = new StrategySelector();
+
+    expect(new PlaybookRegistry().list().map(playbook => playbook.name)).toEqual(['default']);
+    expect(selector.selectStrategy(ConfidenceLevel.HIGH)).toMatchObject({
+      type: StrategyType.DIRECT_VALUE_ALIGNMENT,
+      callToActionLevel: CallToActionLevel.DIRECT,
+    });
+    expect(selector.selectStrategy(ConfidenceLevel.MEDIUM).type).toBe(StrategyType.INSIGHT_LED_OBSERVATION);
+    expect(selector.selectStrategy(ConfidenceLevel.LOW).callToActionLevel).toBe(CallToActionLevel.NONE);
+  });
+
+  it('should pick the first play whose conditions match', () => {
+    const playbooks = new PlaybookRegistry();
+    playbooks.register(securityPlaybook());
+    const selector = new StrategySelector({}, playbooks);
+    const ciso = { seniority: Seniority.C_LEVEL, jobFunction: JobFunction.SECURITY };
+
+    expect(selector.selectStrategy(ConfidenceLevel.HIGH, undefined, ciso, 'enterprise-security').type)
+      .toBe(StrategyType.INSIGHT_LED_OBSERVATION);
+    expect(selector.selectStrategy(ConfidenceLevel.HIGH, undefined, undefined, 'enterprise-security').type)
+      .toBe(StrategyType.SOFT_CURIOSITY);
+    expect(selector.selectStrategy(ConfidenceLevel.MEDIUM, undefined, ciso, 'enterprise-security').type)
+      .toBe(StrategyType.SOFT_CURIOSITY);
+  });
+
+  it('should drop the CTA template when company size lowers the CTA', () => {
+    const playbook = securityPlaybook();
+    playbook.plays[0].callToActionLevel = CallToActionLevel.DIRECT;
+    const playbooks = new PlaybookRegistry();
+    playbooks.register(playbook);
+    const selector = new StrategySelector({}, playbooks);
+    const ciso = { seniority: Seniority.C_LEVEL, jobFunction: JobFunction.SECURITY };
+
+    const strategy = selector.selectStrategy(ConfidenceLevel.HIGH, CompanySize.ENTERPRISE, ciso, 'enterprise-security');
+
+    expect(strategy.callToActionLevel).toBe(CallToActionLevel.SOFT);
+    expect(strategy.templates?.callToAction).toBeUndefined();
+    expect(strategy.templates?.relevance).toBeDefined();
+  });
+
+  it('should not let callers change a registered playbook in place', () => {
+    const playbooks = new PlaybookRegistry();
+    const playbook = securityPlaybook();
+    playbooks.register(playbook);
+
+    playbook.plays[1].toneGuidelines.push('Changed');
+    playbooks.get('enterprise-security')!.plays[1].toneGuidelines.push('Changed');
+
+    expect(playbooks.get('enterprise-security')!.plays[1].toneGuidelines).toEqual(['Curious and low-key']);
+  });
+
+  it('should revert the default playbook to the built-in one when unregistered', () => {
+    const playbooks = new PlaybookRegistry();
+    playbooks.register({ ...securityPlaybook(), name: 'default' });
+
+    expect(playbooks.unregister('default')).toBe(true);
+    expect(playbooks.get('default')!.plays).toHaveLength(3);
+    expect(playbooks.unregister('default')).toBe(false);
+  });
+});
+
+describe('PlaybookSchema validation', () => {
+  it('should report each problem with its path', () => {
+    const playbooks = new PlaybookRegistry();
+    const invalid = {
+      name: 'Bad Name',
+      tone: 'friendly',
+      plays: [
+        {
+          name: 'low',
+          when: { confidenceLevels: ['Low'], regions: ['emea'] },
+          type: 'hard_sell',
+          toneGuidelines: ['Direct', ''],
+          contentFocus: 'Anything',
+          callToActionLevel: 'direct',
+          templates: { callToAction: 'Book time with {owner}' },
+        },
+      ],
+    };
+
+    expect(playbooks.validate(invalid)).toEqual(expect.arrayContaining([
+      { path: 'tone', message: 'unknown field' },
+      expect.objectContaining({ path: 'name' }),
+      { path: 'plays[0].when.regions', message: 'unknown field' },
+      expect.objectContaining({ path: 'plays[0].type' }),
+      { path: 'plays[0].toneGuidelines[1]', message: 'must be a non-empty string' },
+      { path: 'plays[0].callToActionLevel', message: 'direct exceeds none, the most Low confidence allows' },
+      expect.objectContaining({ path: 'plays[0].templates.callToAction', message: expect.stringContaining('{owner}') }),
+      { path: 'plays', message: 'no play covers High confidence without companySizes, seniorities or jobFunctions conditions' },
+      { path: 'plays', message: 'no play covers Medium confidence without companySizes, seniorities or jobFunctions conditions' },
+    ]));
+  });
+
+  it('should accept a valid playbook', () => {
+    expect(new PlaybookRegistry().validate(securityPlaybook())).toEqual([]);
+  });
+
+  it('should throw INVALID_PLAYBOOK and register nothing when a playbook is invalid', () => {
+    const playbooks = new PlaybookRegistry();
+    const playbook = securityPlaybook();
+    playbook.plays[1].callToActionLevel = CallToActionLevel.SOFT;
+
+    expect(() => playbooks.register(playbook)).toThrow(
+      'Invalid playbook "enterprise-security": plays[1].callToActionLevel: soft exceeds none, the most Low confidence allows'
+    );
+    try {
+      playbooks.register(playbook);
+    } catch (error) {
+      expect((error as Error).name).toBe('INVALID_PLAYBOOK');
+    }
+    expect(playbooks.has('enterprise-security')).toBe(false);
+  });
+
+  it('should reject duplicate play names', () => {
+    const playbook = securityPlaybook();
+    playbook.plays[1].name = 'security_leaders';
+
+    expect(new PlaybookRegistry().validate(playbook)).toContainEqual({
+      path: 'plays[1].name',
+      message: 'duplicate play name "security_leaders"',
+    });
+  });
+});
+
+describe('Loading playbooks from JSON', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'playbooks-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should load a playbook file', () => {
+    const path = join(directory, 'enterprise-security.json');
+    writeFileSync(path, JSON.stringify(securityPlaybook()));
+    const playbooks = new PlaybookRegistry();
+
+    const loaded = playbooks.loadFile(path);
+
+    expect(loaded.name).toBe('enterprise-security');
+    expect(playbooks.get('enterprise-security')).toEqual(securityPlaybook());
+  });
+
+  it('should name the file in errors', () => {
+    const path = join(directory, 'broken.json');
+    writeFileSync(path, JSON.stringify({ name: 'broken', plays: [] }));
+
+    expect(() => new PlaybookRegistry().loadFile(path)).toThrow(`Invalid ${path}: plays: must be a non-empty array`);
+  });
+
+  it('should fail on malformed JSON and missing files', () => {
+    const playbooks = new PlaybookRegistry();
+
+    expect(() => playbooks.loadJson('{ "name": ', 'inline')).toThrow(/^inline is not valid JSON/);
+    expect(() => playbooks.loadFile(join(directory, 'missing.json'))).toThrow(/^Cannot read/);
+  });
+});
+
+describe('Playbooks in the workflow', () => {
+  const prospect = (role: string, company: string) => AgentUtils.createProspectData(
+    'Dana Ortiz',
+    'dana.ortiz@example.com',
+    role,
+    company,
+    'Financial Services',
+    CompanySize.MEDIUM
+  );
+  const intentSignals: IntentSignal[] = [
+    AgentUtils.createIntentSignal(SignalType.FUNDING_EVENT, 'Raised $15M Series A funding to scale the platform team', 0.95, 'TechCrunch', 3),
+    AgentUtils.createIntentSignal(SignalType.COMPANY_GROWTH, 'Posted 12 new security engineering positions', 0.9, 'LinkedIn Jobs', 1),
+    AgentUtils.createIntentSignal(SignalType.TECHNOLOGY_ADOPTION, 'Mentioned a move to zero-trust networking', 0.85, 'Company Tech Blog', 5),
+  ];
+
+  it('should write from the named playbook\'s templates', async () => {
+    const agent = new IntentDrivenOutreachAgent({ playbooks: [securityPlaybook()] });
+
+    const result = await agent.processOutreachRequest(prospect('CISO', 'Northwind'), intentSignals, {
+      playbook: 'enterprise-security',
+    });
+
+    expect('code' in result).toBe(false);
+    if (!('code' in result)) {
+      expect(result.intentConfidence).toBe(ConfidenceLevel.HIGH);
+      expect(result.recommendedMessage).toContain('Teams like yours at Northwind often revisit the security organization you lead');
+      expect(result.recommendedMessage).toContain('how other Financial Services teams handle this be useful, Dana?');
+    }
+  });
+
+  it('should apply the batch playbook to items without their own', async () => {
+    const agent = new IntentDrivenOutreachAgent({ playbooks: [securityPlaybook()] });
+
+    const result = await agent.processBatch([
+      { id: 'campaign', prospectData: prospect('CISO', 'Northwind'), intentSignals },
+      { id: 'own', prospectData: prospect('CISO', 'Contoso'), intentSignals, options: { playbook: 'default' } },
+    ], { playbook: 'enterprise-security' });
+
+    expect('code' in result).toBe(false);
+    if (!('code' in result)) {
+      const campaign = result.results.campaign;
+      const own = result.results.own;
+      expect('code' in campaign || 'code' in own).toBe(false);
+      if (!('code' in campaign) && !('code' in own)) {
+        expect(campaign.recommendedMessage).toContain('Teams like yours at Northwind');
+        expect(own.recommendedMessage).not.toContain('Teams like yours');
+      }
+    }
+  });
+
+  it('should use the configured default playbook', async () => {
+    const agent = new IntentDrivenOutreachAgent({
+      playbooks: [securityPlaybook()],
+      defaultPlaybook: 'enterprise-security',
+    });
+
+    const result = await agent.processOutreachRequest(prospect('CISO', 'Northwind'), intentSignals);
+
+    expect('code' in result).toBe(false);
+    if (!('code' in result)) {
+      expect(result.recommendedMessage).toContain('Teams like yours at Northwind');
+    }
+  });
+
+  it('should reject an unknown playbook', async () => {
+    const agent = new IntentDrivenOutreachAgent();
+
+    const result = await agent.processOutreachRequest(prospect('CISO', 'Northwind'), intentSignals, { playbook: 'missing' });
+    const batch = await agent.processBatch([
+      { id: 'one', prospectData: prospect('CISO', 'Northwind'), intentSignals },
+    ], { playbook: 'missing' });
+
+    expect(result).toMatchObject({
+      code: 'UNKNOWN_PLAYBOOK',
+      step: 'input_validation',
+      context: { playbook: 'missing', available: ['default'] },
+    });
+    expect(batch).toMatchObject({ code: 'UNKNOWN_PLAYBOOK' });
+  });
+
+  it('should reject a default playbook that is not registered', () => {
+    expect(() => new IntentDrivenOutreachAgent({ defaultPlaybook: 'missing' }))
+      .toThrow(expect.objectContaining({ name: 'INVALID_PLAYBOOK', message: expect.stringContaining('"missing"') }));
+
+    const agent = new IntentDrivenOutreachAgent({ playbooks: [securityPlaybook()] });
+    expect(() => agent.updateConfig({ defaultPlaybook: 'missing' })).toThrow(/not a registered playbook/);
+    agent.updateConfig({ defaultPlaybook: 'enterprise-security' });
+    expect(() => agent.updateConfig({ playbooks: [] })).toThrow(/"enterprise-security"/);
+    expect(agent.getConfig().defaultPlaybook).toBe('enterprise-security');
+    expect(agent.getPlaybooks().has('enterprise-security')).toBe(true);
+
+    agent.updateConfig({ playbooks: [], defaultPlaybook: 'default' });
+    expect(agent.getPlaybooks().has('enterprise-security')).toBe(false);
+  });
+
+  it('should fail fast on an invalid configured playbook', () => {
+    const playbook = securityPlaybook();
+    playbook.plays = [playbook.plays[0]];
+
+    expect(() => new IntentDrivenOutreachAgent({ playbooks: [playbook] }))
+      .toThrow(/plays: no play covers Low confidence/);
+  });
+});
@@ -0,0 +1,6 @@
+/**
+ * Playbooks module exports
+ */
+
+export { PlaybookRegistry } from './PlaybookRegistry';
+export { PlaybookSchema } from './PlaybookSchema';
@@ -9,6 +9,13 @@
  * 5. Strategy Selection
  * 6. Message Generation
  * 7. Authenticity & Spam Self-Evaluation + Output Assembly
+ *
+ * Context ingestion runs between validation and signal interpretation when the prospect has
+ * recent events or additional context; the audit log records which items it used.
+ * Persona classification runs before strategy selection, so tone suits the prospect's seniority.
+ *
+ * Optional steps run before output assembly: follow-up sequence generation when requested,
+ * channel formatting for non-email channels, and subject generation for channels with subjects.
  * 
  * Requirements: 9.1, 9.2, 9.3, 9.4, 9.5
  */
@@ -23,6 +30,11 @@ import {
   IMessageGenerator,
   IAuthenticityFilter,
   IOutputAssembler,
+  ISequenceGenerator,
+  IChannelFormatter,
+  IMessageReviser,
+  IContextIngestor,
+  IPersonaClassifier,
 } from '../interfaces';
 import {
   ProspectData,
@@ -36,12 +48,36 @@ import {
   ConfidenceLevel,
   MessageStrategy,
   AuthenticityResult,
+  AuthenticityIssue,
+  SenderProfile,
+  OutreachRequestOptions,
+  FollowUpTouch,
+  SubjectLines,
+  OutreachChannel,
+  ExecutionLimits,
 } from '../types';
+import { SYSTEM_CONSTANTS } from '../constants';
+import { randomUUID } from 'crypto';
+import { SequenceGenerator } from '../sequence-generator';
+import { ChannelFormatter } from '../channel-formatter';
+import { MessageReviser } from '../message-reviser';
+import { ContextIngestor } from '../context-ingestor';
+import { PersonaClassifier } from '../persona-classifier';
+import { toOutreachRequestOptions } from '../utils';
 
 export class ReasoningAgent implements IReasoningAgent {
-  private auditLog: AuditLogEntry[] = [];
-  private readonly MAX_REVISION_ATTEMPTS = 3;
+  // Finished runs' audit logs by run id, oldest first; each run logs into its own context
+  private completedRuns = new Map<string, AuditLogEntry[]>();
+  private lastCompletedRunId: string | null = null;
+  private readonly MAX_RETAINED_RUNS = 100;
+  private readonly DEFAULT_MAX_REVISION_ATTEMPTS = 3;
   private readonly WORKFLOW_VERSION = '1.0.0';
+  // Stand-ins for subjects that fail the subject rules; they name nothing from the request, so they always pass
+  private readonly FALLBACK_SUBJECTS: [string, string, string] = [
+    'A short note',
+    'A thought for your team',
+    'A question about your priorities',
+  ];
 
   constructor(
     private inputValidator: IInputValidator,
@@ -51,7 +87,12 @@ export class ReasoningAgent implements IReasoningAgent {
     private strategySelector: IStrategySelector,
     private messageGenerator: IMessageGenerator,
     private authenticityFilter: IAuthenticityFilter,
-    private outputAssembler: IOutputAssembler
+    private outputAssembler: IOutputAssembler,
+    private sequenceGenerator: ISequenceGenerator = new SequenceGenerator(strategySelector, authenticityFilter),
+    private channelFormatter: IChannelFormatter = new ChannelFormatter(),
+    private messageReviser: IMessageReviser = new MessageReviser(),
+    private contextIngestor: IContextIngestor = new ContextIngestor(),
+    private personaClassifier: IPersonaClassifier = new PersonaClassifier()
   ) {}
 
   /**
@@ -60,16 +101,35 @@ export class ReasoningAgent implements IReasoningAgent {
    */
   async processOutreachRequest(
     prospectData: ProspectData,
-    intentSignals: IntentSignal[]
+    intentSignals: IntentSignal[],
+    options?: OutreachRequestOptions,
+    limits?: ExecutionLimits
+  ): Promise<StructuredOutput | ProcessingError>;
+  /**
+   * @deprecated Pass the sender profile as `{ senderProfile }` in the request options
+   */
+  async processOutreachRequest(
+    prospectData: ProspectData,
+    intentSignals: IntentSignal[],
+    senderProfile?: SenderProfile
+  ): Promise<StructuredOutput | ProcessingError>;
+  async processOutreachRequest(
+    prospectData: ProspectData,
+    intentSignals: IntentSignal[],
+    optionsOrSenderProfile?: OutreachRequestOptions | SenderProfile,
+    limits: ExecutionLimits = {}
   ): Promise<StructuredOutput | ProcessingError> {
-    const startTime = Date.now();
-    this.clearAuditLog();
+    const options = toOutreachRequestOptions(optionsOrSenderProfile);
+    const context = this.createExecutionContext(options.signal, limits);
+    const { senderProfile } = options;
+    const channel = options.channel ?? OutreachChannel.EMAIL;
 
     try {
       // Step 1: Input Validation (Requirement 9.1, 9.2)
       const validationResult = await this.executeStep(
+        context,
         'input_validation',
-        () => this.inputValidator.validateInput(prospectData, intentSignals)
+        () => this.inputValidator.validateInput(prospectData, intentSignals, senderProfile, channel)
       );
 
       if (!validationResult.isValid) {
@@ -77,66 +137,154 @@ export class ReasoningAgent implements IReasoningAgent {
           'VALIDATION_FAILED',
           'Input validation failed',
           'input_validation',
-          { errors: validationResult.errors, warnings: validationResult.warnings }
+          { runId: context.runId, errors: validationResult.errors, warnings: validationResult.warnings }
+        );
+      }
+
+      // Recent company events join the signals as unverified context
+      let signalsToInterpret = intentSignals;
+      if (this.hasProspectContext(prospectData)) {
+        const contextSignals = await this.executeStep(
+          context,
+          'context_ingestion',
+          () => this.contextIngestor.ingestRecentEvents(prospectData),
+          ingested => ({
+            recentEvents: ingested.map(signal => signal.description),
+            personalizationHooks: this.contextIngestor.getPersonalizationHooks(prospectData).map(hook => hook.key),
+          })
         );
+        signalsToInterpret = [...intentSignals, ...contextSignals];
       }
 
       // Step 2: Signal Interpretation (Requirement 9.1, 9.2)
       const weightedSignals = await this.executeStep(
+        context,
         'signal_interpretation',
-        () => this.signalInterpreter.interpretSignals(intentSignals)
+        () => this.signalInterpreter.interpretSignals(signalsToInterpret, prospectData.companyContext?.industry)
       );
 
       // Step 3: Hypothesis Formation (Requirement 9.1, 9.2)
       const hypothesis = await this.executeStep(
+        context,
         'hypothesis_formation',
         () => this.hypothesisFormer.formHypothesis(weightedSignals)
       );
 
+      // A disqualifying signal stops the run instead of producing a softer message
+      if (hypothesis.disqualifiers && hypothesis.disqualifiers.length > 0) {
+        return this.createProcessingError(
+          'DO_NOT_CONTACT',
+          `Outreach blocked: ${hypothesis.disqualifiers[0]}`,
+          'hypothesis_formation',
+          { runId: context.runId, disqualifiers: hypothesis.disqualifiers, counterEvidence: hypothesis.counterEvidence ?? [] }
+        );
+      }
+
       // Step 4: Confidence Scoring (Requirement 9.1, 9.2)
       const confidence = await this.executeStep(
+        context,
         'confidence_scoring',
         () => this.confidenceScorer.scoreConfidence(hypothesis, weightedSignals)
       );
 
+      // The prospect's seniority and function, for tone and for routing the output
+      const persona = await this.executeStep(
+        context,
+        'persona_classification',
+        () => this.personaClassifier.classify(prospectData.role),
+        classified => ({ seniority: classified.seniority, jobFunction: classified.jobFunction })
+      );
+
       // Step 5: Strategy Selection (Requirement 9.1, 9.2)
       const strategy = await this.executeStep(
+        context,
         'strategy_selection',
-        () => this.strategySelector.selectStrategy(confidence)
+        () => this.strategySelector.selectStrategy(confidence, prospectData.companyContext.size, persona, options.playbook),
+        selected => ({
+          playbook: options.playbook ?? SYSTEM_CONSTANTS.DEFAULT_PLAYBOOK,
+          type: selected.type,
+          callToActionLevel: selected.callToActionLevel,
+        })
       );
+      const followUpTiming = strategy.followUpTiming ?? this.outputAssembler.suggestFollowUpTiming(confidence);
 
       // Step 6: Message Generation (Requirement 9.1, 9.2)
       const message = await this.executeStep(
+        context,
         'message_generation',
-        () => this.messageGenerator.generateMessage(strategy, hypothesis, prospectData)
+        signal => this.messageGenerator.generateMessage(strategy, hypothesis, prospectData, senderProfile, 0, signal)
       );
 
       // Step 7: Authenticity & Spam Self-Evaluation + Output Assembly (Requirement 9.1, 9.2)
       const finalMessage = await this.executeStep(
+        context,
         'authenticity_filtering',
-        () => this.processMessageWithAuthenticity(message, confidence, strategy, hypothesis, prospectData)
+        () => this.processMessageWithAuthenticity(context, message, confidence)
       );
 
       // Generate alternative messages
       const alternatives = await this.executeStep(
+        context,
         'alternative_generation',
-        () => this.outputAssembler.generateAlternativeMessages(strategy, hypothesis, prospectData, confidence)
+        signal => this.outputAssembler.generateAlternativeMessages(strategy, hypothesis, prospectData, confidence, senderProfile, signal)
       );
 
+      // Generate follow-up touches when sequence mode is requested
+      let followUpSequence: FollowUpTouch[] | undefined;
+      const sequenceOptions = options.sequence;
+      if (sequenceOptions) {
+        followUpSequence = await this.executeStep(
+          context,
+          'sequence_generation',
+          () => this.sequenceGenerator.generateSequence(
+            finalMessage,
+            hypothesis,
+            prospectData,
+            confidence,
+            followUpTiming,
+            sequenceOptions,
+            senderProfile,
+            strategy.callToActionLevel
+          ),
+          touches => ({ maxTouches: sequenceOptions.maxTouches, touches: touches.length })
+        );
+      }
+
+      // Apply channel rules to every message variant
+      let messages: ChannelMessages = { message: finalMessage, alternatives, followUpSequence };
+      if (channel !== OutreachChannel.EMAIL) {
+        messages = await this.executeStep(
+          context,
+          'channel_formatting',
+          () => this.formatForChannel(messages, channel, senderProfile)
+        );
+      }
+
+      // Generate subject lines for the recommended and alternative messages
+      let subjects: SubjectLines | undefined;
+      if (this.channelFormatter.supportsSubject(channel)) {
+        subjects = await this.executeStep(
+          context,
+          'subject_generation',
+          () => this.generateCheckedSubjectLines(context, strategy, hypothesis, prospectData)
+        );
+      }
+
       // Assemble final output
       const output = await this.executeStep(
+        context,
         'output_assembly',
         () => {
-          const executionTime = Date.now() - startTime;
-          const metadata = this.createProcessingMetadata(executionTime);
+          const metadata = this.createProcessingMetadata(context);
           const reasoningSummary = this.generateReasoningSummary(hypothesis, confidence);
           
           return this.outputAssembler.assembleOutput(
-            finalMessage,
+            messages.message,
             confidence,
             reasoningSummary,
-            alternatives,
-            metadata
+            messages.alternatives,
+            metadata,
+            { channel, subjects, followUpSequence: messages.followUpSequence, persona, followUpTiming }
           );
         }
       );
@@ -145,83 +293,278 @@ export class ReasoningAgent implements IReasoningAgent {
 
     } catch (error) {
       // Requirement 9.4: Halt processing and return error on step failure
-      return this.handleWorkflowError(error, startTime);
+      return this.handleWorkflowError(error, context);
+    } finally {
+      this.retainRun(context);
     }
   }
 
   /**
-   * Executes a workflow step with audit logging and error handling
+   * Creates the state for a single run, so overlapping requests never share an audit log
+   */
+  private createExecutionContext(signal: AbortSignal | undefined, limits: ExecutionLimits): ExecutionContext {
+    const startTime = Date.now();
+    const { totalTimeoutMs, stepTimeouts = {}, maxRevisionAttempts } = limits;
+
+    return {
+      runId: randomUUID(),
+      startTime,
+      auditLog: [],
+      stepTimings: {},
+      signal,
+      totalTimeoutMs: this.isPositiveNumber(totalTimeoutMs) ? totalTimeoutMs : null,
+      stepTimeouts: Object.fromEntries(
+        Object.entries(stepTimeouts).filter(([, budget]) => this.isPositiveNumber(budget))
+      ),
+      // 0 is a valid setting and turns revision off
+      maxRevisionAttempts: typeof maxRevisionAttempts === 'number' && Number.isFinite(maxRevisionAttempts) && maxRevisionAttempts >= 0
+        ? Math.floor(maxRevisionAttempts)
+        : this.DEFAULT_MAX_REVISION_ATTEMPTS,
+    };
+  }
+
+  /**
+   * Executes a workflow step with audit logging, error handling, cancellation and time budgets.
+   * The step receives an AbortSignal that fires when the caller cancels or the step runs out of time;
+   * a step that overruns synchronously is failed as soon as it returns.
+   * `describeResult` adds details about the step's result to its completion entry.
    * Requirements: 9.2, 9.3, 9.4
    */
   private async executeStep<T>(
+    context: ExecutionContext,
     stepName: string,
-    stepFunction: () => T | Promise<T>
+    stepFunction: (signal: AbortSignal) => T | Promise<T>,
+    describeResult?: (result: T) => Record<string, unknown>
   ): Promise<T> {
-    this.logStepStart(stepName);
+    const stepStart = Date.now();
+    this.logStepStart(context, stepName);
 
     try {
-      const result = await stepFunction();
-      this.logStepComplete(stepName, { success: true });
+      const budget = this.resolveStepBudget(context, stepName);
+      const result = await this.runWithinBudget(context, stepName, stepFunction, budget);
+      const elapsed = Date.now() - stepStart;
+      context.stepTimings[stepName] = elapsed;
+
+      if (budget && elapsed > budget.ms) {
+        throw this.createTimeoutError(context, stepName, budget);
+      }
+
+      this.logStepComplete(context, stepName, { success: true, ...describeResult?.(result) });
       return result;
     } catch (error) {
-      this.logStepFailed(stepName, error);
+      context.stepTimings[stepName] = Date.now() - stepStart;
+      this.logStepFailed(context, stepName, error);
       throw error; // Re-throw to trigger workflow halt (Requirement 9.4)
     }
   }
 
   /**
-   * Processes message through authenticity filter with revision attempts
+   * Runs a step, rejecting early if the caller cancels or the budget runs out before it settles
+   */
+  private runWithinBudget<T>(
+    context: ExecutionContext,
+    stepName: string,
+    stepFunction: (signal: AbortSignal) => T | Promise<T>,
+    budget: StepBudget | null
+  ): Promise<T> {
+    const { signal } = context;
+    if (signal?.aborted) {
+      return Promise.reject(this.createCancellationError(stepName));
+    }
+    if (budget && budget.ms <= 0) {
+      return Promise.reject(this.createTimeoutError(context, stepName, budget));
+    }
+
+    const stepController = new AbortController();
+
+    return new Promise<T>((resolve, reject) => {
+      const fail = (error: Error) => {
+        stepController.abort(error);
+        reject(error);
+      };
+      const onCancel = () => fail(this.createCancellationError(stepName));
+      const timer = budget
+        ? setTimeout(() => fail(this.createTimeoutError(context, stepName, budget)), budget.ms)
+        : undefined;
+      signal?.addEventListener('abort', onCancel, { once: true });
+
+      Promise.resolve()
+        .then(() => stepFunction(stepController.signal))
+        .then(resolve, reject)
+        .finally(() => {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', onCancel);
+        });
+    });
+  }
+
+  /**
+   * Picks the tighter of the step's own budget and what is left of the run's budget
+   */
+  private resolveStepBudget(context: ExecutionContext, stepName: string): StepBudget | null {
+    const stepBudget = context.stepTimeouts[stepName];
+    const remaining = context.totalTimeoutMs === null
+      ? undefined
+      : context.totalTimeoutMs - (Date.now() - context.startTime);
+
+    if (remaining !== undefined && (stepBudget === undefined || remaining <= stepBudget)) {
+      return { ms: remaining, scope: 'total' };
+    }
+    return stepBudget !== undefined ? { ms: stepBudget, scope: 'step' } : null;
+  }
+
+  private hasProspectContext(prospectData: ProspectData): boolean {
+    const { recentEvents } = prospectData.companyContext;
+    return (Array.isArray(recentEvents) && recentEvents.length > 0) || prospectData.additionalContext !== undefined;
+  }
+
+  private isPositiveNumber(value: number | undefined): value is number {
+    return typeof value === 'number' && Number.isFinite(value) && value > 0;
+  }
+
+  private createTimeoutError(context: ExecutionContext, stepName: string, budget: StepBudget): Error {
+    const message = budget.scope === 'step'
+      ? `Step "${stepName}" exceeded its ${context.stepTimeouts[stepName]}ms time budget`
+      : `Processing exceeded the ${context.totalTimeoutMs}ms timeout during step "${stepName}"`;
+    const error = new Error(message);
+    error.name = 'PROCESSING_TIMEOUT';
+    return error;
+  }
+
+  private createCancellationError(stepName: string): Error {
+    const error = new Error(`Processing was cancelled during step "${stepName}"`);
+    error.name = 'PROCESSING_CANCELLED';
+    return error;
+  }
+
+  /**
+   * Processes message through authenticity filter with issue-driven revision attempts.
+   * Each attempt rewrites what the flagged issues point at, is re-scored, and is kept
+   * only if the score does not drop; every attempt's score and issue delta is audit logged.
    * Requirements: 7.4 (revision trigger mechanism)
    */
-  private async processMessageWithAuthenticity(
+  private processMessageWithAuthenticity(
+    context: ExecutionContext,
     message: string,
-    confidence: ConfidenceLevel,
-    strategy: MessageStrategy,
-    hypothesis: IntentHypothesis,
-    prospectData: ProspectData
-  ): Promise<string> {
+    confidence: ConfidenceLevel
+  ): string {
     let currentMessage = message;
+    let currentResult = this.authenticityFilter.evaluateAuthenticity(currentMessage, confidence);
     let revisionAttempts = 0;
 
-    while (revisionAttempts < this.MAX_REVISION_ATTEMPTS) {
-      const authenticityResult = this.authenticityFilter.evaluateAuthenticity(
-        currentMessage,
-        confidence
-      );
+    while (!this.passesAuthenticity(currentResult) && revisionAttempts < context.maxRevisionAttempts) {
+      revisionAttempts++;
+      const stepName = `authenticity_revision_${revisionAttempts}`;
+      this.logStepStart(context, stepName);
 
-      if (authenticityResult.isAuthentic && !authenticityResult.revisionRequired) {
-        return currentMessage;
-      }
-
-      // If revision is required and we haven't exceeded max attempts
-      if (authenticityResult.revisionRequired && revisionAttempts < this.MAX_REVISION_ATTEMPTS - 1) {
-        revisionAttempts++;
-        this.logStepStart(`authenticity_revision_${revisionAttempts}`);
-        
-        // Generate a new message with slight variations to address authenticity issues
-        currentMessage = this.messageGenerator.generateMessage(strategy, hypothesis, prospectData);
-        
-        this.logStepComplete(`authenticity_revision_${revisionAttempts}`, {
+      const revision = this.messageReviser.reviseMessage(currentMessage, currentResult.issues, confidence);
+      if (revision.appliedFixes.length === 0) {
+        // Nothing left that a targeted rewrite can address
+        this.logStepComplete(context, stepName, {
           attempt: revisionAttempts,
-          issues: authenticityResult.issues.length
+          score: currentResult.score,
+          appliedFixes: [],
         });
-      } else {
-        // Max attempts reached or other issue
         break;
       }
+
+      const revisedResult = this.authenticityFilter.evaluateAuthenticity(revision.message, confidence);
+      const accepted = revisedResult.score >= currentResult.score;
+      this.logStepComplete(context, stepName, {
+        attempt: revisionAttempts,
+        scoreBefore: currentResult.score,
+        scoreAfter: revisedResult.score,
+        appliedFixes: revision.appliedFixes,
+        ...this.diffIssues(currentResult.issues, revisedResult.issues),
+        accepted,
+      });
+
+      if (!accepted) {
+        break;
+      }
+      currentMessage = revision.message;
+      currentResult = revisedResult;
     }
 
-    // If we still have authenticity issues after max attempts, log but continue
-    if (revisionAttempts >= this.MAX_REVISION_ATTEMPTS) {
-      this.logStepComplete('authenticity_filtering', {
-        maxAttemptsReached: true,
-        finalScore: this.authenticityFilter.evaluateAuthenticity(currentMessage, confidence).score
+    // If we still have authenticity issues after revising, log but continue
+    if (!this.passesAuthenticity(currentResult)) {
+      this.logStepComplete(context, 'authenticity_filtering', {
+        maxAttemptsReached: revisionAttempts >= context.maxRevisionAttempts,
+        finalScore: currentResult.score,
+        remainingIssues: currentResult.issues.map(issue => issue.description),
       });
     }
 
     return currentMessage;
   }
 
+  private passesAuthenticity(result: AuthenticityResult): boolean {
+    return result.isAuthentic && !result.revisionRequired;
+  }
+
+  /**
+   * Lists issues a revision resolved and any it introduced, by description
+   */
+  private diffIssues(
+    before: AuthenticityIssue[],
+    after: AuthenticityIssue[]
+  ): { resolvedIssues: string[]; introducedIssues: string[] } {
+    const beforeDescriptions = before.map(issue => issue.description);
+    const afterDescriptions = after.map(issue => issue.description);
+
+    return {
+      resolvedIssues: beforeDescriptions.filter(description => !afterDescriptions.includes(description)),
+      introducedIssues: afterDescriptions.filter(description => !beforeDescriptions.includes(description)),
+    };
+  }
+
+  /**
+   * Applies channel rules to the recommended message, alternatives and follow-up touches
+   */
+  private formatForChannel(
+    messages: ChannelMessages,
+    channel: OutreachChannel,
+    senderProfile?: SenderProfile
+  ): ChannelMessages {
+    const format = (text: string) => this.channelFormatter.formatMessage(text, channel, senderProfile);
+
+    return {
+      message: format(messages.message),
+      alternatives: [format(messages.alternatives[0]), format(messages.alternatives[1])],
+      followUpSequence: messages.followUpSequence?.map(touch => ({ ...touch, message: format(touch.message) })),
+    };
+  }
+
+  /**
+   * Generates subject lines and runs each through the subject rule set.
+   * Subjects are deterministic, so a failing one is replaced with a fallback rather than regenerated.
+   */
+  private generateCheckedSubjectLines(
+    context: ExecutionContext,
+    strategy: MessageStrategy,
+    hypothesis: IntentHypothesis,
+    prospectData: ProspectData
+  ): SubjectLines {
+    const subjects = this.messageGenerator.generateSubjectLines(strategy, hypothesis, prospectData);
+    const generated = [subjects.recommended, ...subjects.alternatives];
+
+    this.logStepStart(context, 'subject_authenticity');
+    const results = generated.map(subject => this.authenticityFilter.evaluateSubjectLine(subject));
+    this.logStepComplete(context, 'subject_authenticity', {
+      scores: results.map(result => result.score),
+      issues: results.flatMap(result => result.issues.map(issue => issue.description)),
+      replaced: generated.filter((_, index) => !results[index].isAuthentic),
+    });
+
+    if (results.every(result => result.isAuthentic)) {
+      return subjects;
+    }
+
+    const [recommended, alternative1, alternative2] = generated
+      .map((subject, index) => (results[index].isAuthentic ? subject : this.FALLBACK_SUBJECTS[index]));
+    return { recommended, alternatives: [alternative1, alternative2] };
+  }
+
   /**
    * Generates reasoning summary for output
    */
@@ -239,20 +582,22 @@ export class ReasoningAgent implements IReasoningAgent {
    * Creates processing metadata with audit log
    * Requirements: 9.3
    */
-  private createProcessingMetadata(executionTime: number): ProcessingMetadata {
+  private createProcessingMetadata(context: ExecutionContext): ProcessingMetadata {
     return {
-      workflowSteps: this.getExecutedSteps(),
-      executionTime,
-      auditLog: [...this.auditLog], // Create copy to prevent mutation
+      workflowSteps: this.getExecutedSteps(context),
+      executionTime: Date.now() - context.startTime,
+      auditLog: [...context.auditLog], // Create copy to prevent mutation
       version: this.WORKFLOW_VERSION,
+      runId: context.runId,
+      stepTimings: { ...context.stepTimings },
     };
   }
 
   /**
    * Gets list of executed workflow steps
    */
-  private getExecutedSteps(): string[] {
-    return this.auditLog
+  private getExecutedSteps(context: ExecutionContext): string[] {
+    return context.auditLog
       .filter(entry => entry.status === 'completed')
       .map(entry => entry.step)
       .filter((step, index, array) => array.indexOf(step) === index); // Remove duplicates
@@ -262,8 +607,8 @@ export class ReasoningAgent implements IReasoningAgent {
    * Logs the start of a workflow step
    * Requirements: 9.3
    */
-  private logStepStart(step: string): void {
-    this.auditLog.push({
+  private logStepStart(context: ExecutionContext, step: string): void {
+    context.auditLog.push({
       step,
       timestamp: new Date(),
       status: 'started',
@@ -274,8 +619,8 @@ export class ReasoningAgent implements IReasoningAgent {
    * Logs successful completion of a workflow step
    * Requirements: 9.3
    */
-  private logStepComplete(step: string, details?: Record<string, unknown>): void {
-    this.auditLog.push({
+  private logStepComplete(context: ExecutionContext, step: string, details?: Record<string, unknown>): void {
+    context.auditLog.push({
       step,
       timestamp: new Date(),
       status: 'completed',
@@ -287,8 +632,8 @@ export class ReasoningAgent implements IReasoningAgent {
    * Logs failure of a workflow step
    * Requirements: 9.3
    */
-  private logStepFailed(step: string, error: unknown): void {
-    this.auditLog.push({
+  private logStepFailed(context: ExecutionContext, step: string, error: unknown): void {
+    context.auditLog.push({
       step,
       timestamp: new Date(),
       status: 'failed',
@@ -300,11 +645,17 @@ export class ReasoningAgent implements IReasoningAgent {
   }
 
   /**
-   * Clears the audit log for a new processing request
+   * Keeps a finished run's audit log for lookup by run id, dropping the oldest beyond the limit
    * Requirements: 9.3
    */
-  private clearAuditLog(): void {
-    this.auditLog = [];
+  private retainRun(context: ExecutionContext): void {
+    this.completedRuns.set(context.runId, context.auditLog);
+    this.lastCompletedRunId = context.runId;
+
+    while (this.completedRuns.size > this.MAX_RETAINED_RUNS) {
+      const oldestRunId = this.completedRuns.keys().next().value as string;
+      this.completedRuns.delete(oldestRunId);
+    }
   }
 
   /**
@@ -330,9 +681,9 @@ export class ReasoningAgent implements IReasoningAgent {
    * Handles workflow errors and creates appropriate error responses
    * Requirements: 9.4
    */
-  private handleWorkflowError(error: unknown, startTime: number): ProcessingError {
-    const executionTime = Date.now() - startTime;
-    const failedStep = this.getLastFailedStep();
+  private handleWorkflowError(error: unknown, context: ExecutionContext): ProcessingError {
+    const executionTime = Date.now() - context.startTime;
+    const failedStep = this.getLastFailedStep(context);
     
     let errorMessage = 'Workflow execution failed';
     let errorCode = 'WORKFLOW_ERROR';
@@ -347,9 +698,10 @@ export class ReasoningAgent implements IReasoningAgent {
       message: errorMessage,
       step: failedStep || 'unknown',
       context: {
+        runId: context.runId,
         executionTime,
-        auditLog: this.auditLog,
-        totalSteps: this.auditLog.length,
+        auditLog: [...context.auditLog],
+        totalSteps: context.auditLog.length,
       },
       remediation: this.getRemediationSuggestion(errorCode),
     };
@@ -358,8 +710,8 @@ export class ReasoningAgent implements IReasoningAgent {
   /**
    * Gets the last failed step from audit log
    */
-  private getLastFailedStep(): string | undefined {
-    const failedEntries = this.auditLog.filter(entry => entry.status === 'failed');
+  private getLastFailedStep(context: ExecutionContext): string | undefined {
+    const failedEntries = context.auditLog.filter(entry => entry.status === 'failed');
     return failedEntries.length > 0 ? failedEntries[failedEntries.length - 1].step : undefined;
   }
 
@@ -369,13 +721,17 @@ export class ReasoningAgent implements IReasoningAgent {
   private getRemediationSuggestion(errorCode: string): string {
     const suggestions: Record<string, string> = {
       'VALIDATION_FAILED': 'Ensure all required fields are provided and intent signals meet minimum requirements',
+      'DO_NOT_CONTACT': 'Do not contact this prospect while the disqualifying signal applies; remove it only if it is wrong or outdated',
       'SIGNAL_INTERPRETATION_ERROR': 'Verify intent signals have valid timestamps and relevance scores',
       'HYPOTHESIS_FORMATION_ERROR': 'Check that weighted signals contain sufficient information for hypothesis formation',
       'CONFIDENCE_SCORING_ERROR': 'Ensure hypothesis and signals are properly formatted',
       'STRATEGY_SELECTION_ERROR': 'Verify confidence level is valid (High, Medium, or Low)',
+      'UNKNOWN_PLAYBOOK': 'Name a registered playbook, or omit playbook to use the default',
       'MESSAGE_GENERATION_ERROR': 'Check that strategy, hypothesis, and prospect data are complete',
       'AUTHENTICITY_FILTER_ERROR': 'Verify message content and confidence level are valid',
       'OUTPUT_ASSEMBLY_ERROR': 'Ensure all required components are available for output assembly',
+      'PROCESSING_TIMEOUT': 'Increase processingTimeout or the budget for the named step, or check the latency of the provider it calls',
+      'PROCESSING_CANCELLED': 'The caller aborted the request; resubmit it if the result is still needed',
       'WORKFLOW_ERROR': 'Review input data and try again, or contact support if the issue persists',
     };
 
@@ -383,11 +739,15 @@ export class ReasoningAgent implements IReasoningAgent {
   }
 
   /**
-   * Gets the current audit log (for testing and debugging)
+   * Gets the audit log of a finished run (for testing and debugging).
+   * Without a run id, returns the most recently finished run, which is only
+   * meaningful when requests do not overlap. Unknown or evicted runs return [].
    * Requirements: 9.3
    */
-  public getAuditLog(): AuditLogEntry[] {
-    return [...this.auditLog]; // Return copy to prevent external mutation
+  public getAuditLog(runId?: string): AuditLogEntry[] {
+    const id = runId ?? this.lastCompletedRunId;
+    const auditLog = id ? this.completedRuns.get(id) : undefined;
+    return auditLog ? [...auditLog] : []; // Return copy to prevent external mutation
   }
 
   /**
@@ -417,4 +777,26 @@ export class ReasoningAgent implements IReasoningAgent {
       // Note: We don't compare alternativeMessages as they may have intentional variation
     );
   }
-}
\ No newline at end of file
+}
+
+interface ExecutionContext {
+  runId: string;
+  startTime: number;
+  auditLog: AuditLogEntry[];
+  stepTimings: Record<string, number>; // milliseconds per step name
+  signal?: AbortSignal; // caller's cancellation signal
+  totalTimeoutMs: number | null;
+  stepTimeouts: Record<string, number>;
+  maxRevisionAttempts: number;
+}
+
+interface StepBudget {
+  ms: number;
+  scope: 'step' | 'total'; // which limit is the tighter one, for the timeout message
+}
+
+interface ChannelMessages {
+  message: string;
+  alternatives: [string, string];
+  followUpSequence?: FollowUpTouch[];
+}
@@ -11,8 +11,10 @@ import { HypothesisFormer } from '../../hypothesis-former/HypothesisFormer';
 import { ConfidenceScorer } from '../../confidence-scorer/ConfidenceScorer';
 import { StrategySelector } from '../../strategy-selector/StrategySelector';
 import { MessageGenerator } from '../../message-generator/MessageGenerator';
+import { LlmMessageGenerator } from '../../message-generator/LlmMessageGenerator';
 import { AuthenticityFilter } from '../../authenticity-filter/AuthenticityFilter';
 import { OutputAssembler } from '../../output-assembler/OutputAssembler';
+import { IAuthenticityFilter, ILlmProvider, IMessageReviser } from '../../interfaces';
 import {
   ProspectData,
   IntentSignal,
@@ -306,4 +308,342 @@ describe('ReasoningAgent Property Tests', () => {
       { numRuns: 10, timeout: 60000 } // Fewer runs due to double execution
     );
   });
+
+  /**
+   * Property 32: Concurrent Run Isolation
+   * For any set of overlapping requests, each run's audit log should contain only that run's steps
+   * Validates: Requirements 9.3
+   */
+  test('Property 32: Concurrent Run Isolation', async () => {
+    // Message generation yields for a random time so that runs interleave mid-workflow
+    const messageGenerator = new MessageGenerator();
+    const slowMessageGenerator = {
+      generateMessage: async (...args: Parameters<MessageGenerator['generateMessage']>) => {
+        await new Promise(resolve => setTimeout(resolve, Math.floor(Math.random() * 5)));
+        return messageGenerator.generateMessage(...args);
+      },
+      generateSubjectLines: messageGenerator.generateSubjectLines.bind(messageGenerator),
+    };
+    const concurrentAgent = new ReasoningAgent(
+      new InputValidator(),
+      new SignalInterpreter(),
+      new HypothesisFormer(),
+      new ConfidenceScorer(),
+      new StrategySelector(),
+      slowMessageGenerator,
+      new AuthenticityFilter(),
+      new OutputAssembler(messageGenerator)
+    );
+
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(
+          fc.tuple(prospectDataArb, fc.oneof(validIntentSignalsArb, fc.constant([] as IntentSignal[]))),
+          { minLength: 5, maxLength: 15 }
+        ),
+        async requests => {
+          const results = await Promise.all(
+            requests.map(([prospectData, intentSignals]) =>
+              concurrentAgent.processOutreachRequest(prospectData, intentSignals)
+            )
+          );
+
+          const runIds = results.map(result =>
+            'code' in result ? result.context?.runId as string : result.processingMetadata.runId as string
+          );
+          expect(new Set(runIds).size).toBe(results.length);
+
+          results.forEach((result, index) => {
+            const auditLog = concurrentAgent.getAuditLog(runIds[index]);
+            const startedSteps = auditLog.filter(entry => entry.status === 'started').map(entry => entry.step);
+
+            // Every run starts with validation exactly once and never sees another run's steps
+            expect(auditLog[0]).toMatchObject({ step: 'input_validation', status: 'started' });
+            expect(startedSteps.filter(step => step === 'input_validation')).toHaveLength(1);
+            expect(new Set(startedSteps).size).toBe(startedSteps.length);
+
+            if ('code' in result) {
+              expect(startedSteps).not.toContain('output_assembly');
+            } else {
+              // The log in the output is a snapshot taken during assembly
+              const snapshotSteps = result.processingMetadata.auditLog.map(entry => `${entry.step}:${entry.status}`);
+              const retainedSteps = auditLog.map(entry => `${entry.step}:${entry.status}`);
+              expect(retainedSteps.slice(0, snapshotSteps.length)).toEqual(snapshotSteps);
+              expect(retainedSteps[retainedSteps.length - 1]).toBe('output_assembly:completed');
+            }
+          });
+        }
+      ),
+      { numRuns: 10, timeout: 60000 }
+    );
+  });
+
+  describe('Execution Limits', () => {
+    const prospectData: ProspectData = {
+      role: 'VP of Engineering',
+      companyContext: { name: 'TechCorp', industry: 'Technology', size: CompanySize.MEDIUM },
+      contactDetails: { name: 'Sarah Chen', email: 'sarah@techcorp.com' },
+    };
+    const intentSignals: IntentSignal[] = [
+      {
+        type: SignalType.FUNDING_EVENT,
+        description: 'Raised $15M Series A funding round',
+        timestamp: new Date(),
+        relevanceScore: 0.9,
+        source: 'TechCrunch',
+      },
+      {
+        type: SignalType.COMPANY_GROWTH,
+        description: 'Posted 12 new engineering positions',
+        timestamp: new Date(),
+        relevanceScore: 0.8,
+        source: 'LinkedIn',
+      },
+    ];
+
+    function createAgentWithSlowMessages(delayMs: number): ReasoningAgent {
+      const messageGenerator = new MessageGenerator();
+      const slowMessageGenerator = {
+        generateMessage: async (...args: Parameters<MessageGenerator['generateMessage']>) => {
+          await new Promise(resolve => setTimeout(resolve, delayMs));
+          return messageGenerator.generateMessage(...args);
+        },
+        generateSubjectLines: messageGenerator.generateSubjectLines.bind(messageGenerator),
+      };
+
+      return new ReasoningAgent(
+        new InputValidator(),
+        new SignalInterpreter(),
+        new HypothesisFormer(),
+        new ConfidenceScorer(),
+        new StrategySelector(),
+        slowMessageGenerator,
+        new AuthenticityFilter(),
+        new OutputAssembler(messageGenerator)
+      );
+    }
+
+    function startedSteps(agent: ReasoningAgent, runId: string): string[] {
+      return agent.getAuditLog(runId).filter(entry => entry.status === 'started').map(entry => entry.step);
+    }
+
+    test('should fail with PROCESSING_TIMEOUT naming the step that overran its budget', async () => {
+      const agent = createAgentWithSlowMessages(200);
+
+      const result = await agent.processOutreachRequest(prospectData, intentSignals, {}, {
+        stepTimeouts: { message_generation: 20 },
+      });
+
+      expect('code' in result).toBe(true);
+      if ('code' in result) {
+        expect(result.code).toBe('PROCESSING_TIMEOUT');
+        expect(result.step).toBe('message_generation');
+        expect(result.message).toContain('20ms');
+        // The workflow stops at the step that overran
+        expect(startedSteps(agent, result.context?.runId as string)).not.toContain('authenticity_filtering');
+      }
+    });
+
+    test('should abort the provider request of a step that runs out of time', async () => {
+      const signals: AbortSignal[] = [];
+      // Settles only when its request is aborted, like an HTTP call the transport cancels
+      const hangingProvider: ILlmProvider = {
+        name: 'hanging',
+        complete: (_request, signal) => new Promise((_resolve, reject) => {
+          signals.push(signal as AbortSignal);
+          signal?.addEventListener('abort', () => reject(new Error('request aborted')), { once: true });
+        }),
+      };
+      const messageGenerator = new MessageGenerator();
+      const agent = new ReasoningAgent(
+        new InputValidator(),
+        new SignalInterpreter(),
+        new HypothesisFormer(),
+        new ConfidenceScorer(),
+        new StrategySelector(),
+        new LlmMessageGenerator(hangingProvider, messageGenerator),
+        new AuthenticityFilter(),
+        new OutputAssembler(messageGenerator)
+      );
+
+      const result = await agent.processOutreachRequest(prospectData, intentSignals, {}, {
+        stepTimeouts: { message_generation: 20 },
+      });
+
+      expect('code' in result && result.code).toBe('PROCESSING_TIMEOUT');
+      expect(signals).toHaveLength(1);
+      expect(signals[0].aborted).toBe(true);
+    });
+
+    test('should attribute a total timeout to the step that was running', async () => {
+      const agent = createAgentWithSlowMessages(200);
+
+      const result = await agent.processOutreachRequest(prospectData, intentSignals, {}, { totalTimeoutMs: 50 });
+
+      expect('code' in result).toBe(true);
+      if ('code' in result) {
+        expect(result.code).toBe('PROCESSING_TIMEOUT');
+        expect(result.step).toBe('message_generation');
+        expect(result.message).toContain('50ms timeout');
+      }
+    });
+
+    test('should complete within generous budgets', async () => {
+      const agent = createAgentWithSlowMessages(5);
+
+      const result = await agent.processOutreachRequest(prospectData, intentSignals, {}, {
+        totalTimeoutMs: 10000,
+        stepTimeouts: { message_generation: 5000 },
+      });
+
+      expect('code' in result).toBe(false);
+    });
+
+    test('should stop with PROCESSING_CANCELLED when the caller aborts', async () => {
+      const agent = createAgentWithSlowMessages(200);
+      const controller = new AbortController();
+
+      const pending = agent.processOutreachRequest(prospectData, intentSignals, { signal: controller.signal });
+      setTimeout(() => controller.abort(), 20);
+      const result = await pending;
+
+      expect('code' in result).toBe(true);
+      if ('code' in result) {
+        expect(result.code).toBe('PROCESSING_CANCELLED');
+        expect(result.step).toBe('message_generation');
+      }
+    });
+
+    test('should revise at most maxRevisionAttempts times', async () => {
+      const rejectingFilter: IAuthenticityFilter = {
+        evaluateAuthenticity: () => ({ isAuthentic: false, issues: [], revisionRequired: true, score: 40 }),
+        evaluateSubjectLine: () => ({ isAuthentic: true, issues: [], revisionRequired: false, score: 100 }),
+      };
+      // Always finds something to rewrite, so only the attempt limit stops the loop
+      const alwaysRevising: IMessageReviser = {
+        reviseMessage: message => ({ message: `${message} `, appliedFixes: ['rewrote a sentence'] }),
+      };
+      const messageGenerator = new MessageGenerator();
+      const agent = new ReasoningAgent(
+        new InputValidator(),
+        new SignalInterpreter(),
+        new HypothesisFormer(),
+        new ConfidenceScorer(),
+        new StrategySelector(),
+        messageGenerator,
+        rejectingFilter,
+        new OutputAssembler(messageGenerator),
+        undefined,
+        undefined,
+        alwaysRevising
+      );
+      const revisionCount = async (maxRevisionAttempts?: number) => {
+        const result = await agent.processOutreachRequest(prospectData, intentSignals, {}, { maxRevisionAttempts });
+        const runId = 'code' in result ? result.context?.runId as string : result.processingMetadata.runId as string;
+        return startedSteps(agent, runId).filter(step => step.startsWith('authenticity_revision_')).length;
+      };
+
+      expect(await revisionCount(0)).toBe(0);
+      expect(await revisionCount(1)).toBe(1);
+      expect(await revisionCount(3)).toBe(3);
+      expect(await revisionCount(5)).toBe(5);
+      expect(await revisionCount()).toBe(3);
+    });
+
+    test('should rewrite flagged phrases and record the score change for each revision', async () => {
+      const messageGenerator = new MessageGenerator();
+      const flaggedMessageGenerator = {
+        generateMessage: async () => 'Hi Sarah,\n\nPlease be advised that we saw the Series A. ' +
+          'Our amazing, incredible and fantastic platform could help.\n\nBest regards',
+        generateSubjectLines: messageGenerator.generateSubjectLines.bind(messageGenerator),
+      };
+      const agent = new ReasoningAgent(
+        new InputValidator(),
+        new SignalInterpreter(),
+        new HypothesisFormer(),
+        new ConfidenceScorer(),
+        new StrategySelector(),
+        flaggedMessageGenerator,
+        new AuthenticityFilter(),
+        new OutputAssembler(messageGenerator)
+      );
+
+      const result = await agent.processOutreachRequest(prospectData, intentSignals);
+
+      expect('code' in result).toBe(false);
+      if (!('code' in result)) {
+        expect(result.recommendedMessage).toBe('Hi Sarah,\n\nWe saw the Series A. Our platform could help.\n\nBest regards');
+        const revision = agent.getAuditLog(result.processingMetadata.runId)
+          .find(entry => entry.step === 'authenticity_revision_1' && entry.status === 'completed');
+        expect(revision?.details).toMatchObject({
+          attempt: 1,
+          appliedFixes: expect.arrayContaining(['dropped "Please be advised that"', 'dropped "amazing"']),
+          accepted: true,
+        });
+        expect(revision?.details?.scoreAfter).toBeGreaterThan(revision?.details?.scoreBefore as number);
+      }
+    });
+
+    test('should not start any step when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      const result = await reasoningAgent.processOutreachRequest(prospectData, intentSignals, { signal: controller.signal });
+
+      expect('code' in result).toBe(true);
+      if ('code' in result) {
+        expect(result.code).toBe('PROCESSING_CANCELLED');
+        expect(result.step).toBe('input_validation');
+      }
+    });
+  });
+
+  describe('Subject Rules', () => {
+    test('should replace subjects that fail the subject rules with fallbacks', async () => {
+      const messageGenerator = new MessageGenerator();
+      const authenticityFilter = new AuthenticityFilter();
+      const failingSubjects = {
+        generateMessage: messageGenerator.generateMessage.bind(messageGenerator),
+        generateSubjectLines: () => ({
+          recommended: 'Free audit for TECHCORP',
+          alternatives: ['An idea for TechCorp', 'Urgent: growth at TechCorp'] as [string, string],
+        }),
+      };
+      const agent = new ReasoningAgent(
+        new InputValidator(),
+        new SignalInterpreter(),
+        new HypothesisFormer(),
+        new ConfidenceScorer(),
+        new StrategySelector(),
+        failingSubjects,
+        authenticityFilter,
+        new OutputAssembler(messageGenerator)
+      );
+
+      const result = await agent.processOutreachRequest(
+        {
+          role: 'VP of Engineering',
+          companyContext: { name: 'TechCorp', industry: 'Technology', size: CompanySize.MEDIUM },
+          contactDetails: { name: 'Sarah Chen', email: 'sarah@techcorp.com' },
+        },
+        [
+          { type: SignalType.FUNDING_EVENT, description: 'Raised $15M Series A funding round', timestamp: new Date(), relevanceScore: 0.9, source: 'TechCrunch' },
+          { type: SignalType.COMPANY_GROWTH, description: 'Posted 12 new engineering positions', timestamp: new Date(), relevanceScore: 0.8, source: 'LinkedIn' },
+        ]
+      );
+
+      expect('code' in result).toBe(false);
+      if (!('code' in result)) {
+        expect(result.recommendedSubject).toBe('A short note');
+        expect(result.alternativeSubjects).toEqual(['An idea for TechCorp', 'A question about your priorities']);
+        [result.recommendedSubject as string, ...(result.alternativeSubjects ?? [])].forEach(subject => {
+          expect(authenticityFilter.evaluateSubjectLine(subject).isAuthentic).toBe(true);
+        });
+
+        const entries = agent.getAuditLog(result.processingMetadata.runId).filter(entry => entry.step === 'subject_authenticity');
+        expect(entries.map(entry => entry.status)).toEqual(['started', 'completed']);
+        expect(entries[1].details).toMatchObject({ replaced: ['Free audit for TECHCORP', 'Urgent: growth at TechCorp'] });
+      }
+    });
+  });
 });
\ No newline at end of file
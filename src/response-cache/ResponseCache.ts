@@ -0,0 +1,94 @@
+/**
+ * ResponseCache - Content-addressed cache for finished outreach results
+ *
+ * Implements the result cache with:
+ * - Keys derived from a canonical hash of the request, so field order never misses
+ * - A time-to-live per entry, checked on read
+ * - Least-recently-used eviction once maxEntries is reached
+ *
+ * Entries are cloned on the way in and out, so callers can never mutate a cached result.
+ */
+
+import { createHash } from 'crypto';
+import { CacheStats } from '../types';
+import { canonicalJson } from '../utils';
+
+export interface ResponseCacheOptions {
+  ttlMs: number;
+  maxEntries?: number; // default 500
+  now?: () => number; // clock, for tests
+}
+
+interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+  expiresAt: number;
+}
+
+export class ResponseCache<T> {
+  // Map iteration order is insertion order, so the first key is the least recently used
+  private readonly entries = new Map<string, CacheEntry<T>>();
+  private readonly maxEntries: number;
+  private readonly now: () => number;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(private options: ResponseCacheOptions) {
+    this.maxEntries = Math.max(1, Math.floor(options.maxEntries ?? 500));
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Hashes the parts of a request that determine its result
+   */
+  static createKey(...parts: unknown[]): string {
+    return createHash('sha256').update(canonicalJson(parts)).digest('hex');
+  }
+
+  get(key: string): { value: T; storedAt: Date } | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= this.now()) {
+      if (entry) {
+        this.entries.delete(key);
+      }
+      this.misses++;
+      return undefined;
+    }
+
+    // Re-insert to mark the entry as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return { value: structuredClone(entry.value), storedAt: new Date(entry.storedAt) };
+  }
+
+  set(key: string, value: T): void {
+    const now = this.now();
+    this.entries.delete(key);
+    this.entries.set(key, { value: structuredClone(value), storedAt: now, expiresAt: now + this.options.ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const leastRecentKey = this.entries.keys().next().value as string;
+      this.entries.delete(leastRecentKey);
+      this.evictions++;
+    }
+  }
+
+  /**
+   * Drops every entry, e.g. after a configuration change
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  getStats(): CacheStats {
+    return {
+      size: this.entries.size,
+      maxEntries: this.maxEntries,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+    };
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * Tests for the response cache and its use by IntentDrivenOutreachAgent
+ */
+
+import { ResponseCache } from '../ResponseCache';
+import {
+  IntentDrivenOutreachAgent,
+  AgentUtils,
+  CompanySize,
+  SignalType,
+  StructuredOutput,
+  ProcessingError,
+} from '../../index';
+
+describe('ResponseCache', () => {
+  it('should derive the same key regardless of object key order', () => {
+    const timestamp = new Date('2026-01-15T00:00:00.000Z');
+
+    const first = ResponseCache.createKey(1, { role: 'CTO', company: { name: 'Acme', size: 'small' } }, [{ timestamp }]);
+    const second = ResponseCache.createKey(1, { company: { size: 'small', name: 'Acme' }, role: 'CTO' }, [{ timestamp }]);
+    const otherVersion = ResponseCache.createKey(2, { role: 'CTO', company: { name: 'Acme', size: 'small' } }, [{ timestamp }]);
+    const otherTime = ResponseCache.createKey(1, { role: 'CTO', company: { name: 'Acme', size: 'small' } }, [{ timestamp: new Date('2026-01-16') }]);
+
+    expect(first).toBe(second);
+    expect(first).not.toBe(otherVersion);
+    expect(first).not.toBe(otherTime);
+  });
+
+  it('should expire entries after the TTL', () => {
+    let now = 0;
+    const cache = new ResponseCache<string>({ ttlMs: 1000, now: () => now });
+    cache.set('key', 'value');
+
+    now = 999;
+    expect(cache.get('key')).toEqual({ value: 'value', storedAt: new Date(0) });
+
+    now = 1000;
+    expect(cache.get('key')).toBeUndefined();
+    expect(cache.getStats()).toMatchObject({ size: 0, hits: 1, misses: 1 });
+  });
+
+  it('should evict the least recently used entry beyond maxEntries', () => {
+    const cache = new ResponseCache<number>({ ttlMs: 60000, maxEntries: 2 });
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a'); // b is now the least recently used
+    cache.set('c', 3);
+
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')?.value).toBe(1);
+    expect(cache.get('c')?.value).toBe(3);
+    expect(cache.getStats().evictions).toBe(1);
+  });
+
+  it('should not let callers mutate cached values', () => {
+    const cache = new ResponseCache<{ items: string[] }>({ ttlMs: 60000 });
+    const value = { items: ['a'] };
+    cache.set('key', value);
+
+    value.items.push('b');
+    cache.get('key')!.value.items.push('c');
+
+    expect(cache.get('key')?.value.items).toEqual(['a']);
+  });
+});
+
+describe('IntentDrivenOutreachAgent response cache', () => {
+  const prospectData = AgentUtils.createProspectData(
+    'Sarah Chen',
+    'sarah.chen@techstartup.com',
+    'VP of Engineering',
+    'TechStartup Inc',
+    'Software Development',
+    CompanySize.STARTUP
+  );
+  const intentSignals = [
+    AgentUtils.createIntentSignal(SignalType.FUNDING_EVENT, 'Raised $15M Series A funding to scale engineering team', 0.95, 'TechCrunch', 3),
+    AgentUtils.createIntentSignal(SignalType.COMPANY_GROWTH, 'Posted 12 new engineering positions on LinkedIn', 0.9, 'LinkedIn Jobs', 5),
+  ];
+
+  function asOutput(result: StructuredOutput | ProcessingError): StructuredOutput {
+    if ('code' in result) {
+      throw new Error(`Unexpected error ${result.code}: ${result.message}`);
+    }
+    return result;
+  }
+
+  it('should reuse the result for an identical request and report the hit', async () => {
+    const agent = new IntentDrivenOutreachAgent({ cacheTtlSeconds: 60 });
+
+    const first = asOutput(await agent.processOutreachRequest(prospectData, intentSignals));
+    const second = asOutput(await agent.processOutreachRequest({ ...prospectData }, [...intentSignals]));
+
+    expect(first.processingMetadata.cache).toEqual({ hit: false, key: expect.any(String) });
+    expect(second.processingMetadata.cache).toEqual({
+      hit: true,
+      key: first.processingMetadata.cache!.key,
+      storedAt: expect.any(Date),
+    });
+    expect(second.processingMetadata.runId).toBe(first.processingMetadata.runId);
+    expect(second.recommendedMessage).toBe(first.recommendedMessage);
+    expect(agent.getCacheStats()).toMatchObject({ size: 1, hits: 1, misses: 1 });
+  });
+
+  it('should key on request options as well as the prospect and signals', async () => {
+    const agent = new IntentDrivenOutreachAgent({ cacheTtlSeconds: 60 });
+
+    await agent.processOutreachRequest(prospectData, intentSignals);
+    const withSequence = asOutput(await agent.processOutreachRequest(prospectData, intentSignals, { sequence: { maxTouches: 2 } }));
+
+    expect(withSequence.processingMetadata.cache?.hit).toBe(false);
+    expect(withSequence.followUpSequence).toBeDefined();
+  });
+
+  it('should invalidate cached results when the config or lexicon changes', async () => {
+    const agent = new IntentDrivenOutreachAgent({ cacheTtlSeconds: 60 });
+
+    const original = asOutput(await agent.processOutreachRequest(prospectData, intentSignals));
+    agent.updateConfig({ maxRevisionAttempts: 2 });
+    const afterConfig = asOutput(await agent.processOutreachRequest(prospectData, intentSignals));
+    agent.getLexicon().addTerm('hyperautomation', 'buzzword', 'automation');
+    const afterLexicon = asOutput(await agent.processOutreachRequest(prospectData, intentSignals));
+
+    expect(afterConfig.processingMetadata.cache?.hit).toBe(false);
+    expect(afterConfig.processingMetadata.cache?.key).not.toBe(original.processingMetadata.cache?.key);
+    expect(afterLexicon.processingMetadata.cache?.hit).toBe(false);
+  });
+
+  it('should not cache errors', async () => {
+    const agent = new IntentDrivenOutreachAgent({ cacheTtlSeconds: 60 });
+    const controller = new AbortController();
+    controller.abort();
+
+    const cancelled = await agent.processOutreachRequest(prospectData, intentSignals, { signal: controller.signal });
+    const retried = asOutput(await agent.processOutreachRequest(prospectData, intentSignals));
+
+    expect('code' in cancelled && cancelled.code).toBe('PROCESSING_CANCELLED');
+    expect(retried.processingMetadata.cache?.hit).toBe(false);
+  });
+
+  it('should leave caching off by default', async () => {
+    const agent = new IntentDrivenOutreachAgent();
+
+    const result = asOutput(await agent.processOutreachRequest(prospectData, intentSignals));
+
+    expect(result.processingMetadata.cache).toBeUndefined();
+    expect(agent.getCacheStats()).toBeNull();
+  });
+});
@@ -0,0 +1,5 @@
+/**
+ * Response cache module exports
+ */
+
+export { ResponseCache, ResponseCacheOptions } from './ResponseCache';
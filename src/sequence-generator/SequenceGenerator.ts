@@ -0,0 +1,321 @@
+/**
+ * SequenceGenerator - Generates multi-touch follow-up sequences
+ *
+ * Implements follow-up sequence generation with:
+ * - Day offsets derived from the suggested follow-up timing
+ * - One distinct angle per touch, taken from supporting evidence not used by the initial message
+ * - Value, social proof and breakup angles once the evidence runs out, so short hypotheses still fill the sequence
+ * - Call-to-action escalation capped at the level the strategy allows for the confidence and company size
+ * - Authenticity checks per touch and no sentence repeated across the sequence
+ */
+
+import { ISequenceGenerator, IStrategySelector, IAuthenticityFilter } from '../interfaces';
+import {
+  IntentHypothesis,
+  ProspectData,
+  ConfidenceLevel,
+  FollowUpTiming,
+  FollowUpTouch,
+  SequenceOptions,
+  SenderProfile,
+  CallToActionLevel,
+} from '../types';
+import { MessageGenerator } from '../message-generator';
+import { formatSignature } from '../utils';
+
+interface SequenceAngle {
+  kind: 'evidence' | 'value' | 'social_proof' | 'breakup';
+  label: string;
+  description: string;
+  evidence: string;
+}
+
+export class SequenceGenerator implements ISequenceGenerator {
+  private readonly DEFAULT_MAX_TOUCHES = 3;
+  private readonly MAX_TOUCHES = 5;
+  private readonly WORD_LIMIT = 120;
+
+  // CTA levels in escalation order; touches climb this ladder up to the strategy's level
+  private readonly CTA_LADDER = [
+    CallToActionLevel.NONE,
+    CallToActionLevel.SOFT,
+    CallToActionLevel.DIRECT,
+  ];
+
+  // Days between touches for each suggested follow-up timing
+  private readonly TOUCH_SPACING_DAYS: Record<FollowUpTiming, number> = {
+    [FollowUpTiming.IMMEDIATE]: 2,
+    [FollowUpTiming.ONE_WEEK]: 7,
+    [FollowUpTiming.TWO_WEEKS]: 14,
+    [FollowUpTiming.ONE_MONTH]: 30,
+  };
+
+  constructor(
+    private strategySelector: IStrategySelector,
+    private authenticityFilter: IAuthenticityFilter,
+    private sanitizer: MessageGenerator = new MessageGenerator()
+  ) {}
+
+  generateSequence(
+    initialMessage: string,
+    hypothesis: IntentHypothesis,
+    prospectData: ProspectData,
+    confidence: ConfidenceLevel,
+    timing: FollowUpTiming,
+    options: SequenceOptions = {},
+    senderProfile?: SenderProfile,
+    maxCallToAction?: CallToActionLevel
+  ): FollowUpTouch[] {
+    const maxTouches = this.resolveMaxTouches(options.maxTouches);
+    // The initial message's strategy sets the cap when given; it may come from a playbook play
+    const maxCtaIndex = this.CTA_LADDER.indexOf(
+      maxCallToAction ?? this.strategySelector.selectStrategy(confidence, prospectData.companyContext?.size).callToActionLevel
+    );
+    const closing = formatSignature(senderProfile);
+
+    // Sentences already sent are never repeated in a later touch
+    const usedSentences = new Set(this.splitSentences(this.extractBody(initialMessage)));
+    const touches: FollowUpTouch[] = [];
+
+    const angles = [
+      ...this.selectUnusedAngles(initialMessage, hypothesis),
+      ...this.createFallbackAngles(hypothesis, prospectData, senderProfile),
+    ];
+
+    for (const angle of angles) {
+      if (touches.length >= maxTouches) {
+        break;
+      }
+
+      const touchNumber = touches.length + 1;
+      const callToActionLevel = this.CTA_LADDER[Math.min(touchNumber - 1, Math.max(maxCtaIndex, 0))];
+      const bodySentences = this.buildTouchSentences(angle, touchNumber, callToActionLevel, prospectData, usedSentences);
+
+      const body = this.sanitizer.sanitizeMessage(
+        [this.generateGreeting(prospectData), '', bodySentences.join(' ')].join('\n'),
+        this.WORD_LIMIT - this.sanitizer.countWords(closing)
+      );
+      const message = [body, '', closing].join('\n');
+
+      // Touches that fail the authenticity check are dropped; the next angle takes their slot
+      const authenticity = this.authenticityFilter.evaluateAuthenticity(message, confidence);
+      if (!authenticity.isAuthentic) {
+        continue;
+      }
+
+      this.splitSentences(this.extractBody(message)).forEach(sentence => usedSentences.add(sentence));
+      touches.push({
+        touchNumber,
+        dayOffset: this.TOUCH_SPACING_DAYS[timing] * touchNumber,
+        angle: angle.evidence,
+        callToActionLevel,
+        message,
+        authenticityScore: authenticity.score,
+      });
+    }
+
+    return touches;
+  }
+
+  private resolveMaxTouches(maxTouches?: number): number {
+    if (maxTouches === undefined || !Number.isFinite(maxTouches)) {
+      return this.DEFAULT_MAX_TOUCHES;
+    }
+    return Math.min(this.MAX_TOUCHES, Math.max(1, Math.floor(maxTouches)));
+  }
+
+  /**
+   * Picks supporting evidence the initial message has not already covered.
+   * The primary signal's evidence comes first and drives the initial message.
+   */
+  private selectUnusedAngles(initialMessage: string, hypothesis: IntentHypothesis): SequenceAngle[] {
+    const evidence = hypothesis.primarySignalType
+      ? hypothesis.supportingEvidence.slice(1)
+      : hypothesis.supportingEvidence;
+    const lowerMessage = initialMessage.toLowerCase();
+
+    return evidence
+      .filter((item, index, all) => all.indexOf(item) === index)
+      .map(item => this.parseEvidence(item))
+      .filter((angle): angle is SequenceAngle =>
+        angle !== null && !lowerMessage.includes(angle.description.toLowerCase())
+      );
+  }
+
+  // Evidence is formatted as "<Label>: <description>" by the hypothesis former
+  private parseEvidence(evidence: string): SequenceAngle | null {
+    const separatorIndex = evidence.indexOf(':');
+    if (separatorIndex <= 0) {
+      return null;
+    }
+
+    const label = evidence.substring(0, separatorIndex).trim().toLowerCase();
+    const description = this.trimSentenceEnd(evidence.substring(separatorIndex + 1));
+    if (description.length === 0) {
+      return null;
+    }
+
+    return {
+      kind: 'evidence',
+      label: label === 'weak signal' ? 'update' : label,
+      description,
+      evidence,
+    };
+  }
+
+  /**
+   * Angles that need no signal: what the sender offers, who else has found it useful, and a closing note.
+   * They follow the evidence angles, so they only fill touches the evidence cannot.
+   */
+  private createFallbackAngles(
+    hypothesis: IntentHypothesis,
+    prospectData: ProspectData,
+    senderProfile?: SenderProfile
+  ): SequenceAngle[] {
+    const reason = this.trimSentenceEnd(hypothesis.primaryReason);
+    const proofPoint = senderProfile?.proofPoints?.find(point => point.trim().length > 0);
+    const value = senderProfile
+      ? `we ${this.trimSentenceEnd(senderProfile.productOneLiner)}`
+      : reason.charAt(0).toLowerCase() + reason.slice(1);
+    // Without a proof point the angle stays hedged rather than citing customers the sender never named
+    const socialProof = proofPoint
+      ? this.trimSentenceEnd(proofPoint)
+      : `many ${prospectData.companyContext.industry} teams seem to be weighing similar questions`;
+
+    const angles: SequenceAngle[] = [
+      { kind: 'value', label: 'value', description: value, evidence: `Value: ${value}` },
+      { kind: 'social_proof', label: 'social proof', description: socialProof, evidence: `Social proof: ${socialProof}` },
+      { kind: 'breakup', label: 'breakup', description: 'closing note', evidence: 'Breakup: closing note' },
+    ];
+    return angles.filter(angle => angle.description.length > 0);
+  }
+
+  private buildTouchSentences(
+    angle: SequenceAngle,
+    touchNumber: number,
+    callToActionLevel: CallToActionLevel,
+    prospectData: ProspectData,
+    usedSentences: Set<string>
+  ): string[] {
+    const candidates = [
+      this.getAnglePhrasings(angle, prospectData),
+      this.getBridgePhrasings(prospectData),
+      this.getCallToActionPhrasings(callToActionLevel, prospectData),
+    ];
+
+    return candidates
+      .map(phrasings => this.pickUnusedPhrasing(phrasings, touchNumber, usedSentences))
+      .filter((sentence): sentence is string => sentence !== null);
+  }
+
+  // Rotates through phrasings by touch number and skips any sentence already sent
+  private pickUnusedPhrasing(phrasings: string[], touchNumber: number, usedSentences: Set<string>): string | null {
+    for (let offset = 0; offset < phrasings.length; offset++) {
+      const phrasing = phrasings[(touchNumber - 1 + offset) % phrasings.length];
+      if (!usedSentences.has(phrasing)) {
+        return phrasing;
+      }
+    }
+    return null;
+  }
+
+  private getAnglePhrasings(angle: SequenceAngle, prospectData: ProspectData): string[] {
+    const companyName = prospectData.companyContext.name;
+    switch (angle.kind) {
+      case 'value':
+        return [
+          `I should have been clearer about why I reached out: ${angle.description}.`,
+          `To put it plainly, ${angle.description}.`,
+          `In short, ${angle.description}, in case that is useful at ${companyName}.`,
+        ];
+      case 'social_proof':
+        return [
+          `One point that may be relevant: ${angle.description}.`,
+          `For context, a related point: ${angle.description}.`,
+        ];
+      case 'breakup':
+        return [
+          'This will be my last note on this for now.',
+          'I will leave it here after this one, so your inbox stays clear.',
+          'I will not keep following up after this message.',
+        ];
+      default:
+        return this.getEvidencePhrasings(angle, companyName);
+    }
+  }
+
+  private getEvidencePhrasings(angle: SequenceAngle, companyName: string): string[] {
+    return [
+      `Following up with one more thing I noticed at ${companyName}: ${angle.description}.`,
+      `The ${angle.label} at ${companyName} also stood out to me: ${angle.description}.`,
+      `I also saw this ${angle.label} from ${companyName}: ${angle.description}.`,
+      `On the ${angle.label} side, ${companyName} shared this: ${angle.description}.`,
+      `Something else from ${companyName} that seemed relevant: ${angle.description}.`,
+    ];
+  }
+
+  private getBridgePhrasings(prospectData: ProspectData): string[] {
+    const { role } = prospectData;
+    const { industry } = prospectData.companyContext;
+    return [
+      `It made me wonder how this shapes priorities for your work as ${role}.`,
+      `It seemed relevant to the work you lead as ${role}.`,
+      `Teams in ${industry} often revisit their plans after news like this.`,
+      `I imagine it adds a few new questions for someone in your position.`,
+      `That kind of change tends to land on the desk of a ${role} sooner or later.`,
+    ];
+  }
+
+  private getCallToActionPhrasings(level: CallToActionLevel, prospectData: ProspectData): string[] {
+    const { industry } = prospectData.companyContext;
+
+    switch (level) {
+      case CallToActionLevel.DIRECT:
+        return [
+          'Would a short call next week make sense?',
+          'Open to a brief conversation in the next couple of weeks?',
+          'If it is worth a brief chat, I can work around your calendar.',
+          'Would it make sense to compare notes on a short call?',
+          'Happy to set up a brief call if the timing works for you.',
+        ];
+      case CallToActionLevel.SOFT:
+        return [
+          `If it helps, I can send over a few notes on how other ${industry} teams handled this.`,
+          'Happy to share what we have seen work in similar situations, if useful.',
+          'I can pass along a short summary of what others learned, if that would help.',
+          'If a quick write-up would be useful, just let me know.',
+          'Glad to share a couple of examples if you want them.',
+        ];
+      case CallToActionLevel.NONE:
+      default:
+        return [
+          'No need to reply, I just thought it was worth sharing.',
+          'Curious how your team sees it, if at all.',
+          'Either way, I hope the context is useful.',
+          'If the timing is off, no worries at all.',
+          'I would be glad to hear your take whenever it suits you.',
+        ];
+    }
+  }
+
+  private generateGreeting(prospectData: ProspectData): string {
+    return `Hi ${prospectData.contactDetails.name.split(' ')[0]},`;
+  }
+
+  // Drops the greeting and closing blocks, which every touch shares by design
+  private extractBody(message: string): string {
+    const blocks = message.split(/\n\s*\n/);
+    return blocks.slice(1, -1).join(' ');
+  }
+
+  private splitSentences(text: string): string[] {
+    return text
+      .split(/(?<=[.!?])\s+/)
+      .map(sentence => sentence.trim())
+      .filter(sentence => sentence.length > 0);
+  }
+
+  private trimSentenceEnd(text: string): string {
+    return text.trim().replace(/[.!?\s]+$/, '');
+  }
+}
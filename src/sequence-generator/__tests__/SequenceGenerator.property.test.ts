@@ -0,0 +1,339 @@
+/**
+ * Property-based tests for SequenceGenerator
+ * Tests follow-up sequence properties across generated hypotheses and prospects
+ */
+
+import fc from 'fast-check';
+import { SequenceGenerator } from '../SequenceGenerator';
+import { StrategySelector } from '../../strategy-selector/StrategySelector';
+import { AuthenticityFilter } from '../../authenticity-filter/AuthenticityFilter';
+import { MessageGenerator } from '../../message-generator/MessageGenerator';
+import { IAuthenticityFilter } from '../../interfaces';
+import {
+  ConfidenceLevel,
+  FollowUpTiming,
+  CallToActionLevel,
+  IntentHypothesis,
+  ProspectData,
+  CompanySize,
+  SignalType,
+  SenderProfile,
+} from '../../types';
+
+describe('SequenceGenerator Property Tests', () => {
+  let strategySelector: StrategySelector;
+  let authenticityFilter: AuthenticityFilter;
+  let messageGenerator: MessageGenerator;
+  let sequenceGenerator: SequenceGenerator;
+
+  const ctaRank: Record<CallToActionLevel, number> = {
+    [CallToActionLevel.NONE]: 0,
+    [CallToActionLevel.SOFT]: 1,
+    [CallToActionLevel.DIRECT]: 2,
+  };
+
+  const fallbackAngles = ['Value: ', 'Social proof: ', 'Breakup: '];
+
+  const spacingDays: Record<FollowUpTiming, number> = {
+    [FollowUpTiming.IMMEDIATE]: 2,
+    [FollowUpTiming.ONE_WEEK]: 7,
+    [FollowUpTiming.TWO_WEEKS]: 14,
+    [FollowUpTiming.ONE_MONTH]: 30,
+  };
+
+  beforeEach(() => {
+    strategySelector = new StrategySelector();
+    authenticityFilter = new AuthenticityFilter();
+    messageGenerator = new MessageGenerator();
+    sequenceGenerator = new SequenceGenerator(strategySelector, authenticityFilter, messageGenerator);
+  });
+
+  function generateInitialMessage(
+    hypothesis: IntentHypothesis,
+    prospectData: ProspectData,
+    confidence: ConfidenceLevel,
+    senderProfile?: SenderProfile
+  ): string {
+    return messageGenerator.generateMessage(
+      strategySelector.selectStrategy(confidence),
+      hypothesis,
+      prospectData,
+      senderProfile
+    );
+  }
+
+  test('should space touches by the follow-up timing and use only unused evidence', () => {
+    fc.assert(
+      fc.property(
+        generateIntentHypothesis(),
+        generateProspectData(),
+        fc.constantFrom(...Object.values(ConfidenceLevel)),
+        fc.constantFrom(...Object.values(FollowUpTiming)),
+        fc.integer({ min: 1, max: 5 }),
+        (hypothesis, prospectData, confidence, timing, maxTouches) => {
+          const initialMessage = generateInitialMessage(hypothesis, prospectData, confidence);
+          const sequence = sequenceGenerator.generateSequence(
+            initialMessage, hypothesis, prospectData, confidence, timing, { maxTouches }
+          );
+
+          expect(sequence.length).toBeLessThanOrEqual(maxTouches);
+          expect(sequence.length).toBeLessThanOrEqual(hypothesis.supportingEvidence.length - 1 + fallbackAngles.length);
+
+          const angles = sequence.map(touch => touch.angle);
+          expect(new Set(angles).size).toBe(angles.length);
+
+          // Evidence touches come first; fallback angles only fill the touches left over
+          const evidenceTouches = sequence.filter(touch => hypothesis.supportingEvidence.includes(touch.angle));
+          expect(sequence.slice(0, evidenceTouches.length)).toEqual(evidenceTouches);
+
+          sequence.forEach((touch, index) => {
+            expect(touch.touchNumber).toBe(index + 1);
+            expect(touch.dayOffset).toBe(spacingDays[timing] * touch.touchNumber);
+            // The primary signal's evidence is covered by the initial message
+            expect(touch.angle).not.toBe(hypothesis.supportingEvidence[0]);
+            if (index < evidenceTouches.length) {
+              expect(touch.message).toContain(touch.angle.split(': ')[1]);
+            } else {
+              expect(fallbackAngles.some(prefix => touch.angle.startsWith(prefix))).toBe(true);
+            }
+          });
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('should escalate CTA only up to the level the strategy allows', () => {
+    fc.assert(
+      fc.property(
+        generateIntentHypothesis(),
+        generateProspectData(),
+        fc.constantFrom(...Object.values(ConfidenceLevel)),
+        (hypothesis, prospectData, confidence) => {
+          const initialMessage = generateInitialMessage(hypothesis, prospectData, confidence);
+          const sequence = sequenceGenerator.generateSequence(
+            initialMessage, hypothesis, prospectData, confidence, FollowUpTiming.ONE_WEEK, { maxTouches: 5 }
+          );
+          const allowedRank = ctaRank[strategySelector.selectStrategy(confidence).callToActionLevel];
+
+          sequence.forEach((touch, index) => {
+            expect(ctaRank[touch.callToActionLevel]).toBeLessThanOrEqual(allowedRank);
+            if (index > 0) {
+              expect(ctaRank[touch.callToActionLevel]).toBeGreaterThanOrEqual(
+                ctaRank[sequence[index - 1].callToActionLevel]
+              );
+            }
+          });
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('should never repeat a sentence across the initial message and touches', () => {
+    fc.assert(
+      fc.property(
+        generateIntentHypothesis(),
+        generateProspectData(),
+        fc.constantFrom(...Object.values(ConfidenceLevel)),
+        fc.option(generateSenderProfile(), { nil: undefined }),
+        (hypothesis, prospectData, confidence, senderProfile) => {
+          const initialMessage = generateInitialMessage(hypothesis, prospectData, confidence, senderProfile);
+          const sequence = sequenceGenerator.generateSequence(
+            initialMessage, hypothesis, prospectData, confidence, FollowUpTiming.TWO_WEEKS, { maxTouches: 5 }, senderProfile
+          );
+
+          const sentences = [initialMessage, ...sequence.map(touch => touch.message)]
+            .flatMap(message => extractBodySentences(message));
+          expect(new Set(sentences).size).toBe(sentences.length);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('should only return touches that pass the authenticity filter and word limit', () => {
+    fc.assert(
+      fc.property(
+        generateIntentHypothesis(),
+        generateProspectData(),
+        fc.constantFrom(...Object.values(ConfidenceLevel)),
+        (hypothesis, prospectData, confidence) => {
+          const initialMessage = generateInitialMessage(hypothesis, prospectData, confidence);
+          const sequence = sequenceGenerator.generateSequence(
+            initialMessage, hypothesis, prospectData, confidence, FollowUpTiming.ONE_WEEK, { maxTouches: 5 }
+          );
+
+          sequence.forEach(touch => {
+            const result = authenticityFilter.evaluateAuthenticity(touch.message, confidence);
+            expect(result.isAuthentic).toBe(true);
+            expect(touch.authenticityScore).toBe(result.score);
+            expect(messageGenerator.countWords(touch.message)).toBeLessThanOrEqual(120);
+          });
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  test('should omit touches rejected by the authenticity filter', () => {
+    const rejectingFilter: IAuthenticityFilter = {
+      evaluateAuthenticity: () => ({ isAuthentic: false, issues: [], revisionRequired: true, score: 40 }),
+      evaluateSubjectLine: () => ({ isAuthentic: true, issues: [], revisionRequired: false, score: 100 }),
+    };
+    const generator = new SequenceGenerator(strategySelector, rejectingFilter);
+    const hypothesis: IntentHypothesis = {
+      primaryReason: 'Recent funding may enable new initiatives',
+      primarySignalType: SignalType.FUNDING_EVENT,
+      supportingEvidence: [
+        'Funding activity: Raised $15M Series A',
+        'Growth indicator: Hiring 12 engineers',
+      ],
+      confidenceFactors: [],
+      conservativeAssumptions: [],
+    };
+
+    const sequence = generator.generateSequence(
+      'Hi Sam,\n\nHello.\n\nBest regards',
+      hypothesis,
+      {
+        role: 'CTO',
+        companyContext: { name: 'Acme', industry: 'Retail', size: CompanySize.SMALL },
+        contactDetails: { name: 'Sam Lee', email: 'sam@acme.com' },
+      },
+      ConfidenceLevel.HIGH,
+      FollowUpTiming.ONE_WEEK
+    );
+
+    expect(sequence).toEqual([]);
+  });
+
+  test('should fill a single-signal sequence with value, social proof and breakup touches', () => {
+    const hypothesis: IntentHypothesis = {
+      primaryReason: 'Recent funding may enable new initiatives',
+      primarySignalType: SignalType.FUNDING_EVENT,
+      supportingEvidence: ['Funding activity: Raised $15M Series A'],
+      confidenceFactors: [],
+      conservativeAssumptions: [],
+    };
+    const prospectData: ProspectData = {
+      role: 'VP of Engineering',
+      companyContext: { name: 'Acme', industry: 'Software', size: CompanySize.MEDIUM },
+      contactDetails: { name: 'Sam Lee', email: 'sam@acme.com' },
+    };
+    const senderProfile: SenderProfile = {
+      senderName: 'Maya Brooks',
+      companyName: 'Buildwise',
+      productOneLiner: 'help engineering teams onboard new hires faster',
+      proofPoints: ['Ledgerly cut onboarding time by a third'],
+    };
+    const generate = (profile?: SenderProfile) => sequenceGenerator.generateSequence(
+      generateInitialMessage(hypothesis, prospectData, ConfidenceLevel.MEDIUM, profile),
+      hypothesis, prospectData, ConfidenceLevel.MEDIUM, FollowUpTiming.ONE_WEEK, { maxTouches: 3 }, profile
+    );
+
+    const withSender = generate(senderProfile);
+    const withoutSender = generate();
+
+    expect(withSender.map(touch => touch.angle)).toEqual([
+      'Value: we help engineering teams onboard new hires faster',
+      'Social proof: Ledgerly cut onboarding time by a third',
+      'Breakup: closing note',
+    ]);
+    expect(withSender[0].message).toContain('we help engineering teams onboard new hires faster');
+    expect(withSender[1].message).toContain('Ledgerly cut onboarding time by a third');
+    expect(withoutSender).toHaveLength(3);
+    expect(withoutSender[0].message).toContain('recent funding may enable new initiatives');
+    expect(withoutSender[2].angle).toBe('Breakup: closing note');
+  });
+
+  test('should default to three touches and clamp maxTouches to 1-5', () => {
+    const hypothesis: IntentHypothesis = {
+      primaryReason: 'Timing may be appropriate for general business discussion',
+      supportingEvidence: Array.from({ length: 7 }, (_, index) => `Weak signal: Update number ${index + 1} posted`),
+      confidenceFactors: [],
+      conservativeAssumptions: [],
+    };
+    const prospectData: ProspectData = {
+      role: 'Head of Sales',
+      companyContext: { name: 'Northwind', industry: 'Finance', size: CompanySize.MEDIUM },
+      contactDetails: { name: 'Priya Patel', email: 'priya@northwind.com' },
+    };
+    const initialMessage = generateInitialMessage(hypothesis, prospectData, ConfidenceLevel.LOW);
+    const generate = (maxTouches?: number) => sequenceGenerator.generateSequence(
+      initialMessage, hypothesis, prospectData, ConfidenceLevel.LOW, FollowUpTiming.ONE_MONTH, { maxTouches }
+    );
+
+    expect(generate()).toHaveLength(3);
+    expect(generate(0)).toHaveLength(1);
+    expect(generate(12)).toHaveLength(5);
+    generate(5).forEach(touch => {
+      expect(touch.callToActionLevel).toBe(CallToActionLevel.NONE);
+    });
+  });
+});
+
+function extractBodySentences(message: string): string[] {
+  const blocks = message.split(/\n\s*\n/);
+  return blocks
+    .slice(1, -1)
+    .join(' ')
+    .split(/(?<=[.!?])\s+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0);
+}
+
+// Generators for property-based testing
+
+function generateIntentHypothesis(): fc.Arbitrary<IntentHypothesis> {
+  const evidence = fc.tuple(
+    fc.constantFrom('Funding activity', 'Growth indicator', 'Technology change', 'Role transition', 'Industry trend'),
+    fc.constantFrom(
+      'Raised $15M Series A funding round',
+      'Posted 12 new engineering positions',
+      'Migrating services to Kubernetes',
+      'New VP of Sales joined from a competitor',
+      'Opened a second office in Austin',
+      'Adopted a new data warehouse'
+    )
+  ).map(([label, description]) => `${label}: ${description}`);
+
+  return fc.record({
+    primaryReason: fc.constantFrom(
+      'Recent funding may enable new initiatives or expansion',
+      'Company growth may create new operational needs',
+      'Technology changes may indicate evolving business needs'
+    ),
+    primarySignalType: fc.constantFrom(...Object.values(SignalType)),
+    supportingEvidence: fc.uniqueArray(evidence, { minLength: 1, maxLength: 6 }),
+    confidenceFactors: fc.array(fc.string({ minLength: 5, maxLength: 50 }), { maxLength: 3 }),
+    conservativeAssumptions: fc.array(fc.string({ minLength: 5, maxLength: 50 }), { maxLength: 3 }),
+  });
+}
+
+function generateProspectData(): fc.Arbitrary<ProspectData> {
+  return fc.record({
+    role: fc.constantFrom('VP of Engineering', 'CTO', 'Head of Sales', 'Operations Manager'),
+    companyContext: fc.record({
+      name: fc.constantFrom('TechCorp', 'Acme Inc', 'Northwind', 'Globex'),
+      industry: fc.constantFrom('Software', 'Healthcare', 'Finance'),
+      size: fc.constantFrom(...Object.values(CompanySize)),
+    }),
+    contactDetails: fc.record({
+      email: fc.emailAddress(),
+      name: fc.constantFrom('Sarah Chen', 'John Smith', 'Priya Patel'),
+    }),
+  });
+}
+
+function generateSenderProfile(): fc.Arbitrary<SenderProfile> {
+  return fc.record({
+    senderName: fc.constantFrom('Maya Brooks', 'Tom Alvarez'),
+    senderTitle: fc.constantFrom('Account Executive', 'Founder'),
+    companyName: fc.constantFrom('Buildwise', 'Ledgerly'),
+    productOneLiner: fc.constantFrom(
+      'help engineering teams onboard new hires faster',
+      'automate month-end close for finance teams'
+    ),
+  });
+}
@@ -0,0 +1,5 @@
+/**
+ * Sequence Generator module exports
+ */
+
+export { SequenceGenerator } from './SequenceGenerator';
@@ -7,38 +7,196 @@
 
 import * as http from 'http';
 import * as url from 'url';
-import { IntentDrivenOutreachAgent, ProspectData, IntentSignal } from './index';
+import { timingSafeEqual } from 'crypto';
+import {
+  IntentDrivenOutreachAgent,
+  IntentSignal,
+  BatchItem,
+  MasumiJob,
+  IPaymentVerifier,
+  MasumiService,
+  InMemoryJobStore,
+  StubPaymentVerifier,
+  OutreachJobQueue,
+  WebhookDispatcher,
+  CallbackUrlPolicy,
+  ApiKeyAuthenticator,
+  SlidingWindowRateLimiter,
+  CorsPolicy,
+  ServerSecurityConfig,
+  ProcessingError,
+  createLlmProviderFromEnv,
+  loadServerSecurityConfig,
+} from './index';
 
 // Server configuration from environment variables
 const PORT = parseInt(process.env.PORT || '3000', 10);
 const NODE_ENV = process.env.NODE_ENV || 'development';
 const ENABLE_VERBOSE_LOGGING = process.env.ENABLE_VERBOSE_LOGGING === 'true';
 const PROCESSING_TIMEOUT = parseInt(process.env.PROCESSING_TIMEOUT || '30000', 10);
+const MASUMI_NETWORK = process.env.MASUMI_NETWORK || 'preprod';
+const MAX_CONCURRENT_REQUESTS = parseInt(process.env.MAX_CONCURRENT_REQUESTS || '10', 10);
+const MAX_QUEUED_JOBS = parseInt(process.env.MAX_QUEUED_JOBS || '1000', 10);
+const BUSY_RETRY_AFTER_SECONDS = 5;
+const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET || '';
+const WEBHOOK_ALLOWED_HOSTS = (process.env.WEBHOOK_ALLOWED_HOSTS || '').split(',').map(host => host.trim()).filter(Boolean);
+const ADMIN_API_KEY = process.env.ADMIN_API_KEY || '';
+const CACHE_TTL_SECONDS = parseInt(process.env.CACHE_TTL_SECONDS || '0', 10);
+const PLAYBOOK_FILES = (process.env.PLAYBOOK_FILES || '').split(',').map(path => path.trim()).filter(Boolean);
+const MESSAGE_TEMPLATE_FILES = (process.env.MESSAGE_TEMPLATE_FILES || '').split(',').map(path => path.trim()).filter(Boolean);
 
 // Initialize the agent with environment configuration
 const agent = new IntentDrivenOutreachAgent({
   enableVerboseLogging: ENABLE_VERBOSE_LOGGING,
   processingTimeout: PROCESSING_TIMEOUT,
+  llmProvider: createLlmProviderFromEnv(),
+  cacheTtlSeconds: CACHE_TTL_SECONDS,
 });
 
+// Playbook and phrasing files are validated at startup, so a broken one stops the server before it takes requests
+PLAYBOOK_FILES.forEach(path => agent.getPlaybooks().loadFile(path));
+MESSAGE_TEMPLATE_FILES.forEach(path => agent.getMessageTemplates().loadFile(path));
+
+// Webhooks are signed with WEBHOOK_SECRET; without it, jobs cannot register a callback URL.
+// Callback hosts are limited to WEBHOOK_ALLOWED_HOSTS when set, and to public addresses otherwise
+const callbackUrlPolicy = new CallbackUrlPolicy(WEBHOOK_ALLOWED_HOSTS);
+const webhookDispatcher = WEBHOOK_SECRET ? new WebhookDispatcher({ secret: WEBHOOK_SECRET, callbackUrlPolicy }) : undefined;
+
+// Every pipeline run shares one queue, so at most MAX_CONCURRENT_REQUESTS run at a time:
+// jobs wait for a slot (up to MAX_QUEUED_JOBS of them), synchronous requests reserve one or get 503
+const jobQueue = new OutreachJobQueue(agent, {
+  concurrency: MAX_CONCURRENT_REQUESTS,
+  maxQueuedJobs: MAX_QUEUED_JOBS,
+  webhookDispatcher,
+  callbackUrlPolicy,
+});
+
+// Runs outreach requests as Masumi jobs. The stub verifier accepts every payment, so outside tests
+// the Masumi routes stay disabled until startServer or createServer is given a real verifier
+let masumiService: MasumiService | null = NODE_ENV === 'test'
+  ? new MasumiService(jobQueue, new InMemoryJobStore(), new StubPaymentVerifier())
+  : null;
+
+// API-key auth, rate limiting, CORS and body limits; createServer can override the environment settings
+let security = createSecurity(loadServerSecurityConfig());
+
+// Masumi routes that need a MasumiService; /availability reports when they are disabled
+const MASUMI_JOB_ROUTES = ['/input_schema', '/start_job', '/status', '/provide_input'];
+
+// Routes that require an API key when API_KEYS is set. Masumi job routes need one too until
+// payments are verified on the network; admin routes check ADMIN_API_KEY instead.
+const PROTECTED_ROUTES = [
+  /^\/agent\/outreach$/,
+  /^\/agent\/outreach\/batch$/,
+  /^\/jobs$/,
+  /^\/jobs\/[^/]+$/,
+  /^\/start_job$/,
+  /^\/status$/,
+  /^\/provide_input$/,
+];
+
+export interface ServerOptions {
+  /** Confirms Masumi job payments; without one, Masumi routes answer 503 MASUMI_DISABLED unless NODE_ENV is test */
+  paymentVerifier?: IPaymentVerifier;
+  /** Overrides the security settings read from the environment */
+  security?: Partial<ServerSecurityConfig>;
+}
+
+interface ServerSecurity {
+  config: ServerSecurityConfig;
+  authenticator: ApiKeyAuthenticator;
+  rateLimiter: SlidingWindowRateLimiter;
+  corsPolicy: CorsPolicy;
+}
+
+function createSecurity(config: ServerSecurityConfig): ServerSecurity {
+  return {
+    config,
+    authenticator: new ApiKeyAuthenticator(config.apiKeys),
+    rateLimiter: new SlidingWindowRateLimiter(config.rateLimitWindowMs, config.rateLimitMaxRequests),
+    corsPolicy: new CorsPolicy(config.corsOrigins),
+  };
+}
+
 /**
  * HTTP request handler for the outreach agent
  */
 async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
-  // Set CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  const parsedUrl = url.parse(req.url || '', true);
+  const pathname = parsedUrl.pathname || '';
+
+  // Only allow-listed browser origins get CORS headers
+  const origin = req.headers.origin;
+  const allowedOrigin = origin ? security.corsPolicy.allowOrigin(origin) : null;
+  if (allowedOrigin) {
+    res.setHeader('Access-Control-Allow-Origin', allowedOrigin);
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-API-Key');
+    res.setHeader('Access-Control-Expose-Headers', 'Location, Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining');
+  }
+  if (origin && allowedOrigin !== '*') {
+    res.setHeader('Vary', 'Origin');
+  }
 
   // Handle preflight OPTIONS request
   if (req.method === 'OPTIONS') {
+    if (origin && !allowedOrigin) {
+      sendError(res, { code: 'CORS_ORIGIN_DENIED', message: `Origin ${origin} is not allowed`, step: 'cors' });
+      return;
+    }
     res.writeHead(200);
     res.end();
     return;
   }
 
-  const parsedUrl = url.parse(req.url || '', true);
-  const pathname = parsedUrl.pathname;
+  // Health checks stay reachable for load balancers regardless of quotas
+  if (pathname !== '/health') {
+    const client = security.authenticator.authenticate(req.headers);
+
+    // Unauthenticated callers share a per-IP bucket, which also throttles key guessing
+    const rateLimit = client
+      ? security.rateLimiter.consume(`key:${client.name}`, client.maxRequests)
+      : security.rateLimiter.consume(`ip:${req.socket.remoteAddress}`);
+    res.setHeader('X-RateLimit-Limit', rateLimit.limit);
+    res.setHeader('X-RateLimit-Remaining', rateLimit.remaining);
+    if (!rateLimit.allowed) {
+      res.setHeader('Retry-After', rateLimit.retryAfterSeconds);
+      sendError(res, {
+        code: 'RATE_LIMITED',
+        message: `Rate limit of ${rateLimit.limit} requests exceeded`,
+        step: 'rate_limit',
+        remediation: `Retry after ${rateLimit.retryAfterSeconds} seconds`
+      });
+      return;
+    }
+
+    if (!client && security.authenticator.isEnabled() && isProtectedRoute(pathname)) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      sendError(res, {
+        code: 'UNAUTHORIZED',
+        message: 'A valid API key is required',
+        step: 'authentication',
+        remediation: 'Send the key as "Authorization: Bearer <key>" or "X-API-Key: <key>"'
+      });
+      return;
+    }
+  }
+
+  // Read POST bodies once, within the size limit, before routing
+  let body: any = null;
+  if (req.method === 'POST') {
+    const parsed = await readRequestBody(req, security.config.maxBodyBytes);
+    if ('error' in parsed) {
+      if (parsed.error.code === 'PAYLOAD_TOO_LARGE') {
+        // The rest of the body is not read, so the connection cannot be reused
+        res.setHeader('Connection', 'close');
+        res.on('finish', () => req.destroy());
+      }
+      sendError(res, parsed.error);
+      return;
+    }
+    body = parsed.body;
+  }
 
   try {
     // Health check endpoint
@@ -51,14 +209,102 @@ async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse
         version: health.version,
         environment: NODE_ENV,
         timestamp: new Date().toISOString(),
-        health: health.status
+        health: health.status,
+        jobs: jobQueue.getStats(),
+        cache: agent.getCacheStats()
       }, null, 2));
       return;
     }
 
     // Main outreach processing endpoint
     if (req.method === 'POST' && pathname === '/agent/outreach') {
-      await handleOutreachRequest(req, res);
+      await handleOutreachRequest(res, body);
+      return;
+    }
+
+    // Batch outreach processing endpoint
+    if (req.method === 'POST' && pathname === '/agent/outreach/batch') {
+      await handleBatchRequest(res, body);
+      return;
+    }
+
+    // Asynchronous job endpoints
+    if (req.method === 'POST' && pathname === '/jobs') {
+      await handleSubmitJob(res, body);
+      return;
+    }
+
+    const jobMatch = pathname.match(/^\/jobs\/([^/]+)$/);
+    if (req.method === 'GET' && jobMatch) {
+      const job = jobQueue.getJob(decodeURIComponent(jobMatch[1]));
+      if (!job) {
+        sendError(res, { code: 'JOB_NOT_FOUND', message: `No job with id ${jobMatch[1]}`, step: 'job_status' });
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ success: true, data: job, timestamp: new Date().toISOString() }, null, 2));
+      return;
+    }
+
+    // Admin endpoints for webhook deliveries that used up their retries
+    if (pathname.startsWith('/admin/')) {
+      handleAdminRequest(req, res, pathname);
+      return;
+    }
+
+    // Masumi agentic service endpoints (MIP-003)
+    if (req.method === 'GET' && pathname === '/availability') {
+      const health = agent.getHealthStatus();
+      const available = masumiService !== null && health.status !== 'unhealthy';
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        status: available ? 'available' : 'unavailable',
+        type: 'masumi-agent',
+        network: MASUMI_NETWORK,
+        message: !masumiService
+          ? 'Masumi jobs are disabled: no payment verifier is configured'
+          : available
+            ? 'Intent-Driven Cold Outreach Agent is ready to accept jobs'
+            : 'Agent is not accepting jobs'
+      }, null, 2));
+      return;
+    }
+
+    if (MASUMI_JOB_ROUTES.includes(pathname) && !masumiService) {
+      sendJobError(res, {
+        code: 'MASUMI_DISABLED',
+        message: 'Masumi jobs are disabled: no payment verifier is configured',
+        step: 'masumi',
+        remediation: 'Start the server with startServer({ paymentVerifier })',
+      });
+      return;
+    }
+
+    if (req.method === 'GET' && pathname === '/input_schema' && masumiService) {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ input_data: masumiService.getInputSchema() }, null, 2));
+      return;
+    }
+
+    if (req.method === 'POST' && pathname === '/start_job' && masumiService) {
+      await handleStartJob(res, body, masumiService);
+      return;
+    }
+
+    if (req.method === 'GET' && pathname === '/status' && masumiService) {
+      const jobId = parsedUrl.query.job_id;
+      const job = typeof jobId === 'string' ? masumiService.getJob(jobId) : null;
+      if (!job || 'code' in job) {
+        sendJobError(res, job ?? { code: 'INVALID_JOB_REQUEST', message: 'job_id query parameter is required', step: 'job_status' });
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(formatJobStatus(job, masumiService), null, 2));
+      return;
+    }
+
+    if (req.method === 'POST' && pathname === '/provide_input' && masumiService) {
+      await handleProvideInput(res, body, masumiService);
       return;
     }
 
@@ -69,7 +315,15 @@ async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse
       message: 'Endpoint not found',
       availableEndpoints: [
         'GET /health - Health check',
-        'POST /agent/outreach - Process outreach request'
+        'POST /agent/outreach - Process outreach request',
+        'POST /agent/outreach/batch - Process a list of outreach requests',
+        'POST /jobs - Queue an outreach request',
+        'GET /jobs/:jobId - Outreach job status',
+        'GET /availability - Masumi availability',
+        'GET /input_schema - Masumi job input schema',
+        'POST /start_job - Start a Masumi job',
+        'GET /status?job_id= - Masumi job status',
+        'POST /provide_input - Provide more input to a Masumi job'
       ]
     }, null, 2));
 
@@ -87,11 +341,8 @@ async function handleRequest(req: http.IncomingMessage, res: http.ServerResponse
 /**
  * Handles outreach processing requests
  */
-async function handleOutreachRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+async function handleOutreachRequest(res: http.ServerResponse, body: any): Promise<void> {
   try {
-    // Parse request body
-    const body = await parseRequestBody(req);
-    
     if (!body) {
       res.writeHead(400, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({
@@ -103,27 +354,46 @@ async function handleOutreachRequest(req: http.IncomingMessage, res: http.Server
             companyContext: {
               name: 'string',
               industry: 'string',
-              size: 'startup|small|medium|large|enterprise'
+              size: 'startup|small|medium|large|enterprise',
+              recentEvents: 'string[] (optional, used as unverified context)'
             },
+            additionalContext: 'object (optional; priorTouchpoint, mutualConnection or sharedEvent personalize the message)',
             contactDetails: {
               name: 'string',
-              email: 'string'
+              email: 'string',
+              linkedinUrl: 'string (required for linkedin_* channels)',
+              phoneNumber: 'string (required for sms channel)'
             }
           },
           intentSignals: [{
-            type: 'job_change|funding_event|technology_adoption|company_growth|industry_trend',
+            type: 'job_change|funding_event|technology_adoption|company_growth|industry_trend|competitor_contract|layoffs|hiring_freeze|prospect_departure',
             description: 'string',
             timestamp: 'ISO date string',
             relevanceScore: 'number (0-1)',
-            source: 'string'
-          }]
+            source: 'string',
+            metadata: 'object (optional; typed fields per type, e.g. funding_event: round, amount, leadInvestor)',
+            polarity: 'positive|negative|disqualifying (optional, default from the type)'
+          }],
+          senderProfile: {
+            senderName: 'string',
+            senderTitle: 'string (optional)',
+            companyName: 'string',
+            productOneLiner: 'string, phrased to follow "we"',
+            proofPoints: 'string[] (optional)',
+            painPointsBySignalType: 'Record<signal type, string> (optional)'
+          },
+          sequence: {
+            maxTouches: 'number 1-5 (optional, default 3); omit sequence for a single message'
+          },
+          channel: 'email|linkedin_connection|linkedin_inmail|sms (optional, default email)',
+          playbook: 'string (optional, default "default"); name of a registered strategy playbook'
         }
       }, null, 2));
       return;
     }
 
     // Validate request structure
-    const { prospectData, intentSignals } = body;
+    const { prospectData, intentSignals, senderProfile, sequence, channel, playbook } = body;
     
     if (!prospectData || !intentSignals) {
       res.writeHead(400, { 'Content-Type': 'application/json' });
@@ -144,9 +414,29 @@ async function handleOutreachRequest(req: http.IncomingMessage, res: http.Server
       timestamp: new Date(signal.timestamp)
     }));
 
+    const reservation = jobQueue.reserveSlots(1);
+    if (!reservation) {
+      sendServerBusy(res);
+      return;
+    }
+
+    // Stop processing if the client disconnects before the response is written
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        controller.abort();
+      }
+    });
+
     // Process the outreach request
     const startTime = Date.now();
-    const result = await agent.processOutreachRequest(prospectData, processedSignals);
+    const result = await agent.processOutreachRequest(prospectData, processedSignals, {
+      senderProfile,
+      sequence,
+      channel,
+      playbook,
+      signal: controller.signal,
+    }).finally(reservation.release);
     const processingTime = Date.now() - startTime;
 
     // Handle processing errors
@@ -177,7 +467,11 @@ async function handleOutreachRequest(req: http.IncomingMessage, res: http.Server
         reasoningSummary: result.reasoningSummary,
         recommendedMessage: result.recommendedMessage,
         alternativeMessages: result.alternativeMessages,
+        channel: result.channel,
+        recommendedSubject: result.recommendedSubject,
+        alternativeSubjects: result.alternativeSubjects,
         suggestedFollowUpTiming: result.suggestedFollowUpTiming,
+        followUpSequence: result.followUpSequence,
         processingMetadata: {
           ...result.processingMetadata,
           serverProcessingTime: processingTime
@@ -202,46 +496,383 @@ async function handleOutreachRequest(req: http.IncomingMessage, res: http.Server
 }
 
 /**
- * Parses JSON request body
+ * Handles batch outreach requests; per-row failures are returned in the results
  */
-function parseRequestBody(req: http.IncomingMessage): Promise<any> {
-  return new Promise((resolve, reject) => {
-    let body = '';
-    
-    req.on('data', (chunk) => {
-      body += chunk.toString();
+async function handleBatchRequest(res: http.ServerResponse, body: any): Promise<void> {
+  try {
+    if (!body || !Array.isArray(body.items)) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        error: 'Bad Request',
+        message: 'Request body with an items array is required',
+        expectedFormat: {
+          items: [{
+            id: 'string (unique within the batch)',
+            prospectData: 'same as POST /agent/outreach',
+            intentSignals: 'same as POST /agent/outreach',
+            senderProfile: 'optional, same as POST /agent/outreach',
+            sequence: 'optional, same as POST /agent/outreach',
+            channel: 'optional, same as POST /agent/outreach',
+            playbook: 'optional, overrides the campaign playbook for this item'
+          }],
+          concurrency: 'number 1-16 (optional, default 4)',
+          playbook: 'string (optional); campaign playbook for every item without its own'
+        }
+      }, null, 2));
+      return;
+    }
+
+    // Convert timestamp strings to Date objects; malformed rows are left for per-item validation
+    const items: BatchItem[] = body.items.map((item: any) => {
+      const { id, prospectData, intentSignals, senderProfile, sequence, channel, playbook } = item || {};
+      return {
+        id,
+        prospectData,
+        intentSignals: Array.isArray(intentSignals)
+          ? intentSignals.map((signal: any) => ({ ...signal, timestamp: new Date(signal?.timestamp) }))
+          : intentSignals,
+        options: { senderProfile, sequence, channel, playbook },
+      };
     });
-    
+
+    // The batch runs in as many of its requested slots (default 4) as are free, and gets 503 if none is
+    const reservation = jobQueue.reserveSlots(Number(body.concurrency) || 4);
+    if (!reservation) {
+      sendServerBusy(res);
+      return;
+    }
+
+    const startTime = Date.now();
+    const result = await agent.processBatch(items, { concurrency: reservation.slots, playbook: body.playbook })
+      .finally(reservation.release);
+    const processingTime = Date.now() - startTime;
+
+    if ('code' in result) {
+      res.writeHead(getErrorStatusCode(result.code), { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        success: false,
+        error: {
+          code: result.code,
+          message: result.message,
+          step: result.step,
+          remediation: result.remediation
+        },
+        processingTime,
+        timestamp: new Date().toISOString()
+      }, null, 2));
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      success: true,
+      data: result,
+      processingTime,
+      timestamp: new Date().toISOString()
+    }, null, 2));
+
+  } catch (error) {
+    console.error('Batch processing error:', error);
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      success: false,
+      error: {
+        code: 'SERVER_ERROR',
+        message: 'Internal server error during batch processing',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      timestamp: new Date().toISOString()
+    }, null, 2));
+  }
+}
+
+/**
+ * Queues an outreach request and returns at once with the job id
+ */
+async function handleSubmitJob(res: http.ServerResponse, body: any): Promise<void> {
+  try {
+    const { prospectData, intentSignals, senderProfile, sequence, channel, playbook, callbackUrl } = body || {};
+
+    const job = jobQueue.submit({
+      prospectData,
+      intentSignals: Array.isArray(intentSignals)
+        ? intentSignals.map((signal: any) => ({ ...signal, timestamp: new Date(signal?.timestamp) }))
+        : intentSignals,
+      options: { senderProfile, sequence, channel, playbook },
+      callbackUrl,
+    });
+
+    if ('code' in job) {
+      sendError(res, job);
+      return;
+    }
+
+    res.writeHead(202, { 'Content-Type': 'application/json', 'Location': `/jobs/${job.jobId}` });
+    res.end(JSON.stringify({
+      success: true,
+      data: {
+        jobId: job.jobId,
+        status: job.status,
+        statusUrl: `/jobs/${job.jobId}`
+      },
+      timestamp: new Date().toISOString()
+    }, null, 2));
+
+  } catch (error) {
+    console.error('Job submission error:', error);
+    sendError(res, {
+      code: 'SERVER_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      step: 'job_submission'
+    });
+  }
+}
+
+/**
+ * Lists and retries failed webhook deliveries; requires ADMIN_API_KEY as a bearer token
+ */
+function handleAdminRequest(req: http.IncomingMessage, res: http.ServerResponse, pathname: string): void {
+  if (!ADMIN_API_KEY) {
+    sendError(res, { code: 'ADMIN_DISABLED', message: 'Set ADMIN_API_KEY to enable admin routes', step: 'admin_auth' });
+    return;
+  }
+  if (!isAdminRequest(req)) {
+    sendError(res, { code: 'UNAUTHORIZED', message: 'A valid admin bearer token is required', step: 'admin_auth' });
+    return;
+  }
+
+  if (req.method === 'GET' && pathname === '/admin/webhooks/failed') {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      success: true,
+      data: webhookDispatcher?.getFailedDeliveries() ?? [],
+      timestamp: new Date().toISOString()
+    }, null, 2));
+    return;
+  }
+
+  const retryMatch = pathname.match(/^\/admin\/webhooks\/([^/]+)\/retry$/);
+  if (req.method === 'POST' && retryMatch) {
+    const delivery = webhookDispatcher?.redeliver(decodeURIComponent(retryMatch[1]));
+    if (!delivery) {
+      sendError(res, { code: 'DELIVERY_NOT_FOUND', message: `No failed delivery with id ${retryMatch[1]}`, step: 'webhook_retry' });
+      return;
+    }
+    res.writeHead(202, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ success: true, data: delivery, timestamp: new Date().toISOString() }, null, 2));
+    return;
+  }
+
+  sendError(res, { code: 'NOT_FOUND', message: 'Admin endpoint not found', step: 'admin' });
+}
+
+function isAdminRequest(req: http.IncomingMessage): boolean {
+  const expected = Buffer.from(`Bearer ${ADMIN_API_KEY}`);
+  const received = Buffer.from(req.headers.authorization || '');
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+function sendError(res: http.ServerResponse, error: { code: string; message: string; step: string; remediation?: string }): void {
+  const statusCode = getErrorStatusCode(error.code);
+  if (statusCode === 503) {
+    res.setHeader('Retry-After', BUSY_RETRY_AFTER_SECONDS);
+  }
+  res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    success: false,
+    error,
+    timestamp: new Date().toISOString()
+  }, null, 2));
+}
+
+/**
+ * Rejects a synchronous request when every MAX_CONCURRENT_REQUESTS slot is taken
+ */
+function sendServerBusy(res: http.ServerResponse): void {
+  sendError(res, {
+    code: 'SERVER_BUSY',
+    message: `All ${MAX_CONCURRENT_REQUESTS} processing slots are in use`,
+    step: 'request_admission',
+    remediation: 'Retry after the Retry-After delay, or submit the request to POST /jobs',
+  });
+}
+
+/**
+ * Starts a Masumi job; the outreach pipeline runs once payment is confirmed
+ */
+async function handleStartJob(res: http.ServerResponse, body: any, service: MasumiService): Promise<void> {
+  try {
+    const job = await service.startJob(body?.identifier_from_purchaser, body?.input_data);
+
+    if ('code' in job) {
+      sendJobError(res, job);
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      status: 'success',
+      job_id: job.jobId,
+      blockchainIdentifier: job.payment?.blockchainIdentifier,
+      payByTime: job.payment?.payByTime,
+      submitResultTime: job.payment?.submitResultTime,
+      identifierFromPurchaser: job.identifierFromPurchaser,
+      input_hash: job.inputHash
+    }, null, 2));
+
+  } catch (error) {
+    console.error('Start job error:', error);
+    sendJobError(res, {
+      code: 'SERVER_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      step: 'start_job'
+    });
+  }
+}
+
+/**
+ * Adds input to a Masumi job in awaiting_input and resumes it
+ */
+async function handleProvideInput(res: http.ServerResponse, body: any, service: MasumiService): Promise<void> {
+  try {
+    const job = typeof body?.job_id === 'string'
+      ? service.provideInput(body.job_id, body.input_data)
+      : { code: 'INVALID_JOB_REQUEST', message: 'job_id is required', step: 'provide_input' };
+
+    if ('code' in job) {
+      sendJobError(res, job);
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      status: 'success',
+      job_id: job.jobId,
+      input_hash: job.inputHash
+    }, null, 2));
+
+  } catch (error) {
+    console.error('Provide input error:', error);
+    sendJobError(res, {
+      code: 'SERVER_ERROR',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      step: 'provide_input'
+    });
+  }
+}
+
+/**
+ * Formats a job for GET /status; jobs awaiting input repeat the schema
+ */
+function formatJobStatus(job: MasumiJob, service: MasumiService): Record<string, unknown> {
+  return {
+    job_id: job.jobId,
+    status: job.status,
+    message: job.message,
+    input_hash: job.inputHash,
+    result: job.result,
+    error: job.error,
+    input_schema: job.status === 'awaiting_input' ? service.getInputSchema() : undefined,
+    updatedAt: job.updatedAt
+  };
+}
+
+function sendJobError(res: http.ServerResponse, error: { code: string; message: string; step: string; remediation?: string }): void {
+  res.writeHead(getErrorStatusCode(error.code), { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({
+    status: 'error',
+    error,
+    timestamp: new Date().toISOString()
+  }, null, 2));
+}
+
+/**
+ * Reads and parses a JSON request body of at most maxBytes
+ */
+function readRequestBody(
+  req: http.IncomingMessage,
+  maxBytes: number
+): Promise<{ body: any } | { error: ProcessingError }> {
+  const tooLarge = {
+    error: {
+      code: 'PAYLOAD_TOO_LARGE',
+      message: `Request body exceeds ${maxBytes} bytes`,
+      step: 'request_parsing'
+    }
+  };
+
+  const declaredLength = parseInt(req.headers['content-length'] || '', 10);
+  if (declaredLength > maxBytes) {
+    return Promise.resolve(tooLarge);
+  }
+
+  return new Promise((resolve) => {
+    const chunks: Buffer[] = [];
+    let received = 0;
+
+    const onData = (chunk: Buffer): void => {
+      received += chunk.length;
+      if (received > maxBytes) {
+        req.off('data', onData);
+        resolve(tooLarge);
+        return;
+      }
+      chunks.push(chunk);
+    };
+    req.on('data', onData);
+
     req.on('end', () => {
+      const body = Buffer.concat(chunks).toString('utf8');
+      if (!body.trim()) {
+        resolve({ body: null });
+        return;
+      }
       try {
-        if (!body.trim()) {
-          resolve(null);
-          return;
-        }
-        const parsed = JSON.parse(body);
-        resolve(parsed);
+        resolve({ body: JSON.parse(body) });
       } catch (error) {
-        reject(new Error('Invalid JSON in request body'));
+        resolve({ error: { code: 'INVALID_JSON', message: 'Invalid JSON in request body', step: 'request_parsing' } });
       }
     });
-    
+
     req.on('error', (error) => {
-      reject(error);
+      resolve({ error: { code: 'SERVER_ERROR', message: error.message, step: 'request_parsing' } });
     });
   });
 }
 
+function isProtectedRoute(pathname: string): boolean {
+  return PROTECTED_ROUTES.some(route => route.test(pathname));
+}
+
 /**
  * Maps error codes to HTTP status codes
  */
 function getErrorStatusCode(errorCode: string): number {
   const statusMap: Record<string, number> = {
     'VALIDATION_FAILED': 400,
+    'INVALID_BATCH': 400,
+    'INVALID_JOB_REQUEST': 400,
+    'INVALID_JSON': 400,
+    'CORS_ORIGIN_DENIED': 403,
+    'PAYLOAD_TOO_LARGE': 413,
+    'RATE_LIMITED': 429,
+    'MASUMI_DISABLED': 503,
+    'SERVER_BUSY': 503,
+    'QUEUE_FULL': 503,
+    'JOB_NOT_FOUND': 404,
+    'JOB_NOT_AWAITING_INPUT': 409,
+    'DO_NOT_CONTACT': 422,
+    'DELIVERY_NOT_FOUND': 404,
+    'NOT_FOUND': 404,
+    'UNAUTHORIZED': 401,
+    'ADMIN_DISABLED': 403,
     'PROCESSING_TIMEOUT': 408,
+    'PROCESSING_CANCELLED': 499, // client closed the request
     'SIGNAL_INTERPRETATION_ERROR': 422,
     'HYPOTHESIS_FORMATION_ERROR': 422,
     'CONFIDENCE_SCORING_ERROR': 422,
     'STRATEGY_SELECTION_ERROR': 422,
+    'UNKNOWN_PLAYBOOK': 400,
     'MESSAGE_GENERATION_ERROR': 422,
     'AUTHENTICITY_FILTER_ERROR': 422,
     'OUTPUT_ASSEMBLY_ERROR': 422,
@@ -256,12 +887,14 @@ function getErrorStatusCode(errorCode: string): number {
 function gracefulShutdown(server: http.Server): void {
   console.log('Received shutdown signal, closing server gracefully...');
   
-  server.close((err) => {
+  server.close(async (err) => {
     if (err) {
       console.error('Error during server shutdown:', err);
       process.exit(1);
     }
     
+    // Let running jobs finish; the timeout below still bounds the wait
+    await Promise.all([masumiService?.waitForActiveJobs(), jobQueue.waitForIdle()]);
     console.log('Server closed successfully');
     process.exit(0);
   });
@@ -273,11 +906,25 @@ function gracefulShutdown(server: http.Server): void {
   }, 10000);
 }
 
+/**
+ * Creates the HTTP server without listening, so tests can pick their own port
+ */
+function createServer(options: ServerOptions = {}): http.Server {
+  if (options.paymentVerifier) {
+    masumiService = new MasumiService(jobQueue, new InMemoryJobStore(), options.paymentVerifier);
+  }
+  if (options.security) {
+    security = createSecurity({ ...security.config, ...options.security });
+  }
+
+  return http.createServer(handleRequest);
+}
+
 /**
  * Start the HTTP server
  */
-function startServer(): void {
-  const server = http.createServer(handleRequest);
+function startServer(options: ServerOptions = {}): http.Server {
+  const server = createServer(options);
   
   server.listen(PORT, () => {
     console.log(`🚀 Intent-Driven Cold Outreach Agent Server`);
@@ -286,11 +933,23 @@ function startServer(): void {
     console.log(`📋 Available endpoints:`);
     console.log(`   GET  /health - Health check`);
     console.log(`   POST /agent/outreach - Process outreach request`);
+    console.log(`   POST /agent/outreach/batch - Process a list of outreach requests`);
+    console.log(`   POST /jobs, GET /jobs/:jobId - Asynchronous outreach jobs (${MAX_CONCURRENT_REQUESTS} at a time)`);
+    console.log(`   GET  /availability, GET /input_schema, POST /start_job, GET /status, POST /provide_input - Masumi (${MASUMI_NETWORK})`);
+    if (!masumiService) {
+      console.warn(`⚠️  Masumi jobs are disabled: pass a paymentVerifier to startServer to enable them`);
+    }
+    if (!security.authenticator.isEnabled()) {
+      console.warn(`⚠️  API key authentication is disabled: set API_KEYS to require keys`);
+    }
+    console.log(`🔒 Rate limit: ${security.config.rateLimitMaxRequests} requests per ${security.config.rateLimitWindowMs}ms`);
+    console.log(`📘 Playbooks: ${agent.getPlaybooks().list().map(playbook => playbook.name).join(', ')}`);
     console.log(`⏰ Started at: ${new Date().toISOString()}`);
     
     if (ENABLE_VERBOSE_LOGGING) {
       console.log(`🔍 Verbose logging: enabled`);
       console.log(`⏱️  Processing timeout: ${PROCESSING_TIMEOUT}ms`);
+      console.log(`🗄️  Response cache TTL: ${CACHE_TTL_SECONDS > 0 ? `${CACHE_TTL_SECONDS}s` : 'disabled'}`);
     }
   });
   
@@ -302,6 +961,8 @@ function startServer(): void {
   // Handle graceful shutdown
   process.on('SIGTERM', () => gracefulShutdown(server));
   process.on('SIGINT', () => gracefulShutdown(server));
+
+  return server;
 }
 
 // Start the server if this file is run directly
@@ -309,4 +970,4 @@ if (require.main === module) {
   startServer();
 }
 
-export { startServer };
\ No newline at end of file
+export { createServer, startServer };
\ No newline at end of file
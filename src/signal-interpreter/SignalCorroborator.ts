@@ -0,0 +1,127 @@
+/**
+ * SignalCorroborator - Merges reports of the same event from several sources
+ *
+ * Runs after each signal has been weighted on its own. Signals of the same type,
+ * close in time and with similar descriptions are treated as one event:
+ * - Each cluster becomes a single WeightedSignal listing every source
+ * - Independent sources add a bounded weight boost instead of counting twice
+ * - Repeats from the same source are deduplicated without a boost
+ */
+
+import { SignalCorroborationOptions, WeightedSignal } from '../types';
+
+export class SignalCorroborator {
+  private readonly MS_PER_DAY = 1000 * 60 * 60 * 24;
+  private readonly MIN_TOKEN_LENGTH = 3;
+  // Words too common in signal descriptions to say two reports describe the same event
+  private readonly STOP_WORDS = new Set([
+    'the', 'and', 'for', 'with', 'from', 'its', 'their', 'has', 'have', 'was', 'were',
+    'new', 'company', 'announced', 'reported', 'team', 'into', 'after', 'that', 'this',
+  ]);
+
+  private readonly timeWindowMs: number;
+  private readonly similarityThreshold: number;
+  private readonly boostPerSource: number;
+  private readonly maxBoost: number;
+
+  constructor(options: SignalCorroborationOptions = {}) {
+    this.timeWindowMs = Math.max(0, options.timeWindowDays ?? 7) * this.MS_PER_DAY;
+    this.similarityThreshold = Math.min(1, Math.max(0, options.similarityThreshold ?? 0.5));
+    this.boostPerSource = Math.max(0, options.boostPerSource ?? 0.1);
+    this.maxBoost = Math.max(0, options.maxBoost ?? 0.2);
+  }
+
+  /**
+   * Merges corroborating signals; clusters keep the position of their first signal
+   */
+  corroborate(signals: WeightedSignal[]): WeightedSignal[] {
+    const tokens = signals.map(signal => this.tokenize(signal.description));
+    const clusters: number[][] = [];
+
+    signals.forEach((signal, index) => {
+      const cluster = clusters.find(members =>
+        members.some(member => this.describeSameEvent(signals[member], tokens[member], signal, tokens[index]))
+      );
+      if (cluster) {
+        cluster.push(index);
+      } else {
+        clusters.push([index]);
+      }
+    });
+
+    return clusters.map(members => this.mergeCluster(members.map(index => signals[index])));
+  }
+
+  private describeSameEvent(a: WeightedSignal, aTokens: Set<string>, b: WeightedSignal, bTokens: Set<string>): boolean {
+    // An unverified report cannot corroborate a sourced one
+    if (a.type !== b.type || a.polarity !== b.polarity || Boolean(a.unverified) !== Boolean(b.unverified)) {
+      return false;
+    }
+
+    const aTime = a.timestamp instanceof Date ? a.timestamp.getTime() : NaN;
+    const bTime = b.timestamp instanceof Date ? b.timestamp.getTime() : NaN;
+    if (!Number.isFinite(aTime) || !Number.isFinite(bTime) || Math.abs(aTime - bTime) > this.timeWindowMs) {
+      return false;
+    }
+
+    return this.similarity(aTokens, bTokens) >= this.similarityThreshold;
+  }
+
+  // Overlap coefficient, so a short headline still matches a longer write-up of the same event
+  private similarity(a: Set<string>, b: Set<string>): number {
+    const smaller = a.size <= b.size ? a : b;
+    const larger = smaller === a ? b : a;
+    if (smaller.size === 0) {
+      return 0;
+    }
+
+    let shared = 0;
+    smaller.forEach(token => {
+      if (larger.has(token)) {
+        shared++;
+      }
+    });
+    return shared / smaller.size;
+  }
+
+  private tokenize(description: string): Set<string> {
+    return new Set(
+      (description || '')
+        .toLowerCase()
+        .split(/[^a-z0-9$%]+/)
+        .filter(token => (token.length >= this.MIN_TOKEN_LENGTH || /\d/.test(token)) && !this.STOP_WORDS.has(token))
+    );
+  }
+
+  private mergeCluster(members: WeightedSignal[]): WeightedSignal {
+    if (members.length === 1) {
+      return members[0];
+    }
+
+    // The strongest report represents the event; the others only add sources
+    const representative = members.reduce((best, signal) => (signal.weight > best.weight ? signal : best));
+    const sources = this.distinctSources(members);
+    const boost = Math.min(this.maxBoost, this.boostPerSource * Math.max(0, sources.length - 1));
+
+    return {
+      ...representative,
+      weight: Math.min(1, representative.weight * (1 + boost)),
+      sources,
+      mergedSignalCount: members.length,
+    };
+  }
+
+  private distinctSources(members: WeightedSignal[]): string[] {
+    const seen = new Set<string>();
+    return members
+      .map(signal => (signal.source || '').trim())
+      .filter(source => {
+        const key = source.toLowerCase();
+        if (source.length === 0 || seen.has(key)) {
+          return false;
+        }
+        seen.add(key);
+        return true;
+      });
+  }
+}
@@ -6,82 +6,87 @@
  * - 2.2: Weight signals based on relevance and freshness
  * - 2.3: Don't treat all signals as equally important
  * - 2.4: Prioritize more recent and direct signals when conflicts exist
+ *
+ * Freshness comes from the shared FreshnessModel, so each signal type decays on its
+ * own curve (funding stays relevant for months, a job change for weeks).
+ * Each weight includes the signal type's registered priority, so direct signals such as
+ * job changes outweigh indirect ones such as industry trends with the same relevance.
+ * Each signal's polarity is resolved from the signal itself or its registered type, so
+ * negative and disqualifying signals are weighted the same way but kept apart downstream.
+ * With corroboration enabled, reports of the same event from several sources are
+ * merged after weighting, so they count once with a bounded boost.
  */
 
-import { ISignalInterpreter } from '../interfaces';
-import { IntentSignal, WeightedSignal, SignalType } from '../types';
+import { ISignalInterpreter, ISignalTypeRegistry } from '../interfaces';
+import { IntentSignal, WeightedSignal, SignalTypeId, SignalCorroborationOptions, SignalPolarity } from '../types';
+import { FreshnessModel } from '../freshness';
+import { SignalTypeRegistry } from '../signal-types';
+import { SignalCorroborator } from './SignalCorroborator';
+
+export interface SignalInterpreterOptions {
+  typePriorities?: Partial<Record<SignalTypeId, number>>; // multipliers in (0, 1], override the registered priorities
+  corroboration?: SignalCorroborationOptions; // merges near-duplicate signals when set
+  freshness?: FreshnessModel; // default curves when omitted
+  signalTypes?: ISignalTypeRegistry; // source of each type's priority, built-in types when omitted
+}
 
 export class SignalInterpreter implements ISignalInterpreter {
-  private readonly FRESHNESS_DECAY_DAYS = 30; // Signals lose weight after 30 days
-  private readonly MAX_SIGNAL_AGE_DAYS = 90; // Signals older than 90 days get minimal weight
+  private readonly UNKNOWN_TYPE_PRIORITY = 0.5;
+  private readonly POLARITY_VALUES: SignalPolarity[] = ['positive', 'negative', 'disqualifying'];
+
+  private readonly typePriorities: Partial<Record<SignalTypeId, number>>;
+  private readonly corroborator: SignalCorroborator | null;
+  private readonly signalTypes: ISignalTypeRegistry;
+  private readonly freshness: FreshnessModel;
+
+  constructor(options: SignalInterpreterOptions = {}) {
+    this.typePriorities = { ...options.typePriorities };
+    this.corroborator = options.corroboration ? new SignalCorroborator(options.corroboration) : null;
+    this.signalTypes = options.signalTypes ?? new SignalTypeRegistry();
+    this.freshness = options.freshness ?? new FreshnessModel({ signalTypes: this.signalTypes });
+  }
 
   /**
    * Interprets intent signals independently and applies weighting based on relevance and freshness
    * Each signal is processed in isolation to prevent cross-contamination
+   * The prospect's industry selects a vertical freshness profile when one is configured
    */
-  interpretSignals(intentSignals: IntentSignal[]): WeightedSignal[] {
+  interpretSignals(intentSignals: IntentSignal[], industry?: string): WeightedSignal[] {
     if (!intentSignals || intentSignals.length === 0) {
       return [];
     }
 
     // Process each signal independently to ensure no cross-contamination
-    return intentSignals.map(signal => this.interpretSingleSignal(signal));
+    const weightedSignals = intentSignals.map(signal => this.interpretSingleSignal(signal, industry));
+
+    // Corroboration only merges finished weights, so each report is still weighted in isolation
+    return this.corroborator ? this.corroborator.corroborate(weightedSignals) : weightedSignals;
   }
 
   /**
    * Interprets a single signal in complete isolation from other signals
-   * Calculates weight based on relevance score and freshness
+   * Calculates weight based on relevance score, freshness and signal type
    */
-  private interpretSingleSignal(signal: IntentSignal): WeightedSignal {
-    const freshnessScore = this.calculateFreshnessScore(signal.timestamp);
-    const weight = this.calculateWeight(signal.relevanceScore, freshnessScore);
+  private interpretSingleSignal(signal: IntentSignal, industry?: string): WeightedSignal {
+    const freshnessScore = this.freshness.score(signal.timestamp, signal.type, industry);
+    const typePriority = this.getSignalTypePriority(signal.type);
+    const weight = this.calculateWeight(signal.relevanceScore, freshnessScore, typePriority);
 
     return {
       ...signal,
       weight,
       freshnessScore,
+      typePriority,
+      polarity: this.resolvePolarity(signal),
     };
   }
 
   /**
-   * Calculates freshness score based on signal timestamp
-   * More recent signals get higher freshness scores
-   */
-  private calculateFreshnessScore(timestamp: Date): number {
-    // Handle invalid timestamps
-    if (!timestamp || isNaN(timestamp.getTime())) {
-      return 0.01; // Assign minimal freshness for invalid timestamps
-    }
-
-    const now = new Date();
-    const ageInDays = (now.getTime() - timestamp.getTime()) / (1000 * 60 * 60 * 24);
-
-    // Handle future timestamps (shouldn't happen but be defensive)
-    if (ageInDays < 0) {
-      return 1.0; // Treat future timestamps as maximally fresh
-    }
-
-    // Signals older than MAX_SIGNAL_AGE_DAYS get minimal freshness
-    if (ageInDays > this.MAX_SIGNAL_AGE_DAYS) {
-      return 0.1;
-    }
-
-    // Linear decay over FRESHNESS_DECAY_DAYS, then slower decay
-    if (ageInDays <= this.FRESHNESS_DECAY_DAYS) {
-      return Math.max(0.1, 1.0 - (ageInDays / this.FRESHNESS_DECAY_DAYS) * 0.7);
-    }
-
-    // Slower decay for signals between 30-90 days
-    const extendedDecay = (ageInDays - this.FRESHNESS_DECAY_DAYS) / (this.MAX_SIGNAL_AGE_DAYS - this.FRESHNESS_DECAY_DAYS);
-    return Math.max(0.1, 0.3 - extendedDecay * 0.2);
-  }
-
-  /**
-   * Calculates final weight combining relevance and freshness
-   * Uses multiplicative approach to ensure both factors matter
+   * Calculates final weight combining relevance, freshness and signal type priority
+   * Uses multiplicative approach to ensure every factor matters
    * Implements conservative interpretation for unclear evidence (Requirement 10.1)
    */
-  private calculateWeight(relevanceScore: number, freshnessScore: number): number {
+  private calculateWeight(relevanceScore: number, freshnessScore: number, typePriority: number): number {
     // Handle invalid relevance scores (NaN, negative, or > 1)
     let normalizedRelevance = relevanceScore;
     if (isNaN(normalizedRelevance) || normalizedRelevance < 0 || normalizedRelevance > 1) {
@@ -97,9 +102,9 @@ export class SignalInterpreter implements ISignalInterpreter {
     // Conservative interpretation: Apply conservative penalty for unclear evidence
     const conservativePenalty = this.applyConservativeInterpretation(normalizedRelevance, normalizedFreshness);
     
-    // Combine relevance and freshness multiplicatively
-    // This ensures both factors contribute to the final weight
-    const baseWeight = normalizedRelevance * normalizedFreshness * conservativePenalty;
+    // Combine relevance, freshness and type priority multiplicatively
+    // This ensures every factor contributes to the final weight
+    const baseWeight = normalizedRelevance * normalizedFreshness * typePriority * conservativePenalty;
     
     // Ensure weight is within valid bounds
     return Math.max(0.01, Math.min(1.0, baseWeight));
@@ -135,18 +140,24 @@ export class SignalInterpreter implements ISignalInterpreter {
   }
 
   /**
-   * Gets signal type priority multiplier
-   * Direct signals (job changes, funding) get higher priority than indirect ones
+   * Uses the signal's own polarity when valid, otherwise the one registered for its type
    */
-  private getSignalTypePriority(signalType: SignalType): number {
-    const priorityMap: Record<SignalType, number> = {
-      [SignalType.JOB_CHANGE]: 1.0,        // Most direct
-      [SignalType.FUNDING_EVENT]: 0.95,    // Very direct
-      [SignalType.TECHNOLOGY_ADOPTION]: 0.8, // Moderately direct
-      [SignalType.COMPANY_GROWTH]: 0.7,    // Less direct
-      [SignalType.INDUSTRY_TREND]: 0.6,    // Least direct
-    };
+  private resolvePolarity(signal: IntentSignal): SignalPolarity {
+    if (signal.polarity && this.POLARITY_VALUES.includes(signal.polarity)) {
+      return signal.polarity;
+    }
+    return this.signalTypes.get(signal.type)?.polarity ?? 'positive';
+  }
 
-    return priorityMap[signalType] || 0.5;
+  /**
+   * Gets signal type priority multiplier from the configured table, then the registry
+   * Invalid configured values fall back to the registered priority for the type
+   */
+  private getSignalTypePriority(signalType: SignalTypeId): number {
+    const priority = this.typePriorities[signalType];
+    if (typeof priority === 'number' && priority > 0 && priority <= 1) {
+      return priority;
+    }
+    return this.signalTypes.get(signalType)?.priority ?? this.UNKNOWN_TYPE_PRIORITY;
   }
-}
\ No newline at end of file
+}
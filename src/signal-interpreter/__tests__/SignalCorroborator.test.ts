@@ -0,0 +1,100 @@
+/**
+ * Tests for merging corroborating signals in SignalInterpreter
+ */
+
+import { SignalInterpreter } from '../SignalInterpreter';
+import { HypothesisFormer } from '../../hypothesis-former';
+import { IntentSignal, SignalType } from '../../types';
+
+describe('SignalInterpreter corroboration', () => {
+  const daysAgo = (days: number): Date => new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+
+  const techCrunchReport: IntentSignal = {
+    type: SignalType.FUNDING_EVENT,
+    description: 'TechCorp raised $40M Series B led by Accel',
+    timestamp: daysAgo(3),
+    relevanceScore: 0.9,
+    source: 'TechCrunch',
+  };
+  const linkedInReport: IntentSignal = {
+    type: SignalType.FUNDING_EVENT,
+    description: 'Excited to share TechCorp closed a $40M Series B round with Accel',
+    timestamp: daysAgo(2),
+    relevanceScore: 0.85,
+    source: 'LinkedIn',
+  };
+  const hiringSignal: IntentSignal = {
+    type: SignalType.COMPANY_GROWTH,
+    description: 'Hiring 20 engineers across platform teams',
+    timestamp: daysAgo(5),
+    relevanceScore: 0.8,
+    source: 'LinkedIn Jobs',
+  };
+
+  it('should weight every signal on its own when corroboration is off', () => {
+    const signals = new SignalInterpreter().interpretSignals([techCrunchReport, linkedInReport, hiringSignal]);
+
+    expect(signals).toHaveLength(3);
+    expect(signals.every(signal => signal.sources === undefined)).toBe(true);
+  });
+
+  it('should merge reports of the same event and list their sources', () => {
+    const independent = new SignalInterpreter();
+    const corroborating = new SignalInterpreter({ corroboration: {} });
+
+    const [techCrunch] = independent.interpretSignals([techCrunchReport]);
+    const signals = corroborating.interpretSignals([techCrunchReport, hiringSignal, linkedInReport]);
+
+    expect(signals).toHaveLength(2);
+    expect(signals[0]).toMatchObject({
+      description: techCrunchReport.description,
+      sources: ['TechCrunch', 'LinkedIn'],
+      mergedSignalCount: 2,
+    });
+    expect(signals[0].weight).toBeCloseTo(Math.min(1, techCrunch.weight * 1.1), 8);
+    expect(signals[1].description).toBe(hiringSignal.description);
+  });
+
+  it('should cap the boost however many sources agree', () => {
+    const reports = ['TechCrunch', 'LinkedIn', 'Crunchbase', 'Bloomberg', 'Reuters'].map(source => ({
+      ...techCrunchReport,
+      relevanceScore: 0.5,
+      source,
+    }));
+
+    const [single] = new SignalInterpreter().interpretSignals([reports[0]]);
+    const [merged] = new SignalInterpreter({ corroboration: { boostPerSource: 0.1, maxBoost: 0.2 } }).interpretSignals(reports);
+
+    expect(merged.sources).toHaveLength(5);
+    expect(merged.weight).toBeCloseTo(single.weight * 1.2, 8);
+  });
+
+  it('should deduplicate repeats from one source without a boost', () => {
+    const [single] = new SignalInterpreter().interpretSignals([techCrunchReport]);
+    const [merged] = new SignalInterpreter({ corroboration: {} }).interpretSignals([techCrunchReport, { ...techCrunchReport, timestamp: daysAgo(4) }]);
+
+    expect(merged.sources).toEqual(['TechCrunch']);
+    expect(merged.mergedSignalCount).toBe(2);
+    expect(merged.weight).toBeCloseTo(single.weight, 8);
+  });
+
+  it('should keep reports apart when the type, timing or description differ', () => {
+    const interpreter = new SignalInterpreter({ corroboration: { timeWindowDays: 7 } });
+
+    expect(interpreter.interpretSignals([techCrunchReport, { ...linkedInReport, type: SignalType.COMPANY_GROWTH }])).toHaveLength(2);
+    expect(interpreter.interpretSignals([techCrunchReport, { ...linkedInReport, timestamp: daysAgo(20) }])).toHaveLength(2);
+    expect(interpreter.interpretSignals([
+      techCrunchReport,
+      { ...linkedInReport, description: 'Acquired a data labelling startup in Berlin' },
+    ])).toHaveLength(2);
+  });
+
+  it('should cite the number of sources in the hypothesis', () => {
+    const signals = new SignalInterpreter({ corroboration: {} }).interpretSignals([techCrunchReport, linkedInReport, hiringSignal]);
+
+    const hypothesis = new HypothesisFormer().formHypothesis(signals);
+
+    expect(hypothesis.confidenceFactors).toContain('Funding activity reported by 2 sources (TechCrunch, LinkedIn)');
+    expect(hypothesis.supportingEvidence.filter(item => item.includes('Series B'))).toHaveLength(1);
+  });
+});
@@ -117,7 +117,8 @@ describe('SignalInterpreter Property Tests', () => {
    * **Validates: Requirements 2.4**
    * 
    * For any conflicting signals with different timestamps, the system should 
-   * prioritize more recent and direct signals
+   * prioritize more recent and direct signals; with equal timestamps and relevance,
+   * the more direct signal type should outrank the less direct one
    */
   describe('Property 7: Recent Signal Prioritization', () => {
     it('should prioritize more recent signals when signals conflict', () => {
@@ -166,6 +167,63 @@ describe('SignalInterpreter Property Tests', () => {
         { numRuns: 100 }
       );
     });
+
+    it('should weight direct signal types above indirect ones when all else is equal', () => {
+      const priorityOrder = [
+        SignalType.JOB_CHANGE,
+        SignalType.FUNDING_EVENT,
+        SignalType.TECHNOLOGY_ADOPTION,
+        SignalType.COMPANY_GROWTH,
+        SignalType.INDUSTRY_TREND,
+      ];
+
+      fc.assert(
+        fc.property(
+          generateValidIntentSignal(),
+          fc.integer({ min: 0, max: priorityOrder.length - 2 }),
+          fc.integer({ min: 1, max: priorityOrder.length - 1 }),
+          (signal, directIndex, offset) => {
+            const indirectIndex = Math.min(priorityOrder.length - 1, directIndex + offset);
+            // Freshness curves differ by type, so pin the age inside every type's plateau
+            const timestamp = new Date(Date.now() - 1000 * 60 * 60 * 24 * 3);
+            const [direct, indirect] = interpreter.interpretSignals([
+              { ...signal, timestamp, type: priorityOrder[directIndex] },
+              { ...signal, timestamp, type: priorityOrder[indirectIndex] },
+            ]);
+
+            expect(direct.typePriority).toBeGreaterThan(indirect.typePriority!);
+            expect(direct.freshnessScore).toBe(indirect.freshnessScore);
+
+            // Both can sit at the minimum weight floor; otherwise the direct signal must outrank
+            if (direct.weight > 0.01) {
+              expect(direct.weight).toBeGreaterThan(indirect.weight);
+            } else {
+              expect(indirect.weight).toBe(0.01);
+            }
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it('should apply a configured priority table', () => {
+      const signal: IntentSignal = {
+        type: SignalType.INDUSTRY_TREND,
+        description: 'New compliance regulation announced for the sector',
+        timestamp: new Date(Date.now() - 1000 * 60 * 60 * 24 * 2),
+        relevanceScore: 0.9,
+        source: 'Industry report',
+      };
+      const trendFirst = new SignalInterpreter({
+        typePriorities: { [SignalType.INDUSTRY_TREND]: 1.0, [SignalType.JOB_CHANGE]: 0.5 },
+      });
+
+      const [trend, jobChange] = trendFirst.interpretSignals([signal, { ...signal, type: SignalType.JOB_CHANGE }]);
+
+      expect(trend.typePriority).toBe(1.0);
+      expect(jobChange.typePriority).toBe(0.5);
+      expect(trend.weight).toBeGreaterThan(jobChange.weight);
+    });
   });
 });
 
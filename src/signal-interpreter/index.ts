@@ -2,4 +2,5 @@
  * Signal Interpreter module exports
  */
 
-export { SignalInterpreter } from './SignalInterpreter';
\ No newline at end of file
+export { SignalInterpreter, SignalInterpreterOptions } from './SignalInterpreter';
+export { SignalCorroborator } from './SignalCorroborator';
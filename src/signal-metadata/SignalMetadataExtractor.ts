@@ -0,0 +1,150 @@
+/**
+ * SignalMetadataExtractor - Reads structured facts from intent signal metadata
+ *
+ * Signal descriptions are free text; metadata carries the exact facts, such as a
+ * funding round and its lead investor. Each signal type's metadataSchema, taken from
+ * the signal type registry, says which fields exist and what type they hold. Used by:
+ * - InputValidator, to reject metadata that does not match the schema
+ * - HypothesisFormer, to name the primary event precisely, e.g. "your Series B led by Accel"
+ *
+ * Fields outside the schema are left alone, so callers can keep their own bookkeeping
+ * in metadata without it reaching a message.
+ */
+
+import { ISignalTypeRegistry } from '../interfaces';
+import { IntentSignal, SignalMetadataField } from '../types';
+import { SignalTypeRegistry } from '../signal-types';
+
+export type SignalMetadataValue = string | number | Date;
+
+export interface SignalMetadataProblem {
+  field: string; // path within the signal, e.g. 'metadata.amount'
+  message: string;
+}
+
+export class SignalMetadataExtractor {
+  private readonly MAX_TEXT_LENGTH = 100;
+  private readonly PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+  constructor(private signalTypes: ISignalTypeRegistry = new SignalTypeRegistry()) {}
+
+  /**
+   * Checks each schema field present in the signal's metadata
+   * Types without a schema accept any metadata object
+   */
+  validate(signal: IntentSignal): SignalMetadataProblem[] {
+    const metadata: unknown = signal.metadata;
+    if (metadata === undefined) {
+      return [];
+    }
+    if (!this.isPlainObject(metadata)) {
+      return [{ field: 'metadata', message: 'Signal metadata must be an object' }];
+    }
+
+    const schema = this.signalTypes.get(signal.type)?.metadataSchema ?? {};
+    return Object.entries(schema)
+      .filter(([field]) => metadata[field] !== undefined)
+      .filter(([field, spec]) => this.readValue(metadata[field], spec) === undefined)
+      .map(([field, spec]) => ({ field: `metadata.${field}`, message: this.describeExpectedValue(spec) }));
+  }
+
+  /**
+   * The schema fields that hold valid values, with text trimmed and dates parsed
+   */
+  extract(signal: IntentSignal): Record<string, SignalMetadataValue> {
+    const metadata: unknown = signal.metadata;
+    const schema = this.signalTypes.get(signal.type)?.metadataSchema;
+    if (!schema || !this.isPlainObject(metadata)) {
+      return {};
+    }
+
+    const values: Record<string, SignalMetadataValue> = {};
+    Object.entries(schema).forEach(([field, spec]) => {
+      const value = this.readValue(metadata[field], spec);
+      if (value !== undefined) {
+        values[field] = value;
+      }
+    });
+    return values;
+  }
+
+  /**
+   * Names the signal's event from its metadata using the first of its type's
+   * detailPhrases whose fields are all present; undefined when none can be filled
+   */
+  describe(signal: IntentSignal): string | undefined {
+    const definition = this.signalTypes.get(signal.type);
+    const phrases = definition?.detailPhrases ?? [];
+    const values = this.extract(signal);
+
+    const phrase = phrases.find(candidate =>
+      Array.from(candidate.matchAll(this.PLACEHOLDER_PATTERN)).every(match => match[1] in values)
+    );
+    if (!phrase || !definition?.metadataSchema) {
+      return undefined;
+    }
+
+    const schema = definition.metadataSchema;
+    return phrase.replace(this.PLACEHOLDER_PATTERN, (_match, field: string) =>
+      this.formatValue(values[field], schema[field])
+    );
+  }
+
+  private readValue(value: unknown, spec: SignalMetadataField): SignalMetadataValue | undefined {
+    switch (spec.type) {
+      case 'string': {
+        const text = typeof value === 'string' ? value.trim() : '';
+        return text.length > 0 && text.length <= this.MAX_TEXT_LENGTH ? text : undefined;
+      }
+      case 'number':
+        return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+      case 'currency':
+        return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined;
+      case 'date': {
+        const date = value instanceof Date || typeof value === 'string' ? new Date(value) : undefined;
+        return date && !isNaN(date.getTime()) ? date : undefined;
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  private describeExpectedValue(spec: SignalMetadataField): string {
+    switch (spec.type) {
+      case 'string':
+        return `${spec.label} must be a non-empty string of at most ${this.MAX_TEXT_LENGTH} characters`;
+      case 'number':
+        return `${spec.label} must be a number`;
+      case 'currency':
+        return `${spec.label} must be a non-negative amount in US dollars`;
+      case 'date':
+      default:
+        return `${spec.label} must be a valid date`;
+    }
+  }
+
+  private formatValue(value: SignalMetadataValue, spec: SignalMetadataField): string {
+    if (value instanceof Date) {
+      return value.toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+    }
+    if (typeof value === 'number' && spec.type === 'currency') {
+      return this.formatAmount(value);
+    }
+    return String(value);
+  }
+
+  // $40M rather than $40,000,000, as a person would write it
+  private formatAmount(amount: number): string {
+    const scales: Array<[number, string]> = [[1e9, 'B'], [1e6, 'M'], [1e3, 'K']];
+    const scale = scales.find(([size]) => amount >= size);
+    if (!scale) {
+      return `$${Math.round(amount)}`;
+    }
+    const scaled = Math.round((amount / scale[0]) * 10) / 10;
+    return `$${scaled}${scale[1]}`;
+  }
+
+  private isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Tests for structured signal metadata: schema checks, extraction and event phrases
+ */
+
+import { SignalMetadataExtractor } from '../SignalMetadataExtractor';
+import { SignalTypeRegistry } from '../../signal-types';
+import { SignalInterpreter } from '../../signal-interpreter';
+import { HypothesisFormer } from '../../hypothesis-former';
+import {
+  IntentDrivenOutreachAgent,
+  AgentUtils,
+  CompanySize,
+  FundingEventMetadata,
+  IntentSignal,
+  JobChangeMetadata,
+  SignalType,
+  TechnologyAdoptionMetadata,
+} from '../../index';
+
+describe('SignalMetadataExtractor', () => {
+  const signal = (type: SignalType, metadata?: Record<string, unknown>): IntentSignal => ({
+    type,
+    description: `${type} announced`,
+    timestamp: new Date(),
+    relevanceScore: 0.9,
+    source: 'TechCrunch',
+    metadata,
+  });
+
+  it('should name a funding round by its lead investor', () => {
+    const extractor = new SignalMetadataExtractor();
+    const metadata: FundingEventMetadata = { round: 'Series B', amount: 40_000_000, leadInvestor: ' Accel ' };
+
+    expect(extractor.describe(signal(SignalType.FUNDING_EVENT, { ...metadata }))).toBe('your Series B led by Accel');
+    expect(extractor.describe(signal(SignalType.FUNDING_EVENT, { round: 'Series A', amount: 15_500_000 })))
+      .toBe('your $15.5M Series A');
+    expect(extractor.describe(signal(SignalType.FUNDING_EVENT, { amount: 2_000_000_000 }))).toBe('the $2B raise');
+  });
+
+  it('should describe job changes and technology adoption from their own fields', () => {
+    const extractor = new SignalMetadataExtractor();
+    const jobChange: JobChangeMetadata = { previousCompany: 'Stripe', newTitle: 'VP of Engineering', startDate: '2026-05-01' };
+    const adoption: TechnologyAdoptionMetadata = { technology: 'Snowflake', replacedVendor: 'Redshift' };
+
+    expect(extractor.describe(signal(SignalType.JOB_CHANGE, { ...jobChange })))
+      .toBe('your move from Stripe to VP of Engineering');
+    expect(extractor.describe(signal(SignalType.TECHNOLOGY_ADOPTION, { ...adoption })))
+      .toBe('the move from Redshift to Snowflake');
+    expect(extractor.extract(signal(SignalType.JOB_CHANGE, { ...jobChange })).startDate).toEqual(new Date('2026-05-01'));
+  });
+
+  it('should only extract schema fields with valid values', () => {
+    const extractor = new SignalMetadataExtractor();
+
+    const values = extractor.extract(signal(SignalType.FUNDING_EVENT, {
+      round: '   ',
+      amount: -5,
+      leadInvestor: 'Accel',
+      crmId: 'opp-1234',
+    }));
+
+    expect(values).toEqual({ leadInvestor: 'Accel' });
+    expect(extractor.describe(signal(SignalType.COMPANY_GROWTH, { headcount: 400 }))).toBeUndefined();
+  });
+
+  it('should report each schema field with the wrong type', () => {
+    const extractor = new SignalMetadataExtractor();
+
+    expect(extractor.validate(signal(SignalType.FUNDING_EVENT, { round: 7, amount: '$40M', notes: 42 }))).toEqual([
+      { field: 'metadata.round', message: 'Funding round must be a non-empty string of at most 100 characters' },
+      { field: 'metadata.amount', message: 'Amount raised must be a non-negative amount in US dollars' },
+    ]);
+    expect(extractor.validate(signal(SignalType.JOB_CHANGE, { startDate: 'next spring' }))).toEqual([
+      { field: 'metadata.startDate', message: 'Start date must be a valid date' },
+    ]);
+    expect(extractor.validate({ ...signal(SignalType.INDUSTRY_TREND), metadata: ['a'] as unknown as Record<string, unknown> }))
+      .toEqual([{ field: 'metadata', message: 'Signal metadata must be an object' }]);
+  });
+
+  it('should use schemas and phrases of registered types', () => {
+    const registry = new SignalTypeRegistry();
+    registry.register({
+      id: 'rfp_posting',
+      label: 'RFP posting',
+      priority: 0.9,
+      directness: 'direct',
+      freshness: { plateauDays: 14, halfLifeDays: 30, minimum: 0.1 },
+      groundingKeywords: ['rfp', 'proposal'],
+      conservativeReason: 'An open RFP shows an active buying process',
+      metadataSchema: { category: { type: 'string', label: 'RFP category' } },
+      detailPhrases: ['your RFP for {category}'],
+    });
+
+    const extractor = new SignalMetadataExtractor(registry);
+
+    expect(extractor.describe({ ...signal(SignalType.FUNDING_EVENT), type: 'rfp_posting', metadata: { category: 'data tooling' } }))
+      .toBe('your RFP for data tooling');
+    expect(() => registry.register({ ...registry.get('rfp_posting')!, detailPhrases: ['your {budget} RFP'] }))
+      .toThrow('detailPhrases reference fields missing from metadataSchema: budget');
+  });
+});
+
+describe('Signal metadata in the workflow', () => {
+  const prospectData = AgentUtils.createProspectData(
+    'Sarah Chen',
+    'sarah.chen@techcorp.com',
+    'VP of Engineering',
+    'TechCorp',
+    'Software Development',
+    CompanySize.MEDIUM
+  );
+  const fundingSignal: IntentSignal = {
+    type: SignalType.FUNDING_EVENT,
+    description: 'Raised $40M Series B funding',
+    timestamp: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000),
+    relevanceScore: 0.95,
+    source: 'TechCrunch',
+    metadata: { round: 'Series B', amount: 40_000_000, leadInvestor: 'Accel' },
+  };
+  const growthSignal = AgentUtils.createIntentSignal(
+    SignalType.COMPANY_GROWTH, 'Announced expansion into two new markets', 0.6, 'Company Blog', 10
+  );
+
+  it('should carry the primary event into the hypothesis', () => {
+    const weighted = new SignalInterpreter().interpretSignals([fundingSignal, growthSignal]);
+
+    const hypothesis = new HypothesisFormer().formHypothesis(weighted);
+
+    expect(hypothesis.primarySignalType).toBe(SignalType.FUNDING_EVENT);
+    expect(hypothesis.primarySignalDetail).toBe('your Series B led by Accel');
+  });
+
+  it('should reference the event in the message', async () => {
+    const agent = new IntentDrivenOutreachAgent();
+
+    const result = await agent.processOutreachRequest(prospectData, [fundingSignal, growthSignal]);
+
+    expect('code' in result).toBe(false);
+    if (!('code' in result)) {
+      expect(result.recommendedMessage).toContain('your Series B led by Accel');
+      expect(result.recommendedMessage).not.toContain('growth momentum');
+    }
+  });
+
+  it('should reject metadata that does not match the schema', () => {
+    const agent = new IntentDrivenOutreachAgent();
+
+    const result = agent.validateInputs(prospectData, [
+      { ...fundingSignal, metadata: { amount: 'forty million' } },
+      growthSignal,
+    ]);
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toContainEqual({
+      field: 'intentSignals[0].metadata.amount',
+      message: 'Amount raised must be a non-negative amount in US dollars',
+      code: 'INVALID_SIGNAL_METADATA',
+    });
+  });
+});
@@ -0,0 +1,5 @@
+/**
+ * Signal metadata module exports
+ */
+
+export { SignalMetadataExtractor, SignalMetadataProblem, SignalMetadataValue } from './SignalMetadataExtractor';
@@ -0,0 +1,347 @@
+/**
+ * SignalTypeRegistry - Shared, extensible catalogue of intent signal types
+ *
+ * Holds everything the workflow knows about a signal type, consulted on every call by:
+ * - InputValidator, which accepts only registered types
+ * - SignalInterpreter and FreshnessModel, for the type's priority and freshness curve
+ * - HypothesisFormer and ConfidenceScorer, for labels, grounding keywords, reasons and directness
+ * - MessageGenerator, for subject line topics
+ * - SignalMetadataExtractor, for metadata schemas and the phrases that name an event
+ *
+ * The SignalType, NegativeSignalType and ContextSignalType values are built in;
+ * teams register further types at runtime without changing the enums.
+ */
+
+import { ISignalTypeRegistry } from '../interfaces';
+import {
+  ContextSignalType,
+  NegativeSignalType,
+  SignalDirectness,
+  SignalMetadataFieldType,
+  SignalPolarity,
+  SignalType,
+  SignalTypeDefinition,
+  SignalTypeId,
+} from '../types';
+
+export class SignalTypeRegistry implements ISignalTypeRegistry {
+  private readonly ID_PATTERN = /^[a-z][a-z0-9_]*$/;
+  private readonly DIRECTNESS_VALUES: SignalDirectness[] = ['direct', 'moderate', 'indirect'];
+  private readonly POLARITY_VALUES: SignalPolarity[] = ['positive', 'negative', 'disqualifying'];
+  private readonly METADATA_FIELD_TYPES: SignalMetadataFieldType[] = ['string', 'number', 'currency', 'date'];
+  private readonly PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+  // Funding stays relevant for months; a job change matters most in its first weeks
+  private readonly BUILT_IN_TYPES: SignalTypeDefinition[] = [
+    {
+      id: SignalType.JOB_CHANGE,
+      label: 'Role transition',
+      priority: 1.0,
+      directness: 'direct',
+      freshness: { plateauDays: 14, halfLifeDays: 30, minimum: 0.1 },
+      groundingKeywords: ['hired', 'promoted', 'appointed', 'joined', 'role', 'position'],
+      conservativeReason: 'Recent role change may create new priorities and decision-making authority',
+      subjectTopic: 'your new role',
+      metadataSchema: {
+        previousCompany: { type: 'string', label: 'Previous company' },
+        newTitle: { type: 'string', label: 'New title' },
+        startDate: { type: 'date', label: 'Start date' },
+      },
+      detailPhrases: [
+        'your move from {previousCompany} to {newTitle}',
+        'your new role as {newTitle}',
+        'your move from {previousCompany}',
+      ],
+    },
+    {
+      id: SignalType.FUNDING_EVENT,
+      label: 'Funding activity',
+      priority: 0.95,
+      directness: 'direct',
+      freshness: { plateauDays: 30, halfLifeDays: 90, minimum: 0.1 },
+      groundingKeywords: ['funding', 'investment', 'raised', 'capital', 'round', 'investor'],
+      conservativeReason: 'Recent funding may enable new initiatives and technology investments',
+      subjectTopic: 'the recent funding',
+      metadataSchema: {
+        round: { type: 'string', label: 'Funding round' },
+        amount: { type: 'currency', label: 'Amount raised' },
+        leadInvestor: { type: 'string', label: 'Lead investor' },
+      },
+      detailPhrases: [
+        'your {round} led by {leadInvestor}',
+        'your {amount} {round}',
+        'your {round}',
+        'the {amount} raise led by {leadInvestor}',
+        'the {amount} raise',
+      ],
+    },
+    {
+      id: SignalType.TECHNOLOGY_ADOPTION,
+      label: 'Technology change',
+      priority: 0.8,
+      directness: 'moderate',
+      freshness: { plateauDays: 7, halfLifeDays: 45, minimum: 0.1 },
+      groundingKeywords: ['technology', 'tech', 'system', 'platform', 'software', 'tool'],
+      conservativeReason: 'Technology changes may indicate evolving business needs',
+      subjectTopic: 'the technology changes',
+      metadataSchema: {
+        technology: { type: 'string', label: 'Technology' },
+        replacedVendor: { type: 'string', label: 'Replaced vendor' },
+      },
+      detailPhrases: [
+        'the move from {replacedVendor} to {technology}',
+        'the {technology} rollout',
+        'the move away from {replacedVendor}',
+      ],
+    },
+    {
+      id: SignalType.COMPANY_GROWTH,
+      label: 'Growth indicator',
+      priority: 0.7,
+      directness: 'indirect',
+      freshness: { plateauDays: 7, halfLifeDays: 45, minimum: 0.1 },
+      groundingKeywords: ['growth', 'expansion', 'scaling', 'hiring', 'revenue', 'market'],
+      conservativeReason: 'Company growth may create new operational challenges and opportunities',
+      subjectTopic: 'the team growth',
+    },
+    {
+      id: SignalType.INDUSTRY_TREND,
+      label: 'Industry trend',
+      priority: 0.6,
+      directness: 'indirect',
+      freshness: { plateauDays: 14, halfLifeDays: 60, minimum: 0.1 },
+      groundingKeywords: ['industry', 'market', 'trend', 'sector', 'regulation', 'compliance'],
+      conservativeReason: 'Industry developments may influence strategic planning and priorities',
+      subjectTopic: 'shifts in {industry}',
+    },
+    // Counter-evidence: these lower confidence or rule out outreach altogether
+    {
+      id: NegativeSignalType.COMPETITOR_CONTRACT,
+      label: 'Competitor contract',
+      priority: 1.0,
+      directness: 'direct',
+      freshness: { plateauDays: 90, halfLifeDays: 180, minimum: 0.1 },
+      groundingKeywords: ['signed', 'contract', 'selected', 'chose', 'renewed', 'competitor'],
+      conservativeReason: 'A recent commitment to a competing product leaves little room for a new vendor',
+      polarity: 'disqualifying',
+    },
+    {
+      id: NegativeSignalType.LAYOFFS,
+      label: 'Layoffs',
+      priority: 0.9,
+      directness: 'direct',
+      freshness: { plateauDays: 30, halfLifeDays: 90, minimum: 0.1 },
+      groundingKeywords: ['layoff', 'laid off', 'reduction', 'cuts', 'restructuring', 'downsizing'],
+      conservativeReason: 'Recent layoffs may freeze new spending and shift priorities to cost cutting',
+      polarity: 'negative',
+    },
+    {
+      id: NegativeSignalType.HIRING_FREEZE,
+      label: 'Hiring freeze',
+      priority: 0.8,
+      directness: 'moderate',
+      freshness: { plateauDays: 30, halfLifeDays: 60, minimum: 0.1 },
+      groundingKeywords: ['freeze', 'paused', 'halted', 'hiring'],
+      conservativeReason: 'A hiring freeze may signal budget pressure and delayed purchases',
+      polarity: 'negative',
+    },
+    {
+      id: NegativeSignalType.PROSPECT_DEPARTURE,
+      label: 'Prospect departure',
+      priority: 1.0,
+      directness: 'direct',
+      freshness: { plateauDays: 365, halfLifeDays: 365, minimum: 0.5 },
+      groundingKeywords: ['left', 'departed', 'leaving', 'resigned', 'former', 'no longer'],
+      conservativeReason: 'The prospect has left the company, so outreach would reach the wrong person',
+      polarity: 'disqualifying',
+    },
+    // Company events the caller listed without a source; kept low priority and labelled as unverified
+    {
+      id: ContextSignalType.COMPANY_EVENT,
+      label: 'Unverified company context',
+      priority: 0.4,
+      directness: 'indirect',
+      freshness: { plateauDays: 30, halfLifeDays: 60, minimum: 0.1 },
+      groundingKeywords: ['announced', 'launched', 'opened', 'expanded', 'released', 'hosted'],
+      conservativeReason: 'Reported company events may be shaping current priorities',
+    },
+  ];
+
+  private types: Map<SignalTypeId, SignalTypeDefinition>;
+  private readonly redefinedBuiltIns = new Set<SignalTypeId>();
+  private readonly changeListeners = new Set<() => void>();
+
+  constructor() {
+    this.types = this.createBuiltInTypes();
+  }
+
+  get(type: SignalTypeId): SignalTypeDefinition | undefined {
+    const definition = typeof type === 'string' ? this.types.get(type) : undefined;
+    return definition ? this.copy(definition) : undefined;
+  }
+
+  has(type: SignalTypeId): boolean {
+    return typeof type === 'string' && this.types.has(type);
+  }
+
+  list(): SignalTypeDefinition[] {
+    return Array.from(this.types.values()).map(definition => this.copy(definition));
+  }
+
+  /**
+   * Adds a signal type, or replaces the definition of one already registered
+   * Throws when the definition is incomplete or out of range
+   */
+  register(definition: SignalTypeDefinition): void {
+    this.assertValid(definition);
+    this.types.set(definition.id, this.copy({
+      ...definition,
+      groundingKeywords: definition.groundingKeywords.map(keyword => keyword.trim().toLowerCase()),
+    }));
+    if (this.isBuiltIn(definition.id)) {
+      this.redefinedBuiltIns.add(definition.id);
+    }
+    this.notifyChange();
+  }
+
+  /**
+   * Removes a registered type; a redefined built-in type reverts to its default instead
+   */
+  unregister(type: SignalTypeId): boolean {
+    const builtIn = this.BUILT_IN_TYPES.find(definition => definition.id === type);
+    if (builtIn) {
+      if (!this.redefinedBuiltIns.delete(type)) {
+        return false;
+      }
+      this.types.set(type, this.copy(builtIn));
+      this.notifyChange();
+      return true;
+    }
+
+    const removed = this.types.delete(type);
+    if (removed) {
+      this.notifyChange();
+    }
+    return removed;
+  }
+
+  isBuiltIn(type: SignalTypeId): boolean {
+    return this.BUILT_IN_TYPES.some(definition => definition.id === type);
+  }
+
+  /**
+   * Registers a callback run after every change to the registry; returns an unsubscribe function
+   */
+  onChange(listener: () => void): () => void {
+    this.changeListeners.add(listener);
+    return () => this.changeListeners.delete(listener);
+  }
+
+  /**
+   * Drops every runtime change and restores the built-in types
+   */
+  reset(): void {
+    this.types = this.createBuiltInTypes();
+    this.redefinedBuiltIns.clear();
+    this.notifyChange();
+  }
+
+  private assertValid(definition: SignalTypeDefinition): void {
+    const id = definition?.id;
+    if (typeof id !== 'string' || !this.ID_PATTERN.test(id)) {
+      throw new Error(`Signal type id must be lowercase snake_case, got "${String(id)}"`);
+    }
+
+    const problems: string[] = [];
+    if (typeof definition.label !== 'string' || definition.label.trim().length === 0) {
+      problems.push('label is required');
+    }
+    if (typeof definition.priority !== 'number' || !(definition.priority > 0 && definition.priority <= 1)) {
+      problems.push('priority must be in (0, 1]');
+    }
+    if (!this.DIRECTNESS_VALUES.includes(definition.directness)) {
+      problems.push(`directness must be one of ${this.DIRECTNESS_VALUES.join(', ')}`);
+    }
+    const freshness = definition.freshness;
+    if (!freshness || !(freshness.plateauDays >= 0) || !(freshness.halfLifeDays > 0)
+      || !(freshness.minimum >= 0 && freshness.minimum <= 1)) {
+      problems.push('freshness needs plateauDays >= 0, halfLifeDays > 0 and minimum in [0, 1]');
+    }
+    if (!Array.isArray(definition.groundingKeywords) || definition.groundingKeywords.length === 0
+      || definition.groundingKeywords.some(keyword => typeof keyword !== 'string' || keyword.trim().length === 0)) {
+      problems.push('groundingKeywords must be a non-empty list of words');
+    }
+    if (typeof definition.conservativeReason !== 'string' || definition.conservativeReason.trim().length === 0) {
+      problems.push('conservativeReason is required');
+    }
+    if (definition.polarity !== undefined && !this.POLARITY_VALUES.includes(definition.polarity)) {
+      problems.push(`polarity must be one of ${this.POLARITY_VALUES.join(', ')}`);
+    }
+    if (definition.subjectTopic !== undefined
+      && (typeof definition.subjectTopic !== 'string' || definition.subjectTopic.trim().length === 0)) {
+      problems.push('subjectTopic must be a non-empty string when set');
+    }
+    problems.push(...this.findMetadataProblems(definition));
+
+    if (problems.length > 0) {
+      throw new Error(`Invalid signal type "${id}": ${problems.join('; ')}`);
+    }
+  }
+
+  // Every phrase placeholder must name a schema field, or the phrase could never be filled
+  private findMetadataProblems(definition: SignalTypeDefinition): string[] {
+    const problems: string[] = [];
+    const schema = definition.metadataSchema;
+    if (schema !== undefined) {
+      if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+        return ['metadataSchema must be an object keyed by field name'];
+      }
+      Object.entries(schema).forEach(([field, spec]) => {
+        if (!spec || !this.METADATA_FIELD_TYPES.includes(spec.type)) {
+          problems.push(`metadataSchema.${field}.type must be one of ${this.METADATA_FIELD_TYPES.join(', ')}`);
+        }
+        if (!spec || typeof spec.label !== 'string' || spec.label.trim().length === 0) {
+          problems.push(`metadataSchema.${field}.label is required`);
+        }
+      });
+    }
+
+    const phrases = definition.detailPhrases;
+    if (phrases !== undefined) {
+      if (!Array.isArray(phrases) || phrases.some(phrase => typeof phrase !== 'string' || phrase.trim().length === 0)) {
+        problems.push('detailPhrases must be a list of non-empty strings');
+      } else {
+        const unknownFields = phrases
+          .flatMap(phrase => Array.from(phrase.matchAll(this.PLACEHOLDER_PATTERN), match => match[1]))
+          .filter(field => !schema || !(field in schema));
+        if (unknownFields.length > 0) {
+          problems.push(`detailPhrases reference fields missing from metadataSchema: ${Array.from(new Set(unknownFields)).join(', ')}`);
+        }
+      }
+    }
+    return problems;
+  }
+
+  private createBuiltInTypes(): Map<SignalTypeId, SignalTypeDefinition> {
+    return new Map(this.BUILT_IN_TYPES.map(definition => [definition.id, this.copy(definition)]));
+  }
+
+  // Definitions are copied in and out, so callers cannot change a registered type in place
+  private copy(definition: SignalTypeDefinition): SignalTypeDefinition {
+    return {
+      ...definition,
+      freshness: { ...definition.freshness },
+      groundingKeywords: [...definition.groundingKeywords],
+      ...(definition.metadataSchema && {
+        metadataSchema: Object.fromEntries(
+          Object.entries(definition.metadataSchema).map(([field, spec]) => [field, { ...spec }])
+        ),
+      }),
+      ...(definition.detailPhrases && { detailPhrases: [...definition.detailPhrases] }),
+    };
+  }
+
+  private notifyChange(): void {
+    this.changeListeners.forEach(listener => listener());
+  }
+}
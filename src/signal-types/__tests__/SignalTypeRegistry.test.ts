@@ -0,0 +1,152 @@
+/**
+ * Tests for the signal type registry and custom signal types in the workflow
+ */
+
+import { SignalTypeRegistry } from '../SignalTypeRegistry';
+import { SignalInterpreter } from '../../signal-interpreter';
+import { HypothesisFormer } from '../../hypothesis-former';
+import {
+  IntentDrivenOutreachAgent,
+  AgentUtils,
+  CompanySize,
+  ContextSignalType,
+  IntentSignal,
+  NegativeSignalType,
+  SignalType,
+  SignalTypeDefinition,
+} from '../../index';
+
+const hiringSurge: SignalTypeDefinition = {
+  id: 'hiring_surge',
+  label: 'Hiring surge',
+  priority: 0.75,
+  directness: 'direct',
+  freshness: { plateauDays: 7, halfLifeDays: 30, minimum: 0.1 },
+  groundingKeywords: ['Hiring', 'openings'],
+  conservativeReason: 'A hiring push may stretch onboarding and internal tooling',
+  subjectTopic: 'the hiring push',
+};
+
+describe('SignalTypeRegistry', () => {
+  it('should start with the built-in signal types', () => {
+    const registry = new SignalTypeRegistry();
+
+    expect(registry.list().map(definition => definition.id)).toEqual([
+      ...Object.values(SignalType),
+      ...Object.values(NegativeSignalType),
+      ...Object.values(ContextSignalType),
+    ]);
+    expect(registry.get(SignalType.FUNDING_EVENT)).toMatchObject({ label: 'Funding activity', priority: 0.95, directness: 'direct' });
+    expect(registry.has('hiring_surge')).toBe(false);
+  });
+
+  it('should register a type with normalized keywords and hand out copies', () => {
+    const registry = new SignalTypeRegistry();
+    registry.register(hiringSurge);
+
+    registry.get('hiring_surge')!.groundingKeywords.push('mutated');
+
+    expect(registry.get('hiring_surge')!.groundingKeywords).toEqual(['hiring', 'openings']);
+  });
+
+  it('should reject incomplete or out-of-range definitions', () => {
+    const registry = new SignalTypeRegistry();
+
+    expect(() => registry.register({ ...hiringSurge, id: 'Hiring Surge' })).toThrow('lowercase snake_case');
+    expect(() => registry.register({ ...hiringSurge, priority: 1.5, groundingKeywords: [] }))
+      .toThrow('Invalid signal type "hiring_surge": priority must be in (0, 1]; groundingKeywords must be a non-empty list of words');
+    expect(registry.has('hiring_surge')).toBe(false);
+  });
+
+  it('should remove custom types but restore redefined built-in types', () => {
+    const registry = new SignalTypeRegistry();
+    const changes: number[] = [];
+    registry.onChange(() => changes.push(changes.length));
+    registry.register(hiringSurge);
+    registry.register({ ...registry.get(SignalType.INDUSTRY_TREND)!, priority: 0.9 });
+
+    expect(registry.unregister('hiring_surge')).toBe(true);
+    expect(registry.unregister(SignalType.INDUSTRY_TREND)).toBe(true);
+    expect(registry.unregister(SignalType.INDUSTRY_TREND)).toBe(false);
+
+    expect(registry.has('hiring_surge')).toBe(false);
+    expect(registry.get(SignalType.INDUSTRY_TREND)?.priority).toBe(0.6);
+    expect(changes).toHaveLength(4);
+  });
+
+  it('should drive weighting and the hypothesis for a registered type', () => {
+    const registry = new SignalTypeRegistry();
+    registry.register(hiringSurge);
+    const signal: IntentSignal = {
+      type: 'hiring_surge',
+      description: 'Posted 40 engineering openings in two weeks',
+      timestamp: new Date(),
+      relevanceScore: 0.9,
+      source: 'LinkedIn Jobs',
+    };
+
+    const weighted = new SignalInterpreter({ signalTypes: registry }).interpretSignals([signal]);
+    const hypothesis = new HypothesisFormer(registry).formHypothesis(weighted);
+
+    expect(weighted[0]).toMatchObject({ typePriority: 0.75, freshnessScore: 1 });
+    expect(hypothesis.primaryReason).toBe('A hiring push may stretch onboarding and internal tooling (recent development)');
+    expect(hypothesis.supportingEvidence).toEqual(['Hiring surge: Posted 40 engineering openings in two weeks']);
+    expect(hypothesis.confidenceFactors).toContain('Direct business signals (1)');
+  });
+});
+
+describe('IntentDrivenOutreachAgent signal types', () => {
+  const prospectData = AgentUtils.createProspectData(
+    'Sarah Chen',
+    'sarah.chen@techstartup.com',
+    'VP of Engineering',
+    'TechStartup Inc',
+    'Software Development',
+    CompanySize.STARTUP
+  );
+  const intentSignals: IntentSignal[] = [
+    AgentUtils.createIntentSignal(SignalType.FUNDING_EVENT, 'Raised $15M Series A funding', 0.5, 'TechCrunch', 3),
+    {
+      type: 'hiring_surge',
+      description: 'Announced 40 engineering openings after the raise',
+      timestamp: new Date(),
+      relevanceScore: 0.95,
+      source: 'LinkedIn Jobs',
+    },
+  ];
+
+  it('should reject signal types that are not registered', () => {
+    const agent = new IntentDrivenOutreachAgent();
+
+    const result = agent.validateInputs(prospectData, intentSignals);
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toContainEqual({
+      field: 'intentSignals[1].type',
+      message: 'Unknown signal type: hiring_surge',
+      code: 'UNKNOWN_SIGNAL_TYPE',
+    });
+  });
+
+  it('should accept types registered on the agent or through the config', async () => {
+    const registered = new IntentDrivenOutreachAgent();
+    registered.getSignalTypes().register(hiringSurge);
+    const configured = new IntentDrivenOutreachAgent({ customSignalTypes: [hiringSurge] });
+
+    const result = await configured.processOutreachRequest(prospectData, intentSignals);
+
+    expect(registered.validateInputs(prospectData, intentSignals).isValid).toBe(true);
+    expect('code' in result).toBe(false);
+    if (!('code' in result)) {
+      expect(result.recommendedSubject).toContain('the hiring push');
+    }
+  });
+
+  it('should unregister config types when they are dropped from the config', () => {
+    const agent = new IntentDrivenOutreachAgent({ customSignalTypes: [hiringSurge] });
+
+    agent.updateConfig({ customSignalTypes: [] });
+
+    expect(agent.getSignalTypes().has('hiring_surge')).toBe(false);
+  });
+});
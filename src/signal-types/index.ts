@@ -0,0 +1,5 @@
+/**
+ * Signal types module exports
+ */
+
+export { SignalTypeRegistry } from './SignalTypeRegistry';
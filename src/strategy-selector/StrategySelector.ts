@@ -1,23 +1,123 @@
 /**
  * StrategySelector - Implements message strategy selection based on confidence levels
  * 
- * This class maps confidence levels to appropriate message strategies following
- * the deterministic rules defined in the requirements:
+ * Strategies come from playbook plays: the first play of the requested playbook whose
+ * conditions match is used. The built-in default playbook follows the deterministic
+ * rules defined in the requirements:
  * - High confidence → Direct value alignment strategy
  * - Medium confidence → Insight-led observation strategy  
  * - Low confidence → Soft curiosity strategy
+ *
+ * The company size then adjusts that strategy through the strategy matrix: extra tone
+ * guidelines, a cap on the call-to-action level, follow-up timing and value framing.
+ * Caps only ever lower the CTA, so Low confidence never gets one. When the prospect's
+ * persona is known, a tone guideline for their seniority is added as well.
  * 
  * Requirements: 5.1, 5.2, 5.3, 5.4, 5.5
  */
 
-import { IStrategySelector } from '../interfaces';
-import { ConfidenceLevel, MessageStrategy, StrategyType, CallToActionLevel } from '../types';
+import { IStrategySelector, IPlaybookRegistry } from '../interfaces';
+import {
+  ConfidenceLevel,
+  MessageStrategy,
+  CallToActionLevel,
+  Persona,
+  Seniority,
+  CompanySize,
+  CompanySizeStrategy,
+  StrategyMatrix,
+  FollowUpTiming,
+  ValueFraming,
+  PlayConditions,
+  PlaybookPlay,
+} from '../types';
+import { SYSTEM_CONSTANTS } from '../constants';
+import { PlaybookRegistry } from '../playbooks';
 
 export class StrategySelector implements IStrategySelector {
+  // CTA levels from least to most direct; a cap keeps the lower of the two
+  private readonly CTA_ORDER = [CallToActionLevel.NONE, CallToActionLevel.SOFT, CallToActionLevel.DIRECT];
+
+  // Smaller companies decide fast and care about time to results; larger ones buy slowly
+  // through several stakeholders and weigh risk and compliance first
+  private readonly DEFAULT_MATRIX: Record<CompanySize, CompanySizeStrategy> = {
+    [CompanySize.STARTUP]: {
+      toneGuidelines: ['Informal and concise; get to the point quickly'],
+      maxCallToAction: CallToActionLevel.DIRECT,
+      followUpTiming: {
+        [ConfidenceLevel.HIGH]: FollowUpTiming.ONE_WEEK,
+        [ConfidenceLevel.MEDIUM]: FollowUpTiming.ONE_WEEK,
+        [ConfidenceLevel.LOW]: FollowUpTiming.ONE_MONTH,
+      },
+      valueFraming: ValueFraming.SPEED,
+    },
+    [CompanySize.SMALL]: {
+      toneGuidelines: ['Plain-spoken and practical'],
+      maxCallToAction: CallToActionLevel.DIRECT,
+      followUpTiming: {
+        [ConfidenceLevel.HIGH]: FollowUpTiming.ONE_WEEK,
+        [ConfidenceLevel.MEDIUM]: FollowUpTiming.TWO_WEEKS,
+        [ConfidenceLevel.LOW]: FollowUpTiming.ONE_MONTH,
+      },
+      valueFraming: ValueFraming.SPEED,
+    },
+    [CompanySize.MEDIUM]: {
+      toneGuidelines: ['Practical, with attention to how the team scales'],
+      maxCallToAction: CallToActionLevel.DIRECT,
+      followUpTiming: {
+        [ConfidenceLevel.HIGH]: FollowUpTiming.ONE_WEEK,
+        [ConfidenceLevel.MEDIUM]: FollowUpTiming.TWO_WEEKS,
+        [ConfidenceLevel.LOW]: FollowUpTiming.ONE_MONTH,
+      },
+      valueFraming: ValueFraming.SPEED,
+    },
+    [CompanySize.LARGE]: {
+      toneGuidelines: ['Measured and precise; acknowledge existing processes'],
+      maxCallToAction: CallToActionLevel.DIRECT,
+      followUpTiming: {
+        [ConfidenceLevel.HIGH]: FollowUpTiming.TWO_WEEKS,
+        [ConfidenceLevel.MEDIUM]: FollowUpTiming.TWO_WEEKS,
+        [ConfidenceLevel.LOW]: FollowUpTiming.ONE_MONTH,
+      },
+      valueFraming: ValueFraming.RISK,
+    },
+    [CompanySize.ENTERPRISE]: {
+      toneGuidelines: ['Measured and precise; respect long buying cycles with several stakeholders'],
+      maxCallToAction: CallToActionLevel.SOFT,
+      followUpTiming: {
+        [ConfidenceLevel.HIGH]: FollowUpTiming.TWO_WEEKS,
+        [ConfidenceLevel.MEDIUM]: FollowUpTiming.ONE_MONTH,
+        [ConfidenceLevel.LOW]: FollowUpTiming.ONE_MONTH,
+      },
+      valueFraming: ValueFraming.RISK,
+    },
+  };
+
+  // Senior readers want outcomes in few words; individual contributors want the practical detail
+  private readonly SENIORITY_TONE: Record<Seniority, string> = {
+    [Seniority.C_LEVEL]: 'Brief and outcome-focused; lead with business impact, skip operational detail',
+    [Seniority.VP]: 'Tie the message to organization-wide goals and results',
+    [Seniority.DIRECTOR]: 'Connect to planning and execution priorities across teams',
+    [Seniority.MANAGER]: 'Focus on practical results for the team they manage',
+    [Seniority.IC]: 'Hands-on and specific to the work itself; avoid budget or strategy talk',
+  };
+
+  /**
+   * @param matrix - Overrides of the default strategy matrix by company size, merged field by field
+   * @param playbooks - The playbooks strategies are taken from, only the built-in default when omitted
+   */
+  constructor(
+    private matrix: StrategyMatrix = {},
+    private playbooks: IPlaybookRegistry = new PlaybookRegistry()
+  ) {}
+
   /**
    * Selects the appropriate message strategy based on confidence level
    * 
    * @param confidenceLevel - The confidence level (High/Medium/Low)
+   * @param companySize - Optional company size, which adjusts the strategy through the matrix
+   * @param persona - Optional seniority and function of the prospect, which adds a tone guideline
+   * @param playbook - Name of the playbook to take the strategy from, the default playbook when omitted
    * @returns MessageStrategy - The selected strategy with guidelines
    * 
    * Requirements:
@@ -27,74 +127,107 @@ export class StrategySelector implements IStrategySelector {
    * - 5.4: Exactly one strategy per request
    * - 5.5: Deterministic and consistent selection
    */
-  selectStrategy(confidenceLevel: ConfidenceLevel): MessageStrategy {
-    switch (confidenceLevel) {
-      case ConfidenceLevel.HIGH:
-        return this.createDirectValueAlignmentStrategy();
-      
-      case ConfidenceLevel.MEDIUM:
-        return this.createInsightLedObservationStrategy();
-      
-      case ConfidenceLevel.LOW:
-        return this.createSoftCuriosityStrategy();
-      
-      default:
-        // This should never happen with proper typing, but provides safety
-        throw new Error(`Invalid confidence level: ${confidenceLevel}`);
+  selectStrategy(
+    confidenceLevel: ConfidenceLevel,
+    companySize?: CompanySize,
+    persona?: Persona,
+    playbook: string = SYSTEM_CONSTANTS.DEFAULT_PLAYBOOK
+  ): MessageStrategy {
+    let strategy = this.selectPlayStrategy(playbook, confidenceLevel, companySize, persona);
+
+    const sizeStrategy = companySize ? this.getCompanySizeStrategy(companySize) : undefined;
+    if (sizeStrategy) {
+      const callToActionLevel = this.capCallToAction(strategy.callToActionLevel, sizeStrategy.maxCallToAction);
+      strategy = {
+        ...strategy,
+        toneGuidelines: [...strategy.toneGuidelines, ...sizeStrategy.toneGuidelines],
+        callToActionLevel,
+        followUpTiming: sizeStrategy.followUpTiming[confidenceLevel],
+        valueFraming: sizeStrategy.valueFraming,
+        // A play's CTA sentence asks at its own level, so it goes when the cap lowers that level
+        ...(strategy.templates && callToActionLevel !== strategy.callToActionLevel && {
+          templates: { ...strategy.templates, callToAction: undefined },
+        }),
+      };
     }
+
+    const personaTone = persona ? this.SENIORITY_TONE[persona.seniority] : undefined;
+    return personaTone
+      ? { ...strategy, toneGuidelines: [...strategy.toneGuidelines, personaTone] }
+      : strategy;
   }
 
   /**
-   * Creates Direct Value Alignment strategy for High confidence scenarios
-   * Used when multiple strong, recent signals provide clear evidence of intent
+   * The matrix entry for a company size, with configured overrides applied
+   * Undefined for sizes the matrix does not know
    */
-  private createDirectValueAlignmentStrategy(): MessageStrategy {
+  private getCompanySizeStrategy(companySize: CompanySize): CompanySizeStrategy | undefined {
+    const defaults = this.DEFAULT_MATRIX[companySize];
+    if (!defaults) {
+      return undefined;
+    }
+
+    const overrides = this.matrix[companySize] ?? {};
     return {
-      type: StrategyType.DIRECT_VALUE_ALIGNMENT,
-      toneGuidelines: [
-        'Confident and direct tone',
-        'Reference specific evidence clearly',
-        'Connect value proposition to demonstrated needs',
-        'Professional but assertive approach'
-      ],
-      contentFocus: 'Direct connection between prospect signals and value proposition',
-      callToActionLevel: CallToActionLevel.DIRECT
+      ...defaults,
+      ...overrides,
+      followUpTiming: { ...defaults.followUpTiming, ...overrides.followUpTiming },
     };
   }
 
-  /**
-   * Creates Insight-Led Observation strategy for Medium confidence scenarios
-   * Used when mixed or indirect signals suggest potential interest
-   */
-  private createInsightLedObservationStrategy(): MessageStrategy {
-    return {
-      type: StrategyType.INSIGHT_LED_OBSERVATION,
-      toneGuidelines: [
-        'Thoughtful and observational tone',
-        'Share relevant insights or observations',
-        'Build credibility through industry knowledge',
-        'Respectful and consultative approach'
-      ],
-      contentFocus: 'Industry insights and observations that relate to prospect context',
-      callToActionLevel: CallToActionLevel.SOFT
-    };
+  private capCallToAction(level: CallToActionLevel, cap: CallToActionLevel): CallToActionLevel {
+    const capIndex = this.CTA_ORDER.indexOf(cap);
+    if (capIndex < 0) {
+      return level;
+    }
+    return this.CTA_ORDER[Math.min(this.CTA_ORDER.indexOf(level), capIndex)];
   }
 
-  /**
-   * Creates Soft Curiosity strategy for Low confidence scenarios
-   * Used when signals are weak or evidence is insufficient
-   */
-  private createSoftCuriosityStrategy(): MessageStrategy {
+  private selectPlayStrategy(
+    playbookName: string,
+    confidenceLevel: ConfidenceLevel,
+    companySize?: CompanySize,
+    persona?: Persona
+  ): MessageStrategy {
+    const playbook = this.playbooks.get(playbookName);
+    if (!playbook) {
+      const error = new Error(`Unknown playbook "${playbookName}"`);
+      error.name = 'UNKNOWN_PLAYBOOK';
+      throw error;
+    }
+
+    // Every playbook covers each confidence level, so only an invalid level finds no play
+    const play = playbook.plays.find(candidate => this.matches(candidate.when, confidenceLevel, companySize, persona));
+    if (!play) {
+      throw new Error(`Invalid confidence level: ${confidenceLevel}`);
+    }
+    return this.toStrategy(play);
+  }
+
+  private matches(
+    when: PlayConditions = {},
+    confidenceLevel: ConfidenceLevel,
+    companySize?: CompanySize,
+    persona?: Persona
+  ): boolean {
+    return this.allows(when.confidenceLevels, confidenceLevel)
+      && this.allows(when.companySizes, companySize)
+      && this.allows(when.seniorities, persona?.seniority)
+      && this.allows(when.jobFunctions, persona?.jobFunction);
+  }
+
+  // A condition on something unknown, such as a persona that was not classified, does not match
+  private allows<T>(values: T[] | undefined, value: T | undefined): boolean {
+    return values === undefined || (value !== undefined && values.includes(value));
+  }
+
+  private toStrategy(play: PlaybookPlay): MessageStrategy {
     return {
-      type: StrategyType.SOFT_CURIOSITY,
-      toneGuidelines: [
-        'Gentle and curious tone',
-        'Express genuine interest in their situation',
-        'Acknowledge uncertainty appropriately',
-        'Non-pushy and respectful approach'
-      ],
-      contentFocus: 'Genuine curiosity about prospect situation and challenges',
-      callToActionLevel: CallToActionLevel.NONE
+      type: play.type,
+      toneGuidelines: [...play.toneGuidelines],
+      contentFocus: play.contentFocus,
+      callToActionLevel: play.callToActionLevel,
+      ...(play.templates && { templates: { ...play.templates } }),
     };
   }
-}
\ No newline at end of file
+}
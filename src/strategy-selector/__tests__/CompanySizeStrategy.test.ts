@@ -0,0 +1,132 @@
+/**
+ * Tests for adjusting strategy, messages and follow-up by company size through the strategy matrix
+ */
+
+import { StrategySelector } from '../StrategySelector';
+import {
+  IntentDrivenOutreachAgent,
+  AgentUtils,
+  CallToActionLevel,
+  CompanySize,
+  ConfidenceLevel,
+  FollowUpTiming,
+  IntentSignal,
+  SignalType,
+  StrategyType,
+  ValueFraming,
+} from '../../index';
+
+describe('StrategySelector company size', () => {
+  it('should cap the CTA and slow follow-up for enterprises', () => {
+    const selector = new StrategySelector();
+
+    const enterprise = selector.selectStrategy(ConfidenceLevel.HIGH, CompanySize.ENTERPRISE);
+    const startup = selector.selectStrategy(ConfidenceLevel.HIGH, CompanySize.STARTUP);
+
+    expect(enterprise).toMatchObject({
+      type: StrategyType.DIRECT_VALUE_ALIGNMENT,
+      callToActionLevel: CallToActionLevel.SOFT,
+      followUpTiming: FollowUpTiming.TWO_WEEKS,
+      valueFraming: ValueFraming.RISK,
+    });
+    expect(enterprise.toneGuidelines).toContain('Measured and precise; respect long buying cycles with several stakeholders');
+    expect(startup).toMatchObject({
+      callToActionLevel: CallToActionLevel.DIRECT,
+      followUpTiming: FollowUpTiming.ONE_WEEK,
+      valueFraming: ValueFraming.SPEED,
+    });
+  });
+
+  it('should leave the strategy unchanged without a company size', () => {
+    const selector = new StrategySelector();
+
+    const strategy = selector.selectStrategy(ConfidenceLevel.MEDIUM);
+
+    expect(strategy.followUpTiming).toBeUndefined();
+    expect(strategy.valueFraming).toBeUndefined();
+    expect(strategy.toneGuidelines).toHaveLength(4);
+  });
+
+  it('should merge configured overrides over the defaults', () => {
+    const selector = new StrategySelector({
+      [CompanySize.ENTERPRISE]: {
+        maxCallToAction: CallToActionLevel.DIRECT,
+        followUpTiming: { [ConfidenceLevel.HIGH]: FollowUpTiming.ONE_WEEK } as Record<ConfidenceLevel, FollowUpTiming>,
+      },
+    });
+
+    const high = selector.selectStrategy(ConfidenceLevel.HIGH, CompanySize.ENTERPRISE);
+    const medium = selector.selectStrategy(ConfidenceLevel.MEDIUM, CompanySize.ENTERPRISE);
+
+    expect(high.callToActionLevel).toBe(CallToActionLevel.DIRECT);
+    expect(high.followUpTiming).toBe(FollowUpTiming.ONE_WEEK);
+    expect(high.valueFraming).toBe(ValueFraming.RISK);
+    expect(medium.followUpTiming).toBe(FollowUpTiming.ONE_MONTH);
+  });
+
+  it('should never give Low confidence a CTA, whatever the matrix allows', () => {
+    const permissive = Object.fromEntries(
+      Object.values(CompanySize).map(size => [size, { maxCallToAction: CallToActionLevel.DIRECT }])
+    );
+    const selector = new StrategySelector(permissive);
+
+    Object.values(CompanySize).forEach(size => {
+      expect(selector.selectStrategy(ConfidenceLevel.LOW, size).callToActionLevel).toBe(CallToActionLevel.NONE);
+      expect(selector.selectStrategy(ConfidenceLevel.MEDIUM, size).callToActionLevel).toBe(CallToActionLevel.SOFT);
+    });
+  });
+});
+
+describe('Company size in the workflow', () => {
+  const prospect = (company: string, size: CompanySize) => AgentUtils.createProspectData(
+    'Sarah Chen',
+    'sarah.chen@example.com',
+    'VP of Engineering',
+    company,
+    'Software Development',
+    size
+  );
+  const intentSignals: IntentSignal[] = [
+    AgentUtils.createIntentSignal(SignalType.FUNDING_EVENT, 'Raised $15M Series A funding to scale engineering team', 0.95, 'TechCrunch', 3),
+    AgentUtils.createIntentSignal(SignalType.COMPANY_GROWTH, 'Posted 12 new engineering positions on LinkedIn', 0.9, 'LinkedIn Jobs', 1),
+    AgentUtils.createIntentSignal(SignalType.TECHNOLOGY_ADOPTION, 'Mentioned infrastructure scaling challenges in tech blog', 0.85, 'Company Tech Blog', 5),
+  ];
+
+  it('should write to a startup and an enterprise differently', async () => {
+    const agent = new IntentDrivenOutreachAgent();
+
+    const startup = await agent.processOutreachRequest(prospect('Launchpad', CompanySize.STARTUP), intentSignals);
+    const enterprise = await agent.processOutreachRequest(prospect('Globex', CompanySize.ENTERPRISE), intentSignals);
+
+    expect('code' in startup || 'code' in enterprise).toBe(false);
+    if (!('code' in startup) && !('code' in enterprise)) {
+      expect(startup.intentConfidence).toBe(ConfidenceLevel.HIGH);
+      expect(startup.recommendedMessage).toContain('how quickly something pays off');
+      expect(startup.recommendedMessage).toContain('a brief call this week');
+      expect(startup.suggestedFollowUpTiming).toBe(FollowUpTiming.ONE_WEEK);
+
+      expect(enterprise.intentConfidence).toBe(ConfidenceLevel.HIGH);
+      expect(enterprise.recommendedMessage).toContain('security and compliance requirements');
+      expect(enterprise.recommendedMessage).not.toContain('a brief call this week');
+      expect(enterprise.suggestedFollowUpTiming).toBe(FollowUpTiming.TWO_WEEKS);
+    }
+  });
+
+  it('should space follow-up touches by the company size timing', async () => {
+    const agent = new IntentDrivenOutreachAgent();
+
+    const result = await agent.processOutreachRequest(prospect('Globex', CompanySize.ENTERPRISE), intentSignals, {
+      sequence: { maxTouches: 2 },
+    });
+
+    expect('code' in result).toBe(false);
+    if (!('code' in result)) {
+      const touches = result.followUpSequence ?? [];
+      expect(touches.length).toBeGreaterThan(0);
+      touches.forEach(touch => {
+        expect(touch.dayOffset).toBe(14 * touch.touchNumber);
+        expect(touch.callToActionLevel).not.toBe(CallToActionLevel.DIRECT);
+      });
+    }
+  });
+});
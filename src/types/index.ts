@@ -11,6 +11,25 @@ export enum SignalType {
   INDUSTRY_TREND = 'industry_trend',
 }
 
+// Built-in types that count against outreach; registered with a negative or disqualifying polarity
+export enum NegativeSignalType {
+  COMPETITOR_CONTRACT = 'competitor_contract',
+  LAYOFFS = 'layoffs',
+  HIRING_FREEZE = 'hiring_freeze',
+  PROSPECT_DEPARTURE = 'prospect_departure',
+}
+
+// Built-in type for company events taken from CompanyContext.recentEvents, which nobody has verified
+export enum ContextSignalType {
+  COMPANY_EVENT = 'company_event',
+}
+
+// Built-in SignalType, NegativeSignalType and ContextSignalType values or the id of a type added to the signal type registry
+export type SignalTypeId = SignalType | NegativeSignalType | ContextSignalType | string;
+
+// Positive signals support outreach, negative ones lower confidence, disqualifying ones block it
+export type SignalPolarity = 'positive' | 'negative' | 'disqualifying';
+
 export enum CompanySize {
   STARTUP = 'startup',
   SMALL = 'small',
@@ -31,6 +50,37 @@ export enum StrategyType {
   SOFT_CURIOSITY = 'soft_curiosity',
 }
 
+// Seniority classified from the prospect's title, lowest first
+export enum Seniority {
+  IC = 'ic',
+  MANAGER = 'manager',
+  DIRECTOR = 'director',
+  VP = 'vp',
+  C_LEVEL = 'c_level',
+}
+
+export enum JobFunction {
+  ENGINEERING = 'engineering',
+  PRODUCT = 'product',
+  DATA = 'data',
+  SECURITY = 'security',
+  IT = 'it',
+  SALES = 'sales',
+  MARKETING = 'marketing',
+  CUSTOMER_SUCCESS = 'customer_success',
+  FINANCE = 'finance',
+  OPERATIONS = 'operations',
+  PEOPLE = 'people',
+  LEGAL = 'legal',
+  GENERAL_MANAGEMENT = 'general_management', // CEOs, founders and presidents
+  OTHER = 'other',
+}
+
+export interface Persona {
+  seniority: Seniority; // IC when the title names no management level
+  jobFunction: JobFunction; // OTHER when the title names no known function
+}
+
 export enum CallToActionLevel {
   NONE = 'none',
   SOFT = 'soft',
@@ -44,6 +94,29 @@ export enum FollowUpTiming {
   ONE_MONTH = 'one_month',
 }
 
+// What the value proposition leads with: time to results, or risk and compliance
+export enum ValueFraming {
+  SPEED = 'speed',
+  RISK = 'risk',
+}
+
+// How one company size adjusts the confidence-based strategy
+export interface CompanySizeStrategy {
+  toneGuidelines: string[]; // added after the confidence strategy's guidelines
+  maxCallToAction: CallToActionLevel; // caps the confidence strategy's CTA level, never raises it
+  followUpTiming: Record<ConfidenceLevel, FollowUpTiming>;
+  valueFraming: ValueFraming;
+}
+
+export type StrategyMatrix = Partial<Record<CompanySize, Partial<CompanySizeStrategy>>>;
+
+export enum OutreachChannel {
+  EMAIL = 'email',
+  LINKEDIN_CONNECTION = 'linkedin_connection',
+  LINKEDIN_INMAIL = 'linkedin_inmail',
+  SMS = 'sms',
+}
+
 export interface ContactDetails {
   email: string;
   name: string;
@@ -62,28 +135,116 @@ export interface ProspectData {
   role: string;
   companyContext: CompanyContext;
   contactDetails: ContactDetails;
-  additionalContext?: Record<string, unknown>;
+  additionalContext?: Record<string, unknown>; // PersonalizationHookKey entries become personalization hooks
+}
+
+// additionalContext keys that may be mentioned in a message; any other key is ignored
+export type PersonalizationHookKey = 'priorTouchpoint' | 'mutualConnection' | 'sharedEvent';
+
+export interface PersonalizationHook {
+  key: PersonalizationHookKey;
+  value: string; // e.g. 'Dana Lee' for mutualConnection
 }
 
 export interface IntentSignal {
-  type: SignalType;
+  type: SignalTypeId;
   description: string;
   timestamp: Date;
   relevanceScore: number;
   source: string;
-  metadata?: Record<string, unknown>;
+  metadata?: Record<string, unknown>; // checked against the type's metadataSchema, e.g. FundingEventMetadata
+  polarity?: SignalPolarity; // overrides the polarity registered for the type
+  unverified?: boolean; // set on signals taken from unverified context; they never count toward confidence
 }
 
+// Typed metadata for the built-in signal types; every field is optional
+export interface FundingEventMetadata {
+  round?: string; // e.g. 'Series B'
+  amount?: number; // amount raised in US dollars
+  leadInvestor?: string;
+}
+
+export interface JobChangeMetadata {
+  previousCompany?: string;
+  newTitle?: string;
+  startDate?: Date | string; // Date or ISO date string
+}
+
+export interface TechnologyAdoptionMetadata {
+  technology?: string;
+  replacedVendor?: string;
+}
+
+// 'currency' values are US dollar amounts; 'date' values are Dates or ISO date strings
+export type SignalMetadataFieldType = 'string' | 'number' | 'currency' | 'date';
+
+export interface SignalMetadataField {
+  type: SignalMetadataFieldType;
+  label: string; // human label used in validation messages, e.g. 'Lead investor'
+}
+
+export type SignalMetadataSchema = Record<string, SignalMetadataField>;
+
 export interface WeightedSignal extends IntentSignal {
   weight: number;
   freshnessScore: number;
+  polarity?: SignalPolarity; // resolved by the interpreter; treated as positive when absent
+  typePriority?: number; // signal-type multiplier folded into weight, 1.0 for the most direct types
+  sources?: string[]; // distinct sources, set when corroborating reports were merged into this signal
+  mergedSignalCount?: number; // input signals merged into this one, set with sources
+}
+
+export interface FreshnessCurve {
+  plateauDays: number; // days a signal stays fully fresh
+  halfLifeDays: number; // days for freshness to halve once the plateau ends
+  minimum: number; // floor the score never decays below
+}
+
+// Curve overrides by signal type; unset fields keep the base curve's values
+export type FreshnessProfile = Partial<Record<SignalTypeId, Partial<FreshnessCurve>>>;
+
+// How directly a signal type shows intent; direct types raise confidence, indirect-only evidence lowers it
+export type SignalDirectness = 'direct' | 'moderate' | 'indirect';
+
+export interface SignalTypeDefinition {
+  id: SignalTypeId; // lowercase snake_case, e.g. 'hiring_surge'
+  label: string; // human label used in evidence and confidence factors, e.g. 'Hiring surge'
+  priority: number; // weight multiplier in (0, 1]
+  directness: SignalDirectness;
+  freshness: FreshnessCurve;
+  groundingKeywords: string[]; // the description must contain one before the conservative reason is used
+  conservativeReason: string; // primary reason stated when this type drives the hypothesis
+  subjectTopic?: string; // subject line topic; "{industry}" is replaced with the prospect's industry
+  polarity?: SignalPolarity; // default 'positive'
+  metadataSchema?: SignalMetadataSchema; // typed fields accepted in IntentSignal.metadata
+  detailPhrases?: string[]; // e.g. 'your {round} led by {leadInvestor}'; the first with every field present names the event
+}
+
+export interface SignalCorroborationOptions {
+  timeWindowDays?: number; // max days between reports of the same event, default 7
+  similarityThreshold?: number; // share of the shorter description's words the other must contain, default 0.5
+  boostPerSource?: number; // weight boost per independent source beyond the first, default 0.1
+  maxBoost?: number; // cap on the total boost, default 0.2
 }
 
 export interface IntentHypothesis {
   primaryReason: string;
+  primarySignalType?: SignalTypeId; // signal the primary reason is based on, if any
+  primarySignalDetail?: string; // the primary signal's event named from its metadata, e.g. 'your Series B led by Accel'
   supportingEvidence: string[];
   confidenceFactors: string[];
   conservativeAssumptions: string[];
+  counterEvidence?: string[]; // negative signals, formatted like supportingEvidence
+  disqualifiers?: string[]; // disqualifying signals; any entry means the prospect must not be contacted
+}
+
+export interface SenderProfile {
+  senderName: string;
+  senderTitle?: string;
+  companyName: string;
+  productOneLiner: string; // what the product does, phrased to follow "we" (e.g. "help platform teams cut cloud spend")
+  proofPoints?: string[]; // short factual statements, e.g. "Acme cut deploy times by 40%"
+  painPointsBySignalType?: Partial<Record<SignalTypeId, string>>; // noun phrases, e.g. "onboarding new engineers quickly"
 }
 
 export interface MessageStrategy {
@@ -91,6 +252,56 @@ export interface MessageStrategy {
   toneGuidelines: string[];
   contentFocus: string;
   callToActionLevel: CallToActionLevel;
+  followUpTiming?: FollowUpTiming; // set when the company size is known
+  valueFraming?: ValueFraming; // set when the company size is known
+  templates?: StrategyTemplates; // sentence templates from the playbook play
+}
+
+// Sentences a play writes itself; placeholders: {firstName}, {company}, {industry}, {role}, {reason}, {remit}
+export interface StrategyTemplates {
+  relevance?: string;
+  valueProposition?: string;
+  callToAction?: string; // used only while the play's own CTA level applies
+}
+
+// When a play applies; a condition left out matches every value
+export interface PlayConditions {
+  confidenceLevels?: ConfidenceLevel[];
+  companySizes?: CompanySize[];
+  seniorities?: Seniority[];
+  jobFunctions?: JobFunction[];
+}
+
+export interface PlaybookPlay {
+  name: string; // lowercase, unique within the playbook, e.g. 'high_confidence'
+  when?: PlayConditions;
+  type: StrategyType;
+  toneGuidelines: string[];
+  contentFocus: string;
+  callToActionLevel: CallToActionLevel; // at most direct for High, soft for Medium, none for Low confidence
+  templates?: StrategyTemplates;
+}
+
+export interface Playbook {
+  name: string; // lowercase letters, digits, '-' and '_', e.g. 'enterprise-security'
+  description?: string;
+  plays: PlaybookPlay[]; // checked in order; the first whose conditions match is used
+}
+
+export interface PlaybookProblem {
+  path: string; // where in the playbook, e.g. 'plays[1].callToActionLevel'
+  message: string;
+}
+
+// Message sentences the template library holds phrasings for; event_relevance is used when signal metadata names the event
+export type MessageSlot = 'relevance' | 'event_relevance' | 'value_proposition';
+
+// Interchangeable phrasings of one sentence; placeholders as in StrategyTemplates, plus {event} in event_relevance
+export interface MessagePhrasings {
+  slot: MessageSlot;
+  signalType?: SignalTypeId; // every signal type when left out
+  strategyType?: StrategyType; // every strategy when left out
+  variants: string[];
 }
 
 export interface ProcessingMetadata {
@@ -98,6 +309,23 @@ export interface ProcessingMetadata {
   executionTime: number;
   auditLog: AuditLogEntry[];
   version: string;
+  runId?: string; // pass to ReasoningAgent.getAuditLog to fetch this run's full log
+  stepTimings?: Record<string, number>; // milliseconds per workflow step
+  cache?: CacheInfo; // set when the response cache is enabled
+}
+
+export interface CacheInfo {
+  hit: boolean; // true when the result was reused instead of rerunning the workflow
+  key: string; // sha256 of the request and the configuration version
+  storedAt?: Date; // hits only: when the reused result was produced
+}
+
+export interface CacheStats {
+  size: number;
+  maxEntries: number;
+  hits: number;
+  misses: number;
+  evictions: number;
 }
 
 export interface AuditLogEntry {
@@ -107,12 +335,171 @@ export interface AuditLogEntry {
   details?: Record<string, unknown>;
 }
 
+export interface FollowUpTouch {
+  touchNumber: number; // 1-based, after the initial message
+  dayOffset: number; // days after the initial message
+  angle: string; // supporting evidence the touch is built around, or a "Value:", "Social proof:" or "Breakup:" angle
+  callToActionLevel: CallToActionLevel;
+  message: string;
+  authenticityScore: number; // 0-100
+}
+
+export interface SequenceOptions {
+  maxTouches?: number;
+}
+
+export interface OutreachRequestOptions {
+  senderProfile?: SenderProfile;
+  sequence?: SequenceOptions; // generates a follow-up sequence when set
+  channel?: OutreachChannel; // defaults to email
+  playbook?: string; // name of a registered playbook; defaults to the agent's defaultPlaybook
+  signal?: AbortSignal; // cancels the run at the next step boundary, or mid-step for async steps
+}
+
+export interface ExecutionLimits {
+  totalTimeoutMs?: number; // budget for the whole run
+  stepTimeouts?: Record<string, number>; // budget per workflow step name, e.g. message_generation
+  maxRevisionAttempts?: number; // revisions before the message is accepted as is; 0 turns revision off
+}
+
+export interface BatchItem {
+  id: string; // client-supplied, unique within the batch
+  prospectData: ProspectData;
+  intentSignals: IntentSignal[];
+  options?: OutreachRequestOptions;
+}
+
+export interface BatchOptions {
+  concurrency?: number;
+  playbook?: string; // campaign playbook for items that do not name their own
+}
+
+export interface BatchStats {
+  total: number;
+  succeeded: number;
+  failed: number;
+  confidenceDistribution: Record<ConfidenceLevel, number>;
+  failuresByErrorCode: Record<string, number>;
+  executionTime: number;
+}
+
+export interface BatchResult {
+  results: Record<string, StructuredOutput | ProcessingError>; // keyed by BatchItem.id
+  stats: BatchStats;
+}
+
+export type OutreachJobStatus = 'queued' | 'running' | 'retrying' | 'completed' | 'failed';
+
+export interface OutreachJobRequest {
+  prospectData: ProspectData;
+  intentSignals: IntentSignal[];
+  options?: Omit<OutreachRequestOptions, 'signal'>;
+  callbackUrl?: string; // receives a signed webhook when the job finishes
+}
+
+export interface OutreachJob {
+  jobId: string;
+  status: OutreachJobStatus;
+  attempts: number; // pipeline runs so far, including retries
+  callbackUrl?: string;
+  result?: StructuredOutput;
+  error?: ProcessingError; // last error; final once the job has failed
+  nextAttemptAt?: Date; // set while retrying
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date;
+}
+
+export type WebhookEvent = 'job.completed' | 'job.failed';
+
+export interface WebhookDelivery {
+  deliveryId: string;
+  jobId: string;
+  event: WebhookEvent;
+  url: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  lastError?: string;
+  nextAttemptAt?: Date; // set while a retry is scheduled
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ApiKeyConfig {
+  name: string; // identifies the client in logs and rate-limit buckets; never the key itself
+  key: string;
+  maxRequests?: number; // quota per rate-limit window; defaults to the server-wide limit
+}
+
+export interface ServerSecurityConfig {
+  apiKeys: ApiKeyConfig[]; // empty disables API-key authentication
+  corsOrigins: string[]; // allowed browser origins; '*' allows any
+  rateLimitWindowMs: number;
+  rateLimitMaxRequests: number; // per API key, or per client IP when auth is disabled
+  maxBodyBytes: number;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterSeconds: number; // 0 when allowed
+}
+
+// Job states defined by the Masumi agentic service API (MIP-003)
+export type MasumiJobStatus = 'awaiting_payment' | 'awaiting_input' | 'running' | 'completed' | 'failed';
+
+export interface PaymentRequest {
+  blockchainIdentifier: string;
+  payByTime: Date; // purchaser must pay before this time
+  submitResultTime: Date; // agent must submit the result before this time
+}
+
+export interface MasumiJob {
+  jobId: string;
+  status: MasumiJobStatus;
+  identifierFromPurchaser: string;
+  inputData: Record<string, unknown>; // keyed by input schema field id
+  inputHash: string; // sha256 of the canonical input data
+  payment?: PaymentRequest;
+  result?: StructuredOutput;
+  error?: ProcessingError;
+  message?: string; // why the job is waiting for input or failed
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface InputSchemaField {
+  id: string;
+  type: 'string' | 'textarea' | 'email' | 'url' | 'option';
+  name: string;
+  data?: {
+    description?: string;
+    placeholder?: string;
+    values?: string[]; // allowed values for option fields
+  };
+  validations?: Array<{ validation: 'optional' | 'min' | 'max' | 'format'; value: string }>;
+}
+
+export interface OutputExtras {
+  channel?: OutreachChannel;
+  followUpTiming?: FollowUpTiming; // overrides the confidence-based timing
+  persona?: Persona;
+  subjects?: SubjectLines;
+  followUpSequence?: FollowUpTouch[];
+}
+
 export interface StructuredOutput {
   intentConfidence: ConfidenceLevel;
   reasoningSummary: string; // 1-2 sentences
   recommendedMessage: string;
   alternativeMessages: [string, string]; // exactly 2 alternatives
+  channel: OutreachChannel;
+  recommendedSubject?: string; // email and InMail only
+  alternativeSubjects?: [string, string]; // subjects for alternativeMessages, in order
   suggestedFollowUpTiming: FollowUpTiming;
+  followUpSequence?: FollowUpTouch[]; // present in sequence mode
+  persona?: Persona; // the prospect's seniority and function, for routing
   processingMetadata: ProcessingMetadata;
 }
 
@@ -141,11 +528,40 @@ export interface AuthenticityResult {
   score: number; // 0-100
 }
 
+export interface SubjectLines {
+  recommended: string;
+  alternatives: [string, string];
+}
+
 export interface AuthenticityIssue {
-  type: 'template' | 'artificial_language' | 'overly_salesy' | 'buzzwords';
+  type: 'template' | 'artificial_language' | 'overly_salesy' | 'buzzwords' | 'subject_line';
   description: string;
   severity: 'low' | 'medium' | 'high';
   suggestion?: string;
+  fix?: RevisionFix; // targeted rewrite that resolves the issue, when one exists
+  matches?: string[]; // offending text found in the message
+}
+
+export type RevisionFix = 'drop_phrase' | 'split_sentence' | 'dedupe_sentence' | 'soften_cta';
+
+export interface MessageRevision {
+  message: string;
+  appliedFixes: string[]; // one readable entry per rewrite, e.g. 'dropped "act now"'
+}
+
+export type LexiconCategory = 'buzzword' | 'promotional';
+
+export interface LexiconTerm {
+  term: string; // matched case-insensitively on word boundaries
+  category: LexiconCategory; // buzzwords are rewritten by the generator, promotional terms are flagged by the filter
+  replacement?: string; // buzzwords without a replacement are removed
+}
+
+export interface LlmCompletionRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  maxTokens: number;
+  temperature: number;
 }
 
 export interface ProcessingError {
@@ -3,6 +3,8 @@
  */
 
 import { BUZZWORDS, SALES_CLICHES } from '../constants';
+import { FreshnessModel } from '../freshness';
+import { OutreachRequestOptions, SenderProfile, SignalType } from '../types';
 
 /**
  * Counts words in a text string
@@ -24,19 +26,19 @@ export function containsBuzzwords(text: string): boolean {
 }
 
 /**
- * Calculates freshness score based on timestamp
+ * Escapes a literal string for use inside a RegExp
  */
-export function calculateFreshnessScore(timestamp: Date): number {
-  const now = new Date();
-  const daysDiff = Math.floor((now.getTime() - timestamp.getTime()) / (1000 * 60 * 60 * 24));
-  
-  // Future dates get score of 1, past dates decay exponentially
-  if (daysDiff < 0) {
-    return 1; // Future dates are considered maximally fresh
-  }
-  
-  // Fresher signals get higher scores (exponential decay)
-  return Math.max(0, Math.exp(-daysDiff / 30));
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const defaultFreshnessModel = new FreshnessModel();
+
+/**
+ * Calculates freshness score based on timestamp, using the default freshness curves
+ */
+export function calculateFreshnessScore(timestamp: Date, type?: SignalType): number {
+  return defaultFreshnessModel.score(timestamp, type);
 }
 
 /**
@@ -59,4 +61,96 @@ export function generateId(): string {
  */
 export function deepClone<T>(obj: T): T {
   return JSON.parse(JSON.stringify(obj));
-}
\ No newline at end of file
+}
+
+/**
+ * Reads the third processOutreachRequest argument, which callers written before request
+ * options existed pass as a bare sender profile
+ */
+export function toOutreachRequestOptions(
+  optionsOrSenderProfile?: OutreachRequestOptions | SenderProfile | null
+): OutreachRequestOptions {
+  // Callers that passed no sender profile positionally often passed null
+  if (typeof optionsOrSenderProfile !== 'object' || optionsOrSenderProfile === null) {
+    return {};
+  }
+
+  const isSenderProfile = 'senderName' in optionsOrSenderProfile || 'productOneLiner' in optionsOrSenderProfile;
+  return isSenderProfile
+    ? { senderProfile: optionsOrSenderProfile as SenderProfile }
+    : optionsOrSenderProfile as OutreachRequestOptions;
+}
+
+/**
+ * Formats the closing signature for a message
+ * Falls back to a bare sign-off when no sender profile is available
+ */
+export function formatSignature(senderProfile?: SenderProfile): string {
+  if (!senderProfile) {
+    return 'Best regards';
+  }
+
+  const signatureLines = ['Best regards,', senderProfile.senderName];
+  signatureLines.push(
+    senderProfile.senderTitle
+      ? `${senderProfile.senderTitle}, ${senderProfile.companyName}`
+      : senderProfile.companyName
+  );
+
+  return signatureLines.join('\n');
+}
+
+/**
+ * Runs an async worker over items with at most `limit` calls in flight
+ * Results keep the order of the input items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await worker(items[index], index);
+    }
+  });
+
+  await Promise.all(runners);
+  return results;
+}
+
+/**
+ * Exponential backoff before the given retry (1-based), capped at maxMs
+ */
+export function backoffDelay(retry: number, baseMs: number, maxMs: number = 60000): number {
+  return Math.min(maxMs, baseMs * 2 ** Math.max(0, retry - 1));
+}
+
+/**
+ * Serializes a value with sorted object keys, so key order never changes the output
+ * Dates become ISO strings; undefined properties are dropped, as in JSON.stringify
+ */
+export function canonicalJson(value: unknown): string {
+  const canonical = (item: unknown): unknown => {
+    if (item instanceof Date) {
+      return item.toISOString();
+    }
+    if (Array.isArray(item)) {
+      return item.map(canonical);
+    }
+    if (typeof item === 'object' && item !== null) {
+      const record = item as Record<string, unknown>;
+      return Object.keys(record).sort().reduce<Record<string, unknown>>((sorted, key) => {
+        sorted[key] = canonical(record[key]);
+        return sorted;
+      }, {});
+    }
+    return item;
+  };
+
+  return JSON.stringify(canonical(value));
+}
@@ -6,6 +6,7 @@
 
 import {
   IInputValidator,
+  ISignalTypeRegistry,
 } from '../interfaces';
 import {
   ProspectData,
@@ -13,21 +14,43 @@ import {
   ValidationResult,
   ValidationError,
   ValidationWarning,
+  SenderProfile,
+  SignalTypeId,
+  SignalPolarity,
+  OutreachChannel,
 } from '../types';
+import { FreshnessModel } from '../freshness';
+import { SignalTypeRegistry } from '../signal-types';
+import { SignalMetadataExtractor } from '../signal-metadata';
 
 export class InputValidator implements IInputValidator {
   private static readonly MIN_INTENT_SIGNALS = 2;
-  private static readonly MAX_SIGNAL_AGE_DAYS = 365; // 1 year
+  private static readonly SIGNAL_POLARITIES: SignalPolarity[] = ['positive', 'negative', 'disqualifying'];
+
+  private readonly metadataExtractor: SignalMetadataExtractor;
+
+  // Shares the interpreter's freshness model, so "old" means the same thing in both places;
+  // signal types are accepted only once registered, and their metadata schemas are enforced
+  constructor(
+    private freshnessModel: FreshnessModel = new FreshnessModel(),
+    private signalTypes: ISignalTypeRegistry = new SignalTypeRegistry()
+  ) {
+    this.metadataExtractor = new SignalMetadataExtractor(signalTypes);
+  }
 
   /**
    * Validates prospect data and intent signals according to requirements
    * @param prospectData - The prospect information to validate
    * @param intentSignals - Array of intent signals to validate
+   * @param senderProfile - Optional sender/offering profile to validate
+   * @param channel - Optional outreach channel; its contact field must be present
    * @returns ValidationResult with errors and warnings
    */
   validateInput(
     prospectData: ProspectData,
-    intentSignals: IntentSignal[]
+    intentSignals: IntentSignal[],
+    senderProfile?: SenderProfile,
+    channel?: OutreachChannel
   ): ValidationResult {
     const errors: ValidationError[] = [];
     const warnings: ValidationWarning[] = [];
@@ -35,11 +58,22 @@ export class InputValidator implements IInputValidator {
     // Validate prospect data structure and required fields (Requirement 1.1, 1.3)
     this.validateProspectData(prospectData, errors);
 
+    // Freshness curves can differ by vertical
+    const industry = prospectData?.companyContext?.industry;
+
     // Validate intent signals (Requirement 1.1, 1.3)
-    this.validateIntentSignals(intentSignals, errors, warnings);
+    this.validateIntentSignals(intentSignals, errors, warnings, industry);
 
     // Validate timestamps for freshness evaluation (Requirement 1.4)
-    this.validateTimestamps(intentSignals, errors, warnings);
+    this.validateTimestamps(intentSignals, errors, warnings, industry);
+
+    if (senderProfile !== undefined) {
+      this.validateSenderProfile(senderProfile, errors);
+    }
+
+    if (channel !== undefined) {
+      this.validateChannel(channel, prospectData, errors);
+    }
 
     return {
       isValid: errors.length === 0,
@@ -158,13 +192,134 @@ export class InputValidator implements IInputValidator {
     }
   }
 
+  /**
+   * Validates that the contact field the channel delivers to is present
+   */
+  private validateChannel(
+    channel: any,
+    prospectData: any,
+    errors: ValidationError[]
+  ): void {
+    if (!Object.values(OutreachChannel).includes(channel)) {
+      errors.push({
+        field: 'channel',
+        message: `Channel must be one of: ${Object.values(OutreachChannel).join(', ')}`,
+        code: 'INVALID_CHANNEL',
+      });
+      return;
+    }
+
+    const contactDetails = prospectData?.contactDetails || {};
+    const isMissing = (value: unknown) => !value || typeof value !== 'string' || value.trim().length === 0;
+
+    if ((channel === OutreachChannel.LINKEDIN_CONNECTION || channel === OutreachChannel.LINKEDIN_INMAIL)
+      && isMissing(contactDetails.linkedinUrl)) {
+      errors.push({
+        field: 'prospectData.contactDetails.linkedinUrl',
+        message: `LinkedIn URL is required for the ${channel} channel`,
+        code: 'MISSING_LINKEDIN_URL',
+      });
+    }
+
+    if (channel === OutreachChannel.SMS && isMissing(contactDetails.phoneNumber)) {
+      errors.push({
+        field: 'prospectData.contactDetails.phoneNumber',
+        message: 'Phone number is required for the sms channel',
+        code: 'MISSING_PHONE_NUMBER',
+      });
+    }
+  }
+
+  /**
+   * Validates sender/offering profile fields
+   */
+  private validateSenderProfile(
+    senderProfile: any,
+    errors: ValidationError[]
+  ): void {
+    if (!senderProfile || typeof senderProfile !== 'object') {
+      errors.push({
+        field: 'senderProfile',
+        message: 'Sender profile must be an object',
+        code: 'INVALID_SENDER_PROFILE',
+      });
+      return;
+    }
+
+    const requiredFields: Array<{ key: string; label: string; code: string }> = [
+      { key: 'senderName', label: 'Sender name', code: 'MISSING_SENDER_NAME' },
+      { key: 'companyName', label: 'Sender company name', code: 'MISSING_SENDER_COMPANY' },
+      { key: 'productOneLiner', label: 'Product one-liner', code: 'MISSING_PRODUCT_ONE_LINER' },
+    ];
+
+    requiredFields.forEach(({ key, label, code }) => {
+      const value = senderProfile[key];
+      if (!value || typeof value !== 'string' || value.trim().length === 0) {
+        errors.push({
+          field: `senderProfile.${key}`,
+          message: `${label} is required and must be a non-empty string`,
+          code,
+        });
+      }
+    });
+
+    if (senderProfile.senderTitle !== undefined && typeof senderProfile.senderTitle !== 'string') {
+      errors.push({
+        field: 'senderProfile.senderTitle',
+        message: 'Sender title must be a string',
+        code: 'INVALID_SENDER_TITLE',
+      });
+    }
+
+    if (
+      senderProfile.proofPoints !== undefined &&
+      (!Array.isArray(senderProfile.proofPoints) ||
+        senderProfile.proofPoints.some((point: unknown) => typeof point !== 'string' || point.trim().length === 0))
+    ) {
+      errors.push({
+        field: 'senderProfile.proofPoints',
+        message: 'Proof points must be an array of non-empty strings',
+        code: 'INVALID_PROOF_POINTS',
+      });
+    }
+
+    const painPoints = senderProfile.painPointsBySignalType;
+    if (painPoints !== undefined) {
+      if (!painPoints || typeof painPoints !== 'object' || Array.isArray(painPoints)) {
+        errors.push({
+          field: 'senderProfile.painPointsBySignalType',
+          message: 'Pain points must be an object keyed by signal type',
+          code: 'INVALID_PAIN_POINTS',
+        });
+        return;
+      }
+
+      Object.entries(painPoints).forEach(([signalType, painPoint]) => {
+        if (!this.signalTypes.has(signalType)) {
+          errors.push({
+            field: `senderProfile.painPointsBySignalType.${signalType}`,
+            message: `Unknown signal type: ${signalType}`,
+            code: 'INVALID_PAIN_POINTS',
+          });
+        } else if (typeof painPoint !== 'string' || painPoint.trim().length === 0) {
+          errors.push({
+            field: `senderProfile.painPointsBySignalType.${signalType}`,
+            message: 'Pain point must be a non-empty string',
+            code: 'INVALID_PAIN_POINTS',
+          });
+        }
+      });
+    }
+  }
+
   /**
    * Validates intent signals array and individual signals
    */
   private validateIntentSignals(
     intentSignals: IntentSignal[],
     errors: ValidationError[],
-    warnings: ValidationWarning[]
+    warnings: ValidationWarning[],
+    industry?: string
   ): void {
     if (!Array.isArray(intentSignals)) {
       errors.push({
@@ -196,7 +351,7 @@ export class InputValidator implements IInputValidator {
     );
     
     const weakSignals = validSignals.filter(signal => 
-      signal.relevanceScore < 0.3 || this.isSignalOld(signal.timestamp)
+      signal.relevanceScore < 0.3 || this.isSignalOld(new Date(signal.timestamp), signal.type, industry)
     );
     
     if (weakSignals.length > 0) {
@@ -235,6 +390,12 @@ export class InputValidator implements IInputValidator {
         message: 'Signal type is required and must be a string',
         code: 'MISSING_SIGNAL_TYPE',
       });
+    } else if (!this.signalTypes.has(signal.type)) {
+      errors.push({
+        field: `${fieldPrefix}.type`,
+        message: `Unknown signal type: ${signal.type}`,
+        code: 'UNKNOWN_SIGNAL_TYPE',
+      });
     }
 
     if (!signal.description || typeof signal.description !== 'string' || signal.description.trim().length === 0) {
@@ -267,6 +428,30 @@ export class InputValidator implements IInputValidator {
         impact: 'medium',
       });
     }
+
+    if (signal.polarity !== undefined && !InputValidator.SIGNAL_POLARITIES.includes(signal.polarity)) {
+      errors.push({
+        field: `${fieldPrefix}.polarity`,
+        message: `Signal polarity must be one of ${InputValidator.SIGNAL_POLARITIES.join(', ')}`,
+        code: 'INVALID_SIGNAL_POLARITY',
+      });
+    }
+
+    if (signal.unverified !== undefined && typeof signal.unverified !== 'boolean') {
+      errors.push({
+        field: `${fieldPrefix}.unverified`,
+        message: 'Signal unverified flag must be a boolean',
+        code: 'INVALID_SIGNAL_UNVERIFIED',
+      });
+    }
+
+    this.metadataExtractor.validate(signal).forEach(problem => {
+      errors.push({
+        field: `${fieldPrefix}.${problem.field}`,
+        message: problem.message,
+        code: 'INVALID_SIGNAL_METADATA',
+      });
+    });
   }
 
   /**
@@ -275,7 +460,8 @@ export class InputValidator implements IInputValidator {
   private validateTimestamps(
     intentSignals: IntentSignal[],
     errors: ValidationError[],
-    warnings: ValidationWarning[]
+    warnings: ValidationWarning[],
+    industry?: string
   ): void {
     intentSignals.forEach((signal, index) => {
       const fieldPrefix = `intentSignals[${index}]`;
@@ -312,7 +498,7 @@ export class InputValidator implements IInputValidator {
       }
 
       // Warn about old signals
-      if (this.isSignalOld(timestamp)) {
+      if (this.isSignalOld(timestamp, signal.type, industry)) {
         warnings.push({
           field: `${fieldPrefix}.timestamp`,
           message: 'Signal is older than recommended for optimal freshness',
@@ -323,12 +509,10 @@ export class InputValidator implements IInputValidator {
   }
 
   /**
-   * Checks if a signal is considered old based on timestamp
+   * Checks if a signal is considered old using the freshness curve for its type
    */
-  private isSignalOld(timestamp: Date): boolean {
-    const now = new Date();
-    const ageInDays = (now.getTime() - timestamp.getTime()) / (1000 * 60 * 60 * 24);
-    return ageInDays > InputValidator.MAX_SIGNAL_AGE_DAYS;
+  private isSignalOld(timestamp: Date, type: SignalTypeId, industry?: string): boolean {
+    return this.freshnessModel.isStale(timestamp, type, industry);
   }
 
   /**
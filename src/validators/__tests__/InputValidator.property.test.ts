@@ -6,7 +6,7 @@
 
 import * as fc from 'fast-check';
 import { InputValidator } from '../InputValidator';
-import { ProspectData, IntentSignal, SignalType, CompanySize } from '../../types';
+import { ProspectData, IntentSignal, SignalType, CompanySize, OutreachChannel } from '../../types';
 
 // Custom generators for non-whitespace strings
 const nonEmptyString = () => fc.string({ minLength: 1 }).filter(s => s.trim().length > 0);
@@ -602,4 +602,135 @@ describe('InputValidator Property Tests', () => {
       );
     });
   });
-});
\ No newline at end of file
+
+  /**
+   * Sender profile validation: optional, but complete when supplied
+   */
+  describe('Sender Profile Validation', () => {
+    const prospectData: ProspectData = {
+      role: 'VP of Engineering',
+      companyContext: { name: 'TechCorp', industry: 'Software', size: CompanySize.MEDIUM },
+      contactDetails: { name: 'Sarah Johnson', email: 'sarah@techcorp.com' },
+    };
+    const intentSignals: IntentSignal[] = [
+      {
+        type: SignalType.FUNDING_EVENT,
+        description: 'Raised Series B funding',
+        timestamp: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000),
+        relevanceScore: 0.9,
+        source: 'TechCrunch',
+      },
+      {
+        type: SignalType.COMPANY_GROWTH,
+        description: 'Announced hiring growth',
+        timestamp: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000),
+        relevanceScore: 0.8,
+        source: 'LinkedIn',
+      },
+    ];
+
+    it('should accept a complete sender profile', () => {
+      const result = validator.validateInput(prospectData, intentSignals, {
+        senderName: 'Maya Brooks',
+        companyName: 'Buildwise',
+        productOneLiner: 'help engineering teams onboard new hires faster',
+        proofPoints: ['Northwind cut ramp-up time by a third'],
+        painPointsBySignalType: { [SignalType.FUNDING_EVENT]: 'onboarding new engineers quickly' },
+      });
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should reject sender profiles missing required fields or with unknown signal types', () => {
+      fc.assert(
+        fc.property(
+          fc.constantFrom('senderName', 'companyName', 'productOneLiner'),
+          (missingField) => {
+            const senderProfile: any = {
+              senderName: 'Maya Brooks',
+              companyName: 'Buildwise',
+              productOneLiner: 'help engineering teams onboard new hires faster',
+              painPointsBySignalType: { not_a_signal: 'something' },
+            };
+            delete senderProfile[missingField];
+
+            const result = validator.validateInput(prospectData, intentSignals, senderProfile);
+
+            expect(result.isValid).toBe(false);
+            expect(result.errors.some(e => e.field === `senderProfile.${missingField}`)).toBe(true);
+            expect(result.errors.some(e => e.code === 'INVALID_PAIN_POINTS')).toBe(true);
+          }
+        ),
+        { numRuns: 10 }
+      );
+    });
+  });
+
+  describe('Channel Validation', () => {
+    const intentSignals: IntentSignal[] = [
+      {
+        type: SignalType.FUNDING_EVENT,
+        description: 'Raised Series B funding',
+        timestamp: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000),
+        relevanceScore: 0.9,
+        source: 'TechCrunch',
+      },
+      {
+        type: SignalType.COMPANY_GROWTH,
+        description: 'Announced hiring growth',
+        timestamp: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000),
+        relevanceScore: 0.8,
+        source: 'LinkedIn',
+      },
+    ];
+    const prospectWith = (contact: Partial<ProspectData['contactDetails']>): ProspectData => ({
+      role: 'VP of Engineering',
+      companyContext: { name: 'TechCorp', industry: 'Software', size: CompanySize.MEDIUM },
+      contactDetails: { name: 'Sarah Johnson', email: 'sarah@techcorp.com', ...contact },
+    });
+
+    it('should reject a channel whose contact field is missing', () => {
+      fc.assert(
+        fc.property(
+          fc.constantFrom(
+            { channel: OutreachChannel.LINKEDIN_CONNECTION, code: 'MISSING_LINKEDIN_URL' },
+            { channel: OutreachChannel.LINKEDIN_INMAIL, code: 'MISSING_LINKEDIN_URL' },
+            { channel: OutreachChannel.SMS, code: 'MISSING_PHONE_NUMBER' }
+          ),
+          fc.constantFrom(undefined, '', '   '),
+          ({ channel, code }, emptyValue) => {
+            const result = validator.validateInput(
+              prospectWith({ linkedinUrl: emptyValue, phoneNumber: emptyValue }),
+              intentSignals,
+              undefined,
+              channel
+            );
+
+            expect(result.isValid).toBe(false);
+            expect(result.errors.map(e => e.code)).toEqual([code]);
+          }
+        ),
+        { numRuns: 20 }
+      );
+    });
+
+    it('should accept channels whose contact field is present', () => {
+      const prospectData = prospectWith({
+        linkedinUrl: 'https://www.linkedin.com/in/sarahjohnson',
+        phoneNumber: '+1 555 010 2030',
+      });
+
+      Object.values(OutreachChannel).forEach(channel => {
+        expect(validator.validateInput(prospectData, intentSignals, undefined, channel).isValid).toBe(true);
+      });
+      // Email needs no extra contact field
+      expect(validator.validateInput(prospectWith({}), intentSignals, undefined, OutreachChannel.EMAIL).isValid).toBe(true);
+    });
+
+    it('should reject unknown channels', () => {
+      const result = validator.validateInput(prospectWith({}), intentSignals, undefined, 'fax' as OutreachChannel);
+
+      expect(result.errors.map(e => e.code)).toEqual(['INVALID_CHANNEL']);
+    });
+  });
+});